@@ -3,7 +3,7 @@
  */
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { Settings } from 'lucide-react';
+import { Settings, Activity, Repeat, TrendingDown, Bug, Grid3x3, GitCompare, Wand2, Cpu } from 'lucide-react';
 import {
   GatePalette,
   CircuitCanvas,
@@ -15,12 +15,41 @@ import {
   PresetCircuits,
   PatternPanel,
   HardwareSettingsPanel,
+  NoiseModelPanel,
+  QasmImportDialog,
+  RepeaterEditor,
+  RepeaterSettingsPanel,
+  ParameterPanel,
+  OptimizerPanel,
+  BlochSpherePanel,
+  DebuggerPanel,
+  UnitaryPanel,
+  EquivalencePanel,
+  SimplifyPanel,
+  TranspilePanel,
+  MetricsPanel,
+  CustomGateEditor,
 } from './components';
 import { useCircuitState } from './hooks/useCircuitState';
 import { useQuantumSimulator } from './hooks/useQuantumSimulator';
 import { usePatterns } from './hooks/usePatterns';
-import { GateInstance, SavedCircuit } from './types/circuit';
+import { useStepDebugger } from './hooks/useStepDebugger';
+import { useCustomGates } from './hooks/useCustomGates';
+import {
+  ClassicalCondition,
+  CustomGateDefinition,
+  GateInstance,
+  RepeaterBlock,
+  SavedCircuit,
+  SimulationEngine,
+} from './types/circuit';
 import { GATE_DEFINITIONS } from './utils/gateDefinitions';
+import { findCustomGate, resolveGateDefinition } from './utils/customGates';
+import { findComposite, getCollapseBlocker } from './utils/composites';
+import { getNumClbits } from './utils/classicalBits';
+import { getGatesBoundingBox } from './utils/repeaters';
+import { exportToQasm, QasmVersion } from './utils/qasmExporter';
+import { getMaxQubits, selectBackend } from './simulator';
 import './styles/App.css';
 
 // Interface for clipboard data
@@ -30,25 +59,58 @@ interface ClipboardData {
   minQubit: number;
 }
 
+// Repeater block open in the editor (id is null for a new block)
+interface RepeaterDraft {
+  id: string | null;
+  block: Omit<RepeaterBlock, 'id'>;
+}
+
+// Custom gate open in the editor (definition is missing for a new gate)
+interface CustomGateDraft {
+  definition?: CustomGateDefinition;
+}
+
 export const App: React.FC = () => {
   const {
     circuit,
     numColumns,
     addGate,
     addGates,
+    addCustomGate,
+    updateCustomGate,
+    addCompositeGate,
+    collapseGates,
+    expandCompositeGate,
+    setGateInverse,
     removeGate,
     removeGates,
     moveGate,
     updateGateTarget,
     updateGateControl,
+    addGateControl,
+    removeGateControl,
+    setGateControlOpen,
     updateGateAngle,
     updateGateAngles,
+    updateGateAngleExpression,
+    updateGateAngleExpressions,
+    updateGateClbit,
+    updateGateCondition,
     duplicateGates,
+    replaceGates,
     setNumQubits,
+    setNumClbits,
     clearCircuit,
     loadCircuit,
     saveCircuit,
     setCircuitName,
+    setNoiseModel,
+    addRepeater,
+    updateRepeater,
+    removeRepeater,
+    addParameter,
+    setParameterValues,
+    removeParameter,
     isCellOccupied,
     undo,
     redo,
@@ -59,11 +121,13 @@ export const App: React.FC = () => {
   const {
     isReady,
     isExecuting,
+    progress,
     results,
     error,
     hardwareInfo,
     refreshHardwareInfo,
     executeCircuit,
+    cancelExecution,
     getStatevector,
   } = useQuantumSimulator();
 
@@ -77,21 +141,56 @@ export const App: React.FC = () => {
     applyPattern,
   } = usePatterns();
 
+  const {
+    customGates,
+    saveCustomGate,
+    deleteCustomGate,
+    importCustomGates,
+  } = useCustomGates();
+
   const [selectedGate, setSelectedGate] = useState<string | null>(null);
   const [selectedInstances, setSelectedInstances] = useState<Set<string>>(new Set());
   const [editingGate, setEditingGate] = useState<GateInstance | null>(null);
+  const [placePatternAsBlock, setPlacePatternAsBlock] = useState(false);
   const [shots, setShots] = useState(1024);
+  const [engine, setEngine] = useState<SimulationEngine>('statevector');
   const [statevector, setStatevector] = useState<{ real: number[]; imag: number[] } | null>(null);
+  const [observables, setObservables] = useState<string[]>([]);
+  const [showDebugger, setShowDebugger] = useState(false);
+  const [showUnitary, setShowUnitary] = useState(false);
+  const [showEquivalence, setShowEquivalence] = useState(false);
+  const [showSimplify, setShowSimplify] = useState(false);
+  const [showTranspile, setShowTranspile] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [pendingPreset, setPendingPreset] = useState<SavedCircuit | null>(null);
   const [showHardwareSettings, setShowHardwareSettings] = useState(false);
+  const [showNoiseModel, setShowNoiseModel] = useState(false);
+  const [showQasmImport, setShowQasmImport] = useState(false);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [selectedRepeaterId, setSelectedRepeaterId] = useState<string | null>(null);
+  const [repeaterDraft, setRepeaterDraft] = useState<RepeaterDraft | null>(null);
+  const [customGateDraft, setCustomGateDraft] = useState<CustomGateDraft | null>(null);
   const clipboardRef = useRef<ClipboardData | null>(null);
 
+  // Last column holding a gate; the debugger cursor runs from -1 to here
+  const lastColumn = useMemo(
+    () => circuit.gates.reduce((max, gate) => Math.max(max, gate.column), -1),
+    [circuit.gates]
+  );
+  const stepDebugger = useStepDebugger(lastColumn);
+  const { pause: pauseDebugger, stepBack: stepDebuggerBack, stepForward: stepDebuggerForward } = stepDebugger;
+
   // Get selected gates for pattern creation
   const selectedGates = useMemo(() => {
     return circuit.gates.filter(g => selectedInstances.has(g.id));
   }, [circuit.gates, selectedInstances]);
 
+  // Why the selection cannot be saved as a block in place, if it cannot
+  const collapseBlocker = useMemo(
+    () => getCollapseBlocker(circuit, selectedInstances),
+    [circuit, selectedInstances]
+  );
+
   // Get the selected gate instance (only when single selection)
   const selectedGateInstance = useMemo(() => {
     if (selectedInstances.size !== 1) return null;
@@ -99,6 +198,11 @@ export const App: React.FC = () => {
     return circuit.gates.find(g => g.id === instanceId) || null;
   }, [selectedInstances, circuit.gates]);
 
+  // Get the selected repeater block
+  const selectedRepeater = useMemo(() => {
+    return circuit.repeaters?.find(r => r.id === selectedRepeaterId) || null;
+  }, [circuit.repeaters, selectedRepeaterId]);
+
   // Get first selected instance ID for single-item operations
   const selectedInstance = useMemo(() => {
     if (selectedInstances.size === 0) return null;
@@ -130,14 +234,48 @@ export const App: React.FC = () => {
       setSelectedInstances(new Set([instanceId]));
     }
     setSelectedGate(null);
+    setSelectedRepeaterId(null);
   }, []);
 
   // Handle multi-selection (for box select)
   const handleMultiSelect = useCallback((instanceIds: string[]) => {
     setSelectedInstances(new Set(instanceIds));
     setSelectedGate(null);
+    setSelectedRepeaterId(null);
+  }, []);
+
+  // Handle repeater selection from its badge on the canvas
+  const handleRepeaterSelect = useCallback((repeaterId: string) => {
+    setSelectedRepeaterId(repeaterId);
+    setSelectedInstances(new Set());
+    setSelectedGate(null);
   }, []);
 
+  // Open the repeater editor for a block around the selected gates
+  const handleRepeatSelected = useCallback(() => {
+    const box = getGatesBoundingBox(selectedGates);
+    if (!box) return;
+    setRepeaterDraft({ id: null, block: { ...box, repetitions: 2 } });
+  }, [selectedGates]);
+
+  // Save the repeater being edited
+  const handleRepeaterSave = useCallback((block: Omit<RepeaterBlock, 'id'>) => {
+    if (!repeaterDraft) return null;
+    if (repeaterDraft.id === null) {
+      const validationError = addRepeater(block);
+      if (!validationError) setSelectedInstances(new Set());
+      return validationError;
+    }
+    return updateRepeater(repeaterDraft.id, block);
+  }, [repeaterDraft, addRepeater, updateRepeater]);
+
+  // Remove the selected repeater (its gates stay in place)
+  const handleRepeaterRemove = useCallback((repeaterId: string) => {
+    removeRepeater(repeaterId);
+    setSelectedRepeaterId(null);
+    setRepeaterDraft(null);
+  }, [removeRepeater]);
+
   // Handle pattern selection
   const handlePatternSelect = useCallback((patternId: string | null) => {
     selectPattern(patternId);
@@ -145,11 +283,17 @@ export const App: React.FC = () => {
     setSelectedInstances(new Set());
   }, [selectPattern]);
 
-  // Handle creating a pattern from selected gates
-  const handleCreatePattern = useCallback((gates: GateInstance[], name: string) => {
-    createPatternFromGates(gates, name);
+  // Handle creating a pattern from selected gates, optionally replacing them by a block of it
+  const handleCreatePattern = useCallback((gates: GateInstance[], name: string, asBlock: boolean) => {
+    const pattern = createPatternFromGates(gates, name, circuit.composites);
+    if (pattern && asBlock) {
+      const validationError = collapseGates(gates.map(g => g.id), pattern);
+      if (validationError) {
+        console.warn('Block creation error:', validationError.message);
+      }
+    }
     setSelectedInstances(new Set());
-  }, [createPatternFromGates]);
+  }, [createPatternFromGates, circuit.composites, collapseGates]);
 
   // Handle gate add with validation (also handles pattern placement)
   const handleGateAdd = useCallback((
@@ -161,6 +305,13 @@ export const App: React.FC = () => {
   ) => {
     // Check if a pattern is selected
     if (selectedPattern) {
+      if (placePatternAsBlock) {
+        const validationError = addCompositeGate(selectedPattern, target, column, customGates);
+        if (validationError) {
+          console.warn('Block placement error:', validationError.message);
+        }
+        return;
+      }
       const newGates = applyPattern(
         selectedPattern,
         target,
@@ -169,13 +320,23 @@ export const App: React.FC = () => {
         isCellOccupied
       );
       if (newGates && newGates.length > 0) {
-        addGates(newGates);
+        addGates(newGates, customGates, selectedPattern.composites ?? []);
         // Optionally deselect pattern after placement
         // selectPattern(null);
       }
       return;
     }
 
+    // Custom gates come from the library and are copied into the circuit
+    const customGate = findCustomGate(customGates, gateId);
+    if (customGate) {
+      const validationError = addCustomGate(customGate, target, column);
+      if (validationError) {
+        console.warn('Gate placement error:', validationError.message);
+      }
+      return;
+    }
+
     const def = GATE_DEFINITIONS[gateId];
     const angle = def?.hasAngle ? Math.PI : undefined;
     const angles = def?.hasMultipleAngles ? [Math.PI, 0, 0] : undefined;
@@ -183,29 +344,50 @@ export const App: React.FC = () => {
     if (validationError) {
       console.warn('Gate placement error:', validationError.message);
     }
-  }, [selectedPattern, applyPattern, circuit.numQubits, isCellOccupied, addGates, addGate]);
+  }, [selectedPattern, placePatternAsBlock, addCompositeGate, applyPattern, circuit.numQubits, isCellOccupied, addGates, customGates, addCustomGate, addGate]);
 
   // Handle gate edit (for rotation gates - opens angle editor modal)
   const handleGateEdit = useCallback((instanceId: string) => {
     const gate = circuit.gates.find(g => g.id === instanceId);
     if (gate) {
-      const def = GATE_DEFINITIONS[gate.gateId];
+      const def = resolveGateDefinition(gate.gateId, circuit.customGates);
       if (def?.hasAngle || def?.hasMultipleAngles) {
         setEditingGate(gate);
       }
     }
-  }, [circuit.gates]);
-
-  // Handle angle save from modal
-  const handleAngleSave = useCallback((angle?: number, angles?: number[]) => {
-    if (editingGate) {
-      if (angles !== undefined) {
-        updateGateAngles(editingGate.id, angles);
-      } else if (angle !== undefined) {
-        updateGateAngle(editingGate.id, angle);
-      }
+  }, [circuit.gates, circuit.customGates]);
+
+  // Save a custom gate from the editor; an edited gate is also updated in the circuit
+  const handleCustomGateSave = useCallback((definition: CustomGateDefinition) => {
+    const isEdit = customGateDraft?.definition !== undefined;
+    const error = saveCustomGate(definition, isEdit);
+    if (!error && isEdit) updateCustomGate(definition);
+    return error;
+  }, [customGateDraft, saveCustomGate, updateCustomGate]);
+
+  // Remove a custom gate from the library and the palette selection
+  const handleCustomGateDelete = useCallback((name: string) => {
+    deleteCustomGate(name);
+    setSelectedGate(prev => (prev === name ? null : prev));
+  }, [deleteCustomGate]);
+
+  // Load a saved circuit, adding its custom gates to the library
+  const handleCircuitLoad = useCallback((saved: SavedCircuit) => {
+    loadCircuit(saved);
+    if (saved.customGates) importCustomGates(saved.customGates);
+  }, [loadCircuit, importCustomGates]);
+
+  // Handle angle save from modal (angles are expressions)
+  const handleAngleSave = useCallback((expression?: string, expressions?: string[]) => {
+    if (!editingGate) return null;
+    if (expressions !== undefined) {
+      return updateGateAngleExpressions(editingGate.id, expressions);
+    }
+    if (expression !== undefined) {
+      return updateGateAngleExpression(editingGate.id, expression);
     }
-  }, [editingGate, updateGateAngle, updateGateAngles]);
+    return null;
+  }, [editingGate, updateGateAngleExpression, updateGateAngleExpressions]);
 
   // Handle target update from settings panel with validation
   const handleUpdateTarget = useCallback((target: number) => {
@@ -227,6 +409,49 @@ export const App: React.FC = () => {
     }
   }, [selectedInstance, updateGateControl]);
 
+  // Handle control changes from settings panel
+  const handleAddControl = useCallback((qubit: number) => {
+    if (selectedInstance) {
+      const error = addGateControl(selectedInstance, qubit);
+      if (error) {
+        console.warn('Add control error:', error.message);
+      }
+    }
+  }, [selectedInstance, addGateControl]);
+
+  const handleRemoveControl = useCallback((qubit: number) => {
+    if (selectedInstance) {
+      removeGateControl(selectedInstance, qubit);
+    }
+  }, [selectedInstance, removeGateControl]);
+
+  const handleSetControlOpen = useCallback((qubit: number, open: boolean) => {
+    if (selectedInstance) {
+      setGateControlOpen(selectedInstance, qubit, open);
+    }
+  }, [selectedInstance, setGateControlOpen]);
+
+  // Handle dagger and expansion of custom and composite gates
+  const handleSetInverse = useCallback((inverse: boolean) => {
+    if (selectedInstance) {
+      const error = setGateInverse(selectedInstance, inverse);
+      if (error) {
+        console.warn('Inverse error:', error.message);
+      }
+    }
+  }, [selectedInstance, setGateInverse]);
+
+  const handleExpandComposite = useCallback(() => {
+    if (selectedInstance) {
+      const error = expandCompositeGate(selectedInstance);
+      if (error) {
+        console.warn('Expand error:', error.message);
+        return;
+      }
+      setSelectedInstances(new Set());
+    }
+  }, [selectedInstance, expandCompositeGate]);
+
   // Handle angle update from settings panel
   const handleUpdateAngle = useCallback((angle: number) => {
     if (selectedInstance) {
@@ -241,6 +466,20 @@ export const App: React.FC = () => {
     }
   }, [selectedInstance, updateGateAngles]);
 
+  // Handle measurement bit update from settings panel
+  const handleUpdateClbit = useCallback((clbit: number) => {
+    if (selectedInstance) {
+      updateGateClbit(selectedInstance, clbit);
+    }
+  }, [selectedInstance, updateGateClbit]);
+
+  // Handle classical condition update from settings panel
+  const handleUpdateCondition = useCallback((condition: ClassicalCondition | undefined) => {
+    if (selectedInstance) {
+      updateGateCondition(selectedInstance, condition);
+    }
+  }, [selectedInstance, updateGateCondition]);
+
   // Handle remove from settings panel (removes all selected)
   const handleRemoveSelected = useCallback(() => {
     if (selectedInstances.size > 0) {
@@ -249,15 +488,28 @@ export const App: React.FC = () => {
     }
   }, [selectedInstances, removeGates]);
 
+  // Simulator the circuit runs on: the stabilizer backend for Clifford circuits
+  const backend = useMemo(() => selectBackend(circuit, engine), [circuit, engine]);
+
+  // Largest register the backend can simulate in this device's memory
+  const deviceMemory = hardwareInfo?.deviceMemory ?? null;
+  const maxQubits = useMemo(() => getMaxQubits(backend, deviceMemory), [backend, deviceMemory]);
+
   // Handle execute
   const handleExecute = useCallback(async () => {
     if (!isReady) return;
-    await executeCircuit(circuit, shots);
+    const executionResults = await executeCircuit(circuit, shots, engine, observables);
+    if (!executionResults) return;
 
-    // Also get statevector for display
+    // Also get statevector for display (null for registers too wide to show)
     const sv = await getStatevector(circuit);
     setStatevector(sv);
-  }, [isReady, executeCircuit, getStatevector, circuit, shots]);
+  }, [isReady, executeCircuit, getStatevector, circuit, shots, engine, observables]);
+
+  // Handle OpenQASM export
+  const handleExportQasm = useCallback((version: QasmVersion) => {
+    return exportToQasm(circuit, { version });
+  }, [circuit]);
 
   // Handle clear button click - show confirmation
   const handleClearClick = useCallback(() => {
@@ -366,7 +618,7 @@ export const App: React.FC = () => {
       }
 
       // Don't handle if a modal is open
-      if (editingGate || showClearConfirm) {
+      if (editingGate || showClearConfirm || showQasmImport || repeaterDraft || customGateDraft || showOptimizer || showUnitary || showEquivalence || showSimplify || showTranspile) {
         return;
       }
 
@@ -379,9 +631,21 @@ export const App: React.FC = () => {
         }
       }
 
+      // Arrow keys - step the debugger
+      if (showDebugger && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        e.preventDefault();
+        pauseDebugger();
+        if (e.key === 'ArrowLeft') {
+          stepDebuggerBack();
+        } else {
+          stepDebuggerForward();
+        }
+      }
+
       // Escape - deselect
       if (e.key === 'Escape') {
         setSelectedInstances(new Set());
+        setSelectedRepeaterId(null);
         setSelectedGate(null);
         selectPattern(null);
       }
@@ -465,6 +729,18 @@ export const App: React.FC = () => {
     selectedGate,
     editingGate,
     showClearConfirm,
+    showQasmImport,
+    repeaterDraft,
+    customGateDraft,
+    showOptimizer,
+    showUnitary,
+    showEquivalence,
+    showSimplify,
+    showTranspile,
+    showDebugger,
+    pauseDebugger,
+    stepDebuggerBack,
+    stepDebuggerForward,
     removeGates,
     handleCopy,
     handlePaste,
@@ -488,6 +764,58 @@ export const App: React.FC = () => {
           <span className={`backend-badge ${isReady ? 'ready' : 'loading'}`}>
             {isReady ? 'JS Engine Ready' : 'Initializing...'}
           </span>
+          <button
+            className={`header-settings-button ${circuit.noiseModel?.enabled ? 'active' : ''}`}
+            onClick={() => setShowNoiseModel(true)}
+            title="Noise Model"
+          >
+            <Activity size={18} />
+          </button>
+          <button
+            className={`header-settings-button ${showDebugger ? 'active' : ''}`}
+            onClick={() => {
+              stepDebugger.pause();
+              setShowDebugger(prev => !prev);
+            }}
+            title="Step-through Debugger"
+          >
+            <Bug size={18} />
+          </button>
+          <button
+            className="header-settings-button"
+            onClick={() => setShowSimplify(true)}
+            title="Optimize Circuit"
+          >
+            <Wand2 size={18} />
+          </button>
+          <button
+            className="header-settings-button"
+            onClick={() => setShowTranspile(true)}
+            title="Transpile"
+          >
+            <Cpu size={18} />
+          </button>
+          <button
+            className="header-settings-button"
+            onClick={() => setShowUnitary(true)}
+            title="Unitary Matrix"
+          >
+            <Grid3x3 size={18} />
+          </button>
+          <button
+            className="header-settings-button"
+            onClick={() => setShowEquivalence(true)}
+            title="Circuit Equivalence"
+          >
+            <GitCompare size={18} />
+          </button>
+          <button
+            className="header-settings-button"
+            onClick={() => setShowOptimizer(true)}
+            title="Variational Optimizer"
+          >
+            <TrendingDown size={18} />
+          </button>
           <button
             className="header-settings-button"
             onClick={() => setShowHardwareSettings(true)}
@@ -503,16 +831,30 @@ export const App: React.FC = () => {
           <GatePalette
             onGateSelect={handleGateSelect}
             selectedGate={selectedGate}
+            customGates={customGates}
+            onNewCustomGate={() => setCustomGateDraft({})}
+            onEditCustomGate={(name) => setCustomGateDraft({ definition: findCustomGate(customGates, name) })}
+            onDeleteCustomGate={handleCustomGateDelete}
           />
           <PatternPanel
             patterns={patterns}
             selectedPattern={selectedPattern}
             selectedGates={selectedGates}
+            placeAsBlock={placePatternAsBlock}
+            collapseBlocker={collapseBlocker}
             onSelectPattern={handlePatternSelect}
+            onPlaceAsBlockChange={setPlacePatternAsBlock}
             onCreatePattern={handleCreatePattern}
             onDeletePattern={deletePattern}
             onRenamePattern={renamePattern}
           />
+          <ParameterPanel
+            parameters={circuit.parameters ?? {}}
+            gates={circuit.gates}
+            onAddParameter={addParameter}
+            onChangeValues={setParameterValues}
+            onRemoveParameter={removeParameter}
+          />
           <PresetCircuits onLoadPreset={handlePresetLoad} />
           <div className="keyboard-hints">
             <h4>Keyboard Shortcuts</h4>
@@ -525,6 +867,7 @@ export const App: React.FC = () => {
             <div className="hint"><kbd>Ctrl+Y</kbd> Redo</div>
             <div className="hint"><kbd>Ctrl+S</kbd> Save circuit</div>
             <div className="hint"><kbd>Enter</kbd> Run circuit</div>
+            <div className="hint"><kbd>← →</kbd> Step debugger</div>
             <div className="hint"><kbd>Esc</kbd> Deselect</div>
           </div>
         </aside>
@@ -532,19 +875,28 @@ export const App: React.FC = () => {
         <div className="main-content">
           <ControlPanel
             numQubits={circuit.numQubits}
+            maxQubits={maxQubits}
+            numClbits={getNumClbits(circuit)}
             shots={shots}
+            engine={engine}
             isExecuting={isExecuting}
+            progress={progress}
             canUndo={canUndo}
             canRedo={canRedo}
             circuitName={circuit.name}
             onExecute={handleExecute}
+            onCancel={cancelExecution}
             onClear={handleClearClick}
             onShotsChange={setShots}
+            onEngineChange={setEngine}
             onNumQubitsChange={setNumQubits}
+            onNumClbitsChange={setNumClbits}
             onUndo={undo}
             onRedo={redo}
             onSave={saveCircuit}
-            onLoad={loadCircuit}
+            onExportQasm={handleExportQasm}
+            onLoad={handleCircuitLoad}
+            onImportQasm={() => setShowQasmImport(true)}
             onNameChange={setCircuitName}
           />
 
@@ -554,24 +906,62 @@ export const App: React.FC = () => {
               numColumns={numColumns}
               selectedGate={selectedGate}
               selectedPattern={selectedPattern}
+              placePatternAsBlock={placePatternAsBlock}
               selectedInstances={selectedInstances}
+              customGates={customGates}
               onGateAdd={handleGateAdd}
               onGateMove={moveGate}
               onGateSelect={handleInstanceSelect}
               onMultiSelect={handleMultiSelect}
               onGateRemove={removeGate}
               onGateEdit={handleGateEdit}
+              selectedRepeaterId={selectedRepeaterId}
+              onRepeaterSelect={handleRepeaterSelect}
+              debugCursor={showDebugger ? stepDebugger.cursor : undefined}
+              breakpoints={stepDebugger.breakpoints}
+              onDebugSeek={stepDebugger.seek}
+              onToggleBreakpoint={stepDebugger.toggleBreakpoint}
             />
 
+            {showDebugger && (
+              <DebuggerPanel
+                circuit={circuit}
+                cursor={stepDebugger.cursor}
+                lastColumn={lastColumn}
+                isPlaying={stepDebugger.isPlaying}
+                breakpoints={stepDebugger.breakpoints}
+                onSeek={stepDebugger.seek}
+                onStepForward={stepDebugger.stepForward}
+                onStepBack={stepDebugger.stepBack}
+                onPlay={stepDebugger.play}
+                onPause={stepDebugger.pause}
+                onClearBreakpoints={stepDebugger.clearBreakpoints}
+                onClose={() => {
+                  stepDebugger.pause();
+                  setShowDebugger(false);
+                }}
+              />
+            )}
+
             {/* Gate Settings Panel - shows when a single gate is selected */}
             {selectedGateInstance && (
               <GateSettingsPanel
                 gate={selectedGateInstance}
+                customGate={findCustomGate(circuit.customGates, selectedGateInstance.gateId)}
+                composite={findComposite(circuit.composites, selectedGateInstance.gateId)}
                 numQubits={circuit.numQubits}
+                numClbits={getNumClbits(circuit)}
                 onUpdateTarget={handleUpdateTarget}
                 onUpdateControl={handleUpdateControl}
                 onUpdateAngle={handleUpdateAngle}
                 onUpdateAngles={handleUpdateAngles}
+                onUpdateClbit={handleUpdateClbit}
+                onUpdateCondition={handleUpdateCondition}
+                onAddControl={handleAddControl}
+                onRemoveControl={handleRemoveControl}
+                onSetControlOpen={handleSetControlOpen}
+                onSetInverse={handleSetInverse}
+                onExpand={handleExpandComposite}
                 onRemove={handleRemoveSelected}
                 onClose={() => setSelectedInstances(new Set())}
               />
@@ -587,12 +977,27 @@ export const App: React.FC = () => {
                   <button onClick={handleCopy} className="action-btn copy-btn">
                     Copy (Ctrl+C)
                   </button>
+                  <button onClick={handleRepeatSelected} className="add-repeater-button">
+                    <Repeat size={14} />
+                    Repeat
+                  </button>
                   <button onClick={handleRemoveSelected} className="action-btn delete-btn">
                     Delete (Del)
                   </button>
                 </div>
               </div>
             )}
+
+            {/* Repeater Settings Panel - shows when a repeat block is selected */}
+            {selectedRepeater && (
+              <RepeaterSettingsPanel
+                repeater={selectedRepeater}
+                gates={circuit.gates}
+                onEdit={() => setRepeaterDraft({ id: selectedRepeater.id, block: selectedRepeater })}
+                onRemove={() => handleRepeaterRemove(selectedRepeater.id)}
+                onClose={() => setSelectedRepeaterId(null)}
+              />
+            )}
           </div>
 
           {error && (
@@ -609,6 +1014,14 @@ export const App: React.FC = () => {
             isExecuting={isExecuting}
             showStatevector={true}
             statevector={statevector}
+            observables={observables}
+            onObservablesChange={setObservables}
+          />
+          <MetricsPanel circuit={circuit} />
+          <BlochSpherePanel
+            circuit={circuit}
+            column={stepDebugger.column}
+            onColumnChange={stepDebugger.seek}
           />
         </aside>
       </main>
@@ -616,6 +1029,8 @@ export const App: React.FC = () => {
       {editingGate && (
         <AngleEditor
           gate={editingGate}
+          customGate={findCustomGate(circuit.customGates, editingGate.gateId)}
+          parameters={circuit.parameters ?? {}}
           onClose={() => setEditingGate(null)}
           onSave={handleAngleSave}
         />
@@ -645,12 +1060,83 @@ export const App: React.FC = () => {
         />
       )}
 
+      {repeaterDraft && (
+        <RepeaterEditor
+          block={repeaterDraft.block}
+          isNew={repeaterDraft.id === null}
+          gates={circuit.gates}
+          numQubits={circuit.numQubits}
+          numColumns={numColumns}
+          onSave={handleRepeaterSave}
+          onDelete={repeaterDraft.id !== null ? () => handleRepeaterRemove(repeaterDraft.id!) : undefined}
+          onClose={() => setRepeaterDraft(null)}
+        />
+      )}
+
+      {customGateDraft && (
+        <CustomGateEditor
+          definition={customGateDraft.definition}
+          onSave={handleCustomGateSave}
+          onClose={() => setCustomGateDraft(null)}
+        />
+      )}
+
+      {showQasmImport && (
+        <QasmImportDialog
+          onImport={loadCircuit}
+          onClose={() => setShowQasmImport(false)}
+        />
+      )}
+
       <HardwareSettingsPanel
         isOpen={showHardwareSettings}
         hardwareInfo={hardwareInfo}
+        numQubits={circuit.numQubits}
+        backend={backend}
         onClose={() => setShowHardwareSettings(false)}
         onRefresh={refreshHardwareInfo}
       />
+
+      <UnitaryPanel
+        isOpen={showUnitary}
+        circuit={circuit}
+        selectedGateIds={selectedInstances}
+        onClose={() => setShowUnitary(false)}
+      />
+
+      <SimplifyPanel
+        isOpen={showSimplify}
+        circuit={circuit}
+        onApply={replaceGates}
+        onClose={() => setShowSimplify(false)}
+      />
+
+      <TranspilePanel
+        isOpen={showTranspile}
+        circuit={circuit}
+        onLoad={loadCircuit}
+        onClose={() => setShowTranspile(false)}
+      />
+
+      <EquivalencePanel
+        isOpen={showEquivalence}
+        circuit={circuit}
+        onClose={() => setShowEquivalence(false)}
+      />
+
+      <OptimizerPanel
+        isOpen={showOptimizer}
+        circuit={circuit}
+        onApply={setParameterValues}
+        onClose={() => setShowOptimizer(false)}
+      />
+
+      <NoiseModelPanel
+        isOpen={showNoiseModel}
+        noiseModel={circuit.noiseModel}
+        onChange={setNoiseModel}
+        onClose={() => setShowNoiseModel(false)}
+      />
     </div>
   );
 };
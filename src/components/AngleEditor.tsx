@@ -1,70 +1,94 @@
 /**
  * Angle editor modal for rotation gates.
+ * Angles are expressions such as `pi/4`, `theta` or `2*phi + pi/4`.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { X } from 'lucide-react';
-import { GateInstance } from '../types/circuit';
+import { CustomGateDefinition, GateInstance } from '../types/circuit';
 import { GATE_DEFINITIONS, ANGLE_PRESETS, formatAngle } from '../utils/gateDefinitions';
+import { customGateDefinition } from '../utils/customGates';
+import { evaluateExpression, getExpressionVariables } from '../utils/expression';
+import { formatQasmAngle } from '../utils/qasmExporter';
+import { ValidationError } from '../hooks/useCircuitState';
 
 interface AngleEditorProps {
   gate: GateInstance;
+  customGate?: CustomGateDefinition;  // Definition of a custom gate, whose parameters are edited
+  parameters: Record<string, number>;
   onClose: () => void;
-  onSave: (angle?: number, angles?: number[]) => void;
+  onSave: (expression?: string, expressions?: string[]) => ValidationError | null;
 }
 
+interface ExpressionPreview {
+  value: number | null;
+  newNames: string[];
+  error: string | null;
+}
+
+// Evaluate an expression for display; unknown names count as new parameters set to 0
+function previewExpression(expression: string, parameters: Record<string, number>): ExpressionPreview {
+  try {
+    const newNames = getExpressionVariables(expression).filter(name => !(name in parameters));
+    const values = { ...parameters, ...Object.fromEntries(newNames.map(name => [name, 0])) };
+    return { value: evaluateExpression(expression, values), newNames, error: null };
+  } catch (e) {
+    return { value: null, newNames: [], error: (e as Error).message };
+  }
+}
+
+const U_ANGLE_LABELS = ['θ (theta)', 'φ (phi)', 'λ (lambda)'];
+
 export const AngleEditor: React.FC<AngleEditorProps> = ({
   gate,
+  customGate,
+  parameters,
   onClose,
   onSave,
 }) => {
-  const definition = GATE_DEFINITIONS[gate.gateId];
+  const definition = customGate ? customGateDefinition(customGate) : GATE_DEFINITIONS[gate.gateId];
   const isUGate = definition?.hasMultipleAngles;
+  const angleLabels = customGate ? customGate.parameters : U_ANGLE_LABELS;
 
-  const [angle, setAngle] = useState(gate.angle ?? Math.PI);
-  const [angles, setAngles] = useState(gate.angles ?? [Math.PI, 0, 0]);
-  const [inputValue, setInputValue] = useState(
-    isUGate
-      ? angles.map(a => a.toString()).join(', ')
-      : angle.toString()
+  const [expression, setExpression] = useState(
+    gate.angleExpression ?? formatQasmAngle(gate.angle ?? Math.PI)
+  );
+  const [expressions, setExpressions] = useState(
+    gate.angleExpressions ??
+      (gate.angles ?? (customGate ? angleLabels.map(() => Math.PI) : [Math.PI, 0, 0])).map(formatQasmAngle)
   );
+  const [saveError, setSaveError] = useState<string | null>(null);
 
-  const handlePresetClick = useCallback((value: number) => {
-    if (isUGate) {
-      const newAngles = [...angles];
-      newAngles[0] = value;
-      setAngles(newAngles);
-      setInputValue(newAngles.map(a => a.toString()).join(', '));
-    } else {
-      setAngle(value);
-      setInputValue(value.toString());
-    }
-  }, [isUGate, angles]);
+  const previews = useMemo(
+    () => (isUGate ? expressions : [expression]).map(e => previewExpression(e, parameters)),
+    [isUGate, expression, expressions, parameters]
+  );
+  const newNames = [...new Set(previews.flatMap(p => p.newNames))];
+  const hasError = previews.some(p => p.error !== null);
 
-  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    setInputValue(e.target.value);
+  const setUExpression = useCallback((index: number, value: string) => {
+    setExpressions(prev => prev.map((e, i) => (i === index ? value : e)));
+    setSaveError(null);
+  }, []);
 
+  const handlePresetClick = useCallback((label: string) => {
     if (isUGate) {
-      const parts = e.target.value.split(',').map(s => parseFloat(s.trim()));
-      if (parts.length === 3 && parts.every(p => !isNaN(p))) {
-        setAngles(parts);
-      }
+      setUExpression(0, label);
     } else {
-      const value = parseFloat(e.target.value);
-      if (!isNaN(value)) {
-        setAngle(value);
-      }
+      setExpression(label);
+      setSaveError(null);
     }
-  }, [isUGate]);
+  }, [isUGate, setUExpression]);
 
   const handleSave = useCallback(() => {
-    if (isUGate) {
-      onSave(undefined, angles);
+    if (hasError) return;
+    const error = isUGate ? onSave(undefined, expressions) : onSave(expression);
+    if (error) {
+      setSaveError(error.message);
     } else {
-      onSave(angle);
+      onClose();
     }
-    onClose();
-  }, [isUGate, angle, angles, onSave, onClose]);
+  }, [hasError, isUGate, expression, expressions, onSave, onClose]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -74,6 +98,12 @@ export const AngleEditor: React.FC<AngleEditorProps> = ({
     }
   }, [handleSave, onClose]);
 
+  const renderPreview = (preview: ExpressionPreview) => (
+    <span className={`angle-preview ${preview.error ? 'invalid' : ''}`}>
+      {preview.error ?? `= ${formatAngle(preview.value!)}`}
+    </span>
+  );
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="angle-editor" onClick={e => e.stopPropagation()}>
@@ -88,51 +118,24 @@ export const AngleEditor: React.FC<AngleEditorProps> = ({
           {isUGate ? (
             <>
               <p className="angle-description">
-                U(θ, φ, λ) - Universal single-qubit gate
+                {customGate
+                  ? `${customGate.name}(${customGate.parameters.join(', ')}) - ${definition?.description}`
+                  : 'U(θ, φ, λ) - Universal single-qubit gate'}
               </p>
               <div className="angle-inputs">
-                <div className="angle-input-group">
-                  <label>θ (theta)</label>
-                  <input
-                    type="number"
-                    step="0.1"
-                    value={angles[0]}
-                    onChange={(e) => {
-                      const newAngles = [...angles];
-                      newAngles[0] = parseFloat(e.target.value) || 0;
-                      setAngles(newAngles);
-                    }}
-                    onKeyDown={handleKeyDown}
-                  />
-                </div>
-                <div className="angle-input-group">
-                  <label>φ (phi)</label>
-                  <input
-                    type="number"
-                    step="0.1"
-                    value={angles[1]}
-                    onChange={(e) => {
-                      const newAngles = [...angles];
-                      newAngles[1] = parseFloat(e.target.value) || 0;
-                      setAngles(newAngles);
-                    }}
-                    onKeyDown={handleKeyDown}
-                  />
-                </div>
-                <div className="angle-input-group">
-                  <label>λ (lambda)</label>
-                  <input
-                    type="number"
-                    step="0.1"
-                    value={angles[2]}
-                    onChange={(e) => {
-                      const newAngles = [...angles];
-                      newAngles[2] = parseFloat(e.target.value) || 0;
-                      setAngles(newAngles);
-                    }}
-                    onKeyDown={handleKeyDown}
-                  />
-                </div>
+                {angleLabels.map((label, i) => (
+                  <div key={label} className="angle-input-group">
+                    <label>{label}</label>
+                    <input
+                      type="text"
+                      value={expressions[i]}
+                      onChange={(e) => setUExpression(i, e.target.value)}
+                      onKeyDown={handleKeyDown}
+                      autoFocus={i === 0}
+                    />
+                    {renderPreview(previews[i])}
+                  </div>
+                ))}
               </div>
             </>
           ) : (
@@ -141,27 +144,36 @@ export const AngleEditor: React.FC<AngleEditorProps> = ({
                 {definition?.description}
               </p>
               <div className="angle-input-section">
-                <label>Angle (radians)</label>
+                <label>{customGate ? `${customGate.parameters[0]} (radians)` : 'Angle (radians)'}</label>
                 <input
-                  type="number"
-                  step="0.1"
-                  value={inputValue}
-                  onChange={handleInputChange}
+                  type="text"
+                  value={expression}
+                  onChange={(e) => {
+                    setExpression(e.target.value);
+                    setSaveError(null);
+                  }}
                   onKeyDown={handleKeyDown}
                   autoFocus
                 />
-                <span className="angle-preview">{formatAngle(angle)}</span>
+                {renderPreview(previews[0])}
               </div>
             </>
           )}
 
+          {newNames.length > 0 && (
+            <p className="angle-hint">
+              New parameter{newNames.length > 1 ? 's' : ''} {newNames.join(', ')} will be added with value 0.
+            </p>
+          )}
+          {saveError && <p className="angle-hint invalid">{saveError}</p>}
+
           <div className="angle-presets">
             <span className="presets-label">Presets:</span>
             {ANGLE_PRESETS.map((preset) => (
               <button
                 key={preset.label}
                 className="preset-button"
-                onClick={() => handlePresetClick(preset.value)}
+                onClick={() => handlePresetClick(preset.label)}
               >
                 {preset.label}
               </button>
@@ -173,7 +185,7 @@ export const AngleEditor: React.FC<AngleEditorProps> = ({
           <button className="cancel-button" onClick={onClose}>
             Cancel
           </button>
-          <button className="save-button" onClick={handleSave}>
+          <button className="save-button" onClick={handleSave} disabled={hasError}>
             Save
           </button>
         </div>
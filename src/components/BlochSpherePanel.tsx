@@ -0,0 +1,190 @@
+/**
+ * Bloch-sphere view: each qubit's reduced state, with the rest of the
+ * register traced out, at a chosen column of the circuit. Clifford circuits
+ * are read off the stabilizer tableau, so they need no statevector.
+ */
+
+import React, { useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Globe } from 'lucide-react';
+import { CircuitState } from '../types/circuit';
+import {
+  computeStatevector,
+  computeStabilizerBlochVectors,
+  isStabilizerCircuit,
+  reducedQubitState,
+  blochVector,
+  purity,
+  BlochVector,
+} from '../simulator';
+import { CIRCUIT_LIMITS } from '../config';
+
+interface BlochSpherePanelProps {
+  circuit: CircuitState;
+  column: number | null;  // Show the state after this column; null for the whole circuit
+  onColumnChange: (column: number | null) => void;
+}
+
+const SPHERE_SIZE = 100;
+const RADIUS = 38;
+// Screen offset of the x axis, which points out of the page towards the lower left
+const DEPTH = 0.35;
+
+// Reduced purity below this counts as mixed (leaves room for rounding noise)
+const MIXED_TOLERANCE = 1e-5;
+
+interface BlochSphereProps {
+  vector: BlochVector;
+  mixed: boolean;
+}
+
+// Oblique projection of a Bloch vector: z up, y right, x towards the viewer
+const project = (x: number, y: number, z: number) => ({
+  px: SPHERE_SIZE / 2 + RADIUS * (y - DEPTH * x),
+  py: SPHERE_SIZE / 2 + RADIUS * (DEPTH * x - z),
+});
+
+const BlochSphere: React.FC<BlochSphereProps> = ({ vector, mixed }) => {
+  const c = SPHERE_SIZE / 2;
+  const tip = project(vector.x, vector.y, vector.z);
+  const xAxis = project(1, 0, 0);
+  const color = mixed ? '#E67E22' : '#6366F1';
+
+  return (
+    <svg className="bloch-sphere" width={SPHERE_SIZE} height={SPHERE_SIZE} viewBox={`0 0 ${SPHERE_SIZE} ${SPHERE_SIZE}`}>
+      <circle cx={c} cy={c} r={RADIUS} fill="#F8F9FA" stroke="#BDC3C7" />
+      <ellipse cx={c} cy={c} rx={RADIUS} ry={RADIUS * DEPTH} fill="none" stroke="#D5D8DC" strokeDasharray="3 2" />
+      <line x1={c} y1={c - RADIUS} x2={c} y2={c + RADIUS} stroke="#D5D8DC" />
+      <line x1={c - RADIUS} y1={c} x2={c + RADIUS} y2={c} stroke="#D5D8DC" />
+      <line x1={c} y1={c} x2={xAxis.px} y2={xAxis.py} stroke="#D5D8DC" />
+      <text x={c} y={c - RADIUS - 3} textAnchor="middle" className="bloch-axis-label">|0⟩</text>
+      <text x={c} y={c + RADIUS + 10} textAnchor="middle" className="bloch-axis-label">|1⟩</text>
+      <text x={xAxis.px - 2} y={xAxis.py + 8} textAnchor="end" className="bloch-axis-label">x</text>
+      <text x={c + RADIUS + 2} y={c - 2} className="bloch-axis-label">y</text>
+      <line x1={c} y1={c} x2={tip.px} y2={tip.py} stroke={color} strokeWidth={2} />
+      <circle cx={tip.px} cy={tip.py} r={3} fill={color} />
+    </svg>
+  );
+};
+
+export const BlochSpherePanel: React.FC<BlochSpherePanelProps> = ({
+  circuit,
+  column,
+  onColumnChange,
+}) => {
+  const lastColumn = useMemo(
+    () => circuit.gates.reduce((max, gate) => Math.max(max, gate.column), -1),
+    [circuit.gates]
+  );
+  const current = column === null ? lastColumn : Math.min(column, lastColumn);
+
+  // Reduced state of every qubit at the selected column
+  const qubits = useMemo(() => {
+    const throughColumn = column === null ? undefined : current;
+    if (isStabilizerCircuit(circuit)) {
+      // A qubit of a stabilizer state is either pure or maximally mixed
+      return computeStabilizerBlochVectors(circuit, throughColumn).map(vector => {
+        const qubitPurity = (1 + vector.x ** 2 + vector.y ** 2 + vector.z ** 2) / 2;
+        return { vector, purity: qubitPurity, mixed: qubitPurity < 1 - MIXED_TOLERANCE };
+      });
+    }
+
+    // Statevectors are computed on the main thread, so only for small registers
+    if (circuit.numQubits > CIRCUIT_LIMITS.MAX_DISPLAY_QUBITS) return null;
+    let state;
+    try {
+      state = computeStatevector(circuit, throughColumn);
+    } catch {
+      return null;
+    }
+    return Array.from({ length: circuit.numQubits }, (_, q) => {
+      const rho = reducedQubitState(state, q);
+      const qubitPurity = purity(rho);
+      return { vector: blochVector(rho), purity: qubitPurity, mixed: qubitPurity < 1 - MIXED_TOLERANCE };
+    });
+  }, [circuit, column, current]);
+
+  // Step to a column; stepping past the last one returns to the whole circuit
+  const stepTo = (next: number) => {
+    onColumnChange(next >= lastColumn ? null : Math.max(next, -1));
+  };
+
+  const positionLabel = column === null || current === lastColumn
+    ? 'End of circuit'
+    : current < 0
+      ? 'Initial state'
+      : `After column ${current + 1}`;
+
+  return (
+    <div className="bloch-panel">
+      <div className="pattern-panel-header">
+        <div className="pattern-panel-title">
+          <Globe size={16} />
+          <span>Bloch Spheres</span>
+        </div>
+      </div>
+
+      <div className="bloch-stepper">
+        <button
+          className="pattern-action-btn"
+          onClick={() => stepTo(current - 1)}
+          disabled={current < 0}
+          title="Previous column"
+        >
+          <ChevronLeft size={14} />
+        </button>
+        <input
+          type="range"
+          min={-1}
+          max={lastColumn}
+          value={current}
+          onChange={(e) => stepTo(parseInt(e.target.value))}
+          disabled={lastColumn < 0}
+        />
+        <button
+          className="pattern-action-btn"
+          onClick={() => stepTo(current + 1)}
+          disabled={current >= lastColumn}
+          title="Next column"
+        >
+          <ChevronRight size={14} />
+        </button>
+      </div>
+      <div className="bloch-position">{positionLabel}</div>
+
+      {qubits === null ? (
+        <div className="pattern-empty">
+          <p className="pattern-hint">
+            The state could not be computed. Beyond {CIRCUIT_LIMITS.MAX_DISPLAY_QUBITS} qubits, only
+            circuits of Clifford gates are shown.
+          </p>
+        </div>
+      ) : (
+        <div className="bloch-grid">
+          {qubits.map(({ vector, purity: qubitPurity, mixed }, q) => (
+            <div key={q} className="bloch-qubit">
+              <div className="bloch-qubit-header">
+                <span className="bloch-qubit-label">q{q}</span>
+                {mixed && (
+                  <span
+                    className="bloch-entangled"
+                    title="The reduced state is mixed, so this qubit is entangled with the rest of the register"
+                  >
+                    entangled
+                  </span>
+                )}
+              </div>
+              <BlochSphere vector={vector} mixed={mixed} />
+              <div
+                className="bloch-values"
+                title={`x = ${vector.x.toFixed(4)}, y = ${vector.y.toFixed(4)}, z = ${vector.z.toFixed(4)}`}
+              >
+                ({vector.x.toFixed(2)}, {vector.y.toFixed(2)}, {vector.z.toFixed(2)})
+              </div>
+              <div className="bloch-values">purity {qubitPurity.toFixed(3)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
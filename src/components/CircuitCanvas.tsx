@@ -2,23 +2,38 @@
  * Circuit canvas component for building and visualizing quantum circuits.
  */
 
-import React, { useRef, useState, useCallback, useMemo } from 'react';
-import { CircuitState, CircuitPattern } from '../types/circuit';
-import { GATE_DEFINITIONS } from '../utils/gateDefinitions';
+import React, { useRef, useState, useCallback, useMemo, useEffect, useLayoutEffect } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { CircuitState, CircuitPattern, CustomGateDefinition, GateInstance } from '../types/circuit';
+import { UI_CONSTANTS } from '../config';
+import { getGateOperands } from '../utils/gateDefinitions';
+import { resolveGateDefinition } from '../utils/customGates';
+import { findComposite, compositeGateDefinition } from '../utils/composites';
+import { formatCondition, getMeasurementClbit, getNumClbits } from '../utils/classicalBits';
 import { GateBlock, ControlDot, ControlLine, SwapSymbol } from './GateBlock';
+import { CircuitMinimap } from './CircuitMinimap';
 
 interface CircuitCanvasProps {
   circuit: CircuitState;
   numColumns: number;
   selectedGate: string | null;
   selectedPattern: CircuitPattern | null;
+  placePatternAsBlock: boolean;  // Place the selected pattern as one composite gate
   selectedInstances: Set<string>;
+  customGates: CustomGateDefinition[];  // Library gates that can be placed from the palette
   onGateAdd: (gateId: string, target: number, column: number, control?: number, controls?: number[]) => void;
   onGateMove: (instanceId: string, target: number, column: number, control?: number) => void;
   onGateSelect: (instanceId: string | null, addToSelection?: boolean) => void;
   onMultiSelect: (instanceIds: string[]) => void;
   onGateRemove: (instanceId: string) => void;
   onGateEdit: (instanceId: string) => void;
+  selectedRepeaterId: string | null;
+  onRepeaterSelect: (repeaterId: string) => void;
+  // Step-through debugger: shown when debugCursor is set (-1 is before the first column)
+  debugCursor?: number;
+  breakpoints?: Set<number>;
+  onDebugSeek?: (column: number) => void;
+  onToggleBreakpoint?: (column: number) => void;
 }
 
 interface SelectionBox {
@@ -28,41 +43,91 @@ interface SelectionBox {
   currentY: number;
 }
 
-const CELL_SIZE = 60;
-const QUBIT_LABEL_WIDTH = 50;
+const { CELL_SIZE, QUBIT_LABEL_WIDTH, MIN_ZOOM, MAX_ZOOM, OVERSCAN_COLUMNS } = UI_CONSTANTS;
 const GRID_PADDING = 8; // Padding to prevent clipping of selection borders
+const CLASSICAL_ROW_HEIGHT = 40; // Classical register wire below the qubits
+const ZOOM_STEP = 1.25; // Zoom factor of the toolbar buttons
+const WHEEL_ZOOM_RATE = 0.002; // Zoom factor per pixel of Ctrl+wheel, as an exponent
+
+// Part of the grid inside the scroll area, in pixels from the first column
+interface Viewport {
+  start: number;
+  width: number;
+}
+
+// Scroll adjustment applied once the canvas has been laid out at a new zoom
+type PendingScroll = (scroll: HTMLDivElement, grid: HTMLDivElement) => void;
+
+function sameCell(
+  a: { qubit: number; column: number } | null,
+  b: { qubit: number; column: number } | null
+): boolean {
+  return a?.qubit === b?.qubit && a?.column === b?.column;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+}
 
 export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   circuit,
   numColumns,
   selectedGate,
   selectedPattern,
+  placePatternAsBlock,
   selectedInstances,
+  customGates,
   onGateAdd,
   onGateMove,
   onGateSelect,
   onMultiSelect,
   onGateRemove,
   onGateEdit,
+  selectedRepeaterId,
+  onRepeaterSelect,
+  debugCursor,
+  breakpoints,
+  onDebugSeek,
+  onToggleBreakpoint,
 }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingScroll = useRef<PendingScroll | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [viewport, setViewport] = useState<Viewport>({ start: 0, width: window.innerWidth });
+  const [isPanning, setIsPanning] = useState(false);
   const [dragOverCell, setDragOverCell] = useState<{ qubit: number; column: number } | null>(null);
   const [hoverCell, setHoverCell] = useState<{ qubit: number; column: number } | null>(null);
   const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
   const [isBoxSelecting, setIsBoxSelecting] = useState(false);
 
-  const width = numColumns * CELL_SIZE;
-  const height = circuit.numQubits * CELL_SIZE;
+  const cellSize = Math.round(CELL_SIZE * zoom);
+  const width = numColumns * cellSize;
+  const height = circuit.numQubits * cellSize;
+  const totalHeight = height + CLASSICAL_ROW_HEIGHT;
+  const numClbits = getNumClbits(circuit);
+
+  // Built-in, custom or composite definition of a gate; the circuit's copy of a custom gate comes first
+  const getDefinition = useCallback((gateId: string) => {
+    const composite = findComposite(circuit.composites, gateId);
+    if (composite) return compositeGateDefinition(composite);
+    return resolveGateDefinition(gateId, [...(circuit.customGates ?? []), ...customGates]);
+  }, [circuit.customGates, circuit.composites, customGates]);
+
+  // Colour of a gate on the minimap
+  const getGateColor = useCallback((gateId: string) => getDefinition(gateId)?.color ?? '#95A5A6', [getDefinition]);
 
   // Check if selected gate is a multi-qubit gate
   const selectedGateNumQubits = useMemo(() => {
     if (!selectedGate) return 1;
-    const def = GATE_DEFINITIONS[selectedGate];
+    const def = getDefinition(selectedGate);
     return def?.numQubits ?? 1;
-  }, [selectedGate]);
+  }, [selectedGate, getDefinition]);
 
-  const selectedGateIsTwoQubit = selectedGateNumQubits === 2;
-  const selectedGateIsThreeQubit = selectedGateNumQubits === 3;
+  // Custom gates occupy the clicked qubit and the ones below it
+  const selectedGateIsCustom = selectedGate !== null && getDefinition(selectedGate)?.category === 'custom';
+  const selectedGateIsTwoQubit = selectedGateNumQubits === 2 && !selectedGateIsCustom;
+  const selectedGateIsThreeQubit = selectedGateNumQubits === 3 && !selectedGateIsCustom;
 
   // Get the second qubit for two-qubit gate placement (adjacent qubit)
   const getAdjacentQubit = useCallback((qubit: number): number => {
@@ -92,21 +157,43 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     const x = clientX - rect.left - GRID_PADDING;
     const y = clientY - rect.top - GRID_PADDING;
 
-    const column = Math.floor(x / CELL_SIZE);
-    const qubit = Math.floor(y / CELL_SIZE);
+    const column = Math.floor(x / cellSize);
+    const qubit = Math.floor(y / cellSize);
 
     if (column < 0 || column >= numColumns || qubit < 0 || qubit >= circuit.numQubits) {
       return null;
     }
 
     return { qubit, column };
-  }, [numColumns, circuit.numQubits]);
+  }, [cellSize, numColumns, circuit.numQubits]);
+
+  // Gates of each column, so that lookups do not scan the whole circuit
+  const gatesByColumn = useMemo(() => {
+    const columns = new Map<number, GateInstance[]>();
+    for (const gate of circuit.gates) {
+      const column = columns.get(gate.column);
+      if (column) {
+        column.push(gate);
+      } else {
+        columns.set(gate.column, [gate]);
+      }
+    }
+    return columns;
+  }, [circuit.gates]);
+
+  // Gates in columns first to last - 1
+  const getGatesInColumns = useCallback((first: number, last: number): GateInstance[] => {
+    const gates: GateInstance[] = [];
+    for (let c = first; c < last; c++) {
+      gates.push(...(gatesByColumn.get(c) ?? []));
+    }
+    return gates;
+  }, [gatesByColumn]);
 
   // Check if cell is occupied
   const isCellOccupied = useCallback((qubit: number, column: number, excludeId?: string) => {
-    return circuit.gates.some(g => {
+    return (gatesByColumn.get(column) ?? []).some(g => {
       if (excludeId && g.id === excludeId) return false;
-      if (g.column !== column) return false;
 
       // Check target qubit
       if (g.target === qubit) return true;
@@ -117,12 +204,16 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
       // Check controls array for multi-control gates
       if (g.controls !== undefined && g.controls.includes(qubit)) return true;
 
-      // Check if this is a multi-qubit gate that spans this qubit
-      const def = GATE_DEFINITIONS[g.gateId];
-      if (def && def.numQubits >= 2) {
+      // Check targets of multi-qubit custom gates
+      if (g.targets !== undefined && g.targets.includes(qubit)) return true;
+
+      // Check if this is a multi-qubit or controlled gate that spans this qubit
+      const def = getDefinition(g.gateId);
+      if (def && (def.numQubits >= 2 || g.controls !== undefined)) {
         const allQubits = [g.target];
         if (g.control !== undefined) allQubits.push(g.control);
         if (g.controls !== undefined) allQubits.push(...g.controls);
+        if (g.targets !== undefined) allQubits.push(...g.targets);
 
         const minQ = Math.min(...allQubits);
         const maxQ = Math.max(...allQubits);
@@ -131,7 +222,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
 
       return false;
     });
-  }, [circuit.gates]);
+  }, [gatesByColumn, getDefinition]);
 
   // Check if two-qubit gate can be placed
   const canPlaceTwoQubitGate = useCallback((qubit: number, column: number): boolean => {
@@ -147,11 +238,141 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     return qubits.every(q => !isCellOccupied(q, column));
   }, [circuit.numQubits, getThreeQubitRange, isCellOccupied]);
 
+  // Check if a custom gate on numQubits wires can be placed from the given qubit down
+  const canPlaceCustomGate = useCallback((qubit: number, column: number, numQubits: number, excludeId?: string): boolean => {
+    if (qubit < 0 || qubit + numQubits > circuit.numQubits) return false;
+    return Array.from({ length: numQubits }, (_, k) => qubit + k)
+      .every(q => !isCellOccupied(q, column, excludeId));
+  }, [circuit.numQubits, isCellOccupied]);
+
   // Handle mouse leave
   const handleMouseLeave = useCallback(() => {
     setHoverCell(null);
   }, []);
 
+  // Part of the grid inside the scroll area, measured from the DOM
+  const measureViewport = useCallback((): Viewport | null => {
+    if (!scrollRef.current || !canvasRef.current) return null;
+    const scrollRect = scrollRef.current.getBoundingClientRect();
+    const gridLeft = canvasRef.current.getBoundingClientRect().left + GRID_PADDING;
+    return { start: scrollRect.left - gridLeft, width: scrollRect.width };
+  }, []);
+
+  const updateViewport = useCallback(() => {
+    const next = measureViewport();
+    if (!next) return;
+    setViewport(prev => (prev.start === next.start && prev.width === next.width ? prev : next));
+  }, [measureViewport]);
+
+  // Apply a pending scroll once the grid has its new size, then re-measure
+  useLayoutEffect(() => {
+    if (pendingScroll.current && scrollRef.current && canvasRef.current) {
+      pendingScroll.current(scrollRef.current, canvasRef.current);
+      pendingScroll.current = null;
+    }
+    updateViewport();
+  }, [cellSize, numColumns, circuit.numQubits, updateViewport]);
+
+  useEffect(() => {
+    if (!scrollRef.current) return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(scrollRef.current);
+    return () => observer.disconnect();
+  }, [updateViewport]);
+
+  // Zoom, keeping the column under clientX (by default the middle of the view) in place
+  const zoomTo = useCallback((next: number, clientX?: number) => {
+    const target = clampZoom(next);
+    if (target === zoom || !scrollRef.current || !canvasRef.current) return;
+    const scrollRect = scrollRef.current.getBoundingClientRect();
+    const anchorX = clientX ?? scrollRect.left + scrollRect.width / 2;
+    const gridLeft = canvasRef.current.getBoundingClientRect().left + GRID_PADDING;
+    const column = (anchorX - gridLeft) / cellSize;
+
+    pendingScroll.current = (scroll, grid) => {
+      const newGridLeft = grid.getBoundingClientRect().left + GRID_PADDING;
+      scroll.scrollLeft += newGridLeft + column * Math.round(CELL_SIZE * target) - anchorX;
+    };
+    setZoom(target);
+  }, [zoom, cellSize]);
+
+  // Zoom so that every column fits the width of the view
+  const zoomToFit = useCallback(() => {
+    const view = measureViewport();
+    if (!view || !scrollRef.current) return;
+    // Keep a margin as wide as the one left of the grid on the right too
+    const margin = scrollRef.current.scrollLeft - view.start;
+    const target = clampZoom((view.width - 2 * margin) / (numColumns * CELL_SIZE));
+    if (target === zoom) {
+      scrollRef.current.scrollLeft = 0;
+      return;
+    }
+    pendingScroll.current = (scroll) => {
+      scroll.scrollLeft = 0;
+    };
+    setZoom(target);
+  }, [measureViewport, numColumns, zoom]);
+
+  // Ctrl+wheel zooms; registered natively, as React's wheel listeners are
+  // passive and could not stop the browser's own zoom
+  useEffect(() => {
+    const scroll = scrollRef.current;
+    if (!scroll) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), e.clientX);
+    };
+    scroll.addEventListener('wheel', handleWheel, { passive: false });
+    return () => scroll.removeEventListener('wheel', handleWheel);
+  }, [zoom, zoomTo]);
+
+  // Pan by dragging with the middle mouse button
+  const handlePanStart = useCallback((e: React.MouseEvent) => {
+    const scroll = scrollRef.current;
+    if (e.button !== 1 || !scroll) return;
+    e.preventDefault();
+
+    const start = { x: e.clientX, y: e.clientY, left: scroll.scrollLeft, top: scroll.scrollTop };
+    const handleMove = (ev: MouseEvent) => {
+      scroll.scrollLeft = start.left - (ev.clientX - start.x);
+      scroll.scrollTop = start.top - (ev.clientY - start.y);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setIsPanning(false);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    setIsPanning(true);
+  }, []);
+
+  // Scroll so that a column is in the middle of the view
+  const centerOnColumn = useCallback((column: number) => {
+    const view = measureViewport();
+    if (!view || !scrollRef.current) return;
+    scrollRef.current.scrollLeft += column * cellSize - (view.start + view.width / 2);
+  }, [measureViewport, cellSize]);
+
+  // Keep the debugger cursor in view as it steps
+  useEffect(() => {
+    if (debugCursor === undefined) return;
+    const view = measureViewport();
+    const x = (debugCursor + 1) * cellSize;
+    if (view && (x < view.start + QUBIT_LABEL_WIDTH || x > view.start + view.width)) {
+      centerOnColumn(debugCursor + 1);
+    }
+  }, [debugCursor, cellSize, measureViewport, centerOnColumn]);
+
+  // Columns to render: the visible ones and a few beyond each edge
+  const firstColumn = Math.max(0, Math.floor(viewport.start / cellSize) - OVERSCAN_COLUMNS);
+  const lastColumn = Math.min(numColumns, Math.ceil((viewport.start + viewport.width) / cellSize) + OVERSCAN_COLUMNS);
+  const visibleGates = useMemo(
+    () => getGatesInColumns(firstColumn, lastColumn),
+    [getGatesInColumns, firstColumn, lastColumn]
+  );
+
   // Get gates within a rectangular area
   const getGatesInRect = useCallback((x1: number, y1: number, x2: number, y2: number): string[] => {
     const minX = Math.min(x1, x2);
@@ -159,37 +380,38 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     const minY = Math.min(y1, y2);
     const maxY = Math.max(y1, y2);
 
-    return circuit.gates
+    const first = Math.max(0, Math.floor(minX / cellSize));
+    const last = Math.min(numColumns, Math.floor(maxX / cellSize) + 1);
+
+    return getGatesInColumns(first, last)
       .filter(gate => {
         // Calculate gate bounding box
-        const gateLeft = gate.column * CELL_SIZE;
-        const gateRight = gateLeft + CELL_SIZE;
-        let gateTop = gate.target * CELL_SIZE;
-        let gateBottom = gateTop + CELL_SIZE;
+        const gateLeft = gate.column * cellSize;
+        const gateRight = gateLeft + cellSize;
+        let gateTop = gate.target * cellSize;
+        let gateBottom = gateTop + cellSize;
 
         // For two-qubit gates, extend to include control
         if (gate.control !== undefined) {
-          const controlTop = gate.control * CELL_SIZE;
-          const controlBottom = controlTop + CELL_SIZE;
+          const controlTop = gate.control * cellSize;
+          const controlBottom = controlTop + cellSize;
           gateTop = Math.min(gateTop, controlTop);
           gateBottom = Math.max(gateBottom, controlBottom);
         }
 
-        // For multi-control gates, extend to include all controls
-        if (gate.controls !== undefined) {
-          for (const ctrl of gate.controls) {
-            const controlTop = ctrl * CELL_SIZE;
-            const controlBottom = controlTop + CELL_SIZE;
-            gateTop = Math.min(gateTop, controlTop);
-            gateBottom = Math.max(gateBottom, controlBottom);
-          }
+        // For multi-control gates and multi-qubit custom gates, extend to include every qubit
+        for (const qubit of [...(gate.controls ?? []), ...(gate.targets ?? [])]) {
+          const qubitTop = qubit * cellSize;
+          const qubitBottom = qubitTop + cellSize;
+          gateTop = Math.min(gateTop, qubitTop);
+          gateBottom = Math.max(gateBottom, qubitBottom);
         }
 
         // Check if gate intersects with selection rectangle
         return gateLeft < maxX && gateRight > minX && gateTop < maxY && gateBottom > minY;
       })
       .map(gate => gate.id);
-  }, [circuit.gates]);
+  }, [cellSize, numColumns, getGatesInColumns]);
 
   // Handle mouse down for box selection
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -219,9 +441,9 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   // Handle mouse move for box selection
   const handleMouseMoveSelection = useCallback((e: React.MouseEvent) => {
     if (!isBoxSelecting || !selectionBox) {
-      // Normal hover handling
+      // Normal hover handling; the canvas only re-renders when the cell changes
       const cell = getCellFromPosition(e.clientX, e.clientY);
-      setHoverCell(cell);
+      setHoverCell(prev => (sameCell(prev, cell) ? prev : cell));
       return;
     }
 
@@ -280,10 +502,14 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
 
     // If a gate is selected in palette
     if (selectedGate) {
-      const def = GATE_DEFINITIONS[selectedGate];
+      const def = getDefinition(selectedGate);
       if (!def) return;
 
-      if (def.numQubits === 3) {
+      if (def.category === 'custom') {
+        // Custom gate: clicked qubit and the ones below it
+        if (!canPlaceCustomGate(cell.qubit, cell.column, def.numQubits)) return;
+        onGateAdd(selectedGate, cell.qubit, cell.column);
+      } else if (def.numQubits === 3) {
         // Three-qubit gate: place on clicked qubit and two adjacent qubits
         if (!canPlaceThreeQubitGate(cell.qubit, cell.column)) return;
 
@@ -325,8 +551,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     getCellFromPosition,
     selectedGate,
     selectedPattern,
+    getDefinition,
     canPlaceTwoQubitGate,
     canPlaceThreeQubitGate,
+    canPlaceCustomGate,
     getAdjacentQubit,
     getThreeQubitRange,
     isCellOccupied,
@@ -338,7 +566,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const cell = getCellFromPosition(e.clientX, e.clientY);
-    setDragOverCell(cell);
+    setDragOverCell(prev => (sameCell(prev, cell) ? prev : cell));
   }, [getCellFromPosition]);
 
   // Handle drag leave
@@ -362,8 +590,14 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
       const existingGate = circuit.gates.find(g => g.id === instanceId);
       if (!existingGate) return;
 
-      const def = GATE_DEFINITIONS[existingGate.gateId];
-      if (def?.numQubits === 2) {
+      const def = getDefinition(existingGate.gateId);
+      if (existingGate.targets !== undefined) {
+        // Multi-qubit custom and composite gates move as a block
+        const span = Math.max(...existingGate.targets) - Math.min(...existingGate.targets) + 1;
+        if (canPlaceCustomGate(cell.qubit, cell.column, span, instanceId)) {
+          onGateMove(instanceId, cell.qubit, cell.column);
+        }
+      } else if (def?.numQubits === 2) {
         // For two-qubit gates, maintain the control-target distance
         const distance = existingGate.control !== undefined
           ? existingGate.control - existingGate.target
@@ -382,10 +616,13 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
       }
     } else if (gateId) {
       // Adding new gate from palette via drag
-      const def = GATE_DEFINITIONS[gateId];
+      const def = getDefinition(gateId);
       if (!def) return;
 
-      if (def.numQubits === 2) {
+      if (def.category === 'custom') {
+        if (!canPlaceCustomGate(cell.qubit, cell.column, def.numQubits)) return;
+        onGateAdd(gateId, cell.qubit, cell.column);
+      } else if (def.numQubits === 2) {
         if (!canPlaceTwoQubitGate(cell.qubit, cell.column)) return;
         const adjacentQubit = getAdjacentQubit(cell.qubit);
         if (gateId === 'SWAP') {
@@ -400,7 +637,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         onGateAdd(gateId, cell.qubit, cell.column);
       }
     }
-  }, [getCellFromPosition, circuit.gates, isCellOccupied, canPlaceTwoQubitGate, getAdjacentQubit, onGateAdd, onGateMove]);
+  }, [getCellFromPosition, circuit.gates, getDefinition, isCellOccupied, canPlaceTwoQubitGate, canPlaceCustomGate, getAdjacentQubit, onGateAdd, onGateMove]);
 
   // Render qubit wires
   const renderWires = () => {
@@ -413,7 +650,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
           style={{
             position: 'absolute',
             left: 0,
-            top: q * CELL_SIZE + CELL_SIZE / 2 - 1,
+            top: q * cellSize + cellSize / 2 - 1,
             width: width,
             height: 2,
             backgroundColor: '#95A5A6',
@@ -435,14 +672,14 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
           style={{
             position: 'absolute',
             left: 0,
-            top: q * CELL_SIZE,
+            top: q * cellSize,
             width: QUBIT_LABEL_WIDTH,
-            height: CELL_SIZE,
+            height: cellSize,
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
             fontFamily: "'JetBrains Mono', monospace",
-            fontSize: 14,
+            fontSize: Math.min(14, cellSize / 2),
             color: '#2C3E50',
             fontWeight: 500,
           }}
@@ -451,9 +688,188 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         </div>
       );
     }
+    labels.push(
+      <div
+        key="label-classical"
+        className="qubit-label classical-label"
+        style={{
+          position: 'absolute',
+          left: 0,
+          top: height,
+          width: QUBIT_LABEL_WIDTH,
+          height: CLASSICAL_ROW_HEIGHT,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontFamily: "'JetBrains Mono', monospace",
+          fontSize: 13,
+          color: '#7F8C8D',
+          fontWeight: 500,
+        }}
+        title={`Classical register (${numClbits} bits)`}
+      >
+        c[{numClbits}]
+      </div>
+    );
     return labels;
   };
 
+  // Render the classical register wire and the links from measurements and
+  // classically conditioned gates down to it
+  const renderClassical = () => {
+    const wireY = height + CLASSICAL_ROW_HEIGHT / 2;
+    const elements: React.ReactNode[] = [
+      <div
+        key="classical-wire"
+        className="classical-wire"
+        style={{
+          position: 'absolute',
+          left: 0,
+          top: wireY - 3,
+          width: width,
+          height: 6,
+          borderTop: '2px solid #95A5A6',
+          borderBottom: '2px solid #95A5A6',
+          boxSizing: 'border-box',
+        }}
+      />,
+    ];
+
+    for (const gate of visibleGates) {
+      const isMeasurement = gate.gateId === 'M';
+      if (!isMeasurement && !gate.condition) continue;
+
+      const { controls, targets } = getGateOperands(gate);
+      const lowestQubit = Math.max(...controls, ...targets);
+      const top = lowestQubit * cellSize + cellSize * 0.9;
+      const label = isMeasurement
+        ? `c${getMeasurementClbit(gate)}`
+        : formatCondition(gate.condition!, numClbits);
+      const color = isMeasurement ? '#7F8C8D' : '#8E44AD';
+
+      elements.push(
+        <div
+          key={`classical-link-${gate.id}`}
+          style={{
+            position: 'absolute',
+            left: gate.column * cellSize + cellSize / 2 - 3,
+            top,
+            width: 6,
+            height: wireY - top,
+            borderLeft: `2px solid ${color}`,
+            borderRight: `2px solid ${color}`,
+            boxSizing: 'border-box',
+            zIndex: 0,
+            pointerEvents: 'none',
+          }}
+        />
+      );
+      elements.push(
+        <div
+          key={`classical-label-${gate.id}`}
+          className="classical-badge"
+          style={{
+            position: 'absolute',
+            left: gate.column * cellSize + 2,
+            top: wireY - 9,
+            width: cellSize - 4,
+            color,
+            borderColor: color,
+          }}
+          title={isMeasurement ? `Writes classical bit ${label}` : `Runs only if ${label}`}
+        >
+          {label}
+        </div>
+      );
+    }
+
+    return elements;
+  };
+
+  // Render repeater blocks as dashed boxes with a repetition badge
+  const renderRepeaters = () => {
+    const repeaters = (circuit.repeaters ?? [])
+      .filter(r => r.columnEnd >= firstColumn && r.columnStart < lastColumn);
+    return repeaters.map(repeater => {
+      const isSelected = repeater.id === selectedRepeaterId;
+      const color = '#6366F1';
+      return (
+        <div
+          key={`repeater-${repeater.id}`}
+          className="repeater-block"
+          style={{
+            position: 'absolute',
+            left: repeater.columnStart * cellSize + 2,
+            top: repeater.qubitStart * cellSize + 2,
+            width: (repeater.columnEnd - repeater.columnStart + 1) * cellSize - 4,
+            height: (repeater.qubitEnd - repeater.qubitStart + 1) * cellSize - 4,
+            border: `2px ${isSelected ? 'solid' : 'dashed'} ${color}`,
+            borderRadius: 8,
+            backgroundColor: `${color}${isSelected ? '20' : '0D'}`,
+            pointerEvents: 'none',
+            zIndex: 1,
+          }}
+        >
+          <button
+            className="repeater-badge"
+            style={{ borderColor: color, color: isSelected ? 'white' : color, background: isSelected ? color : 'white' }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              onRepeaterSelect(repeater.id);
+            }}
+            title={`Repeated ${repeater.repetitions} times`}
+          >
+            ×{repeater.repetitions}
+          </button>
+        </div>
+      );
+    });
+  };
+
+  // Render the debugger cursor after its column, dimming the columns still to run
+  const renderDebugCursor = () => {
+    if (debugCursor === undefined) return null;
+    const left = (debugCursor + 1) * cellSize;
+    return (
+      <>
+        <div
+          className="debug-pending"
+          style={{ left, width: Math.max(width - left, 0), height: totalHeight }}
+        />
+        <div className="debug-cursor" style={{ left: left - 1, height: totalHeight }} />
+      </>
+    );
+  };
+
+  // Column numbers above the grid: click to move the cursor, click the dot to toggle a breakpoint.
+  // When zoomed out, only every few columns are numbered.
+  const renderDebugRuler = () => {
+    if (debugCursor === undefined) return null;
+    const numberEvery = Math.ceil(36 / cellSize);
+    return (
+      <div className="debug-ruler" style={{ paddingLeft: QUBIT_LABEL_WIDTH + GRID_PADDING }}>
+        <div style={{ width: firstColumn * cellSize, flexShrink: 0 }} />
+        {Array.from({ length: lastColumn - firstColumn }, (_, k) => firstColumn + k).map(c => (
+          <div key={c} className="debug-ruler-cell" style={{ width: cellSize }}>
+            <button
+              className={`debug-breakpoint ${breakpoints?.has(c) ? 'active' : ''}`}
+              onClick={() => onToggleBreakpoint?.(c)}
+              title={breakpoints?.has(c) ? 'Remove breakpoint' : 'Pause before this column'}
+            />
+            <button
+              className={`debug-column-number ${c === debugCursor ? 'current' : ''}`}
+              onClick={() => onDebugSeek?.(c)}
+              title={`Show the state after column ${c + 1}`}
+            >
+              {(c + 1) % numberEvery === 0 || c === debugCursor ? c + 1 : ''}
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   // Render grid cells with highlighting for two-qubit gates
   const renderGrid = () => {
     const cells = [];
@@ -461,7 +877,13 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     // Determine which cells to highlight
     const highlightedCells = new Set<string>();
 
-    if (hoverCell && selectedGateIsThreeQubit && circuit.numQubits >= 3) {
+    if (hoverCell && selectedGateIsCustom) {
+      if (canPlaceCustomGate(hoverCell.qubit, hoverCell.column, selectedGateNumQubits)) {
+        for (let k = 0; k < selectedGateNumQubits; k++) {
+          highlightedCells.add(`${hoverCell.qubit + k}-${hoverCell.column}`);
+        }
+      }
+    } else if (hoverCell && selectedGateIsThreeQubit && circuit.numQubits >= 3) {
       const canPlace = canPlaceThreeQubitGate(hoverCell.qubit, hoverCell.column);
       if (canPlace) {
         const qubits = getThreeQubitRange(hoverCell.qubit);
@@ -481,7 +903,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     }
 
     for (let q = 0; q < circuit.numQubits; q++) {
-      for (let c = 0; c < numColumns; c++) {
+      for (let c = firstColumn; c < lastColumn; c++) {
         const cellKey = `${q}-${c}`;
         const isHighlighted = highlightedCells.has(cellKey);
         const isDragOver = dragOverCell?.qubit === q && dragOverCell?.column === c;
@@ -492,10 +914,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             className="grid-cell"
             style={{
               position: 'absolute',
-              left: c * CELL_SIZE,
-              top: q * CELL_SIZE,
-              width: CELL_SIZE,
-              height: CELL_SIZE,
+              left: c * cellSize,
+              top: q * cellSize,
+              width: cellSize,
+              height: cellSize,
               border: '1px dashed rgba(0, 0, 0, 0.1)',
               backgroundColor: isHighlighted
                 ? 'rgba(74, 144, 217, 0.25)'
@@ -516,15 +938,17 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
   const renderGates = () => {
     const elements: React.ReactNode[] = [];
 
-    for (const gate of circuit.gates) {
-      const def = GATE_DEFINITIONS[gate.gateId];
+    for (const gate of visibleGates) {
+      const def = getDefinition(gate.gateId);
       if (!def) continue;
 
       const isSelected = selectedInstances.has(gate.id);
+      const isOpen = (qubit: number) => gate.openControls?.includes(qubit) ?? false;
 
-      // Render three-qubit gate connections (CCX, CCZ, CSWAP)
-      if (def.numQubits === 3 && gate.controls !== undefined) {
-        const allQubits = [...gate.controls, gate.target];
+      // Render three-qubit gate connections (CCX, CCZ, CSWAP); controlled blocks are drawn below
+      if (def.numQubits === 3 && gate.controls !== undefined && gate.targets === undefined) {
+        const operands = getGateOperands(gate);
+        const allQubits = [...operands.controls, ...operands.targets];
         const minQ = Math.min(...allQubits);
         const maxQ = Math.max(...allQubits);
 
@@ -535,10 +959,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`selection-${gate.id}`}
               style={{
                 position: 'absolute',
-                left: gate.column * CELL_SIZE - 4,
-                top: minQ * CELL_SIZE - 4,
-                width: CELL_SIZE + 8,
-                height: (maxQ - minQ + 1) * CELL_SIZE + 8,
+                left: gate.column * cellSize - 4,
+                top: minQ * cellSize - 4,
+                width: cellSize + 8,
+                height: (maxQ - minQ + 1) * cellSize + 8,
                 border: '2px solid #4A90D9',
                 borderRadius: 8,
                 backgroundColor: 'rgba(74, 144, 217, 0.1)',
@@ -556,7 +980,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             column={gate.column}
             fromQubit={minQ}
             toQubit={maxQ}
-            cellSize={CELL_SIZE}
+            cellSize={cellSize}
           />
         );
 
@@ -566,10 +990,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             key={`multi-click-${gate.id}`}
             style={{
               position: 'absolute',
-              left: gate.column * CELL_SIZE,
-              top: minQ * CELL_SIZE,
-              width: CELL_SIZE,
-              height: (maxQ - minQ + 1) * CELL_SIZE,
+              left: gate.column * cellSize,
+              top: minQ * cellSize,
+              width: cellSize,
+              height: (maxQ - minQ + 1) * cellSize,
               cursor: 'pointer',
               zIndex: 4,
             }}
@@ -591,24 +1015,25 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             <ControlDot
               key={`ctrl-${gate.id}`}
               x={gate.column}
-              y={gate.controls[0]}
-              cellSize={CELL_SIZE}
+              y={operands.controls[0]}
+              cellSize={cellSize}
+              open={isOpen(operands.controls[0])}
             />
           );
           elements.push(
             <SwapSymbol
               key={`swap1-${gate.id}`}
               x={gate.column}
-              y={gate.controls[1]}
-              cellSize={CELL_SIZE}
+              y={operands.targets[0]}
+              cellSize={cellSize}
             />
           );
           elements.push(
             <SwapSymbol
               key={`swap2-${gate.id}`}
               x={gate.column}
-              y={gate.target}
-              cellSize={CELL_SIZE}
+              y={operands.targets[1]}
+              cellSize={cellSize}
             />
           );
         } else if (gate.gateId === 'CCX') {
@@ -619,7 +1044,8 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                 key={`ctrl-${gate.id}-${idx}`}
                 x={gate.column}
                 y={ctrl}
-                cellSize={CELL_SIZE}
+                cellSize={cellSize}
+                open={isOpen(ctrl)}
               />
             );
           });
@@ -628,17 +1054,17 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`target-${gate.id}`}
               style={{
                 position: 'absolute',
-                left: gate.column * CELL_SIZE + CELL_SIZE / 2 - 15,
-                top: gate.target * CELL_SIZE + CELL_SIZE / 2 - 15,
-                width: 30,
-                height: 30,
+                left: gate.column * cellSize + cellSize / 4,
+                top: gate.target * cellSize + cellSize / 4,
+                width: cellSize / 2,
+                height: cellSize / 2,
                 border: '3px solid #1A252F',
                 borderRadius: '50%',
                 backgroundColor: 'white',
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                fontSize: 20,
+                fontSize: cellSize / 3,
                 fontWeight: 'bold',
                 color: '#1A252F',
                 zIndex: 5,
@@ -656,7 +1082,8 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                 key={`ctrl-${gate.id}-${idx}`}
                 x={gate.column}
                 y={q}
-                cellSize={CELL_SIZE}
+                cellSize={cellSize}
+                open={isOpen(q)}
               />
             );
           });
@@ -672,10 +1099,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`selection-${gate.id}`}
               style={{
                 position: 'absolute',
-                left: gate.column * CELL_SIZE - 4,
-                top: minQ * CELL_SIZE - 4,
-                width: CELL_SIZE + 8,
-                height: (maxQ - minQ + 1) * CELL_SIZE + 8,
+                left: gate.column * cellSize - 4,
+                top: minQ * cellSize - 4,
+                width: cellSize + 8,
+                height: (maxQ - minQ + 1) * cellSize + 8,
                 border: '2px solid #4A90D9',
                 borderRadius: 8,
                 backgroundColor: 'rgba(74, 144, 217, 0.1)',
@@ -692,7 +1119,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             column={gate.column}
             fromQubit={gate.target}
             toQubit={gate.control}
-            cellSize={CELL_SIZE}
+            cellSize={cellSize}
           />
         );
 
@@ -705,10 +1132,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`swap-click-${gate.id}`}
               style={{
                 position: 'absolute',
-                left: gate.column * CELL_SIZE,
-                top: minQ * CELL_SIZE,
-                width: CELL_SIZE,
-                height: (maxQ - minQ + 1) * CELL_SIZE,
+                left: gate.column * cellSize,
+                top: minQ * cellSize,
+                width: cellSize,
+                height: (maxQ - minQ + 1) * cellSize,
                 cursor: 'pointer',
                 zIndex: 4,
               }}
@@ -728,7 +1155,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`swap1-${gate.id}`}
               x={gate.column}
               y={gate.target}
-              cellSize={CELL_SIZE}
+              cellSize={cellSize}
             />
           );
           elements.push(
@@ -736,7 +1163,7 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`swap2-${gate.id}`}
               x={gate.column}
               y={gate.control}
-              cellSize={CELL_SIZE}
+              cellSize={cellSize}
             />
           );
         } else {
@@ -750,10 +1177,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`ctrl-click-${gate.id}`}
               style={{
                 position: 'absolute',
-                left: gate.column * CELL_SIZE,
-                top: minQ * CELL_SIZE,
-                width: CELL_SIZE,
-                height: (maxQ - minQ + 1) * CELL_SIZE,
+                left: gate.column * cellSize,
+                top: minQ * cellSize,
+                width: cellSize,
+                height: (maxQ - minQ + 1) * cellSize,
                 cursor: 'pointer',
                 zIndex: 4,
               }}
@@ -774,7 +1201,8 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
               key={`ctrl-${gate.id}`}
               x={gate.column}
               y={gate.control}
-              cellSize={CELL_SIZE}
+              cellSize={cellSize}
+              open={isOpen(gate.control)}
             />
           );
 
@@ -785,17 +1213,17 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                 key={`target-${gate.id}`}
                 style={{
                   position: 'absolute',
-                  left: gate.column * CELL_SIZE + CELL_SIZE / 2 - 15,
-                  top: gate.target * CELL_SIZE + CELL_SIZE / 2 - 15,
-                  width: 30,
-                  height: 30,
+                  left: gate.column * cellSize + cellSize / 4,
+                  top: gate.target * cellSize + cellSize / 4,
+                  width: cellSize / 2,
+                  height: cellSize / 2,
                   border: '3px solid #2C3E50',
                   borderRadius: '50%',
                   backgroundColor: 'white',
                   display: 'flex',
                   alignItems: 'center',
                   justifyContent: 'center',
-                  fontSize: 20,
+                  fontSize: cellSize / 3,
                   fontWeight: 'bold',
                   color: '#2C3E50',
                   zIndex: 5,
@@ -812,12 +1240,58 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
                 key={`target-${gate.id}`}
                 x={gate.column}
                 y={gate.target}
-                cellSize={CELL_SIZE}
+                cellSize={cellSize}
               />
             );
           }
         }
       } else {
+        // Single-qubit or composite gate with added controls: dots joined to the gate box
+        if (gate.controls !== undefined && gate.controls.length > 0) {
+          const qubits = [...(gate.targets ?? [gate.target]), ...gate.controls];
+          const minQ = Math.min(...qubits);
+          const maxQ = Math.max(...qubits);
+          if (isSelected) {
+            elements.push(
+              <div
+                key={`selection-${gate.id}`}
+                style={{
+                  position: 'absolute',
+                  left: gate.column * cellSize - 4,
+                  top: minQ * cellSize - 4,
+                  width: cellSize + 8,
+                  height: (maxQ - minQ + 1) * cellSize + 8,
+                  border: '2px solid #4A90D9',
+                  borderRadius: 8,
+                  backgroundColor: 'rgba(74, 144, 217, 0.1)',
+                  zIndex: 0,
+                  pointerEvents: 'none',
+                }}
+              />
+            );
+          }
+          elements.push(
+            <ControlLine
+              key={`line-${gate.id}`}
+              column={gate.column}
+              fromQubit={minQ}
+              toQubit={maxQ}
+              cellSize={cellSize}
+            />
+          );
+          gate.controls.forEach((ctrl, idx) => {
+            elements.push(
+              <ControlDot
+                key={`ctrl-${gate.id}-${idx}`}
+                x={gate.column}
+                y={ctrl}
+                cellSize={cellSize}
+                open={isOpen(ctrl)}
+              />
+            );
+          });
+        }
+
         // Single qubit gate - wrap to handle multi-selection
         elements.push(
           <div
@@ -830,11 +1304,12 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             <GateBlock
               key={`gate-${gate.id}`}
               gate={gate}
+              definition={def}
               isSelected={isSelected}
               onClick={() => {}} // Handled by wrapper
               onDoubleClick={() => onGateEdit(gate.id)}
               onRemove={() => onGateRemove(gate.id)}
-              cellSize={CELL_SIZE}
+              cellSize={cellSize}
             />
           </div>
         );
@@ -851,10 +1326,12 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
     const elements: React.ReactNode[] = [];
     const baseQubit = hoverCell.qubit;
     const baseColumn = hoverCell.column;
+    // A block takes a single column
+    const columnSpan = placePatternAsBlock ? 1 : selectedPattern.columnSpan;
 
     // Check if pattern can be placed
     const wouldFit = baseQubit + selectedPattern.qubitSpan <= circuit.numQubits &&
-                     baseColumn + selectedPattern.columnSpan <= numColumns;
+                     baseColumn + columnSpan <= numColumns;
 
     // Render preview outline
     if (wouldFit) {
@@ -863,10 +1340,10 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
           key="pattern-preview"
           style={{
             position: 'absolute',
-            left: baseColumn * CELL_SIZE - 4,
-            top: baseQubit * CELL_SIZE - 4,
-            width: selectedPattern.columnSpan * CELL_SIZE + 8,
-            height: selectedPattern.qubitSpan * CELL_SIZE + 8,
+            left: baseColumn * cellSize - 4,
+            top: baseQubit * cellSize - 4,
+            width: columnSpan * cellSize + 8,
+            height: selectedPattern.qubitSpan * cellSize + 8,
             border: `3px dashed ${selectedPattern.color}`,
             borderRadius: 8,
             backgroundColor: `${selectedPattern.color}20`,
@@ -882,22 +1359,52 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
 
   return (
     <div className="circuit-canvas-container">
-      <div className="circuit-canvas-scroll">
+      <div className="canvas-toolbar">
+        <span className="canvas-size">
+          {circuit.gates.length} gate{circuit.gates.length !== 1 ? 's' : ''} · {numColumns} columns
+        </span>
+        <div className="canvas-zoom-controls">
+          <button onClick={() => zoomTo(zoom / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} title="Zoom out (Ctrl+wheel)">
+            <ZoomOut size={16} />
+          </button>
+          <button className="canvas-zoom-level" onClick={() => zoomTo(1)} title="Reset zoom">
+            {Math.round(zoom * 100)}%
+          </button>
+          <button onClick={() => zoomTo(zoom * ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} title="Zoom in (Ctrl+wheel)">
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={zoomToFit} title="Fit every column in the view">
+            Fit
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className={`circuit-canvas-scroll ${isPanning ? 'panning' : ''}`}
+        onScroll={updateViewport}
+        onMouseDown={handlePanStart}
+      >
+        {renderDebugRuler()}
         <div
           className="circuit-canvas"
           style={{
             display: 'flex',
             position: 'relative',
-            minHeight: height + GRID_PADDING * 2,
+            minHeight: totalHeight + GRID_PADDING * 2,
           }}
         >
           {/* Qubit labels */}
           <div
             className="qubit-labels"
             style={{
-              position: 'relative',
+              // Kept in view while the grid scrolls sideways
+              position: 'sticky',
+              left: 0,
+              zIndex: 1,
+              background: 'white',
               width: QUBIT_LABEL_WIDTH,
-              height: height + GRID_PADDING * 2,
+              height: totalHeight + GRID_PADDING * 2,
               paddingTop: GRID_PADDING,
               paddingBottom: GRID_PADDING,
               flexShrink: 0,
@@ -914,11 +1421,12 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             style={{
               position: 'relative',
               width: width + GRID_PADDING * 2,
-              height: height + GRID_PADDING * 2,
+              height: totalHeight + GRID_PADDING * 2,
               padding: GRID_PADDING,
               backgroundColor: '#FAFAFA',
               borderRadius: 8,
               boxSizing: 'border-box',
+              zIndex: 0,
             }}
             onClick={handleCanvasClick}
             onMouseDown={handleMouseDown}
@@ -935,11 +1443,14 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
             onDrop={handleDrop}
           >
             {/* Content container with padding offset */}
-            <div style={{ position: 'relative', width: width, height: height }}>
+            <div style={{ position: 'relative', width: width, height: totalHeight }}>
               {renderGrid()}
               {renderWires()}
+              {renderClassical()}
+              {renderRepeaters()}
               {renderGates()}
               {renderPatternPreview()}
+              {renderDebugCursor()}
 
               {/* Selection box overlay */}
               {selectionBox && (
@@ -964,9 +1475,22 @@ export const CircuitCanvas: React.FC<CircuitCanvasProps> = ({
         </div>
       </div>
 
+      {width > viewport.width && (
+        <CircuitMinimap
+          circuit={circuit}
+          numColumns={numColumns}
+          getColor={getGateColor}
+          viewStart={viewport.start / cellSize}
+          viewColumns={viewport.width / cellSize}
+          onPan={centerOnColumn}
+        />
+      )}
+
       {selectedPattern && (
         <div className="placement-hint">
-          Click to place pattern "{selectedPattern.name}" ({selectedPattern.qubitSpan}q × {selectedPattern.columnSpan}c)
+          {placePatternAsBlock
+            ? `Click to place pattern "${selectedPattern.name}" as a block (${selectedPattern.qubitSpan}q)`
+            : `Click to place pattern "${selectedPattern.name}" (${selectedPattern.qubitSpan}q × ${selectedPattern.columnSpan}c)`}
         </div>
       )}
       {!selectedPattern && selectedGate && selectedGateIsThreeQubit && (
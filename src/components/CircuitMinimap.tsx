@@ -0,0 +1,76 @@
+/**
+ * Minimap of a wide circuit: one pixel per column and qubit, with the part
+ * shown on the canvas outlined. Click or drag to move the view.
+ */
+
+import React, { useRef, useEffect } from 'react';
+import { CircuitState } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+
+interface CircuitMinimapProps {
+  circuit: CircuitState;
+  numColumns: number;
+  getColor: (gateId: string) => string;
+  viewStart: number;    // First visible column, possibly fractional
+  viewColumns: number;  // Number of visible columns
+  onPan: (column: number) => void;  // Centre the view on a column
+}
+
+const ROW_HEIGHT = 4;
+const MIN_HEIGHT = 24;
+
+export const CircuitMinimap: React.FC<CircuitMinimapProps> = ({
+  circuit,
+  numColumns,
+  getColor,
+  viewStart,
+  viewColumns,
+  onPan,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { numQubits, gates } = circuit;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#FAFAFA';
+    ctx.fillRect(0, 0, numColumns, numQubits);
+    for (const gate of gates) {
+      const { controls, targets } = getGateOperands(gate);
+      const qubits = [...controls, ...targets];
+      const top = Math.min(...qubits);
+      ctx.fillStyle = getColor(gate.gateId);
+      ctx.fillRect(gate.column, top, 1, Math.max(...qubits) - top + 1);
+    }
+  }, [gates, numColumns, numQubits, getColor]);
+
+  // Column under the pointer, from the fraction of the minimap's width
+  const columnAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * numColumns;
+  };
+
+  return (
+    <div
+      className="circuit-minimap"
+      style={{ height: Math.max(numQubits * ROW_HEIGHT, MIN_HEIGHT) }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onPan(columnAt(e));
+      }}
+      onPointerMove={(e) => {
+        if (e.buttons & 1) onPan(columnAt(e));
+      }}
+      title="Click or drag to move the view"
+    >
+      <canvas ref={canvasRef} width={numColumns} height={numQubits} />
+      <div
+        className="minimap-viewport"
+        style={{
+          left: `${(Math.max(viewStart, 0) / numColumns) * 100}%`,
+          width: `${(Math.min(viewColumns, numColumns) / numColumns) * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
@@ -3,51 +3,82 @@
  */
 
 import React, { useState, useCallback } from 'react';
-import { Play, Trash2, Download, Upload, Undo2, Redo2, Plus, Minus, Settings } from 'lucide-react';
-import { SavedCircuit } from '../types/circuit';
+import { Play, Square, Trash2, Download, Upload, Undo2, Redo2, Plus, Minus, Settings, FileCode, FileInput } from 'lucide-react';
+import { SavedCircuit, SimulationEngine } from '../types/circuit';
 import { validateSavedCircuit } from '../utils/circuitValidator';
+import { QasmVersion } from '../utils/qasmExporter';
+import { parseQasm } from '../utils/qasmParser';
+import { ExecutionProgress } from '../simulator';
 import { CIRCUIT_LIMITS } from '../config';
 
 // Preset shot values for quick selection
 const SHOT_PRESETS = [100, 1024, 4096, 10000] as const;
 
+// Simulation engines selectable in settings
+const ENGINES: { id: SimulationEngine; label: string; description: string }[] = [
+  { id: 'statevector', label: 'Statevector', description: 'Pure-state simulation; noise is sampled per shot' },
+  { id: 'densityMatrix', label: 'Density matrix', description: 'Mixed-state simulation; noise and measurements applied exactly' },
+];
+
+// Supported OpenQASM export versions
+const QASM_VERSIONS: QasmVersion[] = ['2.0', '3.0'];
+
 interface ControlPanelProps {
   numQubits: number;
+  maxQubits: number;  // Largest register the selected engine fits in memory
+  numClbits: number;
   shots: number;
+  engine: SimulationEngine;
   isExecuting: boolean;
+  progress: ExecutionProgress | null;
   canUndo: boolean;
   canRedo: boolean;
   circuitName: string;
   onExecute: () => void;
+  onCancel: () => void;
   onClear: () => void;
   onShotsChange: (shots: number) => void;
+  onEngineChange: (engine: SimulationEngine) => void;
   onNumQubitsChange: (n: number) => void;
+  onNumClbitsChange: (n: number) => void;
   onUndo: () => void;
   onRedo: () => void;
   onSave: () => SavedCircuit;
+  onExportQasm: (version: QasmVersion) => string;
   onLoad: (circuit: SavedCircuit) => void;
+  onImportQasm: () => void;
   onNameChange: (name: string) => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   numQubits,
+  maxQubits,
+  numClbits,
   shots,
+  engine,
   isExecuting,
+  progress,
   canUndo,
   canRedo,
   circuitName,
   onExecute,
+  onCancel,
   onClear,
   onShotsChange,
+  onEngineChange,
   onNumQubitsChange,
+  onNumClbitsChange,
   onUndo,
   onRedo,
   onSave,
+  onExportQasm,
   onLoad,
+  onImportQasm,
   onNameChange,
 }) => {
   const [showSettings, setShowSettings] = useState(false);
   const [shotsInput, setShotsInput] = useState(shots.toString());
+  const [qasmVersion, setQasmVersion] = useState<QasmVersion>('2.0');
 
   // Handle shots input change with validation
   const handleShotsInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -101,16 +132,48 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     URL.revokeObjectURL(url);
   }, [onSave]);
 
+  const handleExportQasm = useCallback(() => {
+    let source: string;
+    try {
+      source = onExportQasm(qasmVersion);
+    } catch (err) {
+      alert('Failed to export OpenQASM: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      return;
+    }
+    const blob = new Blob([source], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${circuitName.replace(/[^a-z0-9]/gi, '_')}.qasm`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [onExportQasm, qasmVersion, circuitName]);
+
   const handleLoad = useCallback(() => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.qasm';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
       try {
         const text = await file.text();
+
+        // OpenQASM files are parsed rather than loaded as JSON
+        if (file.name.toLowerCase().endsWith('.qasm')) {
+          const result = parseQasm(text, file.name.replace(/\.qasm$/i, ''));
+          if (!result.valid || !result.circuit) {
+            alert(`Invalid OpenQASM file:\n\n${result.errors.join('\n')}`);
+            return;
+          }
+          if (result.warnings.length > 0) {
+            console.warn('OpenQASM import warnings:', result.warnings);
+          }
+          onLoad(result.circuit);
+          return;
+        }
+
         const data = JSON.parse(text);
 
         // Validate the circuit before loading
@@ -148,15 +211,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
       {/* Main controls */}
       <div className="control-buttons">
-        <button
-          className="control-button primary"
-          onClick={onExecute}
-          disabled={isExecuting}
-          title="Run circuit"
-        >
-          <Play size={18} />
-          <span>Run</span>
-        </button>
+        {isExecuting ? (
+          <button
+            className="control-button primary"
+            onClick={onCancel}
+            title="Cancel execution"
+          >
+            <Square size={18} />
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            className="control-button primary"
+            onClick={onExecute}
+            title="Run circuit"
+          >
+            <Play size={18} />
+            <span>Run</span>
+          </button>
+        )}
 
         <button
           className="control-button"
@@ -198,6 +271,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           <Download size={18} />
         </button>
 
+        <button
+          className="control-button"
+          onClick={handleExportQasm}
+          disabled={isExecuting}
+          title={`Export as OpenQASM ${qasmVersion}`}
+        >
+          <FileCode size={18} />
+        </button>
+
         <button
           className="control-button"
           onClick={handleLoad}
@@ -207,6 +289,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           <Upload size={18} />
         </button>
 
+        <button
+          className="control-button"
+          onClick={onImportQasm}
+          disabled={isExecuting}
+          title="Import OpenQASM"
+        >
+          <FileInput size={18} />
+        </button>
+
         <div className="control-divider" />
 
         <button
@@ -218,6 +309,21 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
       </div>
 
+      {/* Execution progress */}
+      {isExecuting && progress && (
+        <div className="execution-progress">
+          <div className="execution-progress-bar">
+            <div
+              className="execution-progress-fill"
+              style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="execution-progress-label">
+            {progress.completed.toLocaleString()} / {progress.total.toLocaleString()} shots
+          </span>
+        </div>
+      )}
+
       {/* Settings panel */}
       {showSettings && (
         <div className="settings-panel">
@@ -234,7 +340,28 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               <span>{numQubits}</span>
               <button
                 onClick={() => onNumQubitsChange(numQubits + 1)}
-                disabled={numQubits >= 10}
+                disabled={numQubits >= maxQubits}
+                title={numQubits >= maxQubits ? `At most ${maxQubits} qubits fit in this device's memory` : undefined}
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+
+          {/* Classical bits control */}
+          <div className="setting-row">
+            <label>Classical bits</label>
+            <div className="number-input">
+              <button
+                onClick={() => onNumClbitsChange(numClbits - 1)}
+                disabled={numClbits <= 1}
+              >
+                <Minus size={14} />
+              </button>
+              <span>{numClbits}</span>
+              <button
+                onClick={() => onNumClbitsChange(numClbits + 1)}
+                disabled={numClbits >= CIRCUIT_LIMITS.MAX_CLBITS}
               >
                 <Plus size={14} />
               </button>
@@ -272,6 +399,40 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               </span>
             </div>
           </div>
+
+          {/* Simulation engine */}
+          <div className="setting-row">
+            <label>Engine</label>
+            <div className="shots-presets">
+              {ENGINES.map(({ id, label, description }) => (
+                <button
+                  key={id}
+                  className={`preset-btn ${engine === id ? 'active' : ''}`}
+                  onClick={() => onEngineChange(id)}
+                  title={description}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* OpenQASM export version */}
+          <div className="setting-row">
+            <label>QASM</label>
+            <div className="shots-presets">
+              {QASM_VERSIONS.map((version) => (
+                <button
+                  key={version}
+                  className={`preset-btn ${qasmVersion === version ? 'active' : ''}`}
+                  onClick={() => setQasmVersion(version)}
+                  title={`Export as OpenQASM ${version}`}
+                >
+                  {version}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,264 @@
+/**
+ * Editor for user-defined gates: a name, optional parameters and a matrix
+ * of complex expressions, checked for unitarity as it is typed.
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { X, Boxes } from 'lucide-react';
+import { CustomGateDefinition } from '../types/circuit';
+import {
+  MAX_CUSTOM_GATE_QUBITS,
+  validateCustomGate,
+  parseMatrixText,
+  formatMatrixText,
+} from '../utils/customGates';
+
+interface CustomGateEditorProps {
+  definition?: CustomGateDefinition;  // Gate being edited; a new gate when missing
+  onSave: (definition: CustomGateDefinition) => string | null;
+  onClose: () => void;
+}
+
+// Starting points for common gates the palette lacks
+const EXAMPLES: CustomGateDefinition[] = [
+  {
+    name: 'iSWAP',
+    numQubits: 2,
+    parameters: [],
+    matrix: [
+      ['1', '0', '0', '0'],
+      ['0', '0', 'i', '0'],
+      ['0', 'i', '0', '0'],
+      ['0', '0', '0', '1'],
+    ],
+    description: 'Swaps |01⟩ and |10⟩ with a phase of i',
+  },
+  {
+    name: 'sqrtSWAP',
+    symbol: '√SW',
+    numQubits: 2,
+    parameters: [],
+    matrix: [
+      ['1', '0', '0', '0'],
+      ['0', '(1+i)/2', '(1-i)/2', '0'],
+      ['0', '(1-i)/2', '(1+i)/2', '0'],
+      ['0', '0', '0', '1'],
+    ],
+    description: 'Square root of SWAP',
+  },
+  {
+    name: 'fSim',
+    numQubits: 2,
+    parameters: ['theta', 'phi'],
+    matrix: [
+      ['1', '0', '0', '0'],
+      ['0', 'cos(theta)', '-i*sin(theta)', '0'],
+      ['0', '-i*sin(theta)', 'cos(theta)', '0'],
+      ['0', '0', '0', 'exp(-i*phi)'],
+    ],
+    description: 'Fermionic simulation gate: partial iSWAP with a controlled phase',
+  },
+  {
+    name: 'XX',
+    numQubits: 2,
+    parameters: ['theta'],
+    matrix: [
+      ['cos(theta/2)', '0', '0', '-i*sin(theta/2)'],
+      ['0', 'cos(theta/2)', '-i*sin(theta/2)', '0'],
+      ['0', '-i*sin(theta/2)', 'cos(theta/2)', '0'],
+      ['-i*sin(theta/2)', '0', '0', 'cos(theta/2)'],
+    ],
+    description: 'Ising coupling exp(-iθ X⊗X / 2)',
+  },
+];
+
+// Identity matrix text for a number of qubits
+function identityText(numQubits: number): string {
+  const dim = 1 << numQubits;
+  return formatMatrixText(
+    Array.from({ length: dim }, (_, r) => Array.from({ length: dim }, (_, c) => (r === c ? '1' : '0')))
+  );
+}
+
+export const CustomGateEditor: React.FC<CustomGateEditorProps> = ({
+  definition,
+  onSave,
+  onClose,
+}) => {
+  const isEdit = definition !== undefined;
+  const [name, setName] = useState(definition?.name ?? '');
+  const [symbol, setSymbol] = useState(definition?.symbol ?? '');
+  const [description, setDescription] = useState(definition?.description ?? '');
+  const [numQubits, setNumQubits] = useState(definition?.numQubits ?? 2);
+  const [parameters, setParameters] = useState(definition?.parameters.join(', ') ?? '');
+  const [matrixText, setMatrixText] = useState(
+    definition ? formatMatrixText(definition.matrix) : identityText(2)
+  );
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const draft = useMemo((): CustomGateDefinition => ({
+    name: name.trim(),
+    ...(symbol.trim() && { symbol: symbol.trim() }),
+    numQubits,
+    parameters: parameters.split(',').map(p => p.trim()).filter(p => p.length > 0),
+    matrix: parseMatrixText(matrixText),
+    ...(description.trim() && { description: description.trim() }),
+  }), [name, symbol, numQubits, parameters, matrixText, description]);
+
+  // Checked on every edit, so the unitarity result stays in sync with the text
+  const error = useMemo(() => validateCustomGate(draft), [draft]);
+
+  const handleQubitsChange = useCallback((n: number) => {
+    setNumQubits(n);
+    setMatrixText(identityText(n));
+    setSaveError(null);
+  }, []);
+
+  const handleExample = useCallback((example: CustomGateDefinition) => {
+    setName(example.name);
+    setSymbol(example.symbol ?? '');
+    setDescription(example.description ?? '');
+    setNumQubits(example.numQubits);
+    setParameters(example.parameters.join(', '));
+    setMatrixText(formatMatrixText(example.matrix));
+    setSaveError(null);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (error) return;
+    const result = onSave(draft);
+    if (result) {
+      setSaveError(result);
+    } else {
+      onClose();
+    }
+  }, [error, draft, onSave, onClose]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel custom-gate-editor" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <Boxes size={20} />
+            <h3>{isEdit ? `Edit ${definition.name}` : 'New Custom Gate'}</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          {!isEdit && (
+            <div className="hardware-section">
+              <h4>Examples</h4>
+              <div className="unitary-toggle">
+                {EXAMPLES.map(example => (
+                  <button key={example.name} className="preset-btn" onClick={() => handleExample(example)}>
+                    {example.symbol ?? example.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="hardware-section">
+            <div className="form-row two-col">
+              <div className="form-group">
+                <label>Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => { setName(e.target.value); setSaveError(null); }}
+                  placeholder="e.g. iSWAP"
+                  disabled={isEdit}
+                  autoFocus={!isEdit}
+                />
+              </div>
+              <div className="form-group">
+                <label>Symbol</label>
+                <input
+                  type="text"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  placeholder="Defaults to the name"
+                  maxLength={4}
+                />
+              </div>
+            </div>
+            <div className="form-row two-col">
+              <div className="form-group">
+                <label>Qubits</label>
+                <div className="unitary-toggle">
+                  {Array.from({ length: MAX_CUSTOM_GATE_QUBITS }, (_, i) => i + 1).map(n => (
+                    <button
+                      key={n}
+                      className={`preset-btn ${numQubits === n ? 'active' : ''}`}
+                      onClick={() => handleQubitsChange(n)}
+                      disabled={isEdit}
+                      title={isEdit ? 'The qubit count of a saved gate is fixed' : undefined}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="form-group">
+                <label>Parameters</label>
+                <input
+                  type="text"
+                  value={parameters}
+                  onChange={(e) => setParameters(e.target.value)}
+                  placeholder="e.g. theta, phi"
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="hardware-section">
+            <h4>Matrix</h4>
+            <p className="section-description">
+              One row per line, entries separated by commas. Entries are expressions in the
+              parameters with <code>i</code> as the imaginary unit, e.g. <code>-i*sin(theta/2)</code> or{' '}
+              <code>exp(i*phi)</code>. Column j is the output for input |j⟩, with qubit 0 of the
+              gate (its top wire) as the least significant bit.
+            </p>
+            <textarea
+              className="custom-gate-matrix"
+              value={matrixText}
+              onChange={(e) => { setMatrixText(e.target.value); setSaveError(null); }}
+              rows={1 << numQubits}
+              spellCheck={false}
+            />
+            {error || saveError ? (
+              <p className="parameter-error">{error ?? saveError}</p>
+            ) : (
+              <p className="form-hint unitary-match">
+                Unitary{draft.parameters.length > 0 ? ' at every sampled parameter value' : ''}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="hardware-panel-footer">
+          <button className="cancel-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="save-button" onClick={handleSave} disabled={error !== null}>
+            {isEdit ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+/**
+ * Step-through debugger panel: playback controls for the column cursor and
+ * the amplitudes and probabilities of the state after the cursor column.
+ */
+
+import React, { useMemo } from 'react';
+import { Bug, Play, Pause, StepBack, StepForward, SkipBack, SkipForward, X } from 'lucide-react';
+import { CircuitState } from '../types/circuit';
+import { computeStatevector } from '../simulator';
+import { CIRCUIT_LIMITS } from '../config';
+
+interface DebuggerPanelProps {
+  circuit: CircuitState;
+  cursor: number;
+  lastColumn: number;
+  isPlaying: boolean;
+  breakpoints: Set<number>;
+  onSeek: (column: number | null) => void;
+  onStepForward: () => void;
+  onStepBack: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onClearBreakpoints: () => void;
+  onClose: () => void;
+}
+
+// Basis states listed, largest probability first
+const MAX_STATES = 16;
+// Amplitudes below this are hidden
+const AMPLITUDE_CUTOFF = 1e-3;
+
+export const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  circuit,
+  cursor,
+  lastColumn,
+  isPlaying,
+  breakpoints,
+  onSeek,
+  onStepForward,
+  onStepBack,
+  onPlay,
+  onPause,
+  onClearBreakpoints,
+  onClose,
+}) => {
+  // Amplitudes after the cursor column, or null when the register is too
+  // wide to simulate on the main thread or the state cannot be computed
+  const amplitudes = useMemo(() => {
+    if (circuit.numQubits > CIRCUIT_LIMITS.MAX_DISPLAY_QUBITS) return null;
+    let state;
+    try {
+      state = computeStatevector(circuit, cursor);
+    } catch {
+      return null;
+    }
+    const result = [];
+    for (let i = 0; i < state.real.length; i++) {
+      const re = state.real[i];
+      const im = state.imag[i];
+      const probability = re * re + im * im;
+      if (Math.sqrt(probability) > AMPLITUDE_CUTOFF) {
+        const bitstring = i.toString(2).padStart(circuit.numQubits, '0').split('').reverse().join('');
+        result.push({ bitstring, re, im, probability });
+      }
+    }
+    return result.sort((a, b) => b.probability - a.probability);
+  }, [circuit, cursor]);
+
+  const gatesInColumn = useMemo(
+    () => circuit.gates.filter(gate => gate.column === cursor),
+    [circuit.gates, cursor]
+  );
+
+  const positionLabel = cursor < 0
+    ? 'Initial state |0…0⟩'
+    : `After column ${cursor + 1} of ${lastColumn + 1}`;
+
+  return (
+    <div className="debugger-panel">
+      <div className="repeater-settings-header">
+        <div className="repeater-settings-title">
+          <span className="repeater-settings-icon">
+            <Bug size={16} />
+          </span>
+          <span className="repeater-settings-name">Debugger</span>
+          <span className="debugger-position">{positionLabel}</span>
+        </div>
+        <div className="debugger-controls">
+          <button className="pattern-action-btn" onClick={() => onSeek(-1)} disabled={cursor < 0} title="Restart">
+            <SkipBack size={16} />
+          </button>
+          <button className="pattern-action-btn" onClick={onStepBack} disabled={cursor < 0} title="Step back (←)">
+            <StepBack size={16} />
+          </button>
+          {isPlaying ? (
+            <button className="pattern-action-btn" onClick={onPause} title="Pause">
+              <Pause size={16} />
+            </button>
+          ) : (
+            <button className="pattern-action-btn" onClick={onPlay} disabled={lastColumn < 0} title="Play">
+              <Play size={16} />
+            </button>
+          )}
+          <button
+            className="pattern-action-btn"
+            onClick={onStepForward}
+            disabled={cursor >= lastColumn}
+            title="Step forward (→)"
+          >
+            <StepForward size={16} />
+          </button>
+          <button
+            className="pattern-action-btn"
+            onClick={() => onSeek(null)}
+            disabled={cursor >= lastColumn}
+            title="Run to end"
+          >
+            <SkipForward size={16} />
+          </button>
+          <button className="close-button" onClick={onClose} title="Close debugger">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="debugger-summary">
+        <span>
+          {cursor < 0
+            ? 'No gates applied yet'
+            : `${gatesInColumn.length} gate${gatesInColumn.length !== 1 ? 's' : ''} in this column`}
+        </span>
+        <span>
+          {breakpoints.size > 0 ? (
+            <>
+              Breakpoints: {[...breakpoints].sort((a, b) => a - b).map(c => c + 1).join(', ')}
+              <button className="debugger-clear" onClick={onClearBreakpoints}>Clear</button>
+            </>
+          ) : (
+            'Click the dot above a column to pause before it'
+          )}
+        </span>
+      </div>
+
+      {amplitudes === null ? (
+        <div className="pattern-empty">
+          <p className="pattern-hint">
+            The state could not be computed. Amplitudes are shown for circuits of up to{' '}
+            {CIRCUIT_LIMITS.MAX_DISPLAY_QUBITS} qubits.
+          </p>
+        </div>
+      ) : (
+        <div className="histogram debugger-states">
+          {amplitudes.slice(0, MAX_STATES).map(({ bitstring, re, im, probability }) => (
+            <div key={bitstring} className="histogram-bar-container">
+              <div className="histogram-label">|{bitstring}⟩</div>
+              <div className="histogram-bar-wrapper">
+                <div
+                  className="histogram-bar"
+                  style={{ width: `${probability * 100}%`, backgroundColor: '#6366F1' }}
+                />
+              </div>
+              <div className="debugger-amplitude" title={`|α|² = ${probability.toFixed(6)}`}>
+                {re >= 0 ? ' ' : ''}{re.toFixed(3)}{im >= 0 ? '+' : '−'}{Math.abs(im).toFixed(3)}i
+              </div>
+              <div className="histogram-value">{(probability * 100).toFixed(1)}%</div>
+            </div>
+          ))}
+          {amplitudes.length > MAX_STATES && (
+            <div className="histogram-more">+{amplitudes.length - MAX_STATES} more states</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
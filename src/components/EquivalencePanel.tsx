@@ -0,0 +1,227 @@
+/**
+ * Equivalence checker: compares the current circuit against a second one
+ * loaded from a file, by unitary or on random input states.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { X, GitCompare, Upload } from 'lucide-react';
+import { CircuitState, SavedCircuit } from '../types/circuit';
+import { checkEquivalence, EquivalenceMethod, EquivalenceReport, UNITARY_QUBIT_LIMIT } from '../simulator';
+import { validateSavedCircuit } from '../utils/circuitValidator';
+import { parseQasm } from '../utils/qasmParser';
+import { circuitFromSaved } from '../utils/savedCircuit';
+
+interface EquivalencePanelProps {
+  isOpen: boolean;
+  circuit: CircuitState;
+  onClose: () => void;
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+export const EquivalencePanel: React.FC<EquivalencePanelProps> = ({
+  isOpen,
+  circuit,
+  onClose,
+}) => {
+  const [other, setOther] = useState<CircuitState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [method, setMethod] = useState<EquivalenceMethod>('unitary');
+  const [samples, setSamples] = useState(20);
+  const [report, setReport] = useState<EquivalenceReport | null>(null);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  // Load the circuit to compare against, as saved JSON or OpenQASM
+  const handleLoad = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,.qasm';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      setReport(null);
+      setCheckError(null);
+      try {
+        const text = await file.text();
+        let saved: SavedCircuit;
+
+        if (file.name.toLowerCase().endsWith('.qasm')) {
+          const result = parseQasm(text, file.name.replace(/\.qasm$/i, ''));
+          if (!result.valid || !result.circuit) {
+            setLoadError(`Invalid OpenQASM file: ${result.errors.join('; ')}`);
+            return;
+          }
+          saved = result.circuit;
+        } else {
+          const data = JSON.parse(text);
+          const validation = validateSavedCircuit(data);
+          if (!validation.valid) {
+            setLoadError(`Invalid circuit file: ${validation.errors.join('; ')}`);
+            return;
+          }
+          saved = data as SavedCircuit;
+        }
+
+        setOther(circuitFromSaved(saved, generateId));
+        setLoadError(null);
+      } catch (err) {
+        setLoadError('Failed to load circuit file: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    };
+    input.click();
+  }, []);
+
+  const handleCheck = useCallback(() => {
+    if (!other) return;
+    try {
+      setReport(checkEquivalence(circuit, other, { method, samples }));
+      setCheckError(null);
+    } catch (err) {
+      setReport(null);
+      setCheckError(err instanceof Error ? err.message : String(err));
+    }
+  }, [circuit, other, method, samples]);
+
+  if (!isOpen) return null;
+
+  const unitaryTooLarge = method === 'unitary' && circuit.numQubits > UNITARY_QUBIT_LIMIT;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel equivalence-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <GitCompare size={20} />
+            <h3>Circuit Equivalence</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <h4>Circuits</h4>
+            <div className="info-grid">
+              <div className="info-item">
+                <span className="info-label">Current</span>
+                <span className="info-value">
+                  {circuit.name} ({circuit.numQubits} qubits, {circuit.gates.length} gates)
+                </span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Compare with</span>
+                <span className="info-value">
+                  {other
+                    ? `${other.name} (${other.numQubits} qubits, ${other.gates.length} gates)`
+                    : 'No circuit loaded'}
+                </span>
+              </div>
+            </div>
+            <button className="export-btn equivalence-load" onClick={handleLoad}>
+              <Upload size={14} />
+              Load circuit (.json or .qasm)
+            </button>
+            {loadError && <p className="parameter-error">{loadError}</p>}
+          </div>
+
+          <div className="hardware-section">
+            <h4>Method</h4>
+            <div className="unitary-toggle">
+              <button
+                className={`preset-btn ${method === 'unitary' ? 'active' : ''}`}
+                onClick={() => setMethod('unitary')}
+              >
+                Compare unitaries
+              </button>
+              <button
+                className={`preset-btn ${method === 'randomStates' ? 'active' : ''}`}
+                onClick={() => setMethod('randomStates')}
+              >
+                Random input states
+              </button>
+            </div>
+            <p className="section-description">
+              {method === 'unitary'
+                ? 'Builds both 2ⁿ × 2ⁿ matrices and compares them up to a global phase. Exact, but slow beyond 10 qubits.'
+                : 'Runs both circuits on random pure states and compares the outputs. Scales to larger circuits.'}
+            </p>
+            {method === 'randomStates' && (
+              <div className="equivalence-samples">
+                <label htmlFor="equivalence-samples">Input states</label>
+                <input
+                  id="equivalence-samples"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={samples}
+                  onChange={(e) => setSamples(Math.max(1, Math.min(1000, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+            )}
+            {unitaryTooLarge && (
+              <p className="form-hint">
+                The current circuit has {circuit.numQubits} qubits, more than the {UNITARY_QUBIT_LIMIT} a unitary can be computed for; compare on random input states instead.
+              </p>
+            )}
+          </div>
+
+          {checkError && (
+            <div className="hardware-section">
+              <p className="parameter-error">{checkError}</p>
+            </div>
+          )}
+
+          {report && (
+            <div className="hardware-section">
+              <h4>Result</h4>
+              <div className="info-grid">
+                <div className="info-item">
+                  <span className="info-label">Equivalent up to global phase</span>
+                  <span className={`info-value ${report.equivalent ? 'unitary-match' : 'unitary-mismatch'}`}>
+                    {report.equivalent ? `Yes (phase ${report.phase.toFixed(4)})` : 'No'}
+                  </span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">
+                    {report.method === 'unitary' ? 'Fidelity |Tr(U†V)|/2ⁿ' : 'Mean state fidelity'}
+                  </span>
+                  <span className="info-value">{report.fidelity.toFixed(6)}</span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Inputs checked</span>
+                  <span className="info-value">
+                    {report.inputsChecked} {report.method === 'unitary' ? 'basis states' : 'random states'}
+                  </span>
+                </div>
+                {report.firstDifference && (
+                  <div className="info-item">
+                    <span className="info-label">First differing input</span>
+                    <span className="info-value">
+                      {report.firstDifference.input}: output fidelity {report.firstDifference.fidelity.toFixed(4)},
+                      distance {report.firstDifference.distance.toFixed(4)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="hardware-panel-footer">
+          <button className="save-button" onClick={handleCheck} disabled={!other}>
+            Check equivalence
+          </button>
+          <button className="close-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
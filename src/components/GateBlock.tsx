@@ -3,11 +3,12 @@
  */
 
 import React from 'react';
-import { GateInstance } from '../types/circuit';
+import { GateDefinition, GateInstance } from '../types/circuit';
 import { GATE_DEFINITIONS, formatAngle } from '../utils/gateDefinitions';
 
 interface GateBlockProps {
   gate: GateInstance;
+  definition?: GateDefinition;  // Needed for custom and composite gates, which are not built in
   isSelected: boolean;
   onClick: () => void;
   onDoubleClick: () => void;
@@ -17,21 +18,26 @@ interface GateBlockProps {
 
 export const GateBlock: React.FC<GateBlockProps> = ({
   gate,
+  definition = GATE_DEFINITIONS[gate.gateId],
   isSelected,
   onClick,
   onDoubleClick,
   onRemove,
   cellSize,
 }) => {
-  const definition = GATE_DEFINITIONS[gate.gateId];
   if (!definition) return null;
 
+  // Multi-qubit custom and composite gates are one box over all their qubits
+  const qubits = gate.targets ?? [gate.target];
+  const topQubit = Math.min(...qubits);
+  const span = Math.max(...qubits) - topQubit + 1;
+
   const style: React.CSSProperties = {
     position: 'absolute',
     left: gate.column * cellSize + cellSize * 0.1,
-    top: gate.target * cellSize + cellSize * 0.1,
+    top: topQubit * cellSize + cellSize * 0.1,
     width: cellSize * 0.8,
-    height: cellSize * 0.8,
+    height: (span - 0.2) * cellSize,
     backgroundColor: definition.color,
     borderRadius: definition.category === 'measurement' ? '4px' : '6px',
     display: 'flex',
@@ -60,6 +66,10 @@ export const GateBlock: React.FC<GateBlockProps> = ({
     fontSize: cellSize * 0.18,
     fontFamily: "'JetBrains Mono', monospace",
     marginTop: 2,
+    maxWidth: '100%',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
   };
 
   const handleDragStart = (e: React.DragEvent) => {
@@ -82,14 +92,17 @@ export const GateBlock: React.FC<GateBlockProps> = ({
       onContextMenu={handleContextMenu}
       draggable
       onDragStart={handleDragStart}
+      title={gate.inverse ? `${definition.name}†` : definition.name}
     >
-      <span style={symbolStyle}>{definition.symbol}</span>
+      <span style={symbolStyle}>{definition.symbol}{gate.inverse && '†'}</span>
       {gate.angle !== undefined && (
-        <span style={angleStyle}>{formatAngle(gate.angle)}</span>
+        <span style={angleStyle} title={gate.angleExpression}>
+          {gate.angleExpression ?? formatAngle(gate.angle)}
+        </span>
       )}
       {gate.angles !== undefined && (
-        <span style={angleStyle}>
-          {gate.angles.map(a => formatAngle(a)).join(',')}
+        <span style={angleStyle} title={gate.angleExpressions?.join(', ')}>
+          {gate.angles.map((a, i) => gate.angleExpressions?.[i] ?? formatAngle(a)).join(',')}
         </span>
       )}
     </div>
@@ -100,21 +113,24 @@ interface ControlDotProps {
   x: number;
   y: number;
   cellSize: number;
+  open?: boolean;  // Hollow dot: the control fires on |0⟩
 }
 
-export const ControlDot: React.FC<ControlDotProps> = ({ x, y, cellSize }) => {
+export const ControlDot: React.FC<ControlDotProps> = ({ x, y, cellSize, open = false }) => {
   const style: React.CSSProperties = {
     position: 'absolute',
     left: x * cellSize + cellSize / 2 - 6,
     top: y * cellSize + cellSize / 2 - 6,
     width: 12,
     height: 12,
-    backgroundColor: '#2C3E50',
+    backgroundColor: open ? 'white' : '#2C3E50',
+    border: open ? '2px solid #2C3E50' : undefined,
+    boxSizing: 'border-box',
     borderRadius: '50%',
     zIndex: 5,
   };
 
-  return <div className="control-dot" style={style} />;
+  return <div className={`control-dot ${open ? 'open' : ''}`} style={style} />;
 };
 
 interface ControlLineProps {
@@ -3,12 +3,18 @@
  */
 
 import React from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
 import { GATE_DEFINITIONS, GATE_CATEGORIES } from '../utils/gateDefinitions';
-import { GateDefinition } from '../types/circuit';
+import { customGateDefinition } from '../utils/customGates';
+import { CustomGateDefinition, GateDefinition } from '../types/circuit';
 
 interface GatePaletteProps {
   onGateSelect: (gateId: string) => void;
   selectedGate: string | null;
+  customGates: CustomGateDefinition[];
+  onNewCustomGate: () => void;
+  onEditCustomGate: (name: string) => void;
+  onDeleteCustomGate: (name: string) => void;
 }
 
 interface GateButtonProps {
@@ -41,27 +47,75 @@ const GateButton: React.FC<GateButtonProps> = ({ gate, isSelected, onClick }) =>
 export const GatePalette: React.FC<GatePaletteProps> = ({
   onGateSelect,
   selectedGate,
+  customGates,
+  onNewCustomGate,
+  onEditCustomGate,
+  onDeleteCustomGate,
 }) => {
   return (
     <div className="gate-palette">
       <h2 className="palette-title">Gates</h2>
       {GATE_CATEGORIES.map((category) => (
         <div key={category.id} className="gate-category">
-          <h3 className="category-name">{category.name}</h3>
-          <div className="gate-grid">
-            {category.gates.map((gateId) => {
-              const gate = GATE_DEFINITIONS[gateId];
-              if (!gate) return null;
-              return (
-                <GateButton
-                  key={gate.id}
-                  gate={gate}
-                  isSelected={selectedGate === gate.id}
-                  onClick={() => onGateSelect(gate.id)}
-                />
-              );
-            })}
-          </div>
+          <h3 className="category-name">
+            {category.name}
+            {category.id === 'custom' && (
+              <button className="pattern-action-btn" onClick={onNewCustomGate} title="New custom gate">
+                <Plus size={14} />
+              </button>
+            )}
+          </h3>
+          {category.id === 'custom' ? (
+            customGates.length === 0 ? (
+              <p className="custom-gate-empty">Define gates such as iSWAP or fSim from their matrix.</p>
+            ) : (
+              <div className="gate-grid">
+                {customGates.map((definition) => {
+                  const gate = customGateDefinition(definition);
+                  return (
+                    <div key={gate.id} className="custom-gate-item">
+                      <GateButton
+                        gate={gate}
+                        isSelected={selectedGate === gate.id}
+                        onClick={() => onGateSelect(gate.id)}
+                      />
+                      <div className="custom-gate-actions">
+                        <button
+                          className="pattern-action-btn"
+                          onClick={() => onEditCustomGate(gate.id)}
+                          title={`Edit ${gate.id}`}
+                        >
+                          <Pencil size={12} />
+                        </button>
+                        <button
+                          className="pattern-action-btn delete"
+                          onClick={() => onDeleteCustomGate(gate.id)}
+                          title={`Remove ${gate.id} from the library`}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          ) : (
+            <div className="gate-grid">
+              {category.gates.map((gateId) => {
+                const gate = GATE_DEFINITIONS[gateId];
+                if (!gate) return null;
+                return (
+                  <GateButton
+                    key={gate.id}
+                    gate={gate}
+                    isSelected={selectedGate === gate.id}
+                    onClick={() => onGateSelect(gate.id)}
+                  />
+                );
+              })}
+            </div>
+          )}
         </div>
       ))}
     </div>
@@ -3,36 +3,75 @@
  */
 
 import React, { useMemo } from 'react';
-import { Trash2, X } from 'lucide-react';
-import { GateInstance } from '../types/circuit';
-import { GATE_DEFINITIONS, ANGLE_PRESETS, formatAngle } from '../utils/gateDefinitions';
+import { Trash2, X, Maximize2 } from 'lucide-react';
+import { ClassicalCondition, CompositeGateDefinition, CustomGateDefinition, GateInstance } from '../types/circuit';
+import { GATE_DEFINITIONS, ANGLE_PRESETS, formatAngle, getGateOperands, isControllableGate } from '../utils/gateDefinitions';
+import { customGateDefinition } from '../utils/customGates';
+import { compositeGateDefinition } from '../utils/composites';
+import { formatCondition, getMeasurementClbit, isWholeRegisterCondition } from '../utils/classicalBits';
 
 interface GateSettingsPanelProps {
   gate: GateInstance;
+  customGate?: CustomGateDefinition;  // Definition of a custom gate
+  composite?: CompositeGateDefinition;  // Definition of a composite gate
   numQubits: number;
+  numClbits: number;
   onUpdateTarget: (target: number) => void;
   onUpdateControl: (control: number) => void;
   onUpdateAngle: (angle: number) => void;
   onUpdateAngles: (angles: number[]) => void;
+  onUpdateClbit: (clbit: number) => void;
+  onUpdateCondition: (condition: ClassicalCondition | undefined) => void;
+  onAddControl: (qubit: number) => void;
+  onRemoveControl: (qubit: number) => void;
+  onSetControlOpen: (qubit: number, open: boolean) => void;
+  onSetInverse: (inverse: boolean) => void;
+  onExpand: () => void;
   onRemove: () => void;
   onClose: () => void;
 }
 
+const U_ANGLE_LABELS = ['θ (theta)', 'φ (phi)', 'λ (lambda)'];
+
+// Which classical bits a condition reads, as a select value
+function getConditionMode(condition: ClassicalCondition | undefined, numClbits: number): string {
+  if (!condition) return 'none';
+  if (isWholeRegisterCondition(condition, numClbits)) return 'register';
+  if (condition.clbits.length === 1) return `bit-${condition.clbits[0]}`;
+  return 'custom';
+}
+
 export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
   gate,
+  customGate,
+  composite,
   numQubits,
+  numClbits,
   onUpdateTarget,
   onUpdateControl,
   onUpdateAngle,
   onUpdateAngles,
+  onUpdateClbit,
+  onUpdateCondition,
+  onAddControl,
+  onRemoveControl,
+  onSetControlOpen,
+  onSetInverse,
+  onExpand,
   onRemove,
   onClose,
 }) => {
-  const definition = GATE_DEFINITIONS[gate.gateId];
+  const definition = composite
+    ? compositeGateDefinition(composite)
+    : customGate ? customGateDefinition(customGate) : GATE_DEFINITIONS[gate.gateId];
 
-  const isTwoQubitGate = definition?.numQubits === 2;
+  const isTwoQubitGate = definition?.numQubits === 2 && !customGate && !composite;
   const hasAngle = definition?.hasAngle;
   const hasMultipleAngles = definition?.hasMultipleAngles;
+  const angleLabels = customGate ? customGate.parameters : U_ANGLE_LABELS;
+
+  // A multi-qubit custom or composite gate is placed by its top qubit, with room for the rest below
+  const blockSize = gate.targets?.length ?? 1;
 
   // Get available qubits for control/target selection
   const availableQubits = useMemo(() => {
@@ -41,9 +80,10 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
 
   // For two-qubit gates, get valid target options (not the control)
   const validTargets = useMemo(() => {
+    if (blockSize > 1) return availableQubits.filter(q => q + blockSize <= numQubits);
     if (!isTwoQubitGate) return availableQubits;
     return availableQubits.filter(q => q !== gate.control);
-  }, [isTwoQubitGate, availableQubits, gate.control]);
+  }, [blockSize, numQubits, isTwoQubitGate, availableQubits, gate.control]);
 
   // For two-qubit gates, get valid control options (not the target)
   const validControls = useMemo(() => {
@@ -51,6 +91,33 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
     return availableQubits.filter(q => q !== gate.target);
   }, [isTwoQubitGate, availableQubits, gate.target]);
 
+  // Controls of the gate, and the qubits a single-qubit or composite gate could still be controlled by
+  const { controls, targets } = useMemo(() => getGateOperands(gate), [gate]);
+  const canAddControls = isControllableGate(gate.gateId) || composite !== undefined;
+  const freeQubits = useMemo(
+    () => availableQubits.filter(q => !targets.includes(q) && !controls.includes(q)),
+    [availableQubits, targets, controls]
+  );
+
+  const availableClbits = useMemo(() => {
+    return Array.from({ length: numClbits }, (_, i) => i);
+  }, [numClbits]);
+
+  const conditionMode = getConditionMode(gate.condition, numClbits);
+
+  // Switch the bits a condition reads, keeping its value where it still fits
+  const handleConditionModeChange = (mode: string) => {
+    if (mode === 'none') {
+      onUpdateCondition(undefined);
+      return;
+    }
+    const clbits = mode === 'register'
+      ? availableClbits
+      : [parseInt(mode.replace('bit-', ''))];
+    const previous = gate.condition?.value ?? 1;
+    onUpdateCondition({ clbits, value: previous < 2 ** clbits.length ? previous : 1 });
+  };
+
   if (!definition) return null;
 
   return (
@@ -63,9 +130,14 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
           >
             {definition.symbol}
           </span>
-          <span className="gate-settings-name">{definition.name}</span>
+          <span className="gate-settings-name">{definition.name}{gate.inverse ? '†' : ''}</span>
         </div>
         <div style={{ display: 'flex', gap: 8 }}>
+          {composite && (
+            <button className="close-button" onClick={onExpand} title="Expand into its gates">
+              <Maximize2 size={16} />
+            </button>
+          )}
           <button className="gate-settings-delete" onClick={onRemove} title="Delete gate">
             <Trash2 size={16} />
           </button>
@@ -80,7 +152,7 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
       <div className="gate-settings-content">
         {/* Target qubit selector */}
         <div className="setting-group">
-          <label>Target Qubit</label>
+          <label>{blockSize > 1 ? 'Top Qubit' : 'Target Qubit'}</label>
           <select
             value={gate.target}
             onChange={(e) => onUpdateTarget(parseInt(e.target.value))}
@@ -110,10 +182,134 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
           </div>
         )}
 
+        {/* Controls: filled fire on |1⟩, open (hollow) on |0⟩ */}
+        {(controls.length > 0 || canAddControls) && (
+          <div className="setting-group">
+            <label>Controls</label>
+            {controls.map(q => {
+              const open = gate.openControls?.includes(q) ?? false;
+              return (
+                <div key={q} className="control-row">
+                  <span className="control-row-qubit">q{q}</span>
+                  <button
+                    className={`preset-btn ${open ? '' : 'active'}`}
+                    onClick={() => onSetControlOpen(q, false)}
+                    title="Fire when the control is |1⟩"
+                  >
+                    ● |1⟩
+                  </button>
+                  <button
+                    className={`preset-btn ${open ? 'active' : ''}`}
+                    onClick={() => onSetControlOpen(q, true)}
+                    title="Fire when the control is |0⟩"
+                  >
+                    ○ |0⟩
+                  </button>
+                  {canAddControls && (
+                    <button className="control-row-remove" onClick={() => onRemoveControl(q)} title="Remove control">
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {canAddControls && (
+              <select
+                value=""
+                onChange={(e) => onAddControl(parseInt(e.target.value))}
+                disabled={freeQubits.length === 0}
+              >
+                <option value="" disabled>Add control…</option>
+                {freeQubits.map((q) => (
+                  <option key={q} value={q}>
+                    q{q}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {/* Dagger of a custom or composite gate */}
+        {(customGate || composite) && (
+          <div className="setting-group">
+            <label>Direction</label>
+            <div className="angle-presets-row">
+              <button
+                className={`preset-btn ${gate.inverse ? '' : 'active'}`}
+                onClick={() => onSetInverse(false)}
+              >
+                {definition.symbol}
+              </button>
+              <button
+                className={`preset-btn ${gate.inverse ? 'active' : ''}`}
+                onClick={() => onSetInverse(true)}
+                title="Apply the inverse (conjugate transpose)"
+              >
+                {definition.symbol}†
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Classical bit written by a measurement */}
+        {gate.gateId === 'M' && (
+          <div className="setting-group">
+            <label>Classical Bit</label>
+            <select
+              value={getMeasurementClbit(gate)}
+              onChange={(e) => onUpdateClbit(parseInt(e.target.value))}
+            >
+              {availableClbits.map((b) => (
+                <option key={b} value={b}>
+                  c{b}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Classical condition */}
+        <div className="setting-group">
+          <label>Condition</label>
+          <select
+            value={conditionMode}
+            onChange={(e) => handleConditionModeChange(e.target.value)}
+          >
+            <option value="none">Always</option>
+            <option value="register">If c == value</option>
+            {availableClbits.map((b) => (
+              <option key={b} value={`bit-${b}`}>
+                If c{b} == value
+              </option>
+            ))}
+            {conditionMode === 'custom' && gate.condition && (
+              <option value="custom">If {formatCondition(gate.condition, numClbits)}</option>
+            )}
+          </select>
+          {gate.condition && (
+            <div className="angle-input-row">
+              <input
+                type="number"
+                min={0}
+                max={2 ** gate.condition.clbits.length - 1}
+                step={1}
+                value={gate.condition.value}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (isNaN(value) || value < 0 || value >= 2 ** gate.condition!.clbits.length) return;
+                  onUpdateCondition({ ...gate.condition!, value });
+                }}
+              />
+              <span className="angle-display">{formatCondition(gate.condition, numClbits)}</span>
+            </div>
+          )}
+        </div>
+
         {/* Angle input for rotation gates */}
         {hasAngle && gate.angle !== undefined && (
           <div className="setting-group">
-            <label>Angle (radians)</label>
+            <label>{customGate ? `${customGate.parameters[0]} (radians)` : 'Angle (radians)'}</label>
             <div className="angle-input-row">
               <input
                 type="number"
@@ -121,7 +317,9 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
                 value={gate.angle}
                 onChange={(e) => onUpdateAngle(parseFloat(e.target.value) || 0)}
               />
-              <span className="angle-display">{formatAngle(gate.angle)}</span>
+              <span className="angle-display" title={gate.angleExpression && formatAngle(gate.angle)}>
+                {gate.angleExpression ?? formatAngle(gate.angle)}
+              </span>
             </div>
             <div className="angle-presets-row">
               {ANGLE_PRESETS.slice(0, 4).map((preset) => (
@@ -137,59 +335,25 @@ export const GateSettingsPanel: React.FC<GateSettingsPanelProps> = ({
           </div>
         )}
 
-        {/* Multiple angles for U gate */}
-        {hasMultipleAngles && gate.angles !== undefined && (
-          <>
-            <div className="setting-group">
-              <label>θ (theta)</label>
-              <div className="angle-input-row">
-                <input
-                  type="number"
-                  step="0.1"
-                  value={gate.angles[0]}
-                  onChange={(e) => {
-                    const newAngles = [...gate.angles!];
-                    newAngles[0] = parseFloat(e.target.value) || 0;
-                    onUpdateAngles(newAngles);
-                  }}
-                />
-                <span className="angle-display">{formatAngle(gate.angles[0])}</span>
-              </div>
-            </div>
-            <div className="setting-group">
-              <label>φ (phi)</label>
-              <div className="angle-input-row">
-                <input
-                  type="number"
-                  step="0.1"
-                  value={gate.angles[1]}
-                  onChange={(e) => {
-                    const newAngles = [...gate.angles!];
-                    newAngles[1] = parseFloat(e.target.value) || 0;
-                    onUpdateAngles(newAngles);
-                  }}
-                />
-                <span className="angle-display">{formatAngle(gate.angles[1])}</span>
-              </div>
-            </div>
-            <div className="setting-group">
-              <label>λ (lambda)</label>
-              <div className="angle-input-row">
-                <input
-                  type="number"
-                  step="0.1"
-                  value={gate.angles[2]}
-                  onChange={(e) => {
-                    const newAngles = [...gate.angles!];
-                    newAngles[2] = parseFloat(e.target.value) || 0;
-                    onUpdateAngles(newAngles);
-                  }}
-                />
-                <span className="angle-display">{formatAngle(gate.angles[2])}</span>
-              </div>
+        {/* Multiple angles for U gate and custom gates */}
+        {hasMultipleAngles && gate.angles !== undefined && angleLabels.map((label, i) => (
+          <div key={label} className="setting-group">
+            <label>{label}</label>
+            <div className="angle-input-row">
+              <input
+                type="number"
+                step="0.1"
+                value={gate.angles![i]}
+                onChange={(e) => {
+                  const newAngles = [...gate.angles!];
+                  newAngles[i] = parseFloat(e.target.value) || 0;
+                  onUpdateAngles(newAngles);
+                }}
+              />
+              <span className="angle-display">{gate.angleExpressions?.[i] ?? formatAngle(gate.angles![i])}</span>
             </div>
-          </>
-        )}
+          </div>
+        ))}
 
         {/* Gate info */}
         <div className="gate-info">
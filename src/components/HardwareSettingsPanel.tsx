@@ -1,28 +1,61 @@
 /**
  * Hardware information panel for viewing system capabilities.
  * Note: The quantum simulation uses pure JavaScript with typed arrays.
- * This panel shows system info for reference only.
+ * The device memory sets how many qubits each backend can simulate, and
+ * the backend the current circuit runs on is highlighted.
  */
 
 import React from 'react';
-import { X, Cpu, RefreshCw } from 'lucide-react';
+import { X, Cpu, RefreshCw, AlertTriangle, Waves, Grid3x3, Table2, CheckCircle2, LucideIcon } from 'lucide-react';
 import { HardwareInfo } from '../hooks/useQuantumSimulator';
+import { SimulationBackend } from '../types/circuit';
+import { estimateRunBytes, getMemoryBudget, getMaxQubits, formatBytes } from '../simulator';
 
 interface HardwareSettingsPanelProps {
   isOpen: boolean;
   hardwareInfo: HardwareInfo | null;
+  numQubits: number;            // Qubits of the current circuit
+  backend: SimulationBackend;   // Simulator the current circuit runs on
   onClose: () => void;
   onRefresh: () => void;
 }
 
+const BACKENDS: Array<{ id: SimulationBackend; name: string; icon: LucideIcon; description: string }> = [
+  {
+    id: 'statevector',
+    name: 'Statevector',
+    icon: Waves,
+    description: 'All 2^n amplitudes; any gate, noise sampled per shot.',
+  },
+  {
+    id: 'densityMatrix',
+    name: 'Density matrix',
+    icon: Grid3x3,
+    description: 'The 4^n entries of ρ; noise and measurements applied exactly. Selected in the control panel.',
+  },
+  {
+    id: 'stabilizer',
+    name: 'Stabilizer (CHP)',
+    icon: Table2,
+    description: 'A tableau of n² bits, used automatically on the statevector engine when a noiseless circuit only has H, S, S†, X, Y, Z, CNOT, CZ, SWAP and measurements.',
+  },
+];
+
 export const HardwareSettingsPanel: React.FC<HardwareSettingsPanelProps> = ({
   isOpen,
   hardwareInfo,
+  numQubits,
+  backend,
   onClose,
   onRefresh,
 }) => {
   if (!isOpen) return null;
 
+  const deviceMemory = hardwareInfo?.deviceMemory ?? null;
+  const budget = getMemoryBudget(deviceMemory);
+  const estimate = estimateRunBytes(numQubits, backend);
+  const backendName = BACKENDS.find(b => b.id === backend)?.name ?? backend;
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="hardware-settings-panel" onClick={e => e.stopPropagation()}>
@@ -51,18 +84,78 @@ export const HardwareSettingsPanel: React.FC<HardwareSettingsPanelProps> = ({
             <h4>Simulation Engine</h4>
             <p className="section-description">
               This quantum circuit simulator uses a pure JavaScript implementation with typed arrays
-              (Float32Array) for statevector manipulation. Simulation runs directly in your browser.
+              (Float64Array, real and imaginary parts interleaved) for statevector manipulation.
+              Simulation runs directly in your browser.
             </p>
             <div className="info-grid">
               <div className="info-item">
                 <span className="info-label">Engine</span>
-                <span className="info-value">JavaScript (Float32Array)</span>
+                <span className="info-value">JavaScript (Float64Array)</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Max Qubits (statevector)</span>
+                <span className="info-value">{getMaxQubits('statevector', deviceMemory)}</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Max Qubits (density matrix)</span>
+                <span className="info-value">{getMaxQubits('densityMatrix', deviceMemory)}</span>
               </div>
               <div className="info-item">
-                <span className="info-label">Max Qubits</span>
-                <span className="info-value">10 (memory limited)</span>
+                <span className="info-label">Max Qubits (stabilizer)</span>
+                <span className="info-value">{getMaxQubits('stabilizer', deviceMemory)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Backend of the current circuit */}
+          <div className="hardware-section">
+            <h4>Simulation Backend</h4>
+            <p className="section-description">
+              The backend is chosen from the engine and the gates of the circuit.
+            </p>
+            <div className="backend-options readonly">
+              {BACKENDS.map(({ id, name, icon: Icon, description }) => (
+                <div key={id} className={`backend-option ${backend === id ? 'active' : ''}`}>
+                  <div className="backend-option-header">
+                    <Icon size={16} className="backend-icon" />
+                    <span className="backend-name">{name}</span>
+                    {backend === id && <CheckCircle2 size={16} className="active-check" />}
+                  </div>
+                  <p className="backend-description">{description}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Memory */}
+          <div className="hardware-section">
+            <h4>Memory</h4>
+            <p className="section-description">
+              A run may use a quarter of the device memory{deviceMemory === null && ' (assumed 4 GB, as the browser does not report it)'}.
+              Each added qubit doubles the memory of a statevector run and quadruples that of a density matrix
+              run; a stabilizer run grows only with the square of the qubit count.
+            </p>
+            <div className="memory-stats">
+              <div className="memory-stat">
+                <span className="memory-label">Budget per run</span>
+                <span className="memory-value">{formatBytes(budget)}</span>
+              </div>
+              <div className="memory-stat">
+                <span className="memory-label">{numQubits}-qubit run ({backendName})</span>
+                <span className="memory-value">{formatBytes(estimate)}</span>
               </div>
             </div>
+            {estimate > budget ? (
+              <div className="memory-warning">
+                <AlertTriangle size={14} />
+                This circuit needs more memory than a run may use; remove qubits or switch engine
+              </div>
+            ) : estimate > budget / 2 && (
+              <div className="memory-warning">
+                <AlertTriangle size={14} />
+                This run uses over half the budget and may slow down the page
+              </div>
+            )}
           </div>
 
           {/* Hardware Info */}
@@ -113,7 +206,7 @@ export const HardwareSettingsPanel: React.FC<HardwareSettingsPanelProps> = ({
 
         <div className="hardware-panel-footer">
           <span className="current-backend-label">
-            Engine: <strong>JavaScript</strong>
+            Backend: <strong>{backendName}</strong>
           </span>
           <button className="close-btn" onClick={onClose}>
             Close
@@ -0,0 +1,71 @@
+/**
+ * Circuit metrics: live cost summary of the circuit, with depth, gate counts
+ * by category, CNOT-equivalent count, T-count and T-depth.
+ */
+
+import React, { useMemo } from 'react';
+import { Gauge } from 'lucide-react';
+import { CircuitState } from '../types/circuit';
+import { getCircuitMetrics } from '../utils/circuitMetrics';
+import { GATE_CATEGORIES } from '../utils/gateDefinitions';
+
+interface MetricsPanelProps {
+  circuit: CircuitState;
+}
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ circuit }) => {
+  const metrics = useMemo(() => getCircuitMetrics(circuit), [circuit]);
+
+  const rows: Array<{ label: string; value: React.ReactNode; title?: string }> = [
+    {
+      label: 'Width',
+      value: `${metrics.width} qubits, ${metrics.clbits} bits`,
+      title: `${metrics.activeQubits} of ${metrics.width} qubits are used`,
+    },
+    { label: 'Gates', value: metrics.gates, title: 'Repeat blocks unrolled' },
+    { label: 'Depth', value: metrics.depth, title: 'Longest chain of gates sharing a qubit or classical bit' },
+    { label: 'Multi-qubit gates', value: metrics.multiQubitGates },
+    {
+      label: 'CNOT equivalent',
+      value: metrics.cnotEquivalent,
+      title: 'CNOT, CZ = 1; SWAP = 3; CCX, CCZ = 6; CSWAP = 8',
+    },
+    {
+      label: 'T-count',
+      value: metrics.arbitraryRotations > 0 ? `${metrics.tCount} + ${metrics.arbitraryRotations} arbitrary` : metrics.tCount,
+      title: 'T and T† count one; CCX, CCZ and CSWAP count seven; rotations by odd multiples of π/4 count one',
+    },
+    { label: 'T-depth', value: metrics.tDepth, title: 'Layers of T gates along the critical path' },
+  ];
+
+  return (
+    <div className="metrics-panel">
+      <div className="pattern-panel-header">
+        <div className="pattern-panel-title">
+          <Gauge size={16} />
+          <span>Circuit Metrics</span>
+        </div>
+      </div>
+
+      <div className="metrics-grid">
+        {rows.map(({ label, value, title }) => (
+          <div key={label} className="metrics-row" title={title}>
+            <span className="metrics-label">{label}</span>
+            <span className="metrics-value">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="metrics-categories">
+        {GATE_CATEGORIES.map(category => (
+          <div key={category.id} className="metrics-row">
+            <span className="metrics-label">{category.name}</span>
+            <span className="metrics-value">
+              {metrics.categoryCounts[category.id as keyof typeof metrics.categoryCounts]}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+/**
+ * Noise model configuration panel.
+ * The model is stored with the circuit and applied when it is executed.
+ */
+
+import React, { useState, useCallback } from 'react';
+import { X, Activity, Plus, Trash2 } from 'lucide-react';
+import { NoiseChannels, NoiseModel } from '../types/circuit';
+import { GATE_DEFINITIONS } from '../utils/gateDefinitions';
+import { NOISE_CHANNEL_KEYS, createDefaultNoiseModel } from '../simulator';
+
+interface NoiseModelPanelProps {
+  isOpen: boolean;
+  noiseModel: NoiseModel | undefined;
+  onChange: (noiseModel: NoiseModel) => void;
+  onClose: () => void;
+}
+
+// Column labels for each channel
+const CHANNEL_LABELS: Record<keyof NoiseChannels, string> = {
+  depolarizing: 'Depolarizing',
+  amplitudeDamping: 'Amp. damping',
+  phaseDamping: 'Phase damping',
+  bitFlip: 'Bit flip',
+  phaseFlip: 'Phase flip',
+};
+
+// Gates that can carry their own channels (measurement uses readout error)
+const NOISY_GATE_IDS = Object.keys(GATE_DEFINITIONS).filter(id => id !== 'M');
+
+// Parse a probability input, returning null for invalid values
+function parseProbability(value: string): number | null {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) return null;
+  return Math.min(Math.max(parsed, 0), 1);
+}
+
+interface ProbabilityInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const ProbabilityInput: React.FC<ProbabilityInputProps> = ({ value, onChange, disabled }) => (
+  <input
+    type="number"
+    className="noise-input"
+    min={0}
+    max={1}
+    step={0.001}
+    value={value}
+    disabled={disabled}
+    onChange={(e) => {
+      const parsed = parseProbability(e.target.value);
+      if (parsed !== null) onChange(parsed);
+    }}
+  />
+);
+
+export const NoiseModelPanel: React.FC<NoiseModelPanelProps> = ({
+  isOpen,
+  noiseModel,
+  onChange,
+  onClose,
+}) => {
+  const [newGateId, setNewGateId] = useState('');
+
+  const model = noiseModel ?? createDefaultNoiseModel();
+  const gateChannels = model.gateChannels ?? {};
+  const availableGateIds = NOISY_GATE_IDS.filter(id => !gateChannels[id]);
+
+  // Update a channel of the default set or of a per-gate override
+  const handleChannelChange = useCallback((
+    gateId: string | null,
+    key: keyof NoiseChannels,
+    value: number
+  ) => {
+    if (gateId === null) {
+      onChange({ ...model, defaultChannels: { ...model.defaultChannels, [key]: value } });
+    } else {
+      onChange({
+        ...model,
+        gateChannels: { ...gateChannels, [gateId]: { ...gateChannels[gateId], [key]: value } },
+      });
+    }
+  }, [model, gateChannels, onChange]);
+
+  const handleAddOverride = useCallback(() => {
+    const gateId = newGateId || availableGateIds[0];
+    if (!gateId) return;
+    onChange({
+      ...model,
+      gateChannels: { ...gateChannels, [gateId]: { ...model.defaultChannels } },
+    });
+    setNewGateId('');
+  }, [newGateId, availableGateIds, model, gateChannels, onChange]);
+
+  const handleRemoveOverride = useCallback((gateId: string) => {
+    const remaining = { ...gateChannels };
+    delete remaining[gateId];
+    onChange({ ...model, gateChannels: remaining });
+  }, [model, gateChannels, onChange]);
+
+  if (!isOpen) return null;
+
+  const renderChannelRow = (label: string, gateId: string | null, channels: NoiseChannels) => (
+    <tr key={gateId ?? 'default'}>
+      <td className="noise-row-label">{label}</td>
+      {NOISE_CHANNEL_KEYS.map(key => (
+        <td key={key}>
+          <ProbabilityInput
+            value={channels[key]}
+            disabled={!model.enabled}
+            onChange={(value) => handleChannelChange(gateId, key, value)}
+          />
+        </td>
+      ))}
+      <td>
+        {gateId !== null && (
+          <button
+            className="noise-remove-button"
+            onClick={() => handleRemoveOverride(gateId)}
+            title="Remove override"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel noise-model-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <Activity size={20} />
+            <h3>Noise Model</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <label className="noise-enable">
+              <input
+                type="checkbox"
+                checked={model.enabled}
+                onChange={(e) => onChange({ ...model, enabled: e.target.checked })}
+              />
+              Simulate with noise
+            </label>
+            <p className="section-description">
+              After every gate, the channels below are applied to each qubit the gate acts on.
+              The statevector engine samples one noise trajectory per shot; the density-matrix
+              engine applies the channels exactly. Values are probabilities between 0 and 1.
+            </p>
+          </div>
+
+          {/* Gate channels */}
+          <div className="hardware-section">
+            <h4>Gate Noise</h4>
+            <table className="noise-table">
+              <thead>
+                <tr>
+                  <th>Gate</th>
+                  {NOISE_CHANNEL_KEYS.map(key => (
+                    <th key={key}>{CHANNEL_LABELS[key]}</th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {renderChannelRow('All gates', null, model.defaultChannels)}
+                {Object.entries(gateChannels).map(([gateId, channels]) =>
+                  renderChannelRow(GATE_DEFINITIONS[gateId]?.name ?? gateId, gateId, channels)
+                )}
+              </tbody>
+            </table>
+
+            {availableGateIds.length > 0 && (
+              <div className="noise-add-override">
+                <select
+                  value={newGateId || availableGateIds[0]}
+                  onChange={(e) => setNewGateId(e.target.value)}
+                  disabled={!model.enabled}
+                >
+                  {availableGateIds.map(id => (
+                    <option key={id} value={id}>{GATE_DEFINITIONS[id].name}</option>
+                  ))}
+                </select>
+                <button
+                  className="export-btn"
+                  onClick={handleAddOverride}
+                  disabled={!model.enabled}
+                  title="Use different channels for this gate"
+                >
+                  <Plus size={14} />
+                  Override gate
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Readout error */}
+          <div className="hardware-section">
+            <h4>Readout Error</h4>
+            <div className="noise-readout">
+              <label>
+                P(read 1 | 0)
+                <ProbabilityInput
+                  value={model.readout.flip0to1}
+                  disabled={!model.enabled}
+                  onChange={(value) => onChange({ ...model, readout: { ...model.readout, flip0to1: value } })}
+                />
+              </label>
+              <label>
+                P(read 0 | 1)
+                <ProbabilityInput
+                  value={model.readout.flip1to0}
+                  disabled={!model.enabled}
+                  onChange={(value) => onChange({ ...model, readout: { ...model.readout, flip1to0: value } })}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="hardware-panel-footer">
+          <button
+            className="cancel-button"
+            onClick={() => onChange({ ...createDefaultNoiseModel(), enabled: model.enabled })}
+          >
+            Reset
+          </button>
+          <button className="close-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+/**
+ * Variational optimizer panel: minimises a cost over the circuit's symbolic
+ * parameters and writes the best values back to the parameter table.
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { X, TrendingDown, Play, Square } from 'lucide-react';
+import { CircuitState } from '../types/circuit';
+import { OPTIMIZER_LABELS, OptimizerMethod } from '../simulator';
+import { getUsedParameters } from '../utils/parameters';
+import { useVariationalOptimizer, OptimizerBest } from '../hooks/useVariationalOptimizer';
+
+interface OptimizerPanelProps {
+  isOpen: boolean;
+  circuit: CircuitState;
+  onApply: (values: Record<string, number>) => void;
+  onClose: () => void;
+}
+
+type CostType = 'pauliSum' | 'bitstring';
+
+const PLOT_WIDTH = 600;
+const PLOT_HEIGHT = 180;
+const PLOT_PADDING = 28;
+
+// Default step size per optimizer
+const DEFAULT_STEP: Record<OptimizerMethod, number> = {
+  nelderMead: 0.5,
+  spsa: 0.3,
+  gradientDescent: 0.1,
+};
+
+interface CostPlotProps {
+  values: number[];
+}
+
+// Line plot of the cost against the iteration number
+const CostPlot: React.FC<CostPlotProps> = ({ values }) => {
+  if (values.length === 0) {
+    return <div className="optimizer-plot-empty">Run the optimizer to plot the cost.</div>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const xStep = (PLOT_WIDTH - 2 * PLOT_PADDING) / Math.max(values.length - 1, 1);
+  const toY = (v: number) => PLOT_PADDING + (1 - (v - min) / range) * (PLOT_HEIGHT - 2 * PLOT_PADDING);
+  const points = values.map((v, i) => `${PLOT_PADDING + i * xStep},${toY(v)}`).join(' ');
+
+  return (
+    <svg
+      className="optimizer-plot"
+      viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+      preserveAspectRatio="none"
+    >
+      <line x1={PLOT_PADDING} y1={PLOT_HEIGHT - PLOT_PADDING} x2={PLOT_WIDTH - PLOT_PADDING} y2={PLOT_HEIGHT - PLOT_PADDING} stroke="#E0E0E0" />
+      <line x1={PLOT_PADDING} y1={PLOT_PADDING} x2={PLOT_PADDING} y2={PLOT_HEIGHT - PLOT_PADDING} stroke="#E0E0E0" />
+      <text x={4} y={PLOT_PADDING} className="optimizer-plot-label">{max.toFixed(3)}</text>
+      <text x={4} y={PLOT_HEIGHT - PLOT_PADDING} className="optimizer-plot-label">{min.toFixed(3)}</text>
+      <text x={PLOT_WIDTH - PLOT_PADDING} y={PLOT_HEIGHT - 8} textAnchor="end" className="optimizer-plot-label">
+        {values.length - 1}
+      </text>
+      <polyline points={points} fill="none" stroke="#6366F1" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export const OptimizerPanel: React.FC<OptimizerPanelProps> = ({
+  isOpen,
+  circuit,
+  onApply,
+  onClose,
+}) => {
+  const [costType, setCostType] = useState<CostType>('pauliSum');
+  const [observable, setObservable] = useState('Z0Z1');
+  const [bitstringCost, setBitstringCost] = useState('-(b0 + b1 - 2*b0*b1)');
+  const [method, setMethod] = useState<OptimizerMethod>('nelderMead');
+  const [maxIterations, setMaxIterations] = useState(100);
+  const [stepSize, setStepSize] = useState(DEFAULT_STEP.nelderMead);
+
+  const { isRunning, costHistory, best, error, start, stop } = useVariationalOptimizer();
+
+  const parameterNames = useMemo(() => [...getUsedParameters(circuit.gates)], [circuit.gates]);
+
+  const handleMethodChange = useCallback((value: OptimizerMethod) => {
+    setMethod(value);
+    setStepSize(DEFAULT_STEP[value]);
+  }, []);
+
+  const handleRun = useCallback(() => {
+    start(
+      circuit,
+      {
+        cost: costType === 'pauliSum'
+          ? { type: 'pauliSum', observable }
+          : { type: 'bitstring', expression: bitstringCost },
+        method,
+        maxIterations,
+        stepSize,
+      },
+      (result: OptimizerBest) => onApply(result.values)
+    );
+  }, [start, circuit, costType, observable, bitstringCost, method, maxIterations, stepSize, onApply]);
+
+  const handleClose = useCallback(() => {
+    stop();
+    onClose();
+  }, [stop, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="hardware-settings-panel optimizer-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <TrendingDown size={20} />
+            <h3>Variational Optimizer</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={handleClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <p className="section-description">
+              Minimises the cost over the circuit's parameters
+              ({parameterNames.length > 0 ? parameterNames.join(', ') : 'none yet: use names like theta in gate angles'})
+              using the ideal statevector. The best values found are written to the parameter
+              table when the run finishes or is stopped, as a single undoable change.
+            </p>
+          </div>
+
+          {/* Cost */}
+          <div className="hardware-section">
+            <h4>Cost</h4>
+            <div className="optimizer-cost-types">
+              <button
+                className={`preset-btn ${costType === 'pauliSum' ? 'active' : ''}`}
+                onClick={() => setCostType('pauliSum')}
+                disabled={isRunning}
+              >
+                Pauli sum ⟨H⟩
+              </button>
+              <button
+                className={`preset-btn ${costType === 'bitstring' ? 'active' : ''}`}
+                onClick={() => setCostType('bitstring')}
+                disabled={isRunning}
+              >
+                Bitstring cost E[f(b)]
+              </button>
+            </div>
+            {costType === 'pauliSum' ? (
+              <input
+                type="text"
+                className="optimizer-input"
+                value={observable}
+                onChange={(e) => setObservable(e.target.value)}
+                placeholder="0.5*Z0Z1 - 0.3*X2"
+                disabled={isRunning}
+              />
+            ) : (
+              <input
+                type="text"
+                className="optimizer-input"
+                value={bitstringCost}
+                onChange={(e) => setBitstringCost(e.target.value)}
+                placeholder="-(b0 + b1 - 2*b0*b1)"
+                disabled={isRunning}
+              />
+            )}
+            <p className="form-hint">
+              {costType === 'pauliSum'
+                ? 'Weighted Pauli strings over qubit indices, e.g. 0.5*Z0Z1 - 0.3*X2 + 1.'
+                : 'An expression in the measured bits b0, b1, …, averaged over the outcome distribution.'}
+            </p>
+          </div>
+
+          {/* Optimizer */}
+          <div className="hardware-section">
+            <h4>Optimizer</h4>
+            <div className="optimizer-settings">
+              <div className="setting-group">
+                <label>Method</label>
+                <select
+                  value={method}
+                  onChange={(e) => handleMethodChange(e.target.value as OptimizerMethod)}
+                  disabled={isRunning}
+                >
+                  {(Object.keys(OPTIMIZER_LABELS) as OptimizerMethod[]).map(m => (
+                    <option key={m} value={m}>{OPTIMIZER_LABELS[m]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="setting-group">
+                <label>Max iterations</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={maxIterations}
+                  onChange={(e) => setMaxIterations(Math.max(1, parseInt(e.target.value) || 1))}
+                  disabled={isRunning}
+                />
+              </div>
+              <div className="setting-group">
+                <label>{method === 'gradientDescent' ? 'Learning rate' : method === 'spsa' ? 'Gain a' : 'Initial step'}</label>
+                <input
+                  type="number"
+                  step={0.05}
+                  min={0}
+                  value={stepSize}
+                  onChange={(e) => setStepSize(parseFloat(e.target.value) || 0)}
+                  disabled={isRunning}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Progress */}
+          <div className="hardware-section">
+            <h4>Convergence</h4>
+            <CostPlot values={costHistory} />
+            {best && (
+              <div className="info-grid">
+                <div className="info-item">
+                  <span className="info-label">Iterations</span>
+                  <span className="info-value">{Math.max(costHistory.length - 1, 0)}</span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Best cost</span>
+                  <span className="info-value">{best.cost.toFixed(6)}</span>
+                </div>
+                {Object.entries(best.values).map(([name, value]) => (
+                  <div key={name} className="info-item">
+                    <span className="info-label">{name}</span>
+                    <span className="info-value">{value.toFixed(4)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {error && <p className="parameter-error">{error}</p>}
+          </div>
+        </div>
+
+        <div className="hardware-panel-footer">
+          {isRunning ? (
+            <button className="cancel-button" onClick={stop}>
+              <Square size={14} />
+              Stop
+            </button>
+          ) : (
+            <button className="save-button" onClick={handleRun} disabled={parameterNames.length === 0}>
+              <Play size={14} />
+              Run
+            </button>
+          )}
+          <button className="close-btn" onClick={handleClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
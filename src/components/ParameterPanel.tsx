@@ -0,0 +1,137 @@
+/**
+ * Parameter table for binding the symbolic angles used by gates.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Plus, Trash2, Variable } from 'lucide-react';
+import { GateInstance } from '../types/circuit';
+import { getGateParameters } from '../utils/parameters';
+import { ValidationError } from '../hooks/useCircuitState';
+
+interface ParameterPanelProps {
+  parameters: Record<string, number>;
+  gates: GateInstance[];
+  onAddParameter: (name: string, value: number) => ValidationError | null;
+  onChangeValues: (values: Record<string, number>) => void;
+  onRemoveParameter: (name: string) => ValidationError | null;
+}
+
+export const ParameterPanel: React.FC<ParameterPanelProps> = ({
+  parameters,
+  gates,
+  onAddParameter,
+  onChangeValues,
+  onRemoveParameter,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('0');
+  const [error, setError] = useState<string | null>(null);
+
+  // Number of gates using each parameter
+  const usage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const gate of gates) {
+      for (const name of getGateParameters(gate)) {
+        counts[name] = (counts[name] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [gates]);
+
+  const handleAdd = () => {
+    const value = parseFloat(newValue);
+    const validationError = onAddParameter(newName.trim(), isNaN(value) ? 0 : value);
+    if (validationError) {
+      setError(validationError.message);
+      return;
+    }
+    setNewName('');
+    setNewValue('0');
+    setError(null);
+  };
+
+  const handleRemove = (name: string) => {
+    const validationError = onRemoveParameter(name);
+    setError(validationError ? validationError.message : null);
+  };
+
+  const names = Object.keys(parameters);
+
+  return (
+    <div className="parameter-panel">
+      <div className="pattern-panel-header">
+        <div className="pattern-panel-title">
+          <Variable size={16} />
+          <span>Parameters</span>
+        </div>
+      </div>
+
+      {names.length === 0 ? (
+        <div className="pattern-empty">
+          <p>No parameters yet.</p>
+          <p className="pattern-hint">
+            Type a name such as "theta" into a gate angle, or add one below.
+          </p>
+        </div>
+      ) : (
+        <div className="parameter-list">
+          {names.map(name => (
+            <div key={name} className="parameter-row">
+              <span className="parameter-name" title={`Used by ${usage[name] ?? 0} gate(s)`}>
+                {name}
+              </span>
+              <input
+                type="number"
+                step="0.1"
+                value={parameters[name]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value)) onChangeValues({ [name]: value });
+                }}
+              />
+              <span className="parameter-usage">{usage[name] ?? 0}×</span>
+              <button
+                className="pattern-action-btn delete"
+                onClick={() => handleRemove(name)}
+                disabled={(usage[name] ?? 0) > 0}
+                title={(usage[name] ?? 0) > 0 ? 'In use by gates' : 'Remove parameter'}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="parameter-add">
+        <input
+          type="text"
+          placeholder="name"
+          value={newName}
+          onChange={(e) => {
+            setNewName(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <input
+          type="number"
+          step="0.1"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <button
+          className="create-pattern-btn"
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          title="Add parameter"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {error && <p className="parameter-error">{error}</p>}
+    </div>
+  );
+};
@@ -10,8 +10,11 @@ interface PatternPanelProps {
   patterns: CircuitPattern[];
   selectedPattern: CircuitPattern | null;
   selectedGates: GateInstance[];
+  placeAsBlock: boolean;           // Place patterns as one composite gate rather than loose gates
+  collapseBlocker: string | null;  // Why the selection cannot become a block, if it cannot
   onSelectPattern: (patternId: string | null) => void;
-  onCreatePattern: (gates: GateInstance[], name: string) => void;
+  onPlaceAsBlockChange: (asBlock: boolean) => void;
+  onCreatePattern: (gates: GateInstance[], name: string, asBlock: boolean) => void;
   onDeletePattern: (patternId: string) => void;
   onRenamePattern: (patternId: string, name: string) => void;
 }
@@ -116,7 +119,10 @@ export const PatternPanel: React.FC<PatternPanelProps> = ({
   patterns,
   selectedPattern,
   selectedGates,
+  placeAsBlock,
+  collapseBlocker,
   onSelectPattern,
+  onPlaceAsBlockChange,
   onCreatePattern,
   onDeletePattern,
   onRenamePattern,
@@ -124,18 +130,19 @@ export const PatternPanel: React.FC<PatternPanelProps> = ({
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [newPatternName, setNewPatternName] = useState('');
 
-  const handleCreatePattern = useCallback(() => {
+  // Save the selection as a pattern; as a block, the selection is also replaced by it
+  const handleCreatePattern = useCallback((asBlock: boolean) => {
     if (selectedGates.length === 0) return;
 
     const name = newPatternName.trim() || `Pattern ${patterns.length + 1}`;
-    onCreatePattern(selectedGates, name);
+    onCreatePattern(selectedGates, name, asBlock);
     setNewPatternName('');
     setShowCreateDialog(false);
   }, [selectedGates, newPatternName, patterns.length, onCreatePattern]);
 
   const handleCreateKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleCreatePattern();
+      handleCreatePattern(false);
     } else if (e.key === 'Escape') {
       setShowCreateDialog(false);
       setNewPatternName('');
@@ -184,7 +191,15 @@ export const PatternPanel: React.FC<PatternPanelProps> = ({
             }} className="cancel-btn">
               Cancel
             </button>
-            <button onClick={handleCreatePattern} className="save-btn">
+            <button
+              onClick={() => handleCreatePattern(true)}
+              className="save-btn"
+              disabled={collapseBlocker !== null}
+              title={collapseBlocker ?? 'Save the pattern and replace the selection by a block of it'}
+            >
+              Save as Block
+            </button>
+            <button onClick={() => handleCreatePattern(false)} className="save-btn">
               Save Pattern
             </button>
           </div>
@@ -219,6 +234,22 @@ export const PatternPanel: React.FC<PatternPanelProps> = ({
         <div className="pattern-usage-hint">
           <strong>{selectedPattern.name}</strong> selected.
           Click on the circuit to place it.
+          <div className="unitary-toggle pattern-placement-toggle">
+            <button
+              className={`preset-btn ${placeAsBlock ? '' : 'active'}`}
+              onClick={() => onPlaceAsBlockChange(false)}
+              title="Place the pattern's gates"
+            >
+              Gates
+            </button>
+            <button
+              className={`preset-btn ${placeAsBlock ? 'active' : ''}`}
+              onClick={() => onPlaceAsBlockChange(true)}
+              title="Place the pattern as one composite gate"
+            >
+              Block
+            </button>
+          </div>
           <button
             className="deselect-btn"
             onClick={() => onSelectPattern(null)}
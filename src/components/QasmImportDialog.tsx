@@ -0,0 +1,132 @@
+/**
+ * Dialog for importing circuits from pasted or uploaded OpenQASM source.
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { X, Upload, AlertCircle, AlertTriangle } from 'lucide-react';
+import { SavedCircuit } from '../types/circuit';
+import { parseQasm } from '../utils/qasmParser';
+
+interface QasmImportDialogProps {
+  onImport: (circuit: SavedCircuit) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `OPENQASM 2.0;
+include "qelib1.inc";
+qreg q[2];
+creg c[2];
+h q[0];
+cx q[0], q[1];
+measure q -> c;`;
+
+export const QasmImportDialog: React.FC<QasmImportDialogProps> = ({
+  onImport,
+  onClose,
+}) => {
+  const [source, setSource] = useState('');
+  const [circuitName, setCircuitName] = useState('Imported Circuit');
+
+  // Re-parse on every edit so diagnostics stay in sync with the text
+  const result = useMemo(() => {
+    if (!source.trim()) return null;
+    return parseQasm(source, circuitName.trim() || 'Imported Circuit');
+  }, [source, circuitName]);
+
+  const handleOpenFile = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.qasm,.txt';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      setSource(await file.text());
+      setCircuitName(file.name.replace(/\.[^.]+$/, ''));
+    };
+    input.click();
+  }, []);
+
+  const handleImport = useCallback(() => {
+    if (!result?.circuit) return;
+    if (result.warnings.length > 0) {
+      console.warn('OpenQASM import warnings:', result.warnings);
+    }
+    onImport(result.circuit);
+    onClose();
+  }, [result, onImport, onClose]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="qasm-import-dialog" onClick={e => e.stopPropagation()}>
+        <div className="angle-editor-header">
+          <h3>Import OpenQASM</h3>
+          <button className="close-button" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="qasm-import-content">
+          <div className="qasm-import-toolbar">
+            <input
+              type="text"
+              className="qasm-import-name"
+              value={circuitName}
+              onChange={(e) => setCircuitName(e.target.value)}
+              placeholder="Circuit name"
+            />
+            <button className="export-btn" onClick={handleOpenFile} title="Open a .qasm file">
+              <Upload size={14} />
+              Open file
+            </button>
+          </div>
+
+          <textarea
+            className="qasm-import-source"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            autoFocus
+          />
+
+          {result && (result.errors.length > 0 || result.warnings.length > 0) && (
+            <div className="qasm-diagnostics">
+              {result.errors.map((message, i) => (
+                <div key={`error-${i}`} className="qasm-diagnostic error">
+                  <AlertCircle size={14} />
+                  <span>{message}</span>
+                </div>
+              ))}
+              {result.warnings.map((message, i) => (
+                <div key={`warning-${i}`} className="qasm-diagnostic warning">
+                  <AlertTriangle size={14} />
+                  <span>{message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result?.circuit && (
+            <div className="qasm-import-summary">
+              {result.circuit.numQubits} qubit{result.circuit.numQubits !== 1 ? 's' : ''},{' '}
+              {result.circuit.gates.length} gate{result.circuit.gates.length !== 1 ? 's' : ''}
+            </div>
+          )}
+        </div>
+
+        <div className="angle-editor-footer">
+          <button className="cancel-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="save-button"
+            onClick={handleImport}
+            disabled={!result?.valid}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
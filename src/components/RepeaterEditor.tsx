@@ -0,0 +1,179 @@
+/**
+ * Repeater editor modal for creating and editing repeat blocks.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { X, Repeat, Trash2 } from 'lucide-react';
+import { GateInstance, RepeaterBlock } from '../types/circuit';
+import { CIRCUIT_LIMITS } from '../config';
+import { getRepeaterGates, getRepeaterWidth } from '../utils/repeaters';
+import { ValidationError } from '../hooks/useCircuitState';
+
+interface RepeaterEditorProps {
+  block: Omit<RepeaterBlock, 'id'>;
+  isNew: boolean;
+  gates: GateInstance[];
+  numQubits: number;
+  numColumns: number;
+  onSave: (block: Omit<RepeaterBlock, 'id'>) => ValidationError | null;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+export const RepeaterEditor: React.FC<RepeaterEditorProps> = ({
+  block: initialBlock,
+  isNew,
+  gates,
+  numQubits,
+  numColumns,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [block, setBlock] = useState(initialBlock);
+  const [error, setError] = useState<string | null>(null);
+
+  const qubits = useMemo(() => Array.from({ length: numQubits }, (_, i) => i), [numQubits]);
+  const columns = useMemo(() => Array.from({ length: numColumns }, (_, i) => i), [numColumns]);
+
+  // Gates inside the block as currently drawn
+  const repeatedGates = useMemo(() => getRepeaterGates(gates, { ...block, id: '' }), [gates, block]);
+  const width = getRepeaterWidth({ ...block, id: '' });
+
+  const update = (changes: Partial<Omit<RepeaterBlock, 'id'>>) => {
+    setBlock(b => ({ ...b, ...changes }));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const validationError = onSave(block);
+    if (validationError) {
+      setError(validationError.message);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="repeater-editor" onClick={e => e.stopPropagation()}>
+        <div className="repeater-editor-header">
+          <div className="repeater-editor-title">
+            <Repeat size={20} />
+            <h3>{isNew ? 'New Repeat Block' : 'Edit Repeat Block'}</h3>
+          </div>
+          <button className="close-button" onClick={onClose}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="repeater-editor-content">
+          <p className="repeater-description">
+            Gates that lie entirely inside the block run several times in a row.
+            Later columns are shifted right when the circuit is simulated or exported.
+          </p>
+
+          <div className="repeater-form">
+            <div className="form-section">
+              <h4>Qubits</h4>
+              <div className="form-row two-col">
+                <div className="form-group">
+                  <label>From</label>
+                  <select
+                    value={block.qubitStart}
+                    onChange={(e) => update({ qubitStart: parseInt(e.target.value) })}
+                  >
+                    {qubits.map(q => <option key={q} value={q}>q{q}</option>)}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>To</label>
+                  <select
+                    value={block.qubitEnd}
+                    onChange={(e) => update({ qubitEnd: parseInt(e.target.value) })}
+                  >
+                    {qubits.map(q => <option key={q} value={q}>q{q}</option>)}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="form-section">
+              <h4>Columns</h4>
+              <div className="form-row two-col">
+                <div className="form-group">
+                  <label>From</label>
+                  <select
+                    value={block.columnStart}
+                    onChange={(e) => update({ columnStart: parseInt(e.target.value) })}
+                  >
+                    {columns.map(c => <option key={c} value={c}>{c + 1}</option>)}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>To</label>
+                  <select
+                    value={block.columnEnd}
+                    onChange={(e) => update({ columnEnd: parseInt(e.target.value) })}
+                  >
+                    {columns.map(c => <option key={c} value={c}>{c + 1}</option>)}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="form-section">
+              <h4>Repetitions</h4>
+              <div className="repetition-input">
+                <button
+                  onClick={() => update({ repetitions: block.repetitions - 1 })}
+                  disabled={block.repetitions <= 1}
+                >
+                  −
+                </button>
+                <span className="repetition-value">{block.repetitions}</span>
+                <button
+                  onClick={() => update({ repetitions: block.repetitions + 1 })}
+                  disabled={block.repetitions >= CIRCUIT_LIMITS.MAX_REPETITIONS}
+                >
+                  +
+                </button>
+              </div>
+            </div>
+
+            <div className="repeater-preview">
+              <span className="preview-label">Expands to</span>
+              <span className="preview-value">
+                {repeatedGates.length} gate{repeatedGates.length !== 1 ? 's' : ''} × {block.repetitions}
+              </span>
+              <span className="preview-meta">
+                ({width * block.repetitions} column{width * block.repetitions !== 1 ? 's' : ''})
+              </span>
+            </div>
+
+            {error && <p className="repeater-error">{error}</p>}
+          </div>
+        </div>
+
+        <div className="repeater-editor-footer">
+          {onDelete ? (
+            <button className="delete-button" onClick={onDelete}>
+              <Trash2 size={16} />
+              Remove
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="footer-right">
+            <button className="cancel-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button className="save-button" onClick={handleSave}>
+              {isNew ? 'Create' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * Settings panel for the selected repeater block.
+ */
+
+import React from 'react';
+import { Repeat, Pencil, Trash2, X } from 'lucide-react';
+import { GateInstance, RepeaterBlock } from '../types/circuit';
+import { getRepeaterGates, getRepeaterWidth } from '../utils/repeaters';
+
+interface RepeaterSettingsPanelProps {
+  repeater: RepeaterBlock;
+  gates: GateInstance[];
+  onEdit: () => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+export const RepeaterSettingsPanel: React.FC<RepeaterSettingsPanelProps> = ({
+  repeater,
+  gates,
+  onEdit,
+  onRemove,
+  onClose,
+}) => {
+  const repeatedGates = getRepeaterGates(gates, repeater);
+
+  return (
+    <div className="repeater-settings-panel">
+      <div className="repeater-settings-header">
+        <div className="repeater-settings-title">
+          <span className="repeater-settings-icon">
+            <Repeat size={16} />
+          </span>
+          <span className="repeater-settings-name">Repeat ×{repeater.repetitions}</span>
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button className="add-repeater-button" onClick={onEdit} title="Edit repeat block">
+            <Pencil size={14} />
+            Edit
+          </button>
+          <button className="gate-settings-delete" onClick={onRemove} title="Remove repeat block">
+            <Trash2 size={16} />
+          </button>
+          <button className="close-button" onClick={onClose} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="repeater-settings-content">
+        <div className="repeater-info">
+          <div className="repeater-info-item">
+            <span className="repeater-info-label">Qubits</span>
+            <span className="repeater-info-value">q{repeater.qubitStart}–q{repeater.qubitEnd}</span>
+          </div>
+          <div className="repeater-info-item">
+            <span className="repeater-info-label">Columns</span>
+            <span className="repeater-info-value">{repeater.columnStart + 1}–{repeater.columnEnd + 1}</span>
+          </div>
+          <div className="repeater-info-item">
+            <span className="repeater-info-label">Gates</span>
+            <span className="repeater-info-value">{repeatedGates.length}</span>
+          </div>
+          <div className="repeater-info-item">
+            <span className="repeater-info-label">Expanded Width</span>
+            <span className="repeater-info-value">{getRepeaterWidth(repeater) * repeater.repetitions}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,9 +2,22 @@
  * Results panel component for displaying execution results.
  */
 
-import React, { useMemo, useRef, useCallback } from 'react';
-import { Download } from 'lucide-react';
-import { ExecutionResults } from '../types/circuit';
+import React, { useMemo, useRef, useCallback, useState } from 'react';
+import { Download, Plus, Trash2 } from 'lucide-react';
+import { ExecutionResults, DensityMatrixData, ObservableResult } from '../types/circuit';
+import {
+  partialTrace,
+  purity,
+  vonNeumannEntropy,
+  parsePauliSum,
+  pauliSumExpectation,
+} from '../simulator';
+
+// Largest reduced density matrix shown in the panel (8x8)
+const MAX_REDUCED_QUBITS = 3;
+
+// Largest amplitudes listed in the statevector display
+const MAX_AMPLITUDES = 64;
 
 interface ResultsPanelProps {
   results: ExecutionResults | null;
@@ -12,6 +25,8 @@ interface ResultsPanelProps {
   isExecuting: boolean;
   showStatevector?: boolean;
   statevector?: { real: number[]; imag: number[] } | null;
+  observables: string[];
+  onObservablesChange: (observables: string[]) => void;
 }
 
 interface HistogramBarProps {
@@ -73,7 +88,7 @@ const StatevectorDisplay: React.FC<{
     <div className="statevector-display">
       <h4>Statevector</h4>
       <div className="amplitude-list">
-        {amplitudes.map(({ bitstring, re, im, mag }) => (
+        {amplitudes.slice(0, MAX_AMPLITUDES).map(({ bitstring, re, im, mag }) => (
           <div key={bitstring} className="amplitude-row">
             <span className="amplitude-state">|{bitstring}⟩</span>
             <span className="amplitude-value">
@@ -85,17 +100,252 @@ const StatevectorDisplay: React.FC<{
             </span>
           </div>
         ))}
+        {amplitudes.length > MAX_AMPLITUDES && (
+          <div className="histogram-more">
+            +{amplitudes.length - MAX_AMPLITUDES} more states
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Short label for a density matrix entry
+function formatEntry(re: number, im: number): string {
+  const showRe = Math.abs(re) >= 0.005;
+  const showIm = Math.abs(im) >= 0.005;
+  if (!showRe && !showIm) return '0';
+  if (!showIm) return re.toFixed(2);
+  if (!showRe) return `${im.toFixed(2)}i`;
+  return `${re.toFixed(2)}${im >= 0 ? '+' : '−'}${Math.abs(im).toFixed(2)}i`;
+}
+
+const DensityMatrixDisplay: React.FC<{
+  densityMatrix: DensityMatrixData;
+}> = ({ densityMatrix }) => {
+  const { numQubits } = densityMatrix;
+  const [selectedQubits, setSelectedQubits] = useState<number[]>(
+    () => Array.from({ length: Math.min(numQubits, 2) }, (_, i) => i)
+  );
+
+  // Drop qubits that no longer exist after the circuit shrinks
+  const qubits = useMemo(() => {
+    const valid = selectedQubits.filter(q => q < numQubits).sort((a, b) => a - b);
+    return valid.length > 0 ? valid : [0];
+  }, [selectedQubits, numQubits]);
+
+  const toggleQubit = useCallback((qubit: number) => {
+    setSelectedQubits(prev => {
+      if (prev.includes(qubit)) {
+        return prev.length > 1 ? prev.filter(q => q !== qubit) : prev;
+      }
+      return prev.length < MAX_REDUCED_QUBITS ? [...prev, qubit] : prev;
+    });
+  }, []);
+
+  const fullPurity = useMemo(() => purity(densityMatrix), [densityMatrix]);
+
+  const reduced = useMemo(() => {
+    const matrix = partialTrace(densityMatrix, qubits);
+    return {
+      matrix,
+      purity: purity(matrix),
+      entropy: vonNeumannEntropy(matrix),
+    };
+  }, [densityMatrix, qubits]);
+
+  const dim = 1 << qubits.length;
+  const labels = Array.from({ length: dim }, (_, i) =>
+    i.toString(2).padStart(qubits.length, '0').split('').reverse().join('')
+  );
+
+  return (
+    <div className="density-matrix-display">
+      <h4>Density Matrix</h4>
+
+      <div className="density-qubit-select">
+        <span className="density-qubit-label">Keep</span>
+        {Array.from({ length: numQubits }, (_, q) => (
+          <button
+            key={q}
+            className={`preset-btn ${qubits.includes(q) ? 'active' : ''}`}
+            onClick={() => toggleQubit(q)}
+            title={`Toggle q${q} (up to ${MAX_REDUCED_QUBITS} qubits)`}
+          >
+            q{q}
+          </button>
+        ))}
+      </div>
+
+      <div className="results-stats">
+        <div className="stat-item">
+          <span className="stat-label">Purity (all)</span>
+          <span className="stat-value">{fullPurity.toFixed(4)}</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-label">Purity (ρ_A)</span>
+          <span className="stat-value">{reduced.purity.toFixed(4)}</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-label">S(ρ_A)</span>
+          <span className="stat-value">{reduced.entropy.toFixed(4)} bits</span>
+        </div>
+      </div>
+
+      <div
+        className="density-matrix-grid"
+        style={{ gridTemplateColumns: `auto repeat(${dim}, 1fr)` }}
+      >
+        <span />
+        {labels.map(label => (
+          <span key={`col-${label}`} className="density-matrix-label">⟨{label}|</span>
+        ))}
+        {labels.map((rowLabel, r) => (
+          <React.Fragment key={`row-${rowLabel}`}>
+            <span className="density-matrix-label">|{rowLabel}⟩</span>
+            {labels.map((colLabel, c) => {
+              const re = reduced.matrix.real[r * dim + c];
+              const im = reduced.matrix.imag[r * dim + c];
+              const magnitude = Math.sqrt(re * re + im * im);
+              return (
+                <span
+                  key={colLabel}
+                  className="density-matrix-cell"
+                  style={{ backgroundColor: `rgba(74, 144, 217, ${Math.min(magnitude, 1)})` }}
+                  title={`ρ[${rowLabel},${colLabel}] = ${re.toFixed(4)} ${im >= 0 ? '+' : '−'} ${Math.abs(im).toFixed(4)}i`}
+                >
+                  {formatEntry(re, im)}
+                </span>
+              );
+            })}
+          </React.Fragment>
+        ))}
       </div>
     </div>
   );
 };
 
+interface ObservablesSectionProps {
+  observables: string[];
+  numQubits: number;
+  statevector?: { real: number[]; imag: number[] } | null;
+  estimates?: ObservableResult[];
+  onChange: (observables: string[]) => void;
+}
+
+// Pauli-sum observables: exact values from the statevector and shot estimates
+const ObservablesSection: React.FC<ObservablesSectionProps> = ({
+  observables,
+  numQubits,
+  statevector,
+  estimates,
+  onChange,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Exact ⟨O⟩ per observable, or null when it no longer fits the circuit
+  const exactValues = useMemo(() => observables.map(observable => {
+    if (!statevector) return null;
+    try {
+      return pauliSumExpectation(statevector, parsePauliSum(observable, numQubits));
+    } catch {
+      return null;
+    }
+  }), [observables, statevector, numQubits]);
+
+  const handleAdd = () => {
+    const observable = draft.trim();
+    try {
+      parsePauliSum(observable, numQubits);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    if (!observables.includes(observable)) {
+      onChange([...observables, observable]);
+    }
+    setDraft('');
+    setError(null);
+  };
+
+  return (
+    <div className="observables-section">
+      <h4>Observables</h4>
+
+      {observables.length === 0 ? (
+        <p className="observables-hint">
+          Add a Pauli sum such as 0.5*Z0Z1 - 0.3*X2. Its exact value comes from the
+          statevector; running the circuit also estimates it from shots.
+        </p>
+      ) : (
+        <div className="observables-list">
+          {observables.map((observable, i) => {
+            const estimate = estimates?.find(e => e.observable === observable);
+            const exact = exactValues[i];
+            return (
+              <div key={observable} className="observable-row">
+                <span className="observable-name" title={observable}>⟨{observable}⟩</span>
+                <button
+                  className="pattern-action-btn delete"
+                  onClick={() => onChange(observables.filter(o => o !== observable))}
+                  title="Remove observable"
+                >
+                  <Trash2 size={14} />
+                </button>
+                <span className="observable-value" title="Exact value from the ideal statevector">
+                  exact {exact !== null ? exact.toFixed(4) : '—'}
+                </span>
+                <span
+                  className="observable-value"
+                  title={estimate
+                    ? `${estimate.settings} measurement basis(es) × ${estimate.shotsPerSetting} shots`
+                    : 'Run the circuit to estimate from shots'}
+                >
+                  shots {estimate
+                    ? `${estimate.estimate.toFixed(4)} ± ${estimate.standardError.toFixed(4)}`
+                    : '—'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="observables-add">
+        <input
+          type="text"
+          placeholder="0.5*Z0Z1 - 0.3*X2"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        <button
+          className="create-pattern-btn"
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          title="Add observable"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {error && <p className="parameter-error">{error}</p>}
+    </div>
+  );
+};
+
 export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   results,
   numQubits,
   isExecuting,
   showStatevector,
   statevector,
+  observables,
+  onObservablesChange,
 }) => {
   const histogramRef = useRef<HTMLDivElement>(null);
 
@@ -117,6 +367,7 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
           count / results.shots,
         ])
       ),
+      ...(results.observables && { observables: results.observables }),
     };
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -263,6 +514,11 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
         <div className="no-results">
           Run the circuit to see results
         </div>
+        <ObservablesSection
+          observables={observables}
+          numQubits={numQubits}
+          onChange={onObservablesChange}
+        />
       </div>
     );
   }
@@ -327,7 +583,19 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
         </div>
       </div>
 
-      {showStatevector && statevector && (
+      <ObservablesSection
+        observables={observables}
+        numQubits={numQubits}
+        statevector={statevector}
+        estimates={results.observables}
+        onChange={onObservablesChange}
+      />
+
+      {results.densityMatrix && (
+        <DensityMatrixDisplay densityMatrix={results.densityMatrix} />
+      )}
+
+      {showStatevector && statevector && !results.densityMatrix && (
         <StatevectorDisplay
           statevector={statevector}
           numQubits={numQubits}
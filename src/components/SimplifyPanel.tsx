@@ -0,0 +1,172 @@
+/**
+ * Optimize command: choose the optimizer passes, preview the gate count and
+ * depth before and after, and apply the result as a single undo step.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { X, Wand2 } from 'lucide-react';
+import { CircuitState, GateInstance } from '../types/circuit';
+import {
+  optimizeCircuit,
+  DEFAULT_OPTIMIZATION_PASSES,
+  OptimizationPasses,
+} from '../utils/circuitOptimizer';
+import { CircuitSize } from '../utils/circuitMetrics';
+
+interface SimplifyPanelProps {
+  isOpen: boolean;
+  circuit: CircuitState;
+  onApply: (gates: GateInstance[]) => void;
+  onClose: () => void;
+}
+
+const PASS_OPTIONS: Array<{ key: keyof OptimizationPasses; label: string; description: string }> = [
+  {
+    key: 'removeIdentities',
+    label: 'Remove identities',
+    description: 'I gates and rotations by a multiple of 2π',
+  },
+  {
+    key: 'cancelInverses',
+    label: 'Cancel inverse pairs',
+    description: 'Adjacent H·H, X·X, S·S†, CNOT·CNOT and similar',
+  },
+  {
+    key: 'fuseRotations',
+    label: 'Fuse rotations',
+    description: 'Adjacent Rx, Ry, Rz or P on the same qubit, e.g. Rz(a)·Rz(b) → Rz(a+b)',
+  },
+  {
+    key: 'compactColumns',
+    label: 'Compact columns',
+    description: 'Move gates left past the gates they commute with',
+  },
+];
+
+const SIZE_ROWS: Array<{ key: keyof CircuitSize; label: string }> = [
+  { key: 'gates', label: 'Gates' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'columns', label: 'Columns' },
+];
+
+export const SimplifyPanel: React.FC<SimplifyPanelProps> = ({
+  isOpen,
+  circuit,
+  onApply,
+  onClose,
+}) => {
+  const [passes, setPasses] = useState<OptimizationPasses>(DEFAULT_OPTIMIZATION_PASSES);
+
+  // Preview of the optimized circuit
+  const report = useMemo(
+    () => (isOpen ? optimizeCircuit(circuit, passes) : null),
+    [isOpen, circuit, passes]
+  );
+
+  if (!isOpen || !report) return null;
+
+  const unchanged = report.identitiesRemoved + report.inversesCancelled + report.rotationsFused === 0 &&
+    report.after.columns === report.before.columns &&
+    report.after.depth === report.before.depth;
+
+  const handleApply = () => {
+    onApply(report.circuit.gates);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel simplify-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <Wand2 size={20} />
+            <h3>Optimize Circuit</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <h4>Passes</h4>
+            <p className="section-description">
+              Passes repeat until nothing changes. The result is equal to the original up to a global phase;
+              symbolic angles stay symbolic.
+            </p>
+            {PASS_OPTIONS.map(({ key, label, description }) => (
+              <label key={key} className="simplify-pass">
+                <input
+                  type="checkbox"
+                  checked={passes[key]}
+                  onChange={(e) => setPasses(prev => ({ ...prev, [key]: e.target.checked }))}
+                />
+                <span>
+                  {label}
+                  <span className="form-hint"> — {description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="hardware-section">
+            <h4>Result</h4>
+            <table className="simplify-table">
+              <thead>
+                <tr>
+                  <th />
+                  <th>Before</th>
+                  <th>After</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SIZE_ROWS.map(({ key, label }) => {
+                  const delta = report.after[key] - report.before[key];
+                  return (
+                    <tr key={key}>
+                      <td>{label}</td>
+                      <td>{report.before[key]}</td>
+                      <td>{report.after[key]}</td>
+                      <td className={delta < 0 ? 'unitary-match' : undefined}>
+                        {delta === 0 ? '—' : delta}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="info-grid">
+              <div className="info-item">
+                <span className="info-label">Identities removed</span>
+                <span className="info-value">{report.identitiesRemoved}</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Gates cancelled in pairs</span>
+                <span className="info-value">{report.inversesCancelled}</span>
+              </div>
+              <div className="info-item">
+                <span className="info-label">Rotations fused</span>
+                <span className="info-value">{report.rotationsFused}</span>
+              </div>
+            </div>
+            {report.compactionSkipped && (
+              <p className="form-hint">Columns were not compacted: {report.compactionSkipped.toLowerCase()}.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="hardware-panel-footer">
+          <button className="cancel-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="save-button" onClick={handleApply} disabled={unchanged}>
+            {unchanged ? 'Nothing to optimize' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
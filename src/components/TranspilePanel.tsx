@@ -0,0 +1,224 @@
+/**
+ * Transpile dialog: pick a native gate set and a coupling map, preview the
+ * rewritten circuit's size and gate counts, and load it as a new circuit.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { X, Cpu } from 'lucide-react';
+import { CircuitState, SavedCircuit } from '../types/circuit';
+import {
+  transpileCircuit,
+  linearCouplingMap,
+  ringCouplingMap,
+  parseCouplingMap,
+  NATIVE_GATE_SETS,
+  NativeGateSet,
+  CouplingEdge,
+  TranspileReport,
+} from '../simulator';
+import { circuitToSaved } from '../utils/savedCircuit';
+import { CircuitSize } from '../utils/circuitMetrics';
+import { CIRCUIT_LIMITS } from '../config';
+
+interface TranspilePanelProps {
+  isOpen: boolean;
+  circuit: CircuitState;
+  onLoad: (saved: SavedCircuit) => void;
+  onClose: () => void;
+}
+
+type CouplingPreset = 'all' | 'linear' | 'ring' | 'custom';
+
+const COUPLING_PRESETS: Array<{ id: CouplingPreset; label: string }> = [
+  { id: 'all', label: 'All-to-all' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'ring', label: 'Ring' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const SIZE_ROWS: Array<{ key: keyof CircuitSize; label: string }> = [
+  { key: 'gates', label: 'Gates' },
+  { key: 'depth', label: 'Depth' },
+];
+
+interface TranspileResult {
+  report?: TranspileReport;
+  error?: string;
+}
+
+export const TranspilePanel: React.FC<TranspilePanelProps> = ({
+  isOpen,
+  circuit,
+  onLoad,
+  onClose,
+}) => {
+  const [gateSet, setGateSet] = useState<NativeGateSet>('sxRzCnot');
+  const [preset, setPreset] = useState<CouplingPreset>('linear');
+  const [customMap, setCustomMap] = useState('0-1, 1-2');
+
+  const result = useMemo((): TranspileResult | null => {
+    if (!isOpen) return null;
+    try {
+      let couplingMap: CouplingEdge[] | null = null;
+      if (preset === 'linear') couplingMap = linearCouplingMap(circuit.numQubits);
+      if (preset === 'ring') couplingMap = ringCouplingMap(circuit.numQubits);
+      if (preset === 'custom') couplingMap = parseCouplingMap(customMap, circuit.numQubits);
+      return { report: transpileCircuit(circuit, { gateSet, couplingMap }) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [isOpen, circuit, gateSet, preset, customMap]);
+
+  if (!isOpen || !result) return null;
+
+  const report = result.report;
+  const gateIds = report
+    ? [...new Set([...Object.keys(report.gateCountsBefore), ...Object.keys(report.gateCountsAfter)])]
+    : [];
+
+  const handleLoad = () => {
+    if (!report) return;
+    onLoad(circuitToSaved(report.circuit));
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel transpile-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <Cpu size={20} />
+            <h3>Transpile</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <h4>Native Gate Set</h4>
+            <div className="unitary-toggle">
+              {(Object.keys(NATIVE_GATE_SETS) as NativeGateSet[]).map(id => (
+                <button
+                  key={id}
+                  className={`preset-btn ${gateSet === id ? 'active' : ''}`}
+                  onClick={() => setGateSet(id)}
+                >
+                  {NATIVE_GATE_SETS[id].name}
+                </button>
+              ))}
+            </div>
+            <p className="section-description">
+              Multi-qubit gates are decomposed into two-qubit gates and every single-qubit gate is rewritten
+              from its Euler angles. Parameters are bound and repeat blocks unrolled.
+            </p>
+          </div>
+
+          <div className="hardware-section">
+            <h4>Coupling Map</h4>
+            <div className="unitary-toggle">
+              {COUPLING_PRESETS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  className={`preset-btn ${preset === id ? 'active' : ''}`}
+                  onClick={() => setPreset(id)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {preset === 'custom' && (
+              <input
+                type="text"
+                className="optimizer-input transpile-coupling"
+                value={customMap}
+                onChange={(e) => setCustomMap(e.target.value)}
+                placeholder="0-1, 1-2, 2-3"
+              />
+            )}
+            <p className="section-description">
+              Two-qubit gates may only act on connected qubits; SWAPs are inserted along shortest paths to
+              bring the operands together.
+            </p>
+          </div>
+
+          {result.error && (
+            <div className="hardware-section">
+              <p className="parameter-error">{result.error}</p>
+            </div>
+          )}
+
+          {report && (
+            <div className="hardware-section">
+              <h4>Result</h4>
+              <table className="simplify-table">
+                <thead>
+                  <tr>
+                    <th />
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Added</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SIZE_ROWS.map(({ key, label }) => (
+                    <tr key={key}>
+                      <td>{label}</td>
+                      <td>{report.before[key]}</td>
+                      <td>{report.after[key]}</td>
+                      <td>{report.after[key] - report.before[key]}</td>
+                    </tr>
+                  ))}
+                  {gateIds.map(id => (
+                    <tr key={id}>
+                      <td>{id}</td>
+                      <td>{report.gateCountsBefore[id] ?? 0}</td>
+                      <td>{report.gateCountsAfter[id] ?? 0}</td>
+                      <td>{(report.gateCountsAfter[id] ?? 0) - (report.gateCountsBefore[id] ?? 0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="info-grid">
+                <div className="info-item">
+                  <span className="info-label">SWAPs inserted</span>
+                  <span className="info-value">{report.swapsInserted}</span>
+                </div>
+                <div className="info-item">
+                  <span className="info-label">Final layout</span>
+                  <span className="info-value">
+                    {report.finalLayout.map((physical, logical) => `q${logical}→${physical}`).join(', ')}
+                  </span>
+                </div>
+              </div>
+              {report.finalLayout.some((physical, logical) => physical !== logical) && (
+                <p className="form-hint">
+                  Routing leaves the qubits permuted, so measurements are added to read each qubit from its final
+                  position into its original classical bit.
+                </p>
+              )}
+              {report.after.columns > CIRCUIT_LIMITS.MAX_COLUMNS && (
+                <p className="form-hint">
+                  The result spans {report.after.columns} columns; the canvas shows the
+                  first {CIRCUIT_LIMITS.MAX_COLUMNS}.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="hardware-panel-footer">
+          <button className="cancel-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="save-button" onClick={handleLoad} disabled={!report}>
+            Load as new circuit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+/**
+ * Unitary view: the matrix of the whole circuit or of the selected gates,
+ * drawn as a heatmap, with an identity check and CSV / NumPy export.
+ */
+
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { X, Grid3x3, Download } from 'lucide-react';
+import { CircuitState, UnitaryMatrix } from '../types/circuit';
+import {
+  computeUnitary,
+  getUnitaryBlocker,
+  extractGateSubset,
+  checkIdentityUpToPhase,
+} from '../simulator';
+import { unitaryToCsv, unitaryToNpy } from '../utils/matrixExport';
+
+interface UnitaryPanelProps {
+  isOpen: boolean;
+  circuit: CircuitState;
+  selectedGateIds: Set<string>;
+  onClose: () => void;
+}
+
+type UnitaryScope = 'circuit' | 'selection';
+type UnitaryView = 'phase' | 'magnitude';
+
+interface UnitaryResult {
+  matrix?: UnitaryMatrix;
+  qubits?: number[];  // Original qubit behind each matrix qubit
+  error?: string;
+}
+
+// Displayed size of the heatmap in CSS pixels
+const HEATMAP_SIZE = 512;
+
+// Heatmap colour of an entry: hue from the phase (or fixed), opacity from the magnitude
+function entryColor(re: number, im: number, view: UnitaryView): [number, number, number, number] {
+  const magnitude = Math.min(Math.hypot(re, im), 1);
+  if (view === 'magnitude') return [74, 144, 217, magnitude];
+
+  // Phase wheel: 0 is red, π/2 yellow-green, π cyan, -π/2 violet
+  const hue = ((Math.atan2(im, re) / (2 * Math.PI)) + 1) % 1;
+  const k = (n: number) => (n + hue * 6) % 6;
+  const channel = (n: number) => Math.round(255 * (1 - Math.max(0, Math.min(k(n), 4 - k(n), 1))));
+  return [channel(5), channel(3), channel(1), magnitude];
+}
+
+// Little-endian label of basis state i (qubit 0 first)
+function basisLabel(i: number, numQubits: number): string {
+  return i.toString(2).padStart(numQubits, '0').split('').reverse().join('');
+}
+
+function download(data: BlobPart, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface HeatmapProps {
+  matrix: UnitaryMatrix;
+  view: UnitaryView;
+  onHover: (cell: { row: number; column: number } | null) => void;
+}
+
+// One pixel per entry, scaled up without smoothing
+const Heatmap: React.FC<HeatmapProps> = ({ matrix, view, onHover }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dim = 1 << matrix.numQubits;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(dim, dim);
+    for (let i = 0; i < dim * dim; i++) {
+      const [r, g, b, a] = entryColor(matrix.real[i], matrix.imag[i], view);
+      // Blend onto white so that empty entries stay light
+      image.data[4 * i] = Math.round(255 + (r - 255) * a);
+      image.data[4 * i + 1] = Math.round(255 + (g - 255) * a);
+      image.data[4 * i + 2] = Math.round(255 + (b - 255) * a);
+      image.data[4 * i + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [matrix, view, dim]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const column = Math.floor(((e.clientX - rect.left) / rect.width) * dim);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * dim);
+    onHover(row >= 0 && row < dim && column >= 0 && column < dim ? { row, column } : null);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="unitary-heatmap"
+      width={dim}
+      height={dim}
+      style={{ width: HEATMAP_SIZE, height: HEATMAP_SIZE }}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => onHover(null)}
+    />
+  );
+};
+
+export const UnitaryPanel: React.FC<UnitaryPanelProps> = ({
+  isOpen,
+  circuit,
+  selectedGateIds,
+  onClose,
+}) => {
+  const [scope, setScope] = useState<UnitaryScope>('circuit');
+  const [view, setView] = useState<UnitaryView>('phase');
+  const [hover, setHover] = useState<{ row: number; column: number } | null>(null);
+
+  const hasSelection = selectedGateIds.size > 0;
+  const activeScope: UnitaryScope = scope === 'selection' && hasSelection ? 'selection' : 'circuit';
+
+  // Unitary of the chosen scope, or the reason there is none
+  const result = useMemo((): UnitaryResult | null => {
+    if (!isOpen) return null;
+    const { circuit: source, qubits } = activeScope === 'selection'
+      ? extractGateSubset(circuit, selectedGateIds)
+      : { circuit, qubits: Array.from({ length: circuit.numQubits }, (_, q) => q) };
+
+    const blocker = getUnitaryBlocker(source);
+    if (blocker) {
+      const hint = activeScope === 'circuit' ? ' Select a measurement-free part of it instead.' : '';
+      return { error: `${blocker}, so it has no unitary.${hint}` };
+    }
+    try {
+      return { matrix: computeUnitary(source), qubits };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [isOpen, activeScope, circuit, selectedGateIds]);
+
+  const identity = useMemo(
+    () => (result?.matrix ? checkIdentityUpToPhase(result.matrix) : null),
+    [result]
+  );
+
+  const baseName = circuit.name.replace(/[^a-z0-9]/gi, '_') + (activeScope === 'selection' ? '_selection' : '');
+
+  const handleExportCsv = useCallback(() => {
+    if (result?.matrix) download(unitaryToCsv(result.matrix), 'text/csv', `${baseName}_unitary.csv`);
+  }, [result, baseName]);
+
+  const handleExportNpy = useCallback(() => {
+    if (result?.matrix) download(unitaryToNpy(result.matrix), 'application/octet-stream', `${baseName}_unitary.npy`);
+  }, [result, baseName]);
+
+  if (!isOpen) return null;
+
+  const matrix = result?.matrix;
+  const dim = matrix ? 1 << matrix.numQubits : 0;
+  const hoverValue = matrix && hover
+    ? { re: matrix.real[hover.row * dim + hover.column], im: matrix.imag[hover.row * dim + hover.column] }
+    : null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="hardware-settings-panel unitary-panel" onClick={e => e.stopPropagation()}>
+        <div className="hardware-panel-header">
+          <div className="hardware-panel-title">
+            <Grid3x3 size={20} />
+            <h3>Unitary Matrix</h3>
+          </div>
+          <div className="hardware-panel-actions">
+            <button className="close-button" onClick={onClose}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="hardware-panel-content">
+          <div className="hardware-section">
+            <div className="unitary-toolbar">
+              <div className="unitary-toggle">
+                <button
+                  className={`preset-btn ${activeScope === 'circuit' ? 'active' : ''}`}
+                  onClick={() => setScope('circuit')}
+                >
+                  Whole circuit
+                </button>
+                <button
+                  className={`preset-btn ${activeScope === 'selection' ? 'active' : ''}`}
+                  onClick={() => setScope('selection')}
+                  disabled={!hasSelection}
+                  title={hasSelection ? undefined : 'Select gates on the canvas first'}
+                >
+                  Selection ({selectedGateIds.size} gate{selectedGateIds.size !== 1 ? 's' : ''})
+                </button>
+              </div>
+              <div className="unitary-toggle">
+                <button
+                  className={`preset-btn ${view === 'phase' ? 'active' : ''}`}
+                  onClick={() => setView('phase')}
+                >
+                  Phase
+                </button>
+                <button
+                  className={`preset-btn ${view === 'magnitude' ? 'active' : ''}`}
+                  onClick={() => setView('magnitude')}
+                >
+                  Magnitude
+                </button>
+              </div>
+            </div>
+            <p className="section-description">
+              Entry (row r, column c) is ⟨r|U|c⟩, with basis states written qubit 0 first.
+              Parameters are bound, repeat blocks unrolled and noise ignored.
+            </p>
+          </div>
+
+          {result?.error ? (
+            <div className="hardware-section">
+              <p className="parameter-error">{result.error}</p>
+            </div>
+          ) : matrix && (
+            <>
+              <div className="hardware-section unitary-view">
+                <Heatmap matrix={matrix} view={view} onHover={setHover} />
+                <div className="unitary-legend">
+                  {view === 'phase' && (
+                    <>
+                      <div className="unitary-phase-wheel" />
+                      <span className="form-hint">Hue: phase (0 red, π cyan). Opacity: magnitude.</span>
+                    </>
+                  )}
+                  <div className="unitary-entry">
+                    {hover && hoverValue ? (
+                      <>
+                        ⟨{basisLabel(hover.row, matrix.numQubits)}|U|{basisLabel(hover.column, matrix.numQubits)}⟩
+                        {' = '}{hoverValue.re.toFixed(4)}{hoverValue.im >= 0 ? '+' : '−'}{Math.abs(hoverValue.im).toFixed(4)}i
+                        <br />
+                        |·| = {Math.hypot(hoverValue.re, hoverValue.im).toFixed(4)},
+                        arg = {Math.atan2(hoverValue.im, hoverValue.re).toFixed(4)}
+                      </>
+                    ) : (
+                      'Hover over an entry to read it'
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="hardware-section">
+                <div className="info-grid">
+                  <div className="info-item">
+                    <span className="info-label">Dimension</span>
+                    <span className="info-value">{dim} × {dim}</span>
+                  </div>
+                  <div className="info-item">
+                    <span className="info-label">Qubits</span>
+                    <span className="info-value">{result.qubits!.map(q => `q${q}`).join(', ')}</span>
+                  </div>
+                  {identity && (
+                    <div className="info-item">
+                      <span className="info-label">Identity up to global phase</span>
+                      <span className={`info-value ${identity.isIdentity ? 'unitary-match' : 'unitary-mismatch'}`}>
+                        {identity.isIdentity
+                          ? `Yes (phase ${identity.phase.toFixed(4)})`
+                          : `No (|Tr U|/2ⁿ = ${identity.overlap.toFixed(4)})`}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="hardware-panel-footer">
+          <div className="unitary-exports">
+            <button className="export-btn" onClick={handleExportCsv} disabled={!matrix}>
+              <Download size={14} />
+              CSV
+            </button>
+            <button className="export-btn" onClick={handleExportNpy} disabled={!matrix}>
+              <Download size={14} />
+              NumPy .npy
+            </button>
+          </div>
+          <button className="close-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
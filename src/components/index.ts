@@ -5,6 +5,7 @@
 export { GatePalette } from './GatePalette';
 export { GateBlock, ControlDot, ControlLine, SwapSymbol } from './GateBlock';
 export { CircuitCanvas } from './CircuitCanvas';
+export { CircuitMinimap } from './CircuitMinimap';
 export { ResultsPanel } from './ResultsPanel';
 export { ControlPanel } from './ControlPanel';
 export { AngleEditor } from './AngleEditor';
@@ -14,3 +15,17 @@ export { PresetCircuits } from './PresetCircuits';
 export { PatternPanel } from './PatternPanel';
 export { HardwareSettingsPanel } from './HardwareSettingsPanel';
 export { ErrorBoundary } from './ErrorBoundary';
+export { QasmImportDialog } from './QasmImportDialog';
+export { NoiseModelPanel } from './NoiseModelPanel';
+export { RepeaterEditor } from './RepeaterEditor';
+export { RepeaterSettingsPanel } from './RepeaterSettingsPanel';
+export { ParameterPanel } from './ParameterPanel';
+export { OptimizerPanel } from './OptimizerPanel';
+export { BlochSpherePanel } from './BlochSpherePanel';
+export { DebuggerPanel } from './DebuggerPanel';
+export { UnitaryPanel } from './UnitaryPanel';
+export { EquivalencePanel } from './EquivalencePanel';
+export { SimplifyPanel } from './SimplifyPanel';
+export { TranspilePanel } from './TranspilePanel';
+export { MetricsPanel } from './MetricsPanel';
+export { CustomGateEditor } from './CustomGateEditor';
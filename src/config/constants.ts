@@ -3,9 +3,13 @@
  */
 
 export const CIRCUIT_LIMITS = {
-  MAX_QUBITS: 10,
-  MAX_COLUMNS: 50,
+  MAX_QUBITS: 500,  // Reached by Clifford circuits on the stabilizer backend; other limits depend on device memory
+  MAX_CLBITS: 500,
+  MAX_DISTRIBUTION_CLBITS: 24,  // Widest register whose outcome distribution is tabulated
+  MAX_DISPLAY_QUBITS: 14,  // Widest statevector computed on the main thread for the panels
+  MAX_COLUMNS: 5000,
   MAX_HISTORY: 50,
+  MAX_REPETITIONS: 100,
   MIN_SHOTS: 1,
   DEFAULT_SHOTS: 1024,
   MAX_SHOTS: 100000,
@@ -14,14 +18,20 @@ export const CIRCUIT_LIMITS = {
 export const UI_CONSTANTS = {
   CELL_SIZE: 60,
   QUBIT_LABEL_WIDTH: 50,
+  MIN_ZOOM: 0.25,
+  MAX_ZOOM: 2,
+  OVERSCAN_COLUMNS: 4,    // Columns rendered beyond each edge of the visible part of the canvas
+  DEBUGGER_STEP_MS: 600,  // Delay between columns while the debugger plays
 } as const;
 
 export const STORAGE_KEYS = {
   SAVED_CIRCUITS: 'quantumCircuits',
   AUTOSAVE: 'quantumCircuitAutosave',
+  CUSTOM_GATES: 'quantumCustomGates',
 } as const;
 
 export const EXECUTION_CONSTANTS = {
   CHUNK_SIZE: 100,
   CHUNK_DELAY_MS: 0,
+  PROGRESS_INTERVAL_MS: 50,
 } as const;
@@ -10,3 +10,12 @@ export type { UseCircuitStateReturn } from './useCircuitState';
 
 export { usePatterns } from './usePatterns';
 export type { UsePatternsReturn } from './usePatterns';
+
+export { useCustomGates } from './useCustomGates';
+export type { UseCustomGatesReturn } from './useCustomGates';
+
+export { useVariationalOptimizer } from './useVariationalOptimizer';
+export type { UseVariationalOptimizerReturn, OptimizerRunConfig, OptimizerBest } from './useVariationalOptimizer';
+
+export { useStepDebugger } from './useStepDebugger';
+export type { UseStepDebuggerReturn } from './useStepDebugger';
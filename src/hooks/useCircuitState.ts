@@ -4,8 +4,33 @@
  */
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { GateInstance, CircuitState, SavedCircuit } from '../types/circuit';
+import {
+  GateInstance,
+  CircuitState,
+  SavedCircuit,
+  NoiseModel,
+  ClassicalCondition,
+  RepeaterBlock,
+  CustomGateDefinition,
+  CompositeGateDefinition,
+  CircuitPattern,
+} from '../types/circuit';
 import { validateSavedCircuit } from '../utils/circuitValidator';
+import { getGateOperands, isControllableGate } from '../utils/gateDefinitions';
+import { repeatersOverlap } from '../utils/repeaters';
+import { findCustomGate } from '../utils/customGates';
+import {
+  findComposite,
+  getPatternComposites,
+  mergeComposites,
+  compositeHasMeasurement,
+  instantiateComposite,
+  layoutExpandedGates,
+  getCollapseBlocker,
+} from '../utils/composites';
+import { circuitFromSaved, circuitToSaved } from '../utils/savedCircuit';
+import { bindGate, getGateParameters, getUsedParameters, validateParameterName } from '../utils/parameters';
+import { parseExpression, evaluateExpression, getExpressionVariables, ExpressionError } from '../utils/expression';
 import { CIRCUIT_LIMITS, STORAGE_KEYS } from '../config';
 
 const AUTO_SAVE_DELAY = 500; // ms
@@ -34,9 +59,24 @@ function loadSavedState(): CircuitState | null {
             column: (g.column as number) || 0,
             ...(g.control !== undefined && { control: g.control as number }),
             ...(g.controls !== undefined && { controls: g.controls as number[] }),
+            ...(g.openControls !== undefined && { openControls: g.openControls as number[] }),
+            ...(g.targets !== undefined && { targets: g.targets as number[] }),
             ...(g.angle !== undefined && { angle: g.angle as number }),
             ...(g.angles !== undefined && { angles: g.angles as number[] }),
+            ...(g.angleExpression !== undefined && { angleExpression: g.angleExpression as string }),
+            ...(g.angleExpressions !== undefined && { angleExpressions: g.angleExpressions as string[] }),
+            ...(g.clbit !== undefined && { clbit: g.clbit as number }),
+            ...(g.condition !== undefined && { condition: g.condition as ClassicalCondition }),
+            ...(g.inverse === true && { inverse: true }),
           })),
+          ...(parsed.numClbits !== undefined && { numClbits: parsed.numClbits as number }),
+          ...(parsed.repeaters !== undefined && {
+            repeaters: (parsed.repeaters as Omit<RepeaterBlock, 'id'>[]).map(r => ({ ...r, id: generateId() })),
+          }),
+          ...(parsed.parameters !== undefined && { parameters: parsed.parameters as Record<string, number> }),
+          ...(parsed.noiseModel !== undefined && { noiseModel: parsed.noiseModel as NoiseModel }),
+          ...(parsed.customGates !== undefined && { customGates: parsed.customGates as CustomGateDefinition[] }),
+          ...(parsed.composites !== undefined && { composites: parsed.composites as CompositeGateDefinition[] }),
         };
       }
     }
@@ -46,31 +86,152 @@ function loadSavedState(): CircuitState | null {
   return null;
 }
 
+// Saved form of a repeater block
+function stripId({ id: _id, ...block }: RepeaterBlock): Omit<RepeaterBlock, 'id'> {
+  return block;
+}
+
+// Check a repeater block against the circuit bounds and the other blocks
+function validateRepeaterBlock(
+  block: Omit<RepeaterBlock, 'id'>,
+  numQubits: number,
+  others: RepeaterBlock[]
+): ValidationError | null {
+  if (block.qubitStart < 0 || block.qubitEnd >= numQubits || block.qubitStart > block.qubitEnd) {
+    return { type: 'error', message: `Qubit range q${block.qubitStart}–q${block.qubitEnd} is out of bounds` };
+  }
+  if (block.columnStart < 0 || block.columnEnd >= CIRCUIT_LIMITS.MAX_COLUMNS || block.columnStart > block.columnEnd) {
+    return { type: 'error', message: `Column range ${block.columnStart}–${block.columnEnd} is out of bounds` };
+  }
+  if (!Number.isInteger(block.repetitions) || block.repetitions < 1 || block.repetitions > CIRCUIT_LIMITS.MAX_REPETITIONS) {
+    return { type: 'error', message: `Repetitions must be between 1 and ${CIRCUIT_LIMITS.MAX_REPETITIONS}` };
+  }
+  if (others.some(other => repeatersOverlap(block, other))) {
+    return { type: 'error', message: 'Repeat blocks cannot share columns' };
+  }
+  return null;
+}
+
+// Drop classical references beyond the register: conditions on missing bits
+// are removed and measurements fall back to their default bit
+function fitClassicalBits(gates: GateInstance[], numClbits: number): GateInstance[] {
+  return gates.map(g => {
+    const { clbit, condition, ...rest } = g;
+    return {
+      ...rest,
+      ...(clbit !== undefined && clbit < numClbits && { clbit }),
+      ...(condition && condition.clbits.every(b => b < numClbits) && { condition }),
+    };
+  });
+}
+
+// Circuit with gates added, along with the composite definitions they need
+// and the library definitions of the custom gates it lacks
+function withAddedGates(
+  c: CircuitState,
+  gates: GateInstance[],
+  composites: CompositeGateDefinition[],
+  library: CustomGateDefinition[]
+): CircuitState {
+  const gateIds = new Set([...gates, ...composites.flatMap(d => d.gates)].map(g => g.gateId));
+  const missing = library.filter(d => gateIds.has(d.name) && !c.customGates?.some(existing => existing.name === d.name));
+  return {
+    ...c,
+    ...(missing.length > 0 && { customGates: [...(c.customGates ?? []), ...missing] }),
+    ...(composites.length > 0 && { composites: mergeComposites(c.composites, composites) }),
+    gates: [...c.gates, ...gates],
+  };
+}
+
 export interface ValidationError {
   type: 'error' | 'warning';
   message: string;
 }
 
+// Evaluate angle expressions against the parameter table. Unknown names are
+// returned as new parameters (valued 0) rather than treated as errors.
+function evaluateAngleExpressions(
+  expressions: string[],
+  parameters: Record<string, number>
+): { error: ValidationError } | { angles: number[]; newNames: string[]; isSymbolic: boolean } {
+  const newNames = new Set<string>();
+  let isSymbolic = false;
+  for (const expression of expressions) {
+    try {
+      for (const name of getExpressionVariables(parseExpression(expression))) {
+        const nameError = validateParameterName(name);
+        if (nameError) return { error: { type: 'error', message: nameError } };
+        if (!(name in parameters)) newNames.add(name);
+        isSymbolic = true;
+      }
+    } catch (e) {
+      const message = e instanceof ExpressionError ? e.message : 'Invalid expression';
+      return { error: { type: 'error', message: `${message} in "${expression}"` } };
+    }
+  }
+
+  const values = { ...parameters, ...Object.fromEntries([...newNames].map(name => [name, 0])) };
+  try {
+    const angles = expressions.map(e => evaluateExpression(e, values));
+    if (angles.some(a => !Number.isFinite(a))) {
+      return { error: { type: 'error', message: 'Angle must evaluate to a finite number' } };
+    }
+    return { angles, newNames: [...newNames], isSymbolic };
+  } catch (e) {
+    const message = e instanceof ExpressionError ? e.message : 'Invalid expression';
+    return { error: { type: 'error', message } };
+  }
+}
+
+// Re-evaluate the angles of gates that depend on the given parameters
+function rebindGates(gates: GateInstance[], parameters: Record<string, number>, names: string[]): GateInstance[] {
+  return gates.map(g =>
+    getGateParameters(g).some(name => names.includes(name)) ? bindGate(g, parameters) : g
+  );
+}
+
 export interface UseCircuitStateReturn {
   circuit: CircuitState;
   numColumns: number;
   addGate: (gateId: string, target: number, column: number, control?: number, angle?: number, angles?: number[], controls?: number[]) => ValidationError | null;
-  addGates: (gates: GateInstance[]) => void;
+  addGates: (gates: GateInstance[], definitions?: CustomGateDefinition[], composites?: CompositeGateDefinition[]) => void;
+  addCustomGate: (definition: CustomGateDefinition, target: number, column: number) => ValidationError | null;
+  updateCustomGate: (definition: CustomGateDefinition) => void;
+  addCompositeGate: (pattern: CircuitPattern, target: number, column: number, definitions?: CustomGateDefinition[]) => ValidationError | null;
+  collapseGates: (instanceIds: string[], pattern: CircuitPattern) => ValidationError | null;
+  expandCompositeGate: (instanceId: string) => ValidationError | null;
+  setGateInverse: (instanceId: string, inverse: boolean) => ValidationError | null;
   removeGate: (instanceId: string) => void;
   removeGates: (instanceIds: string[]) => void;
   moveGate: (instanceId: string, newTarget: number, newColumn: number, newControl?: number) => ValidationError | null;
   updateGateTarget: (instanceId: string, target: number) => ValidationError | null;
   updateGateControl: (instanceId: string, control: number) => ValidationError | null;
+  addGateControl: (instanceId: string, qubit: number) => ValidationError | null;
+  removeGateControl: (instanceId: string, qubit: number) => void;
+  setGateControlOpen: (instanceId: string, qubit: number, open: boolean) => void;
   updateGateAngle: (instanceId: string, angle: number) => void;
   updateGateAngles: (instanceId: string, angles: number[]) => void;
+  updateGateAngleExpression: (instanceId: string, expression: string) => ValidationError | null;
+  updateGateAngleExpressions: (instanceId: string, expressions: string[]) => ValidationError | null;
+  updateGateClbit: (instanceId: string, clbit: number) => void;
+  updateGateCondition: (instanceId: string, condition: ClassicalCondition | undefined) => void;
   duplicateGates: (instanceIds: string[], columnOffset: number, qubitOffset: number) => { newIds: string[]; skipped: number };
+  replaceGates: (gates: GateInstance[]) => void;
   setNumQubits: (n: number) => void;
+  setNumClbits: (n: number) => void;
   clearCircuit: () => void;
   newCircuit: () => void;
   loadCircuit: (saved: SavedCircuit) => void;
   saveCircuit: () => SavedCircuit;
   setCircuitName: (name: string) => void;
   setCircuitDescription: (description: string) => void;
+  setNoiseModel: (noiseModel: NoiseModel) => void;
+  addRepeater: (block: Omit<RepeaterBlock, 'id'>) => ValidationError | null;
+  updateRepeater: (id: string, block: Omit<RepeaterBlock, 'id'>) => ValidationError | null;
+  removeRepeater: (id: string) => void;
+  addParameter: (name: string, value: number) => ValidationError | null;
+  setParameterValues: (values: Record<string, number>) => void;
+  removeParameter: (name: string) => ValidationError | null;
   isCellOccupied: (qubit: number, column: number, excludeId?: string) => boolean;
   undo: () => void;
   redo: () => void;
@@ -108,9 +269,22 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
             column: g.column,
             ...(g.control !== undefined && { control: g.control }),
             ...(g.controls !== undefined && { controls: g.controls }),
+            ...(g.openControls !== undefined && { openControls: g.openControls }),
+            ...(g.targets !== undefined && { targets: g.targets }),
             ...(g.angle !== undefined && { angle: g.angle }),
             ...(g.angles !== undefined && { angles: g.angles }),
+            ...(g.angleExpression !== undefined && { angleExpression: g.angleExpression }),
+            ...(g.angleExpressions !== undefined && { angleExpressions: g.angleExpressions }),
+            ...(g.clbit !== undefined && { clbit: g.clbit }),
+            ...(g.condition !== undefined && { condition: g.condition }),
+            ...(g.inverse && { inverse: true }),
           })),
+          ...(circuit.numClbits !== undefined && { numClbits: circuit.numClbits }),
+          ...(circuit.repeaters?.length && { repeaters: circuit.repeaters.map(stripId) }),
+          ...(circuit.parameters !== undefined && { parameters: circuit.parameters }),
+          ...(circuit.noiseModel !== undefined && { noiseModel: circuit.noiseModel }),
+          ...(circuit.customGates?.length && { customGates: circuit.customGates }),
+          ...(circuit.composites?.length && { composites: circuit.composites }),
         };
         localStorage.setItem(STORAGE_KEYS.AUTOSAVE, JSON.stringify(toSave));
       } catch (e) {
@@ -138,6 +312,8 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
       if (g.control !== undefined && g.control === qubit && g.column === column) return true;
       // Check controls for multi-qubit gates
       if (g.controls && g.controls.includes(qubit) && g.column === column) return true;
+      // Check the qubits of multi-qubit custom gates
+      if (g.targets && g.targets.includes(qubit) && g.column === column) return true;
       return false;
     });
   }, [circuit.gates]);
@@ -230,16 +406,231 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
     return null; // Success
   }, [circuit.numQubits, isCellOccupied, saveToHistory]);
 
-  // Add multiple gates at once (for pattern placement)
-  const addGates = useCallback((gates: GateInstance[]) => {
-    if (gates.length === 0) return;
+  // Add a custom gate on the qubits from target down, carrying its definition
+  // into the circuit (replacing any older version of it)
+  const addCustomGate = useCallback((
+    definition: CustomGateDefinition,
+    target: number,
+    column: number
+  ): ValidationError | null => {
+    const qubits = Array.from({ length: definition.numQubits }, (_, j) => target + j);
+    if (target < 0 || qubits[qubits.length - 1] >= circuit.numQubits) {
+      return {
+        type: 'error',
+        message: `${definition.name} needs ${definition.numQubits} qubits from q${target}, beyond the ${circuit.numQubits}-qubit register`,
+      };
+    }
+
+    if (column < 0 || column >= CIRCUIT_LIMITS.MAX_COLUMNS) {
+      return { type: 'error', message: `Column ${column} is out of bounds (0-${CIRCUIT_LIMITS.MAX_COLUMNS - 1})` };
+    }
+
+    for (const qubit of qubits) {
+      if (isCellOccupied(qubit, column)) {
+        return { type: 'error', message: `Cell at qubit ${qubit}, column ${column} is already occupied` };
+      }
+    }
+
     saveToHistory();
+    const count = definition.parameters.length;
+    const newGate: GateInstance = {
+      id: generateId(),
+      gateId: definition.name,
+      target,
+      column,
+      ...(qubits.length > 1 && { targets: qubits }),
+      ...(count === 1 && { angle: Math.PI }),
+      ...(count > 1 && { angles: new Array(count).fill(Math.PI) }),
+    };
+
     setCircuit(c => ({
       ...c,
-      gates: [...c.gates, ...gates],
+      customGates: [...(c.customGates ?? []).filter(d => d.name !== definition.name), definition],
+      gates: [...c.gates, newGate],
     }));
+
+    return null;
+  }, [circuit.numQubits, isCellOccupied, saveToHistory]);
+
+  // Replace the circuit's copy of an edited custom gate. Instances keep their
+  // parameter values unless the number of parameters changed.
+  const updateCustomGate = useCallback((definition: CustomGateDefinition) => {
+    const previous = circuit.customGates?.find(d => d.name === definition.name);
+    if (!previous) return;
+
+    const count = definition.parameters.length;
+    const resetParameters = count !== previous.parameters.length;
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      customGates: (c.customGates ?? []).map(d => (d.name === definition.name ? definition : d)),
+      gates: !resetParameters ? c.gates : c.gates.map(g => {
+        if (g.gateId !== definition.name) return g;
+        const { angle: _angle, angles: _angles, angleExpression: _expression, angleExpressions: _expressions, ...rest } = g;
+        return {
+          ...rest,
+          ...(count === 1 && { angle: Math.PI }),
+          ...(count > 1 && { angles: new Array(count).fill(Math.PI) }),
+        };
+      }),
+    }));
+  }, [circuit.customGates, saveToHistory]);
+
+  // Add multiple gates at once (for pattern placement), with the definitions
+  // of any custom and composite gates among them that the circuit lacks
+  const addGates = useCallback((
+    gates: GateInstance[],
+    definitions: CustomGateDefinition[] = [],
+    composites: CompositeGateDefinition[] = []
+  ) => {
+    if (gates.length === 0) return;
+    saveToHistory();
+    setCircuit(c => withAddedGates(c, gates, composites, definitions));
   }, [saveToHistory]);
 
+  // Add a pattern as a single block on the qubits from target down, carrying
+  // its definition and the nested ones into the circuit
+  const addCompositeGate = useCallback((
+    pattern: CircuitPattern,
+    target: number,
+    column: number,
+    definitions: CustomGateDefinition[] = []
+  ): ValidationError | null => {
+    const qubits = Array.from({ length: pattern.qubitSpan }, (_, j) => target + j);
+    if (target < 0 || qubits[qubits.length - 1] >= circuit.numQubits) {
+      return {
+        type: 'error',
+        message: `${pattern.name} needs ${pattern.qubitSpan} qubits from q${target}, beyond the ${circuit.numQubits}-qubit register`,
+      };
+    }
+
+    if (column < 0 || column >= CIRCUIT_LIMITS.MAX_COLUMNS) {
+      return { type: 'error', message: `Column ${column} is out of bounds (0-${CIRCUIT_LIMITS.MAX_COLUMNS - 1})` };
+    }
+
+    for (const qubit of qubits) {
+      if (isCellOccupied(qubit, column)) {
+        return { type: 'error', message: `Cell at qubit ${qubit}, column ${column} is already occupied` };
+      }
+    }
+
+    saveToHistory();
+    const newGate: GateInstance = {
+      id: generateId(),
+      gateId: pattern.id,
+      target,
+      column,
+      ...(qubits.length > 1 && { targets: qubits }),
+    };
+    setCircuit(c => withAddedGates(c, [newGate], getPatternComposites(pattern), definitions));
+
+    return null;
+  }, [circuit.numQubits, isCellOccupied, saveToHistory]);
+
+  // Replace gates by a block of the pattern made from them, placed at the
+  // top-left corner of their bounding box
+  const collapseGates = useCallback((instanceIds: string[], pattern: CircuitPattern): ValidationError | null => {
+    const idSet = new Set(instanceIds);
+    const blocker = getCollapseBlocker(circuit, idSet);
+    if (blocker) return { type: 'error', message: blocker };
+
+    const selected = circuit.gates.filter(g => idSet.has(g.id));
+    const top = Math.min(...selected.flatMap(g => {
+      const { controls, targets } = getGateOperands(g);
+      return [...controls, ...targets];
+    }));
+    const column = Math.min(...selected.map(g => g.column));
+    const qubits = Array.from({ length: pattern.qubitSpan }, (_, j) => top + j);
+
+    saveToHistory();
+    const newGate: GateInstance = {
+      id: generateId(),
+      gateId: pattern.id,
+      target: top,
+      column,
+      ...(qubits.length > 1 && { targets: qubits }),
+    };
+    setCircuit(c => withAddedGates(
+      { ...c, gates: c.gates.filter(g => !idSet.has(g.id)) },
+      [newGate],
+      getPatternComposites(pattern),
+      []
+    ));
+
+    return null;
+  }, [circuit, saveToHistory]);
+
+  // Replace a block by its gates, one level deep, inserting columns after it
+  // for them; later gates and repeaters shift right
+  const expandCompositeGate = useCallback((instanceId: string): ValidationError | null => {
+    const gate = circuit.gates.find(g => g.id === instanceId);
+    if (!gate) return { type: 'error', message: 'Gate not found' };
+    const definition = findComposite(circuit.composites, gate.gateId);
+    if (!definition) return { type: 'error', message: 'Only composite gates can be expanded' };
+
+    let body: GateInstance[];
+    try {
+      body = layoutExpandedGates(instantiateComposite(gate, definition), gate.column);
+    } catch (e) {
+      return { type: 'error', message: (e as Error).message };
+    }
+
+    const extra = Math.max(...body.map(g => g.column)) - gate.column;
+    const lastColumn = Math.max(...circuit.gates.map(g => g.column));
+    if (lastColumn + extra >= CIRCUIT_LIMITS.MAX_COLUMNS) {
+      return {
+        type: 'error',
+        message: `Expanding ${definition.name} needs ${extra} more column${extra !== 1 ? 's' : ''} than the circuit has room for`,
+      };
+    }
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: [
+        ...c.gates
+          .filter(g => g.id !== instanceId)
+          .map(g => (g.column > gate.column ? { ...g, column: g.column + extra } : g)),
+        ...body.map(g => ({ ...g, id: generateId() })),
+      ],
+      ...(c.repeaters && {
+        repeaters: c.repeaters.map(r => ({
+          ...r,
+          columnStart: r.columnStart > gate.column ? r.columnStart + extra : r.columnStart,
+          columnEnd: r.columnEnd >= gate.column ? r.columnEnd + extra : r.columnEnd,
+        })),
+      }),
+    }));
+
+    return null;
+  }, [circuit.gates, circuit.composites, saveToHistory]);
+
+  // Switch a custom or composite gate between itself and its dagger
+  const setGateInverse = useCallback((instanceId: string, inverse: boolean): ValidationError | null => {
+    const gate = circuit.gates.find(g => g.id === instanceId);
+    if (!gate) return { type: 'error', message: 'Gate not found' };
+
+    const composite = findComposite(circuit.composites, gate.gateId);
+    if (!composite && !findCustomGate(circuit.customGates, gate.gateId)) {
+      return { type: 'error', message: 'Only custom and composite gates can be inverted' };
+    }
+    if (composite && inverse && compositeHasMeasurement(composite, circuit.composites)) {
+      return { type: 'error', message: `${composite.name} contains measurements, so it has no inverse` };
+    }
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g => {
+        if (g.id !== instanceId) return g;
+        const { inverse: _inverse, ...rest } = g;
+        return inverse ? { ...rest, inverse: true } : rest;
+      }),
+    }));
+
+    return null;
+  }, [circuit.gates, circuit.composites, circuit.customGates, saveToHistory]);
+
   // Remove gate from circuit
   const removeGate = useCallback((instanceId: string) => {
     saveToHistory();
@@ -290,18 +681,57 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
       return { type: 'error', message: `Cell at qubit ${newControl}, column ${newColumn} is already occupied` };
     }
 
+    // The controls array moves along with the target
+    const gate = circuit.gates.find(g => g.id === instanceId);
+    if (!gate) return { type: 'error', message: 'Gate not found' };
+    const delta = newTarget - gate.target;
+    const newControls = gate.controls?.map(ctrl => ctrl + delta);
+    if (newControls) {
+      for (const ctrl of newControls) {
+        if (ctrl < 0 || ctrl >= circuit.numQubits) {
+          return { type: 'error', message: `Control qubit ${ctrl} is out of bounds` };
+        }
+        if (isCellOccupied(ctrl, newColumn, instanceId)) {
+          return { type: 'error', message: `Cell at qubit ${ctrl}, column ${newColumn} is already occupied` };
+        }
+      }
+    }
+    const newOpenControls = gate.openControls
+      ?.map(ctrl => (ctrl === gate.control ? newControl : ctrl + delta))
+      .filter((ctrl): ctrl is number => ctrl !== undefined);
+    // So do the other qubits of a custom gate
+    const newTargets = gate.targets?.map(qubit => qubit + delta);
+    if (newTargets) {
+      for (const qubit of newTargets) {
+        if (qubit < 0 || qubit >= circuit.numQubits) {
+          return { type: 'error', message: `Qubit ${qubit} is out of bounds` };
+        }
+        if (isCellOccupied(qubit, newColumn, instanceId)) {
+          return { type: 'error', message: `Cell at qubit ${qubit}, column ${newColumn} is already occupied` };
+        }
+      }
+    }
+
     saveToHistory();
     setCircuit(c => ({
       ...c,
       gates: c.gates.map(g =>
         g.id === instanceId
-          ? { ...g, target: newTarget, column: newColumn, control: newControl }
+          ? {
+              ...g,
+              target: newTarget,
+              column: newColumn,
+              control: newControl,
+              ...(newControls && { controls: newControls }),
+              ...(newOpenControls && { openControls: newOpenControls }),
+              ...(newTargets && { targets: newTargets }),
+            }
           : g
       ),
     }));
 
     return null;
-  }, [circuit.numQubits, isCellOccupied, saveToHistory]);
+  }, [circuit.gates, circuit.numQubits, isCellOccupied, saveToHistory]);
 
   // Update gate target qubit with validation
   const updateGateTarget = useCallback((instanceId: string, target: number): ValidationError | null => {
@@ -312,19 +742,29 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
       return { type: 'error', message: `Target qubit ${target} is out of bounds` };
     }
 
-    if (gate.control !== undefined && gate.control === target) {
+    if ((gate.control !== undefined && gate.control === target) || gate.controls?.includes(target)) {
       return { type: 'error', message: 'Target qubit cannot be the same as control qubit' };
     }
 
-    if (isCellOccupied(target, gate.column, instanceId)) {
-      return { type: 'error', message: `Cell at qubit ${target}, column ${gate.column} is already occupied` };
+    // A multi-qubit custom or composite gate moves as a block
+    const targets = gate.targets?.map(qubit => qubit + target - gate.target) ?? [target];
+    for (const qubit of targets) {
+      if (qubit >= circuit.numQubits) {
+        return { type: 'error', message: `Qubit ${qubit} is out of bounds` };
+      }
+      if (gate.controls?.includes(qubit)) {
+        return { type: 'error', message: 'Target qubit cannot be the same as control qubit' };
+      }
+      if (isCellOccupied(qubit, gate.column, instanceId)) {
+        return { type: 'error', message: `Cell at qubit ${qubit}, column ${gate.column} is already occupied` };
+      }
     }
 
     saveToHistory();
     setCircuit(c => ({
       ...c,
       gates: c.gates.map(g =>
-        g.id === instanceId ? { ...g, target } : g
+        g.id === instanceId ? { ...g, target, ...(g.targets && { targets }) } : g
       ),
     }));
 
@@ -348,24 +788,107 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
       return { type: 'error', message: `Cell at qubit ${control}, column ${gate.column} is already occupied` };
     }
 
+    // An open control stays open when it moves
+    const previous = getGateOperands(gate).controls[0];
+    const openControls = gate.openControls?.map(ctrl => (ctrl === previous ? control : ctrl));
+
     saveToHistory();
     setCircuit(c => ({
       ...c,
       gates: c.gates.map(g =>
-        g.id === instanceId ? { ...g, control } : g
+        g.id === instanceId ? { ...g, control, ...(openControls && { openControls }) } : g
       ),
     }));
 
     return null;
   }, [circuit.gates, circuit.numQubits, isCellOccupied, saveToHistory]);
 
+  // Add a control to a single-qubit or composite gate
+  const addGateControl = useCallback((instanceId: string, qubit: number): ValidationError | null => {
+    const gate = circuit.gates.find(g => g.id === instanceId);
+    if (!gate) return { type: 'error', message: 'Gate not found' };
+
+    const composite = findComposite(circuit.composites, gate.gateId);
+    if (!isControllableGate(gate.gateId) && !composite) {
+      return { type: 'error', message: `Controls cannot be added to ${gate.gateId} gates` };
+    }
+    if (composite && compositeHasMeasurement(composite, circuit.composites)) {
+      return { type: 'error', message: `${composite.name} contains measurements, so it cannot be controlled` };
+    }
+
+    if (qubit < 0 || qubit >= circuit.numQubits) {
+      return { type: 'error', message: `Control qubit ${qubit} is out of bounds` };
+    }
+
+    if (qubit === gate.target || gate.controls?.includes(qubit) || gate.targets?.includes(qubit)) {
+      return { type: 'error', message: `Qubit ${qubit} is already used by this gate` };
+    }
+
+    if (isCellOccupied(qubit, gate.column, instanceId)) {
+      return { type: 'error', message: `Cell at qubit ${qubit}, column ${gate.column} is already occupied` };
+    }
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g =>
+        g.id === instanceId
+          ? { ...g, controls: [...(g.controls ?? []), qubit].sort((a, b) => a - b) }
+          : g
+      ),
+    }));
+
+    return null;
+  }, [circuit.gates, circuit.composites, circuit.numQubits, isCellOccupied, saveToHistory]);
+
+  // Remove an added control from a single-qubit gate
+  const removeGateControl = useCallback((instanceId: string, qubit: number) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g => {
+        if (g.id !== instanceId || !g.controls?.includes(qubit)) return g;
+        const { controls: _controls, openControls: _openControls, ...rest } = g;
+        const controls = g.controls.filter(ctrl => ctrl !== qubit);
+        const openControls = g.openControls?.filter(ctrl => ctrl !== qubit);
+        return {
+          ...rest,
+          ...(controls.length > 0 && { controls }),
+          ...(openControls?.length && { openControls }),
+        };
+      }),
+    }));
+  }, [saveToHistory]);
+
+  // Make a control fire on |0⟩ (open) or on |1⟩
+  const setGateControlOpen = useCallback((instanceId: string, qubit: number, open: boolean) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g => {
+        if (g.id !== instanceId) return g;
+        const { controls } = getGateOperands(g);
+        if (!controls.includes(qubit)) return g;
+
+        // Store defaulted controls explicitly so the open state stays attached to them
+        const explicit: GateInstance = g.gateId === 'CNOT' || g.gateId === 'CZ' || g.gateId === 'CSWAP'
+          ? { ...g, control: controls[0] }
+          : { ...g, controls };
+        const { openControls: _openControls, ...rest } = explicit;
+        const openControls = (g.openControls ?? []).filter(ctrl => ctrl !== qubit);
+        if (open) openControls.push(qubit);
+        return { ...rest, ...(openControls.length > 0 && { openControls: openControls.sort((a, b) => a - b) }) };
+      }),
+    }));
+  }, [saveToHistory]);
+
   // Update gate angle
   const updateGateAngle = useCallback((instanceId: string, angle: number) => {
     saveToHistory();
     setCircuit(c => ({
       ...c,
       gates: c.gates.map(g =>
-        g.id === instanceId ? { ...g, angle } : g
+        g.id === instanceId ? { ...g, angle, angleExpression: undefined } : g
       ),
     }));
   }, [saveToHistory]);
@@ -376,11 +899,73 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
     setCircuit(c => ({
       ...c,
       gates: c.gates.map(g =>
-        g.id === instanceId ? { ...g, angles } : g
+        g.id === instanceId ? { ...g, angles, angleExpressions: undefined } : g
       ),
     }));
   }, [saveToHistory]);
 
+  // Set a gate's angles from expressions (one, or three for U). Constant
+  // expressions are stored as plain numbers; names not yet in the parameter
+  // table are added with value 0.
+  const setGateExpressions = useCallback((instanceId: string, expressions: string[]): ValidationError | null => {
+    const result = evaluateAngleExpressions(expressions, circuit.parameters ?? {});
+    if ('error' in result) return result.error;
+
+    const { angles, newNames, isSymbolic } = result;
+    const isMultiple = expressions.length > 1;
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      ...(newNames.length > 0 && {
+        parameters: { ...c.parameters, ...Object.fromEntries(newNames.map(name => [name, 0])) },
+      }),
+      gates: c.gates.map(g => {
+        if (g.id !== instanceId) return g;
+        const { angleExpression: _expression, angleExpressions: _expressions, ...rest } = g;
+        const gate: GateInstance = { ...rest, ...(isMultiple ? { angles } : { angle: angles[0] }) };
+        if (!isSymbolic) return gate;
+        return isMultiple
+          ? { ...gate, angleExpressions: expressions }
+          : { ...gate, angleExpression: expressions[0] };
+      }),
+    }));
+    return null;
+  }, [circuit.parameters, saveToHistory]);
+
+  const updateGateAngleExpression = useCallback((instanceId: string, expression: string) => {
+    return setGateExpressions(instanceId, [expression]);
+  }, [setGateExpressions]);
+
+  const updateGateAngleExpressions = useCallback((instanceId: string, expressions: string[]) => {
+    return setGateExpressions(instanceId, expressions);
+  }, [setGateExpressions]);
+
+  // Set the classical bit a measurement writes
+  const updateGateClbit = useCallback((instanceId: string, clbit: number) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g =>
+        g.id === instanceId ? { ...g, clbit } : g
+      ),
+    }));
+  }, [saveToHistory]);
+
+  // Set or clear a gate's classical condition
+  const updateGateCondition = useCallback((instanceId: string, condition: ClassicalCondition | undefined) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates: c.gates.map(g => {
+        if (g.id !== instanceId) return g;
+        if (condition) return { ...g, condition };
+        const { condition: _removed, ...rest } = g;
+        return rest;
+      }),
+    }));
+  }, [saveToHistory]);
+
   // Duplicate gates with offset and collision checking
   const duplicateGates = useCallback((
     instanceIds: string[],
@@ -409,12 +994,17 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
             occupied.add(`${ctrl},${gate.column}`);
           }
         }
+        for (const qubit of gate.targets ?? []) {
+          occupied.add(`${qubit},${gate.column}`);
+        }
       }
 
       for (const gate of gatesToDuplicate) {
         const newTarget = gate.target + qubitOffset;
         const newControl = gate.control !== undefined ? gate.control + qubitOffset : undefined;
         const newControls = gate.controls ? gate.controls.map(ctrl => ctrl + qubitOffset) : undefined;
+        const newOpenControls = gate.openControls ? gate.openControls.map(ctrl => ctrl + qubitOffset) : undefined;
+        const newTargets = gate.targets ? gate.targets.map(qubit => qubit + qubitOffset) : undefined;
         const newColumn = gate.column + columnOffset;
 
         // Check bounds
@@ -430,6 +1020,10 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
           skipped++;
           continue;
         }
+        if (newTargets && newTargets.some(qubit => qubit < 0 || qubit >= c.numQubits)) {
+          skipped++;
+          continue;
+        }
         if (newColumn < 0 || newColumn >= CIRCUIT_LIMITS.MAX_COLUMNS) {
           skipped++;
           continue;
@@ -466,6 +1060,12 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
           }
         }
 
+        // Check collision at the other qubits of a custom gate
+        if (newTargets && newTargets.some(qubit => occupied.has(`${qubit},${newColumn}`))) {
+          skipped++;
+          continue;
+        }
+
         const newId = generateId();
         newIds.push(newId);
 
@@ -479,6 +1079,9 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
             occupied.add(`${ctrl},${newColumn}`);
           }
         }
+        for (const qubit of newTargets ?? []) {
+          occupied.add(`${qubit},${newColumn}`);
+        }
 
         newGates.push({
           ...gate,
@@ -487,6 +1090,8 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
           column: newColumn,
           ...(newControl !== undefined && { control: newControl }),
           ...(newControls && { controls: newControls }),
+          ...(newOpenControls && { openControls: newOpenControls }),
+          ...(newTargets && { targets: newTargets }),
         });
       }
 
@@ -503,16 +1108,47 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
   const setNumQubits = useCallback((n: number) => {
     if (n < 1 || n > CIRCUIT_LIMITS.MAX_QUBITS) return;
     saveToHistory();
-    setCircuit(c => ({
-      ...c,
-      numQubits: n,
+    setCircuit(c => {
       // Remove gates that are out of bounds
-      gates: c.gates.filter(g => {
+      const gates = c.gates.filter(g => {
         if (g.target >= n) return false;
         if (g.control !== undefined && g.control >= n) return false;
         if (g.controls && g.controls.some(ctrl => ctrl >= n)) return false;
+        if (g.targets && g.targets.some(qubit => qubit >= n)) return false;
         return true;
-      }),
+      });
+      // Without an explicit size the classical register follows the qubit count
+      const numClbits = c.numClbits ?? n;
+      // Drop repeaters left without qubits and shrink the rest
+      const repeaters = c.repeaters
+        ?.filter(r => r.qubitStart < n)
+        .map(r => ({ ...r, qubitEnd: Math.min(r.qubitEnd, n - 1) }));
+      return {
+        ...c,
+        numQubits: n,
+        gates: fitClassicalBits(gates, numClbits),
+        ...(repeaters && { repeaters }),
+      };
+    });
+  }, [saveToHistory]);
+
+  // Set number of classical bits
+  const setNumClbits = useCallback((n: number) => {
+    if (n < 1 || n > CIRCUIT_LIMITS.MAX_CLBITS) return;
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      numClbits: n,
+      gates: fitClassicalBits(c.gates, n),
+    }));
+  }, [saveToHistory]);
+
+  // Replace every gate at once (optimizer results), as a single undo step
+  const replaceGates = useCallback((gates: GateInstance[]) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      gates,
     }));
   }, [saveToHistory]);
 
@@ -522,6 +1158,7 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
     setCircuit(c => ({
       ...c,
       gates: [],
+      repeaters: [],
     }));
   }, [saveToHistory]);
 
@@ -541,66 +1178,11 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
   // Load saved circuit
   const loadCircuit = useCallback((saved: SavedCircuit) => {
     saveToHistory();
-    setCircuit({
-      numQubits: saved.numQubits,
-      name: saved.name,
-      description: saved.description,
-      gates: saved.gates.map(g => ({
-        id: generateId(),
-        gateId: g.gate,
-        target: g.target,
-        column: 0, // Will be calculated
-        ...(g.control !== undefined && { control: g.control }),
-        ...(g.controls !== undefined && { controls: g.controls }),
-        ...(g.angle !== undefined && { angle: g.angle }),
-        ...(g.angles !== undefined && { angles: g.angles }),
-      })),
-    });
-
-    // Recalculate columns based on gate order
-    setCircuit(c => {
-      const gates = [...c.gates];
-      const qubitColumns: number[] = new Array(c.numQubits).fill(0);
-
-      for (let i = 0; i < gates.length; i++) {
-        const gate = gates[i];
-        const affectedQubits = [gate.target];
-        if (gate.control !== undefined) affectedQubits.push(gate.control);
-        if (gate.controls !== undefined) affectedQubits.push(...gate.controls);
-
-        const column = Math.max(...affectedQubits.map(q => qubitColumns[q]));
-        gates[i] = { ...gate, column };
-
-        for (const q of affectedQubits) {
-          qubitColumns[q] = column + 1;
-        }
-      }
-
-      return { ...c, gates };
-    });
+    setCircuit(circuitFromSaved(saved, generateId));
   }, [saveToHistory]);
 
   // Save circuit to format
-  const saveCircuit = useCallback((): SavedCircuit => {
-    const sortedGates = [...circuit.gates].sort((a, b) => a.column - b.column);
-
-    return {
-      version: '1.0',
-      name: circuit.name,
-      description: circuit.description,
-      numQubits: circuit.numQubits,
-      gates: sortedGates.map(g => ({
-        gate: g.gateId,
-        target: g.target,
-        ...(g.control !== undefined && { control: g.control }),
-        ...(g.controls !== undefined && { controls: g.controls }),
-        ...(g.angle !== undefined && { angle: g.angle }),
-        ...(g.angles !== undefined && { angles: g.angles }),
-      })),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-  }, [circuit]);
+  const saveCircuit = useCallback((): SavedCircuit => circuitToSaved(circuit), [circuit]);
 
   // Set circuit name
   const setCircuitName = useCallback((name: string) => {
@@ -612,6 +1194,83 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
     setCircuit(c => ({ ...c, description }));
   }, []);
 
+  // Set noise model
+  const setNoiseModel = useCallback((noiseModel: NoiseModel) => {
+    setCircuit(c => ({ ...c, noiseModel }));
+  }, []);
+
+  // Add a repeater block
+  const addRepeater = useCallback((block: Omit<RepeaterBlock, 'id'>): ValidationError | null => {
+    const error = validateRepeaterBlock(block, circuit.numQubits, circuit.repeaters ?? []);
+    if (error) return error;
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      repeaters: [...(c.repeaters ?? []), { ...block, id: generateId() }],
+    }));
+    return null;
+  }, [circuit.numQubits, circuit.repeaters, saveToHistory]);
+
+  // Change the range or repetition count of a repeater block
+  const updateRepeater = useCallback((id: string, block: Omit<RepeaterBlock, 'id'>): ValidationError | null => {
+    const others = (circuit.repeaters ?? []).filter(r => r.id !== id);
+    const error = validateRepeaterBlock(block, circuit.numQubits, others);
+    if (error) return error;
+
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      repeaters: (c.repeaters ?? []).map(r => (r.id === id ? { ...block, id } : r)),
+    }));
+    return null;
+  }, [circuit.numQubits, circuit.repeaters, saveToHistory]);
+
+  // Remove a repeater block (its gates stay in the circuit)
+  const removeRepeater = useCallback((id: string) => {
+    saveToHistory();
+    setCircuit(c => ({
+      ...c,
+      repeaters: (c.repeaters ?? []).filter(r => r.id !== id),
+    }));
+  }, [saveToHistory]);
+
+  // Add a named parameter to the table
+  const addParameter = useCallback((name: string, value: number): ValidationError | null => {
+    const nameError = validateParameterName(name);
+    if (nameError) return { type: 'error', message: nameError };
+    if (circuit.parameters && name in circuit.parameters) {
+      return { type: 'error', message: `Parameter "${name}" already exists` };
+    }
+
+    saveToHistory();
+    setCircuit(c => ({ ...c, parameters: { ...c.parameters, [name]: value } }));
+    return null;
+  }, [circuit.parameters, saveToHistory]);
+
+  // Set parameter values and re-evaluate the angles that use them
+  const setParameterValues = useCallback((values: Record<string, number>) => {
+    saveToHistory();
+    setCircuit(c => {
+      const parameters = { ...c.parameters, ...values };
+      return { ...c, parameters, gates: rebindGates(c.gates, parameters, Object.keys(values)) };
+    });
+  }, [saveToHistory]);
+
+  // Remove a parameter that no gate uses
+  const removeParameter = useCallback((name: string): ValidationError | null => {
+    if (getUsedParameters(circuit.gates).has(name)) {
+      return { type: 'error', message: `Parameter "${name}" is used by a gate` };
+    }
+
+    saveToHistory();
+    setCircuit(c => {
+      const { [name]: _removed, ...parameters } = c.parameters ?? {};
+      return { ...c, parameters };
+    });
+    return null;
+  }, [circuit.gates, saveToHistory]);
+
   // Undo
   const undo = useCallback(() => {
     if (history.length === 0) return;
@@ -635,21 +1294,43 @@ export function useCircuitState(initialQubits: number = 3): UseCircuitStateRetur
     numColumns,
     addGate,
     addGates,
+    addCustomGate,
+    updateCustomGate,
+    addCompositeGate,
+    collapseGates,
+    expandCompositeGate,
+    setGateInverse,
     removeGate,
     removeGates,
     moveGate,
     updateGateTarget,
     updateGateControl,
+    addGateControl,
+    removeGateControl,
+    setGateControlOpen,
     updateGateAngle,
     updateGateAngles,
+    updateGateAngleExpression,
+    updateGateAngleExpressions,
+    updateGateClbit,
+    updateGateCondition,
     duplicateGates,
+    replaceGates,
     setNumQubits,
+    setNumClbits,
     clearCircuit,
     newCircuit,
     loadCircuit,
     saveCircuit,
     setCircuitName,
     setCircuitDescription,
+    setNoiseModel,
+    addRepeater,
+    updateRepeater,
+    removeRepeater,
+    addParameter,
+    setParameterValues,
+    removeParameter,
     isCellOccupied,
     undo,
     redo,
@@ -0,0 +1,85 @@
+/**
+ * React hook for the library of user-defined gates, kept in localStorage.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { CustomGateDefinition } from '../types/circuit';
+import { validateCustomGate } from '../utils/customGates';
+import { STORAGE_KEYS } from '../config';
+
+// Load the library from localStorage, skipping definitions that no longer validate
+function loadCustomGates(): CustomGateDefinition[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.CUSTOM_GATES);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((definition: CustomGateDefinition) => validateCustomGate(definition) === null);
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load custom gates:', e);
+  }
+  return [];
+}
+
+// Save the library to localStorage
+function saveCustomGates(gates: CustomGateDefinition[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_GATES, JSON.stringify(gates));
+  } catch (e) {
+    console.error('Failed to save custom gates:', e);
+  }
+}
+
+export interface UseCustomGatesReturn {
+  customGates: CustomGateDefinition[];
+  saveCustomGate: (definition: CustomGateDefinition, isEdit: boolean) => string | null;
+  deleteCustomGate: (name: string) => void;
+  importCustomGates: (definitions: CustomGateDefinition[]) => void;
+}
+
+export function useCustomGates(): UseCustomGatesReturn {
+  const [customGates, setCustomGates] = useState<CustomGateDefinition[]>(loadCustomGates);
+
+  // Save the library whenever it changes
+  useEffect(() => {
+    saveCustomGates(customGates);
+  }, [customGates]);
+
+  // Add a new gate, or replace an edited one of the same name. Returns an
+  // error message when the definition is invalid or a new gate's name is taken.
+  const saveCustomGate = useCallback((definition: CustomGateDefinition, isEdit: boolean): string | null => {
+    const error = validateCustomGate(definition);
+    if (error) return error;
+    if (!isEdit && customGates.some(d => d.name === definition.name)) {
+      return `A custom gate named "${definition.name}" already exists`;
+    }
+
+    setCustomGates(prev => isEdit
+      ? prev.map(d => (d.name === definition.name ? definition : d))
+      : [...prev, definition]
+    );
+    return null;
+  }, [customGates]);
+
+  // Remove a gate from the library; circuits keep their own copy
+  const deleteCustomGate = useCallback((name: string) => {
+    setCustomGates(prev => prev.filter(d => d.name !== name));
+  }, []);
+
+  // Add the definitions of a loaded circuit whose names are not in the library yet
+  const importCustomGates = useCallback((definitions: CustomGateDefinition[]) => {
+    setCustomGates(prev => {
+      const added = definitions.filter(d => !prev.some(existing => existing.name === d.name));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, []);
+
+  return {
+    customGates,
+    saveCustomGate,
+    deleteCustomGate,
+    importCustomGates,
+  };
+}
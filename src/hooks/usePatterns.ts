@@ -3,7 +3,8 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { CircuitPattern, PatternGate, GateInstance } from '../types/circuit';
+import { CircuitPattern, PatternGate, GateInstance, CompositeGateDefinition } from '../types/circuit';
+import { getUsedComposites } from '../utils/composites';
 
 const STORAGE_KEY = 'quantum-circuit-patterns';
 
@@ -52,7 +53,11 @@ export interface UsePatternsReturn {
   patterns: CircuitPattern[];
   selectedPattern: CircuitPattern | null;
   selectPattern: (patternId: string | null) => void;
-  createPatternFromGates: (gates: GateInstance[], name: string) => CircuitPattern | null;
+  createPatternFromGates: (
+    gates: GateInstance[],
+    name: string,
+    composites?: CompositeGateDefinition[]
+  ) => CircuitPattern | null;
   deletePattern: (patternId: string) => void;
   renamePattern: (patternId: string, name: string) => void;
   applyPattern: (
@@ -81,10 +86,12 @@ export function usePatterns(): UsePatternsReturn {
     setSelectedPatternId(patternId);
   }, []);
 
-  // Create a pattern from selected gates
+  // Create a pattern from selected gates, keeping the definitions of the
+  // circuit's composite gates among them
   const createPatternFromGates = useCallback((
     gates: GateInstance[],
-    name: string
+    name: string,
+    composites: CompositeGateDefinition[] = []
   ): CircuitPattern | null => {
     if (gates.length === 0) return null;
 
@@ -111,6 +118,13 @@ export function usePatterns(): UsePatternsReturn {
           maxQubit = Math.max(maxQubit, ctrl);
         }
       }
+
+      if (gate.targets) {
+        for (const qubit of gate.targets) {
+          minQubit = Math.min(minQubit, qubit);
+          maxQubit = Math.max(maxQubit, qubit);
+        }
+      }
     }
 
     // Convert gates to pattern gates with relative positions
@@ -120,10 +134,14 @@ export function usePatterns(): UsePatternsReturn {
       relativeColumn: gate.column - minColumn,
       ...(gate.control !== undefined && { relativeControl: gate.control - minQubit }),
       ...(gate.controls && { relativeControls: gate.controls.map(c => c - minQubit) }),
+      ...(gate.openControls && { relativeOpenControls: gate.openControls.map(c => c - minQubit) }),
+      ...(gate.targets && { relativeTargets: gate.targets.map(q => q - minQubit) }),
       ...(gate.angle !== undefined && { angle: gate.angle }),
       ...(gate.angles !== undefined && { angles: gate.angles }),
+      ...(gate.inverse && { inverse: true }),
     }));
 
+    const nested = getUsedComposites(gates, composites);
     const colorIndex = patterns.length % PATTERN_COLORS.length;
     const newPattern: CircuitPattern = {
       id: generateId(),
@@ -133,6 +151,7 @@ export function usePatterns(): UsePatternsReturn {
       columnSpan: maxColumn - minColumn + 1,
       color: PATTERN_COLORS[colorIndex],
       createdAt: new Date().toISOString(),
+      ...(nested.length > 0 && { composites: nested }),
     };
 
     setPatterns(prev => [...prev, newPattern]);
@@ -191,6 +210,10 @@ export function usePatterns(): UsePatternsReturn {
           }
         }
       }
+
+      if (pg.relativeTargets?.some(q => isCellOccupied(targetQubit + q, column))) {
+        return null;
+      }
     }
 
     // Create gate instances from pattern
@@ -201,8 +224,11 @@ export function usePatterns(): UsePatternsReturn {
       column: targetColumn + pg.relativeColumn,
       ...(pg.relativeControl !== undefined && { control: targetQubit + pg.relativeControl }),
       ...(pg.relativeControls && { controls: pg.relativeControls.map(c => targetQubit + c) }),
+      ...(pg.relativeOpenControls && { openControls: pg.relativeOpenControls.map(c => targetQubit + c) }),
+      ...(pg.relativeTargets && { targets: pg.relativeTargets.map(q => targetQubit + q) }),
       ...(pg.angle !== undefined && { angle: pg.angle }),
       ...(pg.angles !== undefined && { angles: pg.angles }),
+      ...(pg.inverse && { inverse: true }),
     }));
 
     return newGates;
@@ -1,146 +1,22 @@
 /**
  * React hook for quantum circuit simulation using pure JavaScript.
+ * The simulation itself lives in src/simulator; this hook manages React state.
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import { ExecutionResults, CircuitState, Complex } from '../types/circuit';
-import { CIRCUIT_LIMITS, EXECUTION_CONSTANTS } from '../config';
-
-// Complex number utilities
-
-function complexMul(a: Complex, b: Complex): Complex {
-  return {
-    re: a.re * b.re - a.im * b.im,
-    im: a.re * b.im + a.im * b.re,
-  };
-}
-
-function complexAdd(a: Complex, b: Complex): Complex {
-  return { re: a.re + b.re, im: a.im + b.im };
-}
-
-function complexMagnitudeSq(a: Complex): number {
-  return a.re * a.re + a.im * a.im;
-}
-
-// Gate matrices
-const GATE_MATRICES: Record<string, Complex[][]> = {
-  I: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: 1, im: 0 }],
-  ],
-  X: [
-    [{ re: 0, im: 0 }, { re: 1, im: 0 }],
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-  ],
-  Y: [
-    [{ re: 0, im: 0 }, { re: 0, im: -1 }],
-    [{ re: 0, im: 1 }, { re: 0, im: 0 }],
-  ],
-  Z: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: -1, im: 0 }],
-  ],
-  H: [
-    [{ re: 1 / Math.sqrt(2), im: 0 }, { re: 1 / Math.sqrt(2), im: 0 }],
-    [{ re: 1 / Math.sqrt(2), im: 0 }, { re: -1 / Math.sqrt(2), im: 0 }],
-  ],
-  S: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: 0, im: 1 }],
-  ],
-  Sdg: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: 0, im: -1 }],
-  ],
-  T: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: Math.cos(Math.PI / 4), im: Math.sin(Math.PI / 4) }],
-  ],
-  Tdg: [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: Math.cos(Math.PI / 4), im: -Math.sin(Math.PI / 4) }],
-  ],
-  SX: [
-    [{ re: 0.5, im: 0.5 }, { re: 0.5, im: -0.5 }],
-    [{ re: 0.5, im: -0.5 }, { re: 0.5, im: 0.5 }],
-  ],
-};
-
-// Create rotation gate matrices
-function createRx(theta: number): Complex[][] {
-  const c = Math.cos(theta / 2);
-  const s = Math.sin(theta / 2);
-  return [
-    [{ re: c, im: 0 }, { re: 0, im: -s }],
-    [{ re: 0, im: -s }, { re: c, im: 0 }],
-  ];
-}
-
-function createRy(theta: number): Complex[][] {
-  const c = Math.cos(theta / 2);
-  const s = Math.sin(theta / 2);
-  return [
-    [{ re: c, im: 0 }, { re: -s, im: 0 }],
-    [{ re: s, im: 0 }, { re: c, im: 0 }],
-  ];
-}
-
-function createRz(theta: number): Complex[][] {
-  const c = Math.cos(theta / 2);
-  const s = Math.sin(theta / 2);
-  return [
-    [{ re: c, im: -s }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: c, im: s }],
-  ];
-}
-
-function createPhase(phi: number): Complex[][] {
-  return [
-    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
-    [{ re: 0, im: 0 }, { re: Math.cos(phi), im: Math.sin(phi) }],
-  ];
-}
-
-function createU(theta: number, phi: number, lambda: number): Complex[][] {
-  const ct = Math.cos(theta / 2);
-  const st = Math.sin(theta / 2);
-  return [
-    [
-      { re: ct, im: 0 },
-      { re: -st * Math.cos(lambda), im: -st * Math.sin(lambda) },
-    ],
-    [
-      { re: st * Math.cos(phi), im: st * Math.sin(phi) },
-      { re: ct * Math.cos(phi + lambda), im: ct * Math.sin(phi + lambda) },
-    ],
-  ];
-}
-
-// Get gate matrix
-function getGateMatrix(gateId: string, angle?: number, angles?: number[]): Complex[][] {
-  if (GATE_MATRICES[gateId]) {
-    return GATE_MATRICES[gateId];
-  }
-
-  const theta = angle ?? Math.PI;
-
-  switch (gateId) {
-    case 'Rx':
-      return createRx(theta);
-    case 'Ry':
-      return createRy(theta);
-    case 'Rz':
-      return createRz(theta);
-    case 'P':
-      return createPhase(theta);
-    case 'U':
-      const [t, p, l] = angles ?? [theta, 0, 0];
-      return createU(t, p, l);
-    default:
-      return GATE_MATRICES.I;
-  }
-}
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ExecutionResults, CircuitState, SimulationBackend, SimulationEngine } from '../types/circuit';
+import { CIRCUIT_LIMITS } from '../config';
+import {
+  computeStatevector,
+  executeShots,
+  selectBackend,
+  estimateRunBytes,
+  getMemoryBudget,
+  formatBytes,
+  ExecutionProgress,
+  WorkerRequest,
+  WorkerResponse,
+} from '../simulator';
 
 // Hardware information interface
 export interface HardwareInfo {
@@ -155,15 +31,41 @@ export interface HardwareInfo {
 export interface UseQuantumSimulatorReturn {
   isReady: boolean;
   isExecuting: boolean;
+  progress: ExecutionProgress | null;
   results: ExecutionResults | null;
   error: string | null;
   hardwareInfo: HardwareInfo | null;
   refreshHardwareInfo: () => void;
-  executeCircuit: (circuit: CircuitState, shots?: number) => Promise<ExecutionResults | null>;
+  executeCircuit: (
+    circuit: CircuitState,
+    shots?: number,
+    engine?: SimulationEngine,
+    observables?: string[]
+  ) => Promise<ExecutionResults | null>;
+  cancelExecution: () => void;
   getStatevector: (circuit: CircuitState) => Promise<{ real: number[]; imag: number[] } | null>;
   reset: () => void;
 }
 
+// Execution currently running in the worker
+interface PendingExecution {
+  id: number;
+  resolve: (results: ExecutionResults | null) => void;
+}
+
+// Why a run would not fit in the memory budget, or null when it fits
+function getMemoryBlocker(
+  circuit: CircuitState,
+  backend: SimulationBackend,
+  hardwareInfo: HardwareInfo | null
+): string | null {
+  const needed = estimateRunBytes(circuit.numQubits, backend);
+  const budget = getMemoryBudget(hardwareInfo?.deviceMemory ?? null);
+  if (needed <= budget) return null;
+  return `${circuit.numQubits} qubits need about ${formatBytes(needed)} with this engine, ` +
+    `more than the ${formatBytes(budget)} available to a run`;
+}
+
 // Check WebGL support
 function checkWebGLSupport(): boolean {
   try {
@@ -185,10 +87,15 @@ function checkWebGPUSupport(): boolean {
 export function useQuantumSimulator(): UseQuantumSimulatorReturn {
   const [isReady, setIsReady] = useState(false);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [progress, setProgress] = useState<ExecutionProgress | null>(null);
   const [results, setResults] = useState<ExecutionResults | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hardwareInfo, setHardwareInfo] = useState<HardwareInfo | null>(null);
 
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingExecution | null>(null);
+  const nextRequestIdRef = useRef(0);
+
   // Refresh hardware information
   const refreshHardwareInfo = useCallback(() => {
     // Get device memory if available (Chrome only)
@@ -212,348 +119,121 @@ export function useQuantumSimulator(): UseQuantumSimulatorReturn {
     refreshHardwareInfo();
   }, [refreshHardwareInfo]);
 
-  // Apply single-qubit gate using strided indexing
-  const applySingleQubitGate = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    target: number,
-    gate: Complex[][]
-  ) => {
-    const dim = 1 << numQubits;
-    const stride = 1 << target;
-
-    for (let i = 0; i < dim; i += stride * 2) {
-      for (let j = 0; j < stride; j++) {
-        const idx0 = i + j;
-        const idx1 = i + j + stride;
-
-        const a0: Complex = { re: stateReal[idx0], im: stateImag[idx0] };
-        const a1: Complex = { re: stateReal[idx1], im: stateImag[idx1] };
-
-        const new0 = complexAdd(complexMul(gate[0][0], a0), complexMul(gate[0][1], a1));
-        const new1 = complexAdd(complexMul(gate[1][0], a0), complexMul(gate[1][1], a1));
-
-        stateReal[idx0] = new0.re;
-        stateImag[idx0] = new0.im;
-        stateReal[idx1] = new1.re;
-        stateImag[idx1] = new1.im;
-      }
-    }
-  }, []);
-
-  // Apply controlled gate
-  const applyControlledGate = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    control: number,
-    target: number,
-    gate: Complex[][]
-  ) => {
-    const dim = 1 << numQubits;
-    const controlMask = 1 << control;
-    const targetMask = 1 << target;
-
-    for (let i = 0; i < dim; i++) {
-      // Only apply if control qubit is |1⟩
-      if ((i & controlMask) === 0) continue;
-
-      // Only process pairs once (when target bit is 0)
-      if ((i & targetMask) !== 0) continue;
-
-      const idx0 = i;
-      const idx1 = i | targetMask;
-
-      const a0: Complex = { re: stateReal[idx0], im: stateImag[idx0] };
-      const a1: Complex = { re: stateReal[idx1], im: stateImag[idx1] };
-
-      const new0 = complexAdd(complexMul(gate[0][0], a0), complexMul(gate[0][1], a1));
-      const new1 = complexAdd(complexMul(gate[1][0], a0), complexMul(gate[1][1], a1));
-
-      stateReal[idx0] = new0.re;
-      stateImag[idx0] = new0.im;
-      stateReal[idx1] = new1.re;
-      stateImag[idx1] = new1.im;
-    }
-  }, []);
-
-  // Apply SWAP gate
-  const applySwapGate = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    qubit1: number,
-    qubit2: number
-  ) => {
-    const dim = 1 << numQubits;
-    const mask1 = 1 << qubit1;
-    const mask2 = 1 << qubit2;
-
-    for (let i = 0; i < dim; i++) {
-      const bit1 = (i & mask1) !== 0 ? 1 : 0;
-      const bit2 = (i & mask2) !== 0 ? 1 : 0;
-
-      // Only swap if bits are different and we haven't processed this pair
-      if (bit1 !== bit2 && bit1 < bit2) {
-        const j = (i ^ mask1) ^ mask2;
-
-        const tempReal = stateReal[i];
-        const tempImag = stateImag[i];
-        stateReal[i] = stateReal[j];
-        stateImag[i] = stateImag[j];
-        stateReal[j] = tempReal;
-        stateImag[j] = tempImag;
-      }
-    }
+  // Settle the pending execution and clear the execution state
+  const finishExecution = useCallback((executionResults: ExecutionResults | null) => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setIsExecuting(false);
+    setProgress(null);
+    pending?.resolve(executionResults);
   }, []);
 
-  // Apply multi-controlled gate (for CCX, CCZ, etc.)
-  const applyMultiControlledGate = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    controls: number[],
-    target: number,
-    gate: Complex[][]
-  ) => {
-    const dim = 1 << numQubits;
-    // Create mask for all control qubits
-    const controlMask = controls.reduce((m, c) => m | (1 << c), 0);
-    const targetMask = 1 << target;
-
-    for (let i = 0; i < dim; i++) {
-      // Only apply if ALL control qubits are |1⟩
-      if ((i & controlMask) !== controlMask) continue;
-
-      // Only process pairs once (when target bit is 0)
-      if ((i & targetMask) !== 0) continue;
-
-      const idx0 = i;
-      const idx1 = i | targetMask;
-
-      const a0: Complex = { re: stateReal[idx0], im: stateImag[idx0] };
-      const a1: Complex = { re: stateReal[idx1], im: stateImag[idx1] };
-
-      const new0 = complexAdd(complexMul(gate[0][0], a0), complexMul(gate[0][1], a1));
-      const new1 = complexAdd(complexMul(gate[1][0], a0), complexMul(gate[1][1], a1));
-
-      stateReal[idx0] = new0.re;
-      stateImag[idx0] = new0.im;
-      stateReal[idx1] = new1.re;
-      stateImag[idx1] = new1.im;
-    }
+  // Stop the worker; a fresh one is created for the next run
+  const terminateWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
   }, []);
 
-  // Apply controlled-SWAP (Fredkin) gate
-  const applyControlledSwapGate = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    control: number,
-    qubit1: number,
-    qubit2: number
-  ) => {
-    const dim = 1 << numQubits;
-    const controlMask = 1 << control;
-    const mask1 = 1 << qubit1;
-    const mask2 = 1 << qubit2;
-
-    for (let i = 0; i < dim; i++) {
-      // Only apply if control qubit is |1⟩
-      if ((i & controlMask) === 0) continue;
-
-      const bit1 = (i & mask1) !== 0 ? 1 : 0;
-      const bit2 = (i & mask2) !== 0 ? 1 : 0;
-
-      // Only swap if bits are different and we haven't processed this pair
-      if (bit1 !== bit2 && bit1 < bit2) {
-        const j = (i ^ mask1) ^ mask2;
-
-        const tempReal = stateReal[i];
-        const tempImag = stateImag[i];
-        stateReal[i] = stateReal[j];
-        stateImag[i] = stateImag[j];
-        stateReal[j] = tempReal;
-        stateImag[j] = tempImag;
-      }
-    }
-  }, []);
+  // Get the simulation worker, creating it on first use
+  const getWorker = useCallback((): Worker => {
+    if (workerRef.current) return workerRef.current;
 
-  // Measure qubit
-  const measureQubit = useCallback((
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    numQubits: number,
-    target: number
-  ): number => {
-    const dim = 1 << numQubits;
-    const mask = 1 << target;
-
-    // Calculate probability of |1⟩
-    let prob1 = 0;
-    for (let i = 0; i < dim; i++) {
-      if ((i & mask) !== 0) {
-        prob1 += complexMagnitudeSq({ re: stateReal[i], im: stateImag[i] });
-      }
-    }
+    const worker = new Worker(
+      new URL('../simulator/simulationWorker.ts', import.meta.url),
+      { type: 'module' }
+    );
 
-    // Random measurement
-    const result = Math.random() < prob1 ? 1 : 0;
-
-    // Collapse wavefunction
-    const norm = Math.sqrt(result === 1 ? prob1 : 1 - prob1);
-    for (let i = 0; i < dim; i++) {
-      const bit = (i & mask) !== 0 ? 1 : 0;
-      if (bit === result) {
-        stateReal[i] /= norm;
-        stateImag[i] /= norm;
-      } else {
-        stateReal[i] = 0;
-        stateImag[i] = 0;
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+
+      // Ignore messages from runs that were cancelled or superseded
+      if (pendingRef.current?.id !== message.id) return;
+
+      switch (message.type) {
+        case 'progress':
+          setProgress({ completed: message.completed, total: message.total });
+          break;
+        case 'result':
+          setResults(message.results);
+          finishExecution(message.results);
+          break;
+        case 'error':
+          setError(`Execution failed: ${message.message}`);
+          finishExecution(null);
+          break;
       }
-    }
+    };
 
-    return result;
-  }, []);
+    worker.onerror = (event) => {
+      setError(`Execution failed: ${event.message}`);
+      terminateWorker();
+      finishExecution(null);
+    };
 
-  // Simulate circuit once using pre-allocated buffers
-  const simulateOnce = useCallback((
-    circuit: CircuitState,
-    stateReal: Float32Array,
-    stateImag: Float32Array,
-    measurements: number[],
-    measured: boolean[]
-  ): string => {
-    const { numQubits, gates } = circuit;
-
-    // Reset state to |0...0⟩
-    stateReal.fill(0);
-    stateImag.fill(0);
-    stateReal[0] = 1;
-
-    // Reset measurement tracking
-    measurements.fill(0);
-    measured.fill(false);
-
-    // Sort gates by column
-    const sortedGates = [...gates].sort((a, b) => a.column - b.column);
-
-    // Apply gates
-    for (const gate of sortedGates) {
-      const { gateId, target, control, controls, angle, angles } = gate;
-
-      if (gateId === 'M') {
-        measurements[target] = measureQubit(stateReal, stateImag, numQubits, target);
-        measured[target] = true;
-      } else if (gateId === 'CNOT') {
-        const ctrlQubit = control ?? target - 1;
-        applyControlledGate(stateReal, stateImag, numQubits, ctrlQubit, target, GATE_MATRICES.X);
-      } else if (gateId === 'CZ') {
-        const ctrlQubit = control ?? target - 1;
-        applyControlledGate(stateReal, stateImag, numQubits, ctrlQubit, target, GATE_MATRICES.Z);
-      } else if (gateId === 'SWAP') {
-        const qubit2 = control ?? target + 1;
-        applySwapGate(stateReal, stateImag, numQubits, target, qubit2);
-      } else if (gateId === 'CCX') {
-        // Toffoli gate: two controls, one target
-        const ctrls = controls ?? [target - 2, target - 1];
-        applyMultiControlledGate(stateReal, stateImag, numQubits, ctrls, target, GATE_MATRICES.X);
-      } else if (gateId === 'CCZ') {
-        // CCZ gate: two controls, one target
-        const ctrls = controls ?? [target - 2, target - 1];
-        applyMultiControlledGate(stateReal, stateImag, numQubits, ctrls, target, GATE_MATRICES.Z);
-      } else if (gateId === 'CSWAP') {
-        // Fredkin gate: one control, two swap targets
-        const ctrlQubit = control ?? target - 2;
-        const swap1 = target - 1;
-        const swap2 = target;
-        applyControlledSwapGate(stateReal, stateImag, numQubits, ctrlQubit, swap1, swap2);
-      } else {
-        const matrix = getGateMatrix(gateId, angle, angles);
-        applySingleQubitGate(stateReal, stateImag, numQubits, target, matrix);
-      }
-    }
+    workerRef.current = worker;
+    return worker;
+  }, [finishExecution, terminateWorker]);
 
-    // Final measurement for unmeasured qubits
-    for (let q = 0; q < numQubits; q++) {
-      if (!measured[q]) {
-        measurements[q] = measureQubit(stateReal, stateImag, numQubits, q);
-      }
-    }
+  // Terminate the worker when the component unmounts
+  useEffect(() => terminateWorker, [terminateWorker]);
 
-    // Convert to bitstring (little-endian)
-    return measurements.map(b => b.toString()).join('');
-  }, [applySingleQubitGate, applyControlledGate, applySwapGate, applyMultiControlledGate, applyControlledSwapGate, measureQubit]);
+  // Cancel the running execution, if any
+  const cancelExecution = useCallback(() => {
+    if (!pendingRef.current) return;
+    terminateWorker();
+    finishExecution(null);
+  }, [terminateWorker, finishExecution]);
 
-  // Execute circuit with multiple shots using chunked execution to prevent UI blocking
+  // Execute circuit with multiple shots in the simulation worker
   const executeCircuit = useCallback(async (
     circuit: CircuitState,
-    shots: number = CIRCUIT_LIMITS.DEFAULT_SHOTS
+    shots: number = CIRCUIT_LIMITS.DEFAULT_SHOTS,
+    engine: SimulationEngine = 'statevector',
+    observables?: string[]
   ): Promise<ExecutionResults | null> => {
     if (!isReady) {
       setError('Simulator not ready');
       return null;
     }
 
+    const memoryBlocker = getMemoryBlocker(circuit, selectBackend(circuit, engine), hardwareInfo);
+    if (memoryBlocker) {
+      setError(memoryBlocker);
+      return null;
+    }
+
+    // Only one execution runs at a time
+    cancelExecution();
+
     setIsExecuting(true);
+    setProgress({ completed: 0, total: shots });
     setError(null);
 
-    try {
-      const startTime = performance.now();
-      const counts: Record<string, number> = {};
-
-      // Pre-allocate reusable buffers to reduce memory pressure
-      const dim = 1 << circuit.numQubits;
-      const stateReal = new Float32Array(dim);
-      const stateImag = new Float32Array(dim);
-      const measurements = new Array<number>(circuit.numQubits);
-      const measured = new Array<boolean>(circuit.numQubits);
-
-      // Chunked execution to prevent UI blocking
-      for (let i = 0; i < shots; i += EXECUTION_CONSTANTS.CHUNK_SIZE) {
-        const chunkEnd = Math.min(i + EXECUTION_CONSTANTS.CHUNK_SIZE, shots);
-
-        // Process chunk
-        for (let j = i; j < chunkEnd; j++) {
-          const result = simulateOnce(circuit, stateReal, stateImag, measurements, measured);
-          counts[result] = (counts[result] || 0) + 1;
-        }
-
-        // Yield to main thread between chunks to keep UI responsive
-        if (chunkEnd < shots) {
-          await new Promise(resolve => setTimeout(resolve, 0));
-        }
-      }
-
-      // Calculate probabilities (reuse dim from buffer allocation)
-      const probabilities = new Array(dim).fill(0);
-      for (const [bitstring, count] of Object.entries(counts)) {
-        const idx = parseInt(bitstring.split('').reverse().join(''), 2);
-        probabilities[idx] = count / shots;
+    // Fall back to the main thread where workers are unavailable
+    if (typeof Worker === 'undefined') {
+      try {
+        const executionResults = executeShots(circuit, shots, { engine, observables });
+        setResults(executionResults);
+        return executionResults;
+      } catch (err) {
+        setError(`Execution failed: ${err}`);
+        return null;
+      } finally {
+        setIsExecuting(false);
+        setProgress(null);
       }
-
-      const executionTime = performance.now() - startTime;
-
-      const executionResults: ExecutionResults = {
-        counts,
-        probabilities,
-        shots,
-        executionTime,
-      };
-
-      setResults(executionResults);
-      return executionResults;
-    } catch (err) {
-      const errorMsg = `Execution failed: ${err}`;
-      setError(errorMsg);
-      return null;
-    } finally {
-      setIsExecuting(false);
     }
-  }, [isReady, simulateOnce]);
 
-  // Get statevector without measurement
+    const id = ++nextRequestIdRef.current;
+    return new Promise<ExecutionResults | null>((resolve) => {
+      pendingRef.current = { id, resolve };
+      const request: WorkerRequest = { type: 'execute', id, circuit, shots, engine, observables };
+      getWorker().postMessage(request);
+    });
+  }, [isReady, hardwareInfo, cancelExecution, getWorker]);
+
+  // Get statevector without measurement, for display. It is computed on the
+  // main thread, so registers wider than MAX_DISPLAY_QUBITS get none.
   const getStatevector = useCallback(async (
     circuit: CircuitState
   ): Promise<{ real: number[]; imag: number[] } | null> => {
@@ -561,60 +241,15 @@ export function useQuantumSimulator(): UseQuantumSimulatorReturn {
       setError('Simulator not ready');
       return null;
     }
+    if (circuit.numQubits > CIRCUIT_LIMITS.MAX_DISPLAY_QUBITS) return null;
 
     try {
-      const { numQubits, gates } = circuit;
-      const dim = 1 << numQubits;
-
-      // Initialize |0...0⟩ state
-      const stateReal = new Float32Array(dim);
-      const stateImag = new Float32Array(dim);
-      stateReal[0] = 1;
-
-      // Filter out measurements and sort by column
-      const sortedGates = [...gates]
-        .filter(g => g.gateId !== 'M')
-        .sort((a, b) => a.column - b.column);
-
-      // Apply gates
-      for (const gate of sortedGates) {
-        const { gateId, target, control, controls, angle, angles } = gate;
-
-        if (gateId === 'CNOT') {
-          const ctrlQubit = control ?? target - 1;
-          applyControlledGate(stateReal, stateImag, numQubits, ctrlQubit, target, GATE_MATRICES.X);
-        } else if (gateId === 'CZ') {
-          const ctrlQubit = control ?? target - 1;
-          applyControlledGate(stateReal, stateImag, numQubits, ctrlQubit, target, GATE_MATRICES.Z);
-        } else if (gateId === 'SWAP') {
-          const qubit2 = control ?? target + 1;
-          applySwapGate(stateReal, stateImag, numQubits, target, qubit2);
-        } else if (gateId === 'CCX') {
-          const ctrls = controls ?? [target - 2, target - 1];
-          applyMultiControlledGate(stateReal, stateImag, numQubits, ctrls, target, GATE_MATRICES.X);
-        } else if (gateId === 'CCZ') {
-          const ctrls = controls ?? [target - 2, target - 1];
-          applyMultiControlledGate(stateReal, stateImag, numQubits, ctrls, target, GATE_MATRICES.Z);
-        } else if (gateId === 'CSWAP') {
-          const ctrlQubit = control ?? target - 2;
-          const swap1 = target - 1;
-          const swap2 = target;
-          applyControlledSwapGate(stateReal, stateImag, numQubits, ctrlQubit, swap1, swap2);
-        } else {
-          const matrix = getGateMatrix(gateId, angle, angles);
-          applySingleQubitGate(stateReal, stateImag, numQubits, target, matrix);
-        }
-      }
-
-      return {
-        real: Array.from(stateReal),
-        imag: Array.from(stateImag),
-      };
+      return computeStatevector(circuit);
     } catch (err) {
       setError(`Failed to compute statevector: ${err}`);
       return null;
     }
-  }, [isReady, applySingleQubitGate, applyControlledGate, applySwapGate, applyMultiControlledGate, applyControlledSwapGate]);
+  }, [isReady]);
 
   // Reset results
   const reset = useCallback(() => {
@@ -625,11 +260,13 @@ export function useQuantumSimulator(): UseQuantumSimulatorReturn {
   return {
     isReady,
     isExecuting,
+    progress,
     results,
     error,
     hardwareInfo,
     refreshHardwareInfo,
     executeCircuit,
+    cancelExecution,
     getStatevector,
     reset,
   };
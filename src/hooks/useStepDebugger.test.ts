@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { UI_CONSTANTS } from '../config';
+import { useStepDebugger } from './useStepDebugger';
+
+// Let the playback timer run one tick
+function tick() {
+  act(() => {
+    vi.advanceTimersByTime(UI_CONSTANTS.DEBUGGER_STEP_MS);
+  });
+}
+
+describe('useStepDebugger', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pauses before a breakpoint on column 0', () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useStepDebugger(3));
+    act(() => result.current.toggleBreakpoint(0));
+    act(() => result.current.play());
+
+    expect(result.current.cursor).toBe(-1);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it('pauses at a breakpoint again after stepping away and back', () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useStepDebugger(5));
+    act(() => result.current.toggleBreakpoint(3));
+    act(() => result.current.seek(0));
+    act(() => result.current.play());
+    tick();
+    tick();
+    expect(result.current.cursor).toBe(2);
+    expect(result.current.isPlaying).toBe(false);
+
+    act(() => result.current.stepBack());
+    act(() => result.current.stepForward());
+    expect(result.current.cursor).toBe(2);
+    act(() => result.current.play());
+    expect(result.current.isPlaying).toBe(false);
+    expect(result.current.cursor).toBe(2);
+
+    // Resuming from this pause runs the breakpoint column
+    act(() => result.current.play());
+    tick();
+    expect(result.current.cursor).toBe(3);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * React hook for the step-through debugger: a column cursor that can be
+ * stepped, played and paused, with breakpoints on columns. Playback pauses
+ * before a breakpoint column runs, including column 0 when playing from the
+ * initial state, and playing again from that pause runs the column.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { UI_CONSTANTS } from '../config';
+
+export interface UseStepDebuggerReturn {
+  column: number | null;   // Cursor as set by the user; null follows the end of the circuit
+  cursor: number;          // State shown is after this column (-1 before the first gate)
+  isPlaying: boolean;
+  breakpoints: Set<number>;
+  seek: (column: number | null) => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  play: () => void;
+  pause: () => void;
+  toggleBreakpoint: (column: number) => void;
+  clearBreakpoints: () => void;
+}
+
+export function useStepDebugger(lastColumn: number): UseStepDebuggerReturn {
+  const [column, setColumn] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
+  // Cursor at which a breakpoint last paused playback, so resuming passes it
+  const breakpointPauseRef = useRef<number | null>(null);
+
+  const cursor = column === null ? lastColumn : Math.min(column, lastColumn);
+
+  // Move the cursor; reaching the last column follows the end of the circuit.
+  // A pause left behind no longer applies once the cursor moves
+  const seek = useCallback((next: number | null) => {
+    breakpointPauseRef.current = null;
+    setColumn(next === null || next >= lastColumn ? null : Math.max(next, -1));
+  }, [lastColumn]);
+
+  const stepForward = useCallback(() => seek(cursor + 1), [seek, cursor]);
+  const stepBack = useCallback(() => seek(cursor - 1), [seek, cursor]);
+
+  const play = useCallback(() => {
+    // Playing from the end starts over
+    if (cursor >= lastColumn) {
+      setColumn(-1);
+      breakpointPauseRef.current = null;
+    }
+    setIsPlaying(true);
+  }, [cursor, lastColumn]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const toggleBreakpoint = useCallback((target: number) => {
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(target)) {
+        next.delete(target);
+      } else {
+        next.add(target);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearBreakpoints = useCallback(() => setBreakpoints(new Set()), []);
+
+  // Advance one column per tick; stop at the end, or before running a
+  // breakpoint column unless playback resumes from the pause it caused
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (cursor >= lastColumn) {
+      setIsPlaying(false);
+      return;
+    }
+    if (breakpoints.has(cursor + 1) && breakpointPauseRef.current !== cursor) {
+      breakpointPauseRef.current = cursor;
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => seek(cursor + 1), UI_CONSTANTS.DEBUGGER_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, cursor, lastColumn, breakpoints, seek]);
+
+  return {
+    column,
+    cursor,
+    isPlaying,
+    breakpoints,
+    seek,
+    stepForward,
+    stepBack,
+    play,
+    pause,
+    toggleBreakpoint,
+    clearBreakpoints,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * React hook that runs a variational optimization loop over the circuit's
+ * symbolic parameters, one iteration per macrotask so the UI stays live.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { CircuitState } from '../types/circuit';
+import { EXECUTION_CONSTANTS } from '../config';
+import {
+  createCostEvaluator,
+  nelderMead,
+  spsa,
+  gradientDescent,
+  OptimizerMethod,
+  OptimizerStep,
+  VariationalCost,
+} from '../simulator';
+
+export interface OptimizerRunConfig {
+  cost: VariationalCost;
+  method: OptimizerMethod;
+  maxIterations: number;
+  stepSize: number;
+}
+
+export interface OptimizerBest {
+  values: Record<string, number>;
+  cost: number;
+}
+
+export interface UseVariationalOptimizerReturn {
+  isRunning: boolean;
+  costHistory: number[];
+  best: OptimizerBest | null;
+  error: string | null;
+  start: (circuit: CircuitState, config: OptimizerRunConfig, onFinish: (best: OptimizerBest) => void) => void;
+  stop: () => void;
+}
+
+export function useVariationalOptimizer(): UseVariationalOptimizerReturn {
+  const [isRunning, setIsRunning] = useState(false);
+  const [costHistory, setCostHistory] = useState<number[]>([]);
+  const [best, setBest] = useState<OptimizerBest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped to stop the running loop; a loop only continues while its run id is current
+  const runIdRef = useRef(0);
+  const finishRef = useRef<(() => void) | null>(null);
+
+  const stop = useCallback(() => {
+    runIdRef.current++;
+    finishRef.current?.();
+    finishRef.current = null;
+    setIsRunning(false);
+  }, []);
+
+  // Stop the loop when the component unmounts
+  useEffect(() => () => {
+    runIdRef.current++;
+  }, []);
+
+  const start = useCallback((
+    circuit: CircuitState,
+    config: OptimizerRunConfig,
+    onFinish: (best: OptimizerBest) => void
+  ) => {
+    stop();
+    setError(null);
+    setCostHistory([]);
+    setBest(null);
+
+    let evaluator;
+    try {
+      evaluator = createCostEvaluator(circuit, config.cost);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const { names, cost, gradient } = evaluator;
+    const x0 = names.map(name => circuit.parameters?.[name] ?? 0);
+    const options = { maxIterations: config.maxIterations, stepSize: config.stepSize };
+    const steps: Generator<OptimizerStep> =
+      config.method === 'nelderMead' ? nelderMead(cost, x0, options)
+      : config.method === 'spsa' ? spsa(cost, x0, options)
+      : gradientDescent(cost, gradient, x0, options);
+
+    // Track the best point seen (SPSA is not monotone)
+    const toValues = (x: number[]) => Object.fromEntries(names.map((name, i) => [name, x[i]]));
+    let bestSoFar: OptimizerBest = { values: toValues(x0), cost: cost(x0) };
+    setCostHistory([bestSoFar.cost]);
+    setBest(bestSoFar);
+
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+
+    // Write the best point back once, whether the run completes or is stopped
+    finishRef.current = () => onFinish(bestSoFar);
+
+    const iterate = () => {
+      if (runIdRef.current !== runId) return;
+      try {
+        const next = steps.next();
+        if (next.done) {
+          finishRef.current?.();
+          finishRef.current = null;
+          setIsRunning(false);
+          return;
+        }
+        const { x, cost: value } = next.value;
+        if (value < bestSoFar.cost) {
+          bestSoFar = { values: toValues(x), cost: value };
+          setBest(bestSoFar);
+        }
+        setCostHistory(prev => [...prev, value]);
+        setTimeout(iterate, EXECUTION_CONSTANTS.CHUNK_DELAY_MS);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        finishRef.current = null;
+        setIsRunning(false);
+      }
+    };
+    setTimeout(iterate, EXECUTION_CONSTANTS.CHUNK_DELAY_MS);
+  }, [stop]);
+
+  return {
+    isRunning,
+    costHistory,
+    best,
+    error,
+    start,
+    stop,
+  };
+}
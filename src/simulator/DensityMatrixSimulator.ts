@@ -0,0 +1,498 @@
+/**
+ * Density-matrix simulator. Evolves ρ exactly, so noise channels and
+ * mid-circuit measurements are applied as channels rather than sampled.
+ */
+
+import { CircuitState, Complex, DensityMatrixData, GateInstance, NoiseModel } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import {
+  getImplicitMeasurements,
+  getMeasurementClbit,
+  getNumClbits,
+  isConditionMet,
+} from '../utils/classicalBits';
+import { getGateMatrix } from './gateMatrices';
+import {
+  applyReadoutErrorToProbabilities,
+  getGateNoiseChannels,
+  getNoiseKrausOperators,
+} from './noise';
+import { sortGatesByColumn } from './StatevectorSimulator';
+
+// Unnormalized state of one classical branch; its trace is the branch probability
+interface Branch {
+  real: Float64Array;
+  imag: Float64Array;
+}
+
+function conjugate(matrix: Complex[][]): Complex[][] {
+  return matrix.map(row => row.map(({ re, im }) => ({ re, im: -im })));
+}
+
+// Bits of a register value, clbit 0 first
+function registerBits(value: number, numClbits: number): number[] {
+  return Array.from({ length: numClbits }, (_, clbit) => (value >> clbit) & 1);
+}
+
+/**
+ * Indices of measurements whose outcome must be tracked during evolution:
+ * those followed by a gate on the measured qubit or by a condition reading
+ * the written bit. Any other measurement can be read off the final state.
+ */
+function findBranchingMeasurements(sortedGates: GateInstance[]): Set<number> {
+  const branching = new Set<number>();
+  sortedGates.forEach((gate, index) => {
+    if (gate.gateId !== 'M') return;
+    const clbit = getMeasurementClbit(gate);
+    const later = sortedGates.slice(index + 1);
+    const isRead = later.some(next => {
+      if (next.condition?.clbits.includes(clbit)) return true;
+      if (next.gateId === 'M') return false;
+      const { controls, targets } = getGateOperands(next);
+      return [...controls, ...targets].includes(gate.target);
+    });
+    if (isRead) branching.add(index);
+  });
+  return branching;
+}
+
+export class DensityMatrixSimulator {
+  readonly numQubits: number;
+  readonly dim: number;
+  private real: Float64Array;
+  private imag: Float64Array;
+
+  constructor(numQubits: number) {
+    this.numQubits = numQubits;
+    this.dim = 1 << numQubits;
+    this.real = new Float64Array(this.dim * this.dim);
+    this.imag = new Float64Array(this.dim * this.dim);
+    this.reset();
+  }
+
+  /**
+   * Reset to the pure state |0...0⟩⟨0...0|.
+   */
+  reset(): void {
+    this.real.fill(0);
+    this.imag.fill(0);
+    this.real[0] = 1;
+  }
+
+  /**
+   * Apply a circuit gate. Measurement gates act as non-selective measurements.
+   */
+  applyGate(gate: GateInstance): void {
+    const { gateId, angle, angles } = gate;
+    const { controls, targets } = getGateOperands(gate);
+
+    if (gateId === 'M') {
+      this.measureNonSelective(gate.target);
+    } else if (gate.matrix) {
+      this.applyUnitary(gate.matrix, targets, controls, gate.openControls);
+    } else if (gateId === 'SWAP' || gateId === 'CSWAP') {
+      this.applySwap(targets[0], targets[1], controls, gate.openControls);
+    } else {
+      this.applyMatrix(getGateMatrix(gateId, angle, angles), targets[0], controls, gate.openControls);
+    }
+  }
+
+  /**
+   * Apply a controlled single-qubit unitary: ρ → U ρ U†.
+   */
+  applyMatrix(matrix: Complex[][], target: number, controls: number[] = [], openControls: number[] = []): void {
+    this.multiplyRows(this.real, this.imag, matrix, target, controls, openControls);
+    // ρ U† acts on the column index with the conjugated matrix
+    this.multiplyColumns(this.real, this.imag, conjugate(matrix), target, controls, openControls);
+  }
+
+  /**
+   * Apply a (controlled) k-qubit unitary: ρ → U ρ U†, qubits[j] being bit j
+   * of the matrix index.
+   */
+  applyUnitary(matrix: Complex[][], qubits: number[], controls: number[] = [], openControls: number[] = []): void {
+    this.multiplyBlocks(matrix, qubits, controls, openControls, 'rows');
+    this.multiplyBlocks(conjugate(matrix), qubits, controls, openControls, 'columns');
+  }
+
+  /**
+   * Apply a (controlled) SWAP: ρ → P ρ P for the swap permutation P.
+   */
+  applySwap(qubit1: number, qubit2: number, controls: number[] = [], openControls: number[] = []): void {
+    const { real, imag, dim } = this;
+    const controlMask = controls.reduce((m, c) => m | (1 << c), 0);
+    // Bits the controls must hold: 1, or 0 for open controls
+    const controlValue = controlMask & ~openControls.reduce((m, c) => m | (1 << c), 0);
+    const mask1 = 1 << qubit1;
+    const mask2 = 1 << qubit2;
+
+    const permute = (i: number): number => {
+      if ((i & controlMask) !== controlValue) return i;
+      const bit1 = (i & mask1) !== 0;
+      const bit2 = (i & mask2) !== 0;
+      return bit1 === bit2 ? i : i ^ mask1 ^ mask2;
+    };
+
+    const newReal = new Float64Array(real.length);
+    const newImag = new Float64Array(imag.length);
+    for (let r = 0; r < dim; r++) {
+      const pr = permute(r);
+      for (let c = 0; c < dim; c++) {
+        const idx = pr * dim + permute(c);
+        newReal[idx] = real[r * dim + c];
+        newImag[idx] = imag[r * dim + c];
+      }
+    }
+    this.real = newReal;
+    this.imag = newImag;
+  }
+
+  /**
+   * Apply a single-qubit channel given by its Kraus operators: ρ → Σ K ρ K†.
+   */
+  applyKrausChannel(operators: Complex[][][], qubit: number): void {
+    const resultReal = new Float64Array(this.real.length);
+    const resultImag = new Float64Array(this.imag.length);
+
+    for (const kraus of operators) {
+      const real = Float64Array.from(this.real);
+      const imag = Float64Array.from(this.imag);
+      this.multiplyRows(real, imag, kraus, qubit, [], []);
+      this.multiplyColumns(real, imag, conjugate(kraus), qubit, [], []);
+      for (let i = 0; i < real.length; i++) {
+        resultReal[i] += real[i];
+        resultImag[i] += imag[i];
+      }
+    }
+
+    this.real = resultReal;
+    this.imag = resultImag;
+  }
+
+  /**
+   * Measure a qubit without recording the outcome: coherences between
+   * |0⟩ and |1⟩ on that qubit are removed.
+   */
+  measureNonSelective(qubit: number): void {
+    const { real, imag, dim } = this;
+    const mask = 1 << qubit;
+    for (let r = 0; r < dim; r++) {
+      for (let c = 0; c < dim; c++) {
+        if (((r ^ c) & mask) !== 0) {
+          real[r * dim + c] = 0;
+          imag[r * dim + c] = 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Basis-state probabilities (the diagonal of ρ).
+   */
+  getProbabilities(): number[] {
+    const probabilities = new Array<number>(this.dim);
+    for (let i = 0; i < this.dim; i++) {
+      probabilities[i] = Math.max(0, this.real[i * this.dim + i]);
+    }
+    return probabilities;
+  }
+
+  /**
+   * Copy of the current density matrix.
+   */
+  getDensityMatrix(): DensityMatrixData {
+    return {
+      numQubits: this.numQubits,
+      real: Float64Array.from(this.real),
+      imag: Float64Array.from(this.imag),
+    };
+  }
+
+  /**
+   * The current density matrix itself rather than a copy, for handing a
+   * run's result over (its buffers can be transferred out of a worker). The
+   * simulator must not be used afterwards.
+   */
+  takeDensityMatrix(): DensityMatrixData {
+    return { numQubits: this.numQubits, real: this.real, imag: this.imag };
+  }
+
+  /**
+   * Evolve a circuit from |0...0⟩, applying the noise model's gate channels
+   * exactly after every gate, and return the probability of each value of
+   * the classical register (readout error included).
+   *
+   * The state is kept as one unnormalized ρ per classical register value.
+   * Measurements whose result feeds a later condition or precedes further
+   * gates on their qubit split each branch by outcome; the others act
+   * non-selectively and are read from the final diagonal. Afterwards the
+   * simulator holds the sum of all branches.
+   */
+  run(circuit: CircuitState, noiseModel?: NoiseModel): number[] {
+    const numClbits = getNumClbits(circuit);
+    const sortedGates = sortGatesByColumn(circuit.gates);
+    const branching = findBranchingMeasurements(sortedGates);
+
+    // Qubit whose final value each classical bit holds, or null when the bit
+    // was written by a branching measurement and lives in the branch key
+    const sources = new Array<number | null>(numClbits).fill(null);
+
+    this.reset();
+    let branches = new Map<number, Branch>([[0, { real: this.real, imag: this.imag }]]);
+
+    sortedGates.forEach((gate, index) => {
+      const next = new Map<number, Branch>();
+
+      for (const [value, branch] of branches) {
+        this.real = branch.real;
+        this.imag = branch.imag;
+
+        if (gate.condition && !isConditionMet(gate.condition, registerBits(value, numClbits))) {
+          this.addBranch(next, value, branch, 1);
+          continue;
+        }
+
+        const clbit = getMeasurementClbit(gate);
+        if (gate.gateId === 'M' && branching.has(index) && clbit < numClbits) {
+          this.measureBranch(next, value, gate.target, clbit, noiseModel);
+          continue;
+        }
+
+        this.applyGate(gate);
+        if (noiseModel && gate.gateId !== 'M') {
+          this.applyGateNoise(gate, noiseModel);
+        }
+        this.addBranch(next, value, { real: this.real, imag: this.imag }, 1);
+      }
+
+      if (gate.gateId === 'M' && getMeasurementClbit(gate) < numClbits) {
+        sources[getMeasurementClbit(gate)] = branching.has(index) ? null : gate.target;
+      }
+      branches = next;
+    });
+
+    for (const q of getImplicitMeasurements(circuit)) sources[q] = q;
+
+    // Read the remaining bits from each branch's diagonal
+    let probabilities = new Array<number>(1 << numClbits).fill(0);
+    const total: Branch = {
+      real: new Float64Array(this.dim * this.dim),
+      imag: new Float64Array(this.dim * this.dim),
+    };
+    for (const [value, branch] of branches) {
+      for (let i = 0; i < this.dim; i++) {
+        const p = Math.max(0, branch.real[i * this.dim + i]);
+        if (p === 0) continue;
+        const outcome = sources.reduce<number>((v, qubit, bit) => {
+          if (qubit === null) return v;
+          return (i >> qubit) & 1 ? v | (1 << bit) : v & ~(1 << bit);
+        }, value);
+        probabilities[outcome] += p;
+      }
+      for (let i = 0; i < total.real.length; i++) {
+        total.real[i] += branch.real[i];
+        total.imag[i] += branch.imag[i];
+      }
+    }
+
+    if (noiseModel) {
+      const readBits = sources.flatMap((qubit, bit) => (qubit === null ? [] : [bit]));
+      probabilities = applyReadoutErrorToProbabilities(probabilities, readBits, noiseModel);
+    }
+
+    this.real = total.real;
+    this.imag = total.imag;
+    return probabilities;
+  }
+
+  // Apply the noise channels configured for a gate to each of its qubits
+  private applyGateNoise(gate: GateInstance, noiseModel: NoiseModel): void {
+    const channels = getGateNoiseChannels(gate, noiseModel);
+    if (!channels) return;
+
+    const { controls, targets } = getGateOperands(gate);
+    for (const kraus of getNoiseKrausOperators(channels)) {
+      for (const qubit of [...controls, ...targets]) {
+        this.applyKrausChannel(kraus, qubit);
+      }
+    }
+  }
+
+  // Split the current state by the outcome of measuring a qubit, recording
+  // the (possibly misread) result in a classical bit
+  private measureBranch(
+    next: Map<number, Branch>,
+    value: number,
+    qubit: number,
+    clbit: number,
+    noiseModel?: NoiseModel
+  ): void {
+    const { dim } = this;
+    const mask = 1 << qubit;
+    const { flip0to1, flip1to0 } = noiseModel?.readout ?? { flip0to1: 0, flip1to0: 0 };
+
+    for (const outcome of [0, 1]) {
+      // Project onto |outcome⟩ of the qubit: keep entries with that bit in row and column
+      const projected: Branch = {
+        real: new Float64Array(this.real.length),
+        imag: new Float64Array(this.imag.length),
+      };
+      let trace = 0;
+      for (let r = 0; r < dim; r++) {
+        if (((r & mask) !== 0 ? 1 : 0) !== outcome) continue;
+        trace += this.real[r * dim + r];
+        for (let c = 0; c < dim; c++) {
+          if (((c & mask) !== 0 ? 1 : 0) !== outcome) continue;
+          projected.real[r * dim + c] = this.real[r * dim + c];
+          projected.imag[r * dim + c] = this.imag[r * dim + c];
+        }
+      }
+      if (trace < 1e-14) continue;
+
+      const flip = outcome === 0 ? flip0to1 : flip1to0;
+      const correct = outcome ? value | (1 << clbit) : value & ~(1 << clbit);
+      this.addBranch(next, correct, projected, 1 - flip);
+      if (flip > 0) {
+        this.addBranch(next, correct ^ (1 << clbit), projected, flip);
+      }
+    }
+  }
+
+  // Add weight × state to the branch for a register value, merging equal values
+  private addBranch(branches: Map<number, Branch>, value: number, state: Branch, weight: number): void {
+    if (weight === 0) return;
+    const existing = branches.get(value);
+    if (!existing && weight === 1) {
+      branches.set(value, state);
+      return;
+    }
+
+    const target = existing ?? {
+      real: new Float64Array(state.real.length),
+      imag: new Float64Array(state.imag.length),
+    };
+    for (let i = 0; i < state.real.length; i++) {
+      target.real[i] += weight * state.real[i];
+      target.imag[i] += weight * state.imag[i];
+    }
+    branches.set(value, target);
+  }
+
+  // Left-multiply by a (controlled) single-qubit matrix acting on the row index
+  private multiplyRows(
+    real: Float64Array,
+    imag: Float64Array,
+    matrix: Complex[][],
+    target: number,
+    controls: number[],
+    openControls: number[]
+  ): void {
+    const { dim } = this;
+    const controlMask = controls.reduce((m, c) => m | (1 << c), 0);
+    // Bits the controls must hold: 1, or 0 for open controls
+    const controlValue = controlMask & ~openControls.reduce((m, c) => m | (1 << c), 0);
+    const targetMask = 1 << target;
+    const [[m00, m01], [m10, m11]] = matrix;
+
+    for (let r = 0; r < dim; r++) {
+      if ((r & targetMask) !== 0) continue;
+      if ((r & controlMask) !== controlValue) continue;
+
+      const row0 = r * dim;
+      const row1 = (r | targetMask) * dim;
+      for (let c = 0; c < dim; c++) {
+        const r0 = real[row0 + c];
+        const i0 = imag[row0 + c];
+        const r1 = real[row1 + c];
+        const i1 = imag[row1 + c];
+        real[row0 + c] = m00.re * r0 - m00.im * i0 + m01.re * r1 - m01.im * i1;
+        imag[row0 + c] = m00.re * i0 + m00.im * r0 + m01.re * i1 + m01.im * r1;
+        real[row1 + c] = m10.re * r0 - m10.im * i0 + m11.re * r1 - m11.im * i1;
+        imag[row1 + c] = m10.re * i0 + m10.im * r0 + m11.re * i1 + m11.im * r1;
+      }
+    }
+  }
+
+  // Apply a (controlled) k-qubit matrix to the row index of every column, or
+  // to the column index of every row
+  private multiplyBlocks(
+    matrix: Complex[][],
+    qubits: number[],
+    controls: number[],
+    openControls: number[],
+    side: 'rows' | 'columns'
+  ): void {
+    const { real, imag, dim } = this;
+    const size = 1 << qubits.length;
+    const controlMask = controls.reduce((m, c) => m | (1 << c), 0);
+    const controlValue = controlMask & ~openControls.reduce((m, c) => m | (1 << c), 0);
+    const qubitMask = qubits.reduce((m, q) => m | (1 << q), 0);
+    const offsets = Array.from({ length: size }, (_, j) =>
+      qubits.reduce((offset, q, bit) => offset | (((j >> bit) & 1) << q), 0)
+    );
+    const index = side === 'rows'
+      ? (i: number, other: number) => i * dim + other
+      : (i: number, other: number) => other * dim + i;
+    const inReal = new Float64Array(size);
+    const inImag = new Float64Array(size);
+
+    for (let i = 0; i < dim; i++) {
+      if ((i & qubitMask) !== 0) continue;
+      if ((i & controlMask) !== controlValue) continue;
+
+      for (let other = 0; other < dim; other++) {
+        for (let j = 0; j < size; j++) {
+          inReal[j] = real[index(i | offsets[j], other)];
+          inImag[j] = imag[index(i | offsets[j], other)];
+        }
+        for (let r = 0; r < size; r++) {
+          const row = matrix[r];
+          let re = 0;
+          let im = 0;
+          for (let c = 0; c < size; c++) {
+            re += row[c].re * inReal[c] - row[c].im * inImag[c];
+            im += row[c].re * inImag[c] + row[c].im * inReal[c];
+          }
+          real[index(i | offsets[r], other)] = re;
+          imag[index(i | offsets[r], other)] = im;
+        }
+      }
+    }
+  }
+
+  // Apply a (controlled) single-qubit matrix to the column index of every row
+  private multiplyColumns(
+    real: Float64Array,
+    imag: Float64Array,
+    matrix: Complex[][],
+    target: number,
+    controls: number[],
+    openControls: number[]
+  ): void {
+    const { dim } = this;
+    const controlMask = controls.reduce((m, c) => m | (1 << c), 0);
+    // Bits the controls must hold: 1, or 0 for open controls
+    const controlValue = controlMask & ~openControls.reduce((m, c) => m | (1 << c), 0);
+    const targetMask = 1 << target;
+    const [[m00, m01], [m10, m11]] = matrix;
+
+    for (let r = 0; r < dim; r++) {
+      const row = r * dim;
+      for (let c = 0; c < dim; c++) {
+        if ((c & targetMask) !== 0) continue;
+        if ((c & controlMask) !== controlValue) continue;
+
+        const idx0 = row + c;
+        const idx1 = row + (c | targetMask);
+        const r0 = real[idx0];
+        const i0 = imag[idx0];
+        const r1 = real[idx1];
+        const i1 = imag[idx1];
+        real[idx0] = m00.re * r0 - m00.im * i0 + m01.re * r1 - m01.im * i1;
+        imag[idx0] = m00.re * i0 + m00.im * r0 + m01.re * i1 + m01.im * r1;
+        real[idx1] = m10.re * r0 - m10.im * i0 + m11.re * r1 - m11.im * i1;
+        imag[idx1] = m10.re * i0 + m10.im * r0 + m11.re * i1 + m11.im * r1;
+      }
+    }
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Stabilizer (CHP) simulator after Aaronson and Gottesman. A state reached
+ * from |0...0⟩ by Clifford gates is stored as the tableau of its n
+ * stabilizer and n destabilizer generators, so gates cost O(n) and
+ * measurements O(n²) and circuits of hundreds of qubits stay cheap.
+ */
+
+import { CircuitState, GateInstance } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import {
+  getImplicitMeasurements,
+  getMeasurementClbit,
+  getNumClbits,
+  isConditionMet,
+} from '../utils/classicalBits';
+import { expandRepeaters, getExpandedColumn } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { sortGatesByColumn, RandomSource } from './StatevectorSimulator';
+import { formatBitstring } from './sampling';
+import type { BlochVector } from './quantumInfo';
+
+// Gates the tableau can apply; X and Z also with one closed control (CNOT, CZ)
+export const STABILIZER_GATES = new Set(['I', 'H', 'S', 'Sdg', 'X', 'Y', 'Z', 'CNOT', 'CZ', 'SWAP', 'M']);
+
+/**
+ * Whether the stabilizer simulator can apply a gate.
+ */
+export function isStabilizerGate(gate: GateInstance): boolean {
+  if (!STABILIZER_GATES.has(gate.gateId) || gate.matrix || gate.openControls?.length) return false;
+  const { controls } = getGateOperands(gate);
+  switch (gate.gateId) {
+    case 'CNOT':
+    case 'CZ':
+      return true;
+    case 'X':
+    case 'Z':
+      return controls.length <= 1;
+    default:
+      return controls.length === 0;
+  }
+}
+
+/**
+ * Whether every gate of a circuit, including those inside composite gates,
+ * is one the stabilizer simulator can apply.
+ */
+export function isStabilizerCircuit(circuit: CircuitState): boolean {
+  return expandComposites(circuit).gates.every(isStabilizerGate);
+}
+
+// Number of set bits in a 32-bit word
+function popcount(word: number): number {
+  word -= (word >>> 1) & 0x55555555;
+  word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+  return (((word + (word >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+}
+
+export class StabilizerSimulator {
+  readonly numQubits: number;
+  readonly random: RandomSource;
+  // Rows 0..n-1 are the destabilizers, n..2n-1 the stabilizers and 2n a
+  // scratch row. Each row holds its X and Z bits packed into 32-bit words
+  // (qubit q in word q >> 5) and its sign in r (1 for -1).
+  private readonly words: number;
+  private x: Uint32Array;
+  private z: Uint32Array;
+  private r: Uint8Array;
+
+  constructor(numQubits: number, random: RandomSource = Math.random) {
+    this.numQubits = numQubits;
+    this.random = random;
+    this.words = (numQubits + 31) >>> 5;
+    const rows = 2 * numQubits + 1;
+    this.x = new Uint32Array(rows * this.words);
+    this.z = new Uint32Array(rows * this.words);
+    this.r = new Uint8Array(rows);
+    this.reset();
+  }
+
+  /**
+   * Reset the register to |0...0⟩: destabilizers X_i, stabilizers Z_i.
+   */
+  reset(): void {
+    const { numQubits: n, words } = this;
+    this.x.fill(0);
+    this.z.fill(0);
+    this.r.fill(0);
+    for (let q = 0; q < n; q++) {
+      const word = q >>> 5;
+      const bit = 1 << (q & 31);
+      this.x[q * words + word] = bit;
+      this.z[(n + q) * words + word] = bit;
+    }
+  }
+
+  /**
+   * Apply a circuit gate. Measurement gates collapse the state and return
+   * the measured bit; unitary gates return null. Throws on gates outside
+   * the Clifford set (see isStabilizerGate).
+   */
+  applyGate(gate: GateInstance): number | null {
+    if (!isStabilizerGate(gate)) {
+      throw new Error(`${gate.gateId} gates cannot be simulated by the stabilizer backend`);
+    }
+    const { controls, targets } = getGateOperands(gate);
+    const target = targets[0];
+
+    switch (gate.gateId) {
+      case 'M':
+        return this.measure(gate.target);
+      case 'I':
+        break;
+      case 'H':
+        this.applyH(target);
+        break;
+      case 'S':
+        this.applyS(target);
+        break;
+      case 'Sdg':
+        this.applySdg(target);
+        break;
+      case 'X':
+      case 'CNOT':
+        if (controls.length > 0) this.applyCnot(controls[0], target);
+        else this.applyX(target);
+        break;
+      case 'Y':
+        this.applyY(target);
+        break;
+      case 'Z':
+      case 'CZ':
+        if (controls.length > 0) this.applyCz(controls[0], target);
+        else this.applyZ(target);
+        break;
+      case 'SWAP':
+        this.applySwap(targets[0], targets[1]);
+        break;
+    }
+    return null;
+  }
+
+  // Update every generator for a gate on one qubit: f receives its X and Z
+  // bits and returns the new bits and whether the sign flips, as 0b(flip)(z)(x)
+  private mapQubit(qubit: number, f: (x: number, z: number) => number): void {
+    const { x, z, r, words } = this;
+    const word = qubit >>> 5;
+    const shift = qubit & 31;
+    const bit = 1 << shift;
+    for (let row = 0; row < 2 * this.numQubits; row++) {
+      const i = row * words + word;
+      const result = f((x[i] >>> shift) & 1, (z[i] >>> shift) & 1);
+      x[i] = result & 1 ? x[i] | bit : x[i] & ~bit;
+      z[i] = result & 2 ? z[i] | bit : z[i] & ~bit;
+      r[row] ^= result >> 2;
+    }
+  }
+
+  applyH(qubit: number): void {
+    // X ↔ Z, Y → -Y
+    this.mapQubit(qubit, (xb, zb) => zb | (xb << 1) | ((xb & zb) << 2));
+  }
+
+  applyS(qubit: number): void {
+    // X → Y, Y → -X
+    this.mapQubit(qubit, (xb, zb) => xb | ((zb ^ xb) << 1) | ((xb & zb) << 2));
+  }
+
+  applySdg(qubit: number): void {
+    // X → -Y, Y → X
+    this.mapQubit(qubit, (xb, zb) => xb | ((zb ^ xb) << 1) | ((xb & (zb ^ 1)) << 2));
+  }
+
+  applyX(qubit: number): void {
+    this.mapQubit(qubit, (xb, zb) => xb | (zb << 1) | (zb << 2));
+  }
+
+  applyY(qubit: number): void {
+    this.mapQubit(qubit, (xb, zb) => xb | (zb << 1) | ((xb ^ zb) << 2));
+  }
+
+  applyZ(qubit: number): void {
+    this.mapQubit(qubit, (xb, zb) => xb | (zb << 1) | (xb << 2));
+  }
+
+  applyCnot(control: number, target: number): void {
+    const { x, z, r, words } = this;
+    const cw = control >>> 5, cs = control & 31;
+    const tw = target >>> 5, ts = target & 31;
+    for (let row = 0; row < 2 * this.numQubits; row++) {
+      const base = row * words;
+      const xc = (x[base + cw] >>> cs) & 1;
+      const zc = (z[base + cw] >>> cs) & 1;
+      const xt = (x[base + tw] >>> ts) & 1;
+      const zt = (z[base + tw] >>> ts) & 1;
+      r[row] ^= xc & zt & (xt ^ zc ^ 1);
+      x[base + tw] ^= xc << ts;
+      z[base + cw] ^= zt << cs;
+    }
+  }
+
+  applyCz(qubit1: number, qubit2: number): void {
+    const { x, z, r, words } = this;
+    const aw = qubit1 >>> 5, as = qubit1 & 31;
+    const bw = qubit2 >>> 5, bs = qubit2 & 31;
+    for (let row = 0; row < 2 * this.numQubits; row++) {
+      const base = row * words;
+      const xa = (x[base + aw] >>> as) & 1;
+      const za = (z[base + aw] >>> as) & 1;
+      const xb = (x[base + bw] >>> bs) & 1;
+      const zb = (z[base + bw] >>> bs) & 1;
+      r[row] ^= xa & xb & (za ^ zb);
+      z[base + aw] ^= xb << as;
+      z[base + bw] ^= xa << bs;
+    }
+  }
+
+  applySwap(qubit1: number, qubit2: number): void {
+    const { x, z, words } = this;
+    const aw = qubit1 >>> 5, as = qubit1 & 31;
+    const bw = qubit2 >>> 5, bs = qubit2 & 31;
+    for (let row = 0; row < 2 * this.numQubits; row++) {
+      const base = row * words;
+      for (const bits of [x, z]) {
+        const a = (bits[base + aw] >>> as) & 1;
+        const b = (bits[base + bw] >>> bs) & 1;
+        if (a !== b) {
+          bits[base + aw] ^= 1 << as;
+          bits[base + bw] ^= 1 << bs;
+        }
+      }
+    }
+  }
+
+  // Replace row h by the product of rows i and h, tracking the sign: the
+  // power of i from each qubit's Pauli product is +1 or -1 on the bits
+  // counted in plus and minus
+  private rowsum(h: number, i: number): void {
+    const { x, z, r, words } = this;
+    let phase = 2 * (r[h] + r[i]);
+    for (let w = 0; w < words; w++) {
+      const x1 = x[i * words + w], z1 = z[i * words + w];
+      const x2 = x[h * words + w], z2 = z[h * words + w];
+      const plus = (x1 & z1 & z2 & ~x2) | (x1 & ~z1 & z2 & x2) | (~x1 & z1 & x2 & ~z2);
+      const minus = (x1 & z1 & x2 & ~z2) | (x1 & ~z1 & z2 & ~x2) | (~x1 & z1 & x2 & z2);
+      phase += popcount(plus) - popcount(minus);
+      x[h * words + w] = x2 ^ x1;
+      z[h * words + w] = z2 ^ z1;
+    }
+    r[h] = (phase & 3) === 0 ? 0 : 1;
+  }
+
+  private hasX(row: number, qubit: number): boolean {
+    return ((this.x[row * this.words + (qubit >>> 5)] >>> (qubit & 31)) & 1) === 1;
+  }
+
+  // First stabilizer anticommuting with Z on a qubit, or -1 when Z commutes
+  // with every stabilizer and the outcome is determined
+  private findAnticommuting(qubit: number): number {
+    const n = this.numQubits;
+    for (let p = n; p < 2 * n; p++) {
+      if (this.hasX(p, qubit)) return p;
+    }
+    return -1;
+  }
+
+  // Outcome of a determined Z measurement, built up in the scratch row
+  private determinedOutcome(qubit: number): number {
+    const { numQubits: n, words } = this;
+    const scratch = 2 * n;
+    this.x.fill(0, scratch * words, (scratch + 1) * words);
+    this.z.fill(0, scratch * words, (scratch + 1) * words);
+    this.r[scratch] = 0;
+    for (let i = 0; i < n; i++) {
+      if (this.hasX(i, qubit)) this.rowsum(scratch, i + n);
+    }
+    return this.r[scratch];
+  }
+
+  /**
+   * Measure a qubit in the Z basis, collapsing the state.
+   */
+  measure(qubit: number): number {
+    const { numQubits: n, words, x, z, r } = this;
+    const p = this.findAnticommuting(qubit);
+    if (p < 0) return this.determinedOutcome(qubit);
+
+    // Random outcome: stabilizer p becomes ±Z_qubit and moves to the destabilizers
+    for (let i = 0; i < 2 * n; i++) {
+      if (i !== p && this.hasX(i, qubit)) this.rowsum(i, p);
+    }
+    const outcome = this.random() < 0.5 ? 0 : 1;
+    const d = p - n;
+    x.copyWithin(d * words, p * words, (p + 1) * words);
+    z.copyWithin(d * words, p * words, (p + 1) * words);
+    r[d] = r[p];
+    x.fill(0, p * words, (p + 1) * words);
+    z.fill(0, p * words, (p + 1) * words);
+    z[p * words + (qubit >>> 5)] = 1 << (qubit & 31);
+    r[p] = outcome;
+    return outcome;
+  }
+
+  // ⟨Z⟩ of a qubit without disturbing the state
+  private expectationZ(qubit: number): number {
+    return this.findAnticommuting(qubit) < 0 ? 1 - 2 * this.determinedOutcome(qubit) : 0;
+  }
+
+  /**
+   * Bloch vector of a qubit's reduced state. Each component is ±1 when the
+   * Pauli is (up to sign) in the stabilizer group and 0 otherwise, so the
+   * vector is a unit axis or, for an entangled qubit, zero.
+   */
+  blochVector(qubit: number): BlochVector {
+    const z = this.expectationZ(qubit);
+    // ⟨X⟩ = ⟨Z⟩ after H, and ⟨Y⟩ = ⟨Z⟩ after S† then H
+    this.applyH(qubit);
+    const x = this.expectationZ(qubit);
+    this.applyH(qubit);
+    this.applySdg(qubit);
+    this.applyH(qubit);
+    const y = this.expectationZ(qubit);
+    this.applyH(qubit);
+    this.applyS(qubit);
+    return { x, y, z };
+  }
+
+  // Copy of the simulator with its own tableau
+  private clone(): StabilizerSimulator {
+    const copy = new StabilizerSimulator(this.numQubits, this.random);
+    copy.x.set(this.x);
+    copy.z.set(this.z);
+    copy.r.set(this.r);
+    return copy;
+  }
+
+  /**
+   * Sampler of Z-basis readouts of every qubit (bit q for qubit q), leaving
+   * the state untouched. The readout of a stabilizer state is uniform over
+   * an affine space: one reference outcome XOR any combination of the
+   * stabilizers' X parts, so each sample costs O(n²/32) rather than the
+   * O(n³) of measuring qubit by qubit.
+   */
+  createSampler(): () => Uint8Array {
+    const { numQubits: n, words } = this;
+    const reference = this.clone();
+    const outcome = Uint8Array.from({ length: n }, (_, q) => reference.measure(q));
+    const stabilizerX = this.x.slice(n * words, 2 * n * words);
+
+    return () => {
+      const flips = new Uint32Array(words);
+      for (let row = 0; row < n; row++) {
+        if (this.random() < 0.5) {
+          for (let w = 0; w < words; w++) flips[w] ^= stabilizerX[row * words + w];
+        }
+      }
+      return outcome.map((bit, q) => bit ^ ((flips[q >>> 5] >>> (q & 31)) & 1));
+    };
+  }
+
+  /**
+   * Apply every unitary gate of a circuit from |0...0⟩, skipping measurements
+   * and classically conditioned gates.
+   */
+  runUnitary(circuit: CircuitState): void {
+    this.reset();
+    for (const gate of sortGatesByColumn(circuit.gates)) {
+      if (gate.gateId !== 'M' && !gate.condition) {
+        this.applyGate(gate);
+      }
+    }
+  }
+
+  /**
+   * Run one shot of a circuit from |0...0⟩. Measurements collapse the state
+   * and write their classical bit, gates with a classical condition run only
+   * when it holds, and qubits never measured are read out at the end.
+   * Returns the little-endian bitstring of the classical register.
+   */
+  runShot(
+    circuit: CircuitState,
+    sortedGates = sortGatesByColumn(circuit.gates),
+    implicitMeasurements = getImplicitMeasurements(circuit)
+  ): string {
+    const clbits = new Array<number>(getNumClbits(circuit)).fill(0);
+
+    this.reset();
+
+    for (const gate of sortedGates) {
+      if (gate.condition && !isConditionMet(gate.condition, clbits)) continue;
+
+      const result = this.applyGate(gate);
+      const clbit = getMeasurementClbit(gate);
+      if (result !== null && clbit < clbits.length) clbits[clbit] = result;
+    }
+
+    // Final measurement for unmeasured qubits
+    for (const q of implicitMeasurements) {
+      clbits[q] = this.measure(q);
+    }
+
+    return formatBitstring(clbits);
+  }
+}
+
+/**
+ * Bloch vector of every qubit of a Clifford circuit from the stabilizer
+ * tableau, skipping measurements and classically conditioned gates. With
+ * `throughColumn`, only the gates up to and including that editor column
+ * are applied.
+ */
+export function computeStabilizerBlochVectors(circuit: CircuitState, throughColumn?: number): BlochVector[] {
+  const expanded = expandRepeaters(expandComposites(circuit));
+  const lastColumn = throughColumn === undefined ? Infinity : getExpandedColumn(circuit, throughColumn);
+  const simulator = new StabilizerSimulator(circuit.numQubits);
+  for (const gate of sortGatesByColumn(expanded.gates)) {
+    if (gate.column <= lastColumn && gate.gateId !== 'M' && !gate.condition) {
+      simulator.applyGate(gate);
+    }
+  }
+  return Array.from({ length: circuit.numQubits }, (_, q) => simulator.blochVector(q));
+}
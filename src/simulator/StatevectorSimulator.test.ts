@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitState, GateInstance } from '../types/circuit';
+import { StatevectorSimulator, computeStatevector, RandomSource } from './StatevectorSimulator';
+import { CIRCUIT_LIMITS } from '../config';
+import { executeShots } from './execution';
+
+// Deterministic random source (linear congruential generator)
+function seededRandom(seed: number): RandomSource {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+let nextId = 0;
+function gate(gateId: string, target: number, column: number, extra: Partial<GateInstance> = {}): GateInstance {
+  return { id: `g${nextId++}`, gateId, target, column, ...extra };
+}
+
+function circuit(numQubits: number, gates: GateInstance[]): CircuitState {
+  return { name: 'test', numQubits, gates };
+}
+
+// Amplitudes of a statevector as { re, im } pairs
+function amplitudes(state: { real: number[]; imag: number[] }) {
+  return state.real.map((re, i) => ({ re, im: state.imag[i] }));
+}
+
+function expectAmplitudes(actual: Array<{ re: number; im: number }>, expected: Array<{ re: number; im: number }>) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((a, i) => {
+    expect(a.re).toBeCloseTo(expected[i].re, 10);
+    expect(a.im).toBeCloseTo(expected[i].im, 10);
+  });
+}
+
+// QFT with qubit 0 as the least significant bit, ending with the qubit reversal
+function qftGates(numQubits: number, column = 0): GateInstance[] {
+  const gates: GateInstance[] = [];
+  let c = column;
+  for (let j = numQubits - 1; j >= 0; j--) {
+    gates.push(gate('H', j, c++));
+    for (let k = j - 1; k >= 0; k--) {
+      gates.push(gate('P', j, c++, { controls: [k], angle: Math.PI / 2 ** (j - k) }));
+    }
+  }
+  for (let q = 0; q < Math.floor(numQubits / 2); q++) {
+    gates.push(gate('SWAP', q, c++, { control: numQubits - 1 - q }));
+  }
+  return gates;
+}
+
+describe('StatevectorSimulator', () => {
+  it('prepares the Bell state (|00⟩ + |11⟩)/√2', () => {
+    const state = computeStatevector(circuit(2, [
+      gate('H', 0, 0),
+      gate('CNOT', 1, 1, { control: 0 }),
+    ]));
+    const r = Math.SQRT1_2;
+    expectAmplitudes(amplitudes(state), [
+      { re: r, im: 0 }, { re: 0, im: 0 }, { re: 0, im: 0 }, { re: r, im: 0 },
+    ]);
+  });
+
+  it('prepares the 4-qubit GHZ state', () => {
+    const state = computeStatevector(circuit(4, [
+      gate('H', 0, 0),
+      gate('CNOT', 1, 1, { control: 0 }),
+      gate('CNOT', 2, 2, { control: 1 }),
+      gate('CNOT', 3, 3, { control: 2 }),
+    ]));
+    const expected = Array.from({ length: 16 }, (_, i) => ({ re: i === 0 || i === 15 ? Math.SQRT1_2 : 0, im: 0 }));
+    expectAmplitudes(amplitudes(state), expected);
+  });
+
+  it('maps |x⟩ to the Fourier basis state under the 3-qubit QFT', () => {
+    const n = 3;
+    const dim = 1 << n;
+    for (const x of [0, 1, 5]) {
+      const simulator = new StatevectorSimulator(n);
+      simulator.setBasisState(x);
+      for (const g of qftGates(n)) simulator.applyGate(g);
+      const expected = Array.from({ length: dim }, (_, y) => {
+        const phase = (2 * Math.PI * x * y) / dim;
+        return { re: Math.cos(phase) / Math.sqrt(dim), im: Math.sin(phase) / Math.sqrt(dim) };
+      });
+      expectAmplitudes(amplitudes(simulator.getStatevector()), expected);
+    }
+  });
+
+  it('collapses the state on measurement', () => {
+    for (const seed of [1, 2, 3, 4]) {
+      const simulator = new StatevectorSimulator(2, seededRandom(seed));
+      simulator.applyGate(gate('H', 0, 0));
+      simulator.applyGate(gate('CNOT', 1, 1, { control: 0 }));
+
+      const result = simulator.measure(0);
+      const probabilities = simulator.getProbabilities();
+      const survivor = result === 0 ? 0 : 3;
+      probabilities.forEach((p, i) => expect(p).toBeCloseTo(i === survivor ? 1 : 0, 10));
+
+      // The partner qubit is now determined, and measuring again repeats the result
+      expect(simulator.measure(1)).toBe(result);
+      expect(simulator.measure(0)).toBe(result);
+    }
+  });
+
+  it('samples counts that match the expected distribution', () => {
+    // Ry(θ) on q0 gives P(1) = sin²(θ/2); q1 copies it
+    const theta = 2 * Math.asin(Math.sqrt(0.3));
+    const shots = 20000;
+    const results = executeShots(circuit(2, [
+      gate('Ry', 0, 0, { angle: theta }),
+      gate('CNOT', 1, 1, { control: 0 }),
+    ]), shots);
+
+    expect(Object.keys(results.counts).sort()).toEqual(['00', '11']);
+    expect(results.counts['00'] + results.counts['11']).toBe(shots);
+    // Within five standard deviations of the binomial mean
+    const sigma = Math.sqrt(shots * 0.3 * 0.7);
+    expect(Math.abs(results.counts['11'] - 0.3 * shots)).toBeLessThan(5 * sigma);
+  });
+
+  it('samples mid-circuit measurements shot by shot', () => {
+    // Measuring q0 of |+⟩ and copying the bit with a conditioned X
+    const shots = 4000;
+    const results = executeShots(circuit(2, [
+      gate('H', 0, 0),
+      gate('M', 0, 1),
+      gate('X', 1, 2, { condition: { clbits: [0], value: 1 } }),
+    ]), shots);
+
+    expect(Object.keys(results.counts).sort()).toEqual(['00', '11']);
+    const sigma = Math.sqrt(shots * 0.25);
+    expect(Math.abs(results.counts['11'] - shots / 2)).toBeLessThan(5 * sigma);
+  });
+
+  it('samples a register wider than the distribution limit from one statevector pass', () => {
+    const numClbits = CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS + 6;
+    const runShot = vi.spyOn(StatevectorSimulator.prototype, 'runShot');
+    // A non-Clifford Bell pair, so the statevector engine runs it
+    const results = executeShots({
+      ...circuit(2, [
+        gate('H', 0, 0),
+        gate('T', 0, 1),
+        gate('CNOT', 1, 2, { control: 0 }),
+        gate('M', 0, 3, { clbit: numClbits - 3 }),
+        gate('M', 1, 3, { clbit: numClbits - 1 }),
+      ]),
+      numClbits,
+    }, 1000);
+
+    expect(runShot).not.toHaveBeenCalled();
+    runShot.mockRestore();
+    const zeros = '0'.repeat(numClbits);
+    const ones = '0'.repeat(numClbits - 3) + '101';
+    expect(Object.keys(results.counts).sort()).toEqual([zeros, ones]);
+    expect(results.counts[zeros] + results.counts[ones]).toBe(1000);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Pure statevector simulator, independent of React and the DOM so it can
+ * run in hooks, workers and scripts alike.
+ */
+
+import { CircuitState, Complex, GateInstance, NoiseModel } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import {
+  getImplicitMeasurements,
+  getMeasurementClbit,
+  getNumClbits,
+  isConditionMet,
+} from '../utils/classicalBits';
+import { expandRepeaters, getExpandedColumn } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindParameters } from '../utils/parameters';
+import { getGateMatrix } from './gateMatrices';
+import { applyGateNoise, applyReadoutError } from './noise';
+import { formatBitstring, sampleCounts } from './sampling';
+
+export interface Statevector {
+  real: number[];
+  imag: number[];
+}
+
+// Source of uniform random numbers in [0, 1)
+export type RandomSource = () => number;
+
+/**
+ * Sort gates by column. The sort is stable, so gates sharing a column keep
+ * their insertion order.
+ */
+export function sortGatesByColumn(gates: GateInstance[]): GateInstance[] {
+  return [...gates].sort((a, b) => a.column - b.column);
+}
+
+// Basis states are indexed by 32-bit integers
+const MAX_INDEX_QUBITS = 30;
+
+// Bits the controls of a gate must hold (1, or 0 for open controls), as a mask and a value
+function controlCondition(controls: number[], openControls: number[]): { mask: number; value: number } {
+  const mask = controls.reduce((m, c) => m | (1 << c), 0);
+  return { mask, value: mask & ~openControls.reduce((m, c) => m | (1 << c), 0) };
+}
+
+export class StatevectorSimulator {
+  readonly numQubits: number;
+  readonly dim: number;
+  // Amplitudes interleaved as [re0, im0, re1, im1, ...], so kernels work on
+  // one buffer without allocating per amplitude
+  private state: Float64Array;
+  readonly random: RandomSource;
+
+  constructor(numQubits: number, random: RandomSource = Math.random) {
+    if (numQubits > MAX_INDEX_QUBITS) {
+      throw new Error(`A statevector of ${numQubits} qubits is too large; at most ${MAX_INDEX_QUBITS} qubits are supported`);
+    }
+    this.numQubits = numQubits;
+    this.dim = 1 << numQubits;
+    this.state = new Float64Array(2 * this.dim);
+    this.random = random;
+    this.reset();
+  }
+
+  /**
+   * Reset the register to |0...0⟩.
+   */
+  reset(): void {
+    this.setBasisState(0);
+  }
+
+  /**
+   * Set the register to the basis state |index⟩ (qubit 0 is bit 0).
+   */
+  setBasisState(index: number): void {
+    this.state.fill(0);
+    this.state[2 * index] = 1;
+  }
+
+  /**
+   * Load the amplitudes of a state with the register's dimension.
+   */
+  setState(source: Statevector): void {
+    const { state, dim } = this;
+    for (let i = 0; i < dim; i++) {
+      state[2 * i] = source.real[i];
+      state[2 * i + 1] = source.imag[i];
+    }
+  }
+
+  /**
+   * Apply a circuit gate. Measurement gates collapse the state and return
+   * the measured bit; unitary gates return null.
+   */
+  applyGate(gate: GateInstance): number | null {
+    const { gateId, angle, angles } = gate;
+    const { controls, targets } = getGateOperands(gate);
+
+    if (gateId === 'M') {
+      return this.measure(gate.target);
+    }
+
+    if (gate.matrix) {
+      this.applyUnitary(gate.matrix, targets, controls, gate.openControls);
+    } else if (gateId === 'SWAP' || gateId === 'CSWAP') {
+      this.applySwap(targets[0], targets[1], controls, gate.openControls);
+    } else {
+      this.applyMatrix(getGateMatrix(gateId, angle, angles), targets[0], controls, gate.openControls);
+    }
+    return null;
+  }
+
+  /**
+   * Apply a 2x2 matrix to the target qubit, conditioned on every control
+   * qubit being |1⟩ (|0⟩ for open controls).
+   */
+  applyMatrix(matrix: Complex[][], target: number, controls: number[] = [], openControls: number[] = []): void {
+    const { state, dim } = this;
+    const control = controlCondition(controls, openControls);
+    const step = 1 << target;
+
+    const [[m00, m01], [m10, m11]] = matrix;
+    const a = m00.re, b = m00.im, c = m01.re, d = m01.im;
+    const e = m10.re, f = m10.im, g = m11.re, h = m11.im;
+
+    // Each block of 2·step indices holds step pairs differing in the target bit
+    for (let base = 0; base < dim; base += 2 * step) {
+      for (let i = base; i < base + step; i++) {
+        if ((i & control.mask) !== control.value) continue;
+
+        const p = 2 * i;
+        const q = 2 * (i + step);
+        const r0 = state[p];
+        const i0 = state[p + 1];
+        const r1 = state[q];
+        const i1 = state[q + 1];
+
+        state[p] = a * r0 - b * i0 + c * r1 - d * i1;
+        state[p + 1] = a * i0 + b * r0 + c * i1 + d * r1;
+        state[q] = e * r0 - f * i0 + g * r1 - h * i1;
+        state[q + 1] = e * i0 + f * r0 + g * i1 + h * r1;
+      }
+    }
+  }
+
+  /**
+   * Apply a 2^k × 2^k matrix to k qubits, qubits[j] being bit j of the
+   * matrix index, conditioned on the controls as in applyMatrix.
+   */
+  applyUnitary(matrix: Complex[][], qubits: number[], controls: number[] = [], openControls: number[] = []): void {
+    const { state, dim } = this;
+    const size = 1 << qubits.length;
+    const control = controlCondition(controls, openControls);
+    const qubitMask = qubits.reduce((m, q) => m | (1 << q), 0);
+    // Position of each matrix basis state relative to the block's base index
+    const offsets = Array.from({ length: size }, (_, j) =>
+      qubits.reduce((offset, q, bit) => offset | (((j >> bit) & 1) << q), 0)
+    );
+    // The matrix and the block's input amplitudes, interleaved like the state
+    const m = new Float64Array(2 * size * size);
+    matrix.forEach((row, r) => row.forEach((z, col) => {
+      m[2 * (r * size + col)] = z.re;
+      m[2 * (r * size + col) + 1] = z.im;
+    }));
+    const input = new Float64Array(2 * size);
+
+    for (let i = 0; i < dim; i++) {
+      // Process each block once, from the index with all its qubits 0
+      if ((i & qubitMask) !== 0) continue;
+      if ((i & control.mask) !== control.value) continue;
+
+      for (let j = 0; j < size; j++) {
+        input[2 * j] = state[2 * (i | offsets[j])];
+        input[2 * j + 1] = state[2 * (i | offsets[j]) + 1];
+      }
+      for (let r = 0; r < size; r++) {
+        let re = 0;
+        let im = 0;
+        for (let col = 0; col < size; col++) {
+          const k = 2 * (r * size + col);
+          re += m[k] * input[2 * col] - m[k + 1] * input[2 * col + 1];
+          im += m[k] * input[2 * col + 1] + m[k + 1] * input[2 * col];
+        }
+        state[2 * (i | offsets[r])] = re;
+        state[2 * (i | offsets[r]) + 1] = im;
+      }
+    }
+  }
+
+  /**
+   * Swap two qubits, conditioned on every control qubit being |1⟩
+   * (|0⟩ for open controls).
+   */
+  applySwap(qubit1: number, qubit2: number, controls: number[] = [], openControls: number[] = []): void {
+    const { state, dim } = this;
+    const control = controlCondition(controls, openControls);
+    const mask1 = 1 << qubit1;
+    const mask2 = 1 << qubit2;
+
+    for (let i = 0; i < dim; i++) {
+      if ((i & control.mask) !== control.value) continue;
+
+      // Visit each pair once: qubit1 is 0 and qubit2 is 1
+      if ((i & mask1) !== 0 || (i & mask2) === 0) continue;
+
+      const p = 2 * i;
+      const q = 2 * (i ^ mask1 ^ mask2);
+      const tempReal = state[p];
+      const tempImag = state[p + 1];
+      state[p] = state[q];
+      state[p + 1] = state[q + 1];
+      state[q] = tempReal;
+      state[q + 1] = tempImag;
+    }
+  }
+
+  /**
+   * Apply one stochastic trajectory of a single-qubit channel given by its
+   * Kraus operators: pick one operator with its Born probability, apply it
+   * and renormalize.
+   */
+  applyKrausChannel(operators: Complex[][][], qubit: number): void {
+    const { state, dim } = this;
+    const step = 1 << qubit;
+
+    // Probability of each operator, ||K ψ||²
+    const weights = operators.map(([[k00, k01], [k10, k11]]) => {
+      let weight = 0;
+      for (let base = 0; base < dim; base += 2 * step) {
+        for (let i = base; i < base + step; i++) {
+          const p = 2 * i;
+          const q = 2 * (i + step);
+          const v0re = k00.re * state[p] - k00.im * state[p + 1] + k01.re * state[q] - k01.im * state[q + 1];
+          const v0im = k00.re * state[p + 1] + k00.im * state[p] + k01.re * state[q + 1] + k01.im * state[q];
+          const v1re = k10.re * state[p] - k10.im * state[p + 1] + k11.re * state[q] - k11.im * state[q + 1];
+          const v1im = k10.re * state[p + 1] + k10.im * state[p] + k11.re * state[q + 1] + k11.im * state[q];
+          weight += v0re * v0re + v0im * v0im + v1re * v1re + v1im * v1im;
+        }
+      }
+      return weight;
+    });
+
+    let r = this.random() * weights.reduce((a, b) => a + b, 0);
+    let chosen = 0;
+    while (chosen < operators.length - 1 && r >= weights[chosen]) {
+      r -= weights[chosen];
+      chosen++;
+    }
+
+    this.applyMatrix(operators[chosen], qubit);
+    const norm = Math.sqrt(weights[chosen]);
+    if (norm > 0) {
+      for (let k = 0; k < state.length; k++) {
+        state[k] /= norm;
+      }
+    }
+  }
+
+  /**
+   * Probability of measuring |1⟩ on a qubit.
+   */
+  probabilityOfOne(qubit: number): number {
+    const { state, dim } = this;
+    const step = 1 << qubit;
+    let prob1 = 0;
+    for (let base = step; base < dim; base += 2 * step) {
+      for (let k = 2 * base; k < 2 * (base + step); k++) {
+        prob1 += state[k] * state[k];
+      }
+    }
+    return prob1;
+  }
+
+  /**
+   * Measure a qubit in the computational basis and collapse the state.
+   */
+  measure(qubit: number): number {
+    const { state, dim } = this;
+    const mask = 1 << qubit;
+    const prob1 = this.probabilityOfOne(qubit);
+    const result = this.random() < prob1 ? 1 : 0;
+
+    // Collapse wavefunction
+    const norm = Math.sqrt(result === 1 ? prob1 : 1 - prob1);
+    for (let i = 0; i < dim; i++) {
+      const bit = (i & mask) !== 0 ? 1 : 0;
+      if (bit === result) {
+        state[2 * i] /= norm;
+        state[2 * i + 1] /= norm;
+      } else {
+        state[2 * i] = 0;
+        state[2 * i + 1] = 0;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Basis-state probabilities, indexed by basis state (qubit 0 is bit 0).
+   */
+  getProbabilities(): number[] {
+    const { state, dim } = this;
+    const probabilities = new Array<number>(dim);
+    for (let i = 0; i < dim; i++) {
+      probabilities[i] = state[2 * i] * state[2 * i] + state[2 * i + 1] * state[2 * i + 1];
+    }
+    return probabilities;
+  }
+
+  /**
+   * Draw measurement outcomes from the current state without collapsing it.
+   * Returns counts keyed by little-endian bitstring.
+   */
+  sample(shots: number): Record<string, number> {
+    return sampleCounts(this.getProbabilities(), this.numQubits, shots, this.random);
+  }
+
+  /**
+   * Copy of the current amplitudes.
+   */
+  getStatevector(): Statevector {
+    const { state, dim } = this;
+    const real = new Array<number>(dim);
+    const imag = new Array<number>(dim);
+    for (let i = 0; i < dim; i++) {
+      real[i] = state[2 * i];
+      imag[i] = state[2 * i + 1];
+    }
+    return { real, imag };
+  }
+
+  /**
+   * Run one shot of a circuit from |0...0⟩. Measurements collapse the state
+   * and write their classical bit, gates with a classical condition run only
+   * when it holds, and qubits never measured are read out at the end.
+   * With a noise model, one noise trajectory is sampled along the way.
+   * Returns the little-endian bitstring of the classical register.
+   */
+  runShot(
+    circuit: CircuitState,
+    sortedGates = sortGatesByColumn(circuit.gates),
+    noiseModel?: NoiseModel,
+    implicitMeasurements = getImplicitMeasurements(circuit)
+  ): string {
+    const clbits = new Array<number>(getNumClbits(circuit)).fill(0);
+
+    // Record a measured bit, after readout error
+    const record = (clbit: number, result: number) => {
+      if (clbit >= clbits.length) return;
+      clbits[clbit] = noiseModel
+        ? applyReadoutError(result, noiseModel, this.random)
+        : result;
+    };
+
+    this.reset();
+
+    for (const gate of sortedGates) {
+      if (gate.condition && !isConditionMet(gate.condition, clbits)) continue;
+
+      const result = this.applyGate(gate);
+      if (result !== null) {
+        record(getMeasurementClbit(gate), result);
+      } else if (noiseModel) {
+        applyGateNoise(this, gate, noiseModel);
+      }
+    }
+
+    // Final measurement for unmeasured qubits
+    for (const q of implicitMeasurements) {
+      record(q, this.measure(q));
+    }
+
+    return formatBitstring(clbits);
+  }
+
+  /**
+   * Apply every unitary gate of a circuit from |0...0⟩, skipping measurements
+   * and classically conditioned gates.
+   */
+  runUnitary(circuit: CircuitState): void {
+    this.reset();
+    for (const gate of sortGatesByColumn(circuit.gates)) {
+      if (gate.gateId !== 'M' && !gate.condition) {
+        this.applyGate(gate);
+      }
+    }
+  }
+}
+
+/**
+ * Compute the pre-measurement statevector of a circuit, with parameters
+ * bound and repeater blocks unrolled. With `throughColumn`, only the gates
+ * up to and including that editor column are applied.
+ */
+export function computeStatevector(circuit: CircuitState, throughColumn?: number): Statevector {
+  const simulator = new StatevectorSimulator(circuit.numQubits);
+  const expanded = expandRepeaters(bindParameters(expandComposites(circuit)));
+  if (throughColumn === undefined) {
+    simulator.runUnitary(expanded);
+  } else {
+    const lastColumn = getExpandedColumn(circuit, throughColumn);
+    simulator.runUnitary({ ...expanded, gates: expanded.gates.filter(gate => gate.column <= lastColumn) });
+  }
+  return simulator.getStatevector();
+}
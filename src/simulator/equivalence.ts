@@ -0,0 +1,188 @@
+/**
+ * Equivalence checking between two measurement-free circuits, either by
+ * comparing their unitaries or by running both on random input states.
+ */
+
+import { CircuitState } from '../types/circuit';
+import { expandRepeaters } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindParameters } from '../utils/parameters';
+import { StatevectorSimulator, Statevector, RandomSource, sortGatesByColumn } from './StatevectorSimulator';
+import { computeUnitary, getUnitaryBlocker, unitaryOverlap, UNITARY_TOLERANCE } from './unitary';
+
+export type EquivalenceMethod = 'unitary' | 'randomStates';
+
+export interface EquivalenceOptions {
+  method: EquivalenceMethod;
+  samples?: number;       // Random input states to try (randomStates only)
+  random?: RandomSource;
+}
+
+// First input on which the circuits disagree
+export interface EquivalenceDifference {
+  input: string;          // Basis state such as "|01⟩", or "random state #3"
+  fidelity: number;       // |⟨ψ_a|ψ_b⟩|² of the two outputs
+  distance: number;       // ‖ψ_b - e^{iφ}ψ_a‖ after removing the global phase φ
+}
+
+export interface EquivalenceReport {
+  method: EquivalenceMethod;
+  equivalent: boolean;    // Equal up to a global phase, within UNITARY_TOLERANCE
+  fidelity: number;       // |Tr(U†V)|/2^n, or the mean output-state fidelity
+  phase: number;          // Global phase φ with V ≈ e^{iφ}U
+  inputsChecked: number;
+  firstDifference?: EquivalenceDifference;
+}
+
+const DEFAULT_SAMPLES = 20;
+
+/**
+ * Overlap ⟨a|b⟩ of two statevectors.
+ */
+function innerProduct(a: Statevector, b: Statevector): { re: number; im: number } {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < a.real.length; i++) {
+    re += a.real[i] * b.real[i] + a.imag[i] * b.imag[i];
+    im += a.real[i] * b.imag[i] - a.imag[i] * b.real[i];
+  }
+  return { re, im };
+}
+
+/**
+ * ‖b - e^{iφ}a‖ for normalised a and b.
+ */
+function phaseDistance(a: Statevector, b: Statevector, phase: number): number {
+  const cos = Math.cos(phase);
+  const sin = Math.sin(phase);
+  let sum = 0;
+  for (let i = 0; i < a.real.length; i++) {
+    const dr = b.real[i] - (cos * a.real[i] - sin * a.imag[i]);
+    const di = b.imag[i] - (sin * a.real[i] + cos * a.imag[i]);
+    sum += dr * dr + di * di;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Haar-random pure state: normalised complex Gaussian amplitudes.
+ */
+function randomState(dim: number, random: RandomSource): Statevector {
+  const real = new Array<number>(dim);
+  const imag = new Array<number>(dim);
+  let norm = 0;
+  for (let i = 0; i < dim; i++) {
+    // Box–Muller
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const angle = 2 * Math.PI * random();
+    real[i] = radius * Math.cos(angle);
+    imag[i] = radius * Math.sin(angle);
+    norm += real[i] * real[i] + imag[i] * imag[i];
+  }
+  const scale = 1 / Math.sqrt(norm);
+  return { real: real.map(v => v * scale), imag: imag.map(v => v * scale) };
+}
+
+/**
+ * Column j of a row-major unitary, i.e. U|j⟩.
+ */
+function unitaryColumn(matrix: { real: Float64Array; imag: Float64Array }, dim: number, j: number): Statevector {
+  const real = new Array<number>(dim);
+  const imag = new Array<number>(dim);
+  for (let r = 0; r < dim; r++) {
+    real[r] = matrix.real[r * dim + j];
+    imag[r] = matrix.imag[r * dim + j];
+  }
+  return { real, imag };
+}
+
+/**
+ * Check whether circuit `b` implements the same operation as circuit `a` up
+ * to a global phase. Both must be measurement-free and on the same number of
+ * qubits; throws otherwise.
+ */
+export function checkEquivalence(
+  a: CircuitState,
+  b: CircuitState,
+  options: EquivalenceOptions
+): EquivalenceReport {
+  if (a.numQubits !== b.numQubits) {
+    throw new Error(`The circuits act on different numbers of qubits (${a.numQubits} and ${b.numQubits})`);
+  }
+  for (const [label, circuit] of [['current', a], ['other', b]] as const) {
+    const blocker = getUnitaryBlocker(circuit);
+    if (blocker) throw new Error(`The ${label} circuit is not unitary: ${blocker.toLowerCase()}`);
+  }
+
+  const dim = 1 << a.numQubits;
+  const label = (index: number) =>
+    `|${index.toString(2).padStart(a.numQubits, '0').split('').reverse().join('')}⟩`;
+
+  if (options.method === 'unitary') {
+    const u = computeUnitary(a);
+    const v = computeUnitary(b);
+    const { overlap, phase } = unitaryOverlap(u, v);
+
+    // First basis input whose output differs beyond the global phase
+    let firstDifference: EquivalenceDifference | undefined;
+    for (let j = 0; j < dim && !firstDifference; j++) {
+      const ua = unitaryColumn(u, dim, j);
+      const vb = unitaryColumn(v, dim, j);
+      const distance = phaseDistance(ua, vb, phase);
+      if (distance * distance > 2 * UNITARY_TOLERANCE) {
+        const { re, im } = innerProduct(ua, vb);
+        firstDifference = { input: label(j), fidelity: re * re + im * im, distance };
+      }
+    }
+
+    return {
+      method: 'unitary',
+      equivalent: 1 - overlap < UNITARY_TOLERANCE && !firstDifference,
+      fidelity: overlap,
+      phase,
+      inputsChecked: dim,
+      ...(firstDifference && { firstDifference }),
+    };
+  }
+
+  // Random input states: run both circuits on each one
+  const random = options.random ?? Math.random;
+  const samples = options.samples ?? DEFAULT_SAMPLES;
+  const gatesA = sortGatesByColumn(expandRepeaters(bindParameters(expandComposites(a))).gates);
+  const gatesB = sortGatesByColumn(expandRepeaters(bindParameters(expandComposites(b))).gates);
+  const simulator = new StatevectorSimulator(a.numQubits, random);
+
+  const run = (gates: typeof gatesA, input: Statevector): Statevector => {
+    simulator.setState(input);
+    for (const gate of gates) simulator.applyGate(gate);
+    return simulator.getStatevector();
+  };
+
+  let totalFidelity = 0;
+  let phase = 0;
+  let firstDifference: EquivalenceDifference | undefined;
+  for (let k = 0; k < samples; k++) {
+    const input = randomState(dim, random);
+    const outA = run(gatesA, input);
+    const outB = run(gatesB, input);
+    const { re, im } = innerProduct(outA, outB);
+    const fidelity = re * re + im * im;
+    totalFidelity += fidelity;
+
+    // The global phase is fixed by the first input; later ones must agree with it
+    if (k === 0) phase = Math.atan2(im, re);
+    const distance = phaseDistance(outA, outB, phase);
+    if (!firstDifference && distance * distance > 2 * UNITARY_TOLERANCE) {
+      firstDifference = { input: `random state #${k + 1}`, fidelity, distance };
+    }
+  }
+
+  return {
+    method: 'randomStates',
+    equivalent: !firstDifference,
+    fidelity: totalFidelity / samples,
+    phase,
+    inputsChecked: samples,
+    ...(firstDifference && { firstDifference }),
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Multi-shot circuit execution shared by the simulation worker and the
+ * main-thread fallback.
+ */
+
+import {
+  CircuitState,
+  ExecutionResults,
+  ObservableResult,
+  SimulationBackend,
+  SimulationEngine,
+} from '../types/circuit';
+import { CIRCUIT_LIMITS, EXECUTION_CONSTANTS } from '../config';
+import { getGateOperands } from '../utils/gateDefinitions';
+import { getImplicitMeasurements, getMeasurementClbit, getNumClbits } from '../utils/classicalBits';
+import { expandRepeaters } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindParameters } from '../utils/parameters';
+import { StatevectorSimulator, sortGatesByColumn } from './StatevectorSimulator';
+import { DensityMatrixSimulator } from './DensityMatrixSimulator';
+import { StabilizerSimulator, isStabilizerCircuit } from './StabilizerSimulator';
+import { isNoiseActive } from './noise';
+import { formatBitstring, sampleCounts } from './sampling';
+import {
+  parsePauliSum,
+  groupCommutingTerms,
+  getBasisClbits,
+  createBasisRotationCircuit,
+  termShotValue,
+} from './observables';
+
+export interface ExecutionProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Convert shot counts into a probability array indexed by register value.
+ * Registers wider than CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS get an empty
+ * array and keep only their counts.
+ */
+export function countsToProbabilities(
+  counts: Record<string, number>,
+  numBits: number,
+  shots: number
+): number[] {
+  if (numBits > CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS) return [];
+  const probabilities = new Array(1 << numBits).fill(0);
+  for (const [bitstring, count] of Object.entries(counts)) {
+    const idx = parseInt(bitstring.split('').reverse().join(''), 2);
+    probabilities[idx] = count / shots;
+  }
+  return probabilities;
+}
+
+/**
+ * Whether a measurement is followed by a gate acting on the measured qubit.
+ * Circuits without mid-circuit measurements are equivalent to measuring
+ * everything at the end, so they can be sampled from one statevector pass.
+ */
+export function hasMidCircuitMeasurement(circuit: CircuitState): boolean {
+  const measuredQubits = new Set<number>();
+
+  for (const gate of sortGatesByColumn(circuit.gates)) {
+    if (gate.gateId === 'M') {
+      measuredQubits.add(gate.target);
+      continue;
+    }
+    const { controls, targets } = getGateOperands(gate);
+    if ([...controls, ...targets].some(q => measuredQubits.has(q))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether any gate is conditioned on the classical register.
+ */
+export function hasClassicalConditions(circuit: CircuitState): boolean {
+  return circuit.gates.some(gate => gate.condition !== undefined);
+}
+
+// Qubit read into each classical bit (the last measurement writing it
+// wins), or null for bits no measurement writes
+function getClbitSources(circuit: CircuitState): Array<number | null> {
+  const sources = new Array<number | null>(getNumClbits(circuit)).fill(null);
+  for (const gate of sortGatesByColumn(circuit.gates)) {
+    const clbit = getMeasurementClbit(gate);
+    if (gate.gateId === 'M' && clbit < sources.length) sources[clbit] = gate.target;
+  }
+  for (const q of getImplicitMeasurements(circuit)) sources[q] = q;
+  return sources;
+}
+
+/**
+ * Map counts over final qubit values onto the classical register, for
+ * circuits whose measurements all happen at the end. Works shot outcome by
+ * outcome, so the register may be wider than MAX_DISTRIBUTION_CLBITS.
+ */
+function qubitToClbitCounts(circuit: CircuitState, qubitCounts: Record<string, number>): Record<string, number> {
+  const sources = getClbitSources(circuit);
+  const counts: Record<string, number> = {};
+  for (const [qubits, count] of Object.entries(qubitCounts)) {
+    const register = formatBitstring(sources.map(q => (q !== null && qubits[q] === '1' ? 1 : 0)));
+    counts[register] = (counts[register] || 0) + count;
+  }
+  return counts;
+}
+
+/**
+ * Backend a run uses: the stabilizer simulator for noiseless circuits made
+ * only of Clifford gates and measurements on the statevector engine,
+ * otherwise the selected engine.
+ */
+export function selectBackend(circuit: CircuitState, engine: SimulationEngine): SimulationBackend {
+  if (engine === 'statevector' && !isNoiseActive(circuit.noiseModel) && isStabilizerCircuit(circuit)) {
+    return 'stabilizer';
+  }
+  return engine;
+}
+
+export interface ExecuteOptions {
+  engine?: SimulationEngine;
+  observables?: string[];  // Pauli sums to estimate from shots, e.g. "0.5*Z0Z1 - 0.3*X2"
+  onProgress?: (progress: ExecutionProgress) => void;
+}
+
+/**
+ * Estimate a Pauli-sum observable from measurement shots. The terms are
+ * grouped into qubit-wise commuting sets and each set is measured with its
+ * own basis-rotation circuit for `shots` shots. The standard error combines
+ * the sample variance of each set's per-shot value, as the sets are sampled
+ * independently. `circuit` must already have its parameters bound and its
+ * repeaters unrolled.
+ */
+export function estimateObservable(
+  circuit: CircuitState,
+  observable: string,
+  shots: number,
+  engine: SimulationEngine = 'statevector'
+): ObservableResult {
+  const terms = parsePauliSum(observable, circuit.numQubits);
+  const settings = groupCommutingTerms(terms);
+
+  // Identity terms contribute their coefficient exactly
+  let estimate = terms
+    .filter(term => term.paulis.length === 0)
+    .reduce((sum, term) => sum + term.coefficient, 0);
+  let variance = 0;
+
+  for (const setting of settings) {
+    const rotated = createBasisRotationCircuit(circuit, setting.basis);
+    const clbits = getBasisClbits(setting.basis);
+    const { counts } = executeShots(rotated, shots, { engine });
+
+    let sum = 0;
+    let sumSquares = 0;
+    for (const [bitstring, count] of Object.entries(counts)) {
+      const value = setting.terms.reduce((v, term) => v + termShotValue(term, bitstring, clbits), 0);
+      sum += value * count;
+      sumSquares += value * value * count;
+    }
+
+    const mean = sum / shots;
+    estimate += mean;
+    // Variance of the mean, from the unbiased sample variance
+    if (shots > 1) {
+      variance += Math.max(sumSquares - shots * mean * mean, 0) / (shots - 1) / shots;
+    }
+  }
+
+  return {
+    observable,
+    estimate,
+    standardError: Math.sqrt(variance),
+    settings: settings.length,
+    shotsPerSetting: shots,
+  };
+}
+
+/**
+ * Run a circuit for the given number of shots and collect the results.
+ * Counts are keyed by the contents of the classical register. Symbolic
+ * angles are bound and repeater blocks unrolled before simulation.
+ *
+ * Statevector engine: ideal circuits measured only at the end are simulated
+ * once and sampled; circuits with mid-circuit measurements, classical
+ * conditions or an active noise model are re-simulated per shot. Noiseless
+ * Clifford circuits run on the stabilizer simulator instead, one shot at a
+ * time (see selectBackend).
+ *
+ * Density-matrix engine: ρ is evolved once with noise applied exactly, and
+ * shots are sampled from the resulting classical distribution.
+ *
+ * Each entry of `observables` is estimated with its own basis-rotation runs
+ * of the same number of shots (see estimateObservable).
+ *
+ * `onProgress` is called every CHUNK_SIZE shots and once at the end.
+ */
+export function executeShots(
+  sourceCircuit: CircuitState,
+  shots: number,
+  options: ExecuteOptions = {}
+): ExecutionResults {
+  const { engine = 'statevector', observables, onProgress } = options;
+  const circuit = expandRepeaters(bindParameters(expandComposites(sourceCircuit)));
+  const estimateAll = () =>
+    observables?.length ? observables.map(o => estimateObservable(circuit, o, shots, engine)) : undefined;
+  const startTime = performance.now();
+  const noiseModel = isNoiseActive(circuit.noiseModel) ? circuit.noiseModel : undefined;
+  const numClbits = getNumClbits(circuit);
+  const backend = selectBackend(circuit, engine);
+
+  if (backend === 'densityMatrix') {
+    if (numClbits > CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS) {
+      throw new Error(`The density-matrix engine reads out at most ${CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS} classical bits`);
+    }
+    const simulator = new DensityMatrixSimulator(circuit.numQubits);
+    const probabilities = simulator.run(circuit, noiseModel);
+    const counts = sampleCounts(probabilities, numClbits, shots);
+    const observableResults = estimateAll();
+    onProgress?.({ completed: shots, total: shots });
+
+    return {
+      counts,
+      probabilities: countsToProbabilities(counts, numClbits, shots),
+      densityMatrix: simulator.takeDensityMatrix(),
+      engine,
+      backend,
+      ...(observableResults && { observables: observableResults }),
+      shots,
+      executionTime: performance.now() - startTime,
+    };
+  }
+
+  const counts: Record<string, number> = {};
+  const sortedGates = sortGatesByColumn(circuit.gates);
+  const implicitMeasurements = getImplicitMeasurements(circuit);
+
+  // Record one shot's register value and report progress every chunk
+  const recordShot = (result: string, i: number) => {
+    counts[result] = (counts[result] || 0) + 1;
+    if (onProgress && (i + 1) % EXECUTION_CONSTANTS.CHUNK_SIZE === 0) {
+      onProgress({ completed: i + 1, total: shots });
+    }
+  };
+
+  if (backend === 'stabilizer') {
+    const simulator = new StabilizerSimulator(circuit.numQubits);
+    if (!hasMidCircuitMeasurement(circuit) && !hasClassicalConditions(circuit)) {
+      // Evolve the tableau once, then sample every shot's readout from it
+      simulator.runUnitary(circuit);
+      const sample = simulator.createSampler();
+      const sources = getClbitSources(circuit);
+      for (let i = 0; i < shots; i++) {
+        const qubits = sample();
+        recordShot(formatBitstring(sources.map(q => (q === null ? 0 : qubits[q]))), i);
+      }
+    } else {
+      for (let i = 0; i < shots; i++) {
+        recordShot(simulator.runShot(circuit, sortedGates, implicitMeasurements), i);
+      }
+    }
+    const observableResults = estimateAll();
+    onProgress?.({ completed: shots, total: shots });
+
+    return {
+      counts,
+      probabilities: countsToProbabilities(counts, numClbits, shots),
+      engine,
+      backend,
+      ...(observableResults && { observables: observableResults }),
+      shots,
+      executionTime: performance.now() - startTime,
+    };
+  }
+
+  const simulator = new StatevectorSimulator(circuit.numQubits);
+
+  if (!noiseModel && !hasMidCircuitMeasurement(circuit) && !hasClassicalConditions(circuit)) {
+    // One statevector pass, then sample every shot's qubits from its
+    // distribution and read them into the register
+    simulator.runUnitary(circuit);
+    Object.assign(counts, qubitToClbitCounts(circuit, simulator.sample(shots)));
+  } else {
+    // Reuse one simulator (and its state buffers) across all shots
+    for (let i = 0; i < shots; i++) {
+      recordShot(simulator.runShot(circuit, sortedGates, noiseModel, implicitMeasurements), i);
+    }
+  }
+  const observableResults = estimateAll();
+  onProgress?.({ completed: shots, total: shots });
+
+  return {
+    counts,
+    probabilities: countsToProbabilities(counts, numClbits, shots),
+    engine,
+    backend,
+    ...(observableResults && { observables: observableResults }),
+    shots,
+    executionTime: performance.now() - startTime,
+  };
+}
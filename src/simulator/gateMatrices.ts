@@ -0,0 +1,134 @@
+/**
+ * Single-qubit gate matrices used by the simulator backends.
+ */
+
+import { Complex } from '../types/circuit';
+
+// Fixed gate matrices
+export const GATE_MATRICES: Record<string, Complex[][]> = {
+  I: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: 1, im: 0 }],
+  ],
+  X: [
+    [{ re: 0, im: 0 }, { re: 1, im: 0 }],
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+  ],
+  Y: [
+    [{ re: 0, im: 0 }, { re: 0, im: -1 }],
+    [{ re: 0, im: 1 }, { re: 0, im: 0 }],
+  ],
+  Z: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: -1, im: 0 }],
+  ],
+  H: [
+    [{ re: 1 / Math.sqrt(2), im: 0 }, { re: 1 / Math.sqrt(2), im: 0 }],
+    [{ re: 1 / Math.sqrt(2), im: 0 }, { re: -1 / Math.sqrt(2), im: 0 }],
+  ],
+  S: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: 0, im: 1 }],
+  ],
+  Sdg: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: 0, im: -1 }],
+  ],
+  T: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: Math.cos(Math.PI / 4), im: Math.sin(Math.PI / 4) }],
+  ],
+  Tdg: [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: Math.cos(Math.PI / 4), im: -Math.sin(Math.PI / 4) }],
+  ],
+  SX: [
+    [{ re: 0.5, im: 0.5 }, { re: 0.5, im: -0.5 }],
+    [{ re: 0.5, im: -0.5 }, { re: 0.5, im: 0.5 }],
+  ],
+};
+
+// Create rotation gate matrices
+export function createRx(theta: number): Complex[][] {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [
+    [{ re: c, im: 0 }, { re: 0, im: -s }],
+    [{ re: 0, im: -s }, { re: c, im: 0 }],
+  ];
+}
+
+export function createRy(theta: number): Complex[][] {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [
+    [{ re: c, im: 0 }, { re: -s, im: 0 }],
+    [{ re: s, im: 0 }, { re: c, im: 0 }],
+  ];
+}
+
+export function createRz(theta: number): Complex[][] {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [
+    [{ re: c, im: -s }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: c, im: s }],
+  ];
+}
+
+export function createPhase(phi: number): Complex[][] {
+  return [
+    [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+    [{ re: 0, im: 0 }, { re: Math.cos(phi), im: Math.sin(phi) }],
+  ];
+}
+
+export function createU(theta: number, phi: number, lambda: number): Complex[][] {
+  const ct = Math.cos(theta / 2);
+  const st = Math.sin(theta / 2);
+  return [
+    [
+      { re: ct, im: 0 },
+      { re: -st * Math.cos(lambda), im: -st * Math.sin(lambda) },
+    ],
+    [
+      { re: st * Math.cos(phi), im: st * Math.sin(phi) },
+      { re: ct * Math.cos(phi + lambda), im: ct * Math.sin(phi + lambda) },
+    ],
+  ];
+}
+
+/**
+ * Get the 2x2 matrix applied to the target of a gate.
+ * Controlled gates (CNOT, CZ, CCX, CCZ) map to their target operation.
+ */
+export function getGateMatrix(gateId: string, angle?: number, angles?: number[]): Complex[][] {
+  if (GATE_MATRICES[gateId]) {
+    return GATE_MATRICES[gateId];
+  }
+
+  const theta = angle ?? Math.PI;
+
+  switch (gateId) {
+    case 'CNOT':
+    case 'CCX':
+      return GATE_MATRICES.X;
+    case 'CZ':
+    case 'CCZ':
+      return GATE_MATRICES.Z;
+    case 'Rx':
+      return createRx(theta);
+    case 'Ry':
+      return createRy(theta);
+    case 'Rz':
+      return createRz(theta);
+    case 'P':
+      return createPhase(theta);
+    case 'U': {
+      const [t, p, l] = angles ?? [theta, 0, 0];
+      return createU(t, p, l);
+    }
+    default:
+      return GATE_MATRICES.I;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Simulator exports.
+ */
+
+export {
+  StatevectorSimulator,
+  computeStatevector,
+  sortGatesByColumn,
+  type Statevector,
+  type RandomSource,
+} from './StatevectorSimulator';
+
+export { DensityMatrixSimulator } from './DensityMatrixSimulator';
+
+export {
+  StabilizerSimulator,
+  STABILIZER_GATES,
+  isStabilizerGate,
+  isStabilizerCircuit,
+  computeStabilizerBlochVectors,
+} from './StabilizerSimulator';
+
+export {
+  partialTrace,
+  purity,
+  vonNeumannEntropy,
+  hermitianEigenvalues,
+  reducedQubitState,
+  blochVector,
+  type BlochVector,
+} from './quantumInfo';
+
+export { sampleCounts, formatBitstring } from './sampling';
+
+export {
+  estimateRunBytes,
+  getMemoryBudget,
+  getMaxQubits,
+  formatBytes,
+} from './memory';
+
+export {
+  executeShots,
+  estimateObservable,
+  selectBackend,
+  countsToProbabilities,
+  hasMidCircuitMeasurement,
+  hasClassicalConditions,
+  type ExecutionProgress,
+  type ExecuteOptions,
+} from './execution';
+
+export {
+  NOISE_CHANNEL_KEYS,
+  createNoiseChannels,
+  createDefaultNoiseModel,
+  isNoiseActive,
+  applyNoiseChannels,
+  applyGateNoise,
+  applyReadoutError,
+  applyReadoutErrorToProbabilities,
+  getGateNoiseChannels,
+  getNoiseKrausOperators,
+} from './noise';
+
+export type { WorkerRequest, WorkerResponse } from './workerMessages';
+
+export {
+  GATE_MATRICES,
+  getGateMatrix,
+  createRx,
+  createRy,
+  createRz,
+  createPhase,
+  createU,
+} from './gateMatrices';
+
+export {
+  parsePauliSum,
+  formatPauliTerm,
+  pauliStringExpectation,
+  pauliSumExpectation,
+  groupCommutingTerms,
+  getBasisClbits,
+  createBasisRotationCircuit,
+  termShotValue,
+  ObservableError,
+  type MeasurementSetting,
+} from './observables';
+
+export {
+  computeUnitary,
+  getUnitaryBlocker,
+  extractGateSubset,
+  unitaryOverlap,
+  checkIdentityUpToPhase,
+  UNITARY_TOLERANCE,
+  UNITARY_QUBIT_LIMIT,
+} from './unitary';
+
+export {
+  checkEquivalence,
+  type EquivalenceMethod,
+  type EquivalenceOptions,
+  type EquivalenceReport,
+  type EquivalenceDifference,
+} from './equivalence';
+
+export {
+  nelderMead,
+  spsa,
+  gradientDescent,
+  OPTIMIZER_LABELS,
+  type OptimizerMethod,
+  type OptimizerStep,
+  type OptimizerOptions,
+} from './optimizers';
+
+export {
+  createCostEvaluator,
+  type VariationalCost,
+  type CostEvaluator,
+} from './variational';
+
+export {
+  transpileCircuit,
+  linearCouplingMap,
+  ringCouplingMap,
+  parseCouplingMap,
+  NATIVE_GATE_SETS,
+  type NativeGateSet,
+  type NativeGateSetInfo,
+  type CouplingEdge,
+  type TranspileOptions,
+  type TranspileReport,
+} from './transpiler';
@@ -0,0 +1,78 @@
+/**
+ * Memory needed by a simulation run, and the largest register the device's
+ * memory allows for each backend.
+ */
+
+import { SimulationBackend } from '../types/circuit';
+import { CIRCUIT_LIMITS } from '../config';
+
+// Per basis state: the interleaved Float64 amplitude (16 bytes), the
+// probabilities and cumulative table used for sampling (8 + 8) and the copy
+// of the amplitudes shown in the results panel (16)
+const STATEVECTOR_BYTES_PER_STATE = 48;
+
+// Per density matrix entry: real and imaginary parts (16 bytes), the
+// scratch matrix a gate is applied into (16) and the previous run's result,
+// still held by the results panel while the next one runs (16)
+const DENSITY_MATRIX_BYTES_PER_ENTRY = 48;
+
+// Per stabilizer tableau row, of which there are 2n + 1: n X bits and n Z
+// bits packed into 32-bit words, and a sign byte
+const stabilizerRowBytes = (numQubits: number) => 8 * Math.ceil(numQubits / 32) + 1;
+
+// Share of the device's memory one run may use, leaving the rest to the
+// browser and the page
+const MEMORY_FRACTION = 0.25;
+
+// Assumed when the browser does not report its memory (navigator.deviceMemory
+// is Chromium-only, and capped at 8 GB)
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+
+const BYTES_PER_GB = 1024 ** 3;
+
+/**
+ * Estimated peak memory of one run on a register of numQubits, in bytes.
+ */
+export function estimateRunBytes(numQubits: number, backend: SimulationBackend): number {
+  switch (backend) {
+    case 'densityMatrix':
+      return 4 ** numQubits * DENSITY_MATRIX_BYTES_PER_ENTRY;
+    case 'stabilizer':
+      return (2 * numQubits + 1) * stabilizerRowBytes(numQubits);
+    default:
+      return 2 ** numQubits * STATEVECTOR_BYTES_PER_STATE;
+  }
+}
+
+/**
+ * Memory a run may use, in bytes, given the device memory in GB (null when
+ * the browser does not report it).
+ */
+export function getMemoryBudget(deviceMemory: number | null): number {
+  return (deviceMemory ?? DEFAULT_DEVICE_MEMORY_GB) * BYTES_PER_GB * MEMORY_FRACTION;
+}
+
+/**
+ * Largest number of qubits a backend can simulate within the memory budget,
+ * at most CIRCUIT_LIMITS.MAX_QUBITS.
+ */
+export function getMaxQubits(backend: SimulationBackend, deviceMemory: number | null): number {
+  const budget = getMemoryBudget(deviceMemory);
+  let n = 1;
+  while (n < CIRCUIT_LIMITS.MAX_QUBITS && estimateRunBytes(n + 1, backend) <= budget) n++;
+  return n;
+}
+
+/**
+ * Byte count with a binary unit, e.g. "48 MB".
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 10 || unit === 0 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
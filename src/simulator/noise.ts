@@ -0,0 +1,201 @@
+/**
+ * Noise channels for stochastic-trajectory simulation.
+ * Each trajectory picks one Kraus operator per channel with its Born
+ * probability, so averaging over shots reproduces the noisy density matrix.
+ */
+
+import { Complex, GateInstance, NoiseChannels, NoiseModel } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import { GATE_MATRICES } from './gateMatrices';
+import type { StatevectorSimulator } from './StatevectorSimulator';
+
+export const NOISE_CHANNEL_KEYS: (keyof NoiseChannels)[] = [
+  'depolarizing',
+  'amplitudeDamping',
+  'phaseDamping',
+  'bitFlip',
+  'phaseFlip',
+];
+
+/**
+ * Noise channels with every strength set to zero.
+ */
+export function createNoiseChannels(): NoiseChannels {
+  return {
+    depolarizing: 0,
+    amplitudeDamping: 0,
+    phaseDamping: 0,
+    bitFlip: 0,
+    phaseFlip: 0,
+  };
+}
+
+/**
+ * A disabled noise model with all channels off.
+ */
+export function createDefaultNoiseModel(): NoiseModel {
+  return {
+    enabled: false,
+    defaultChannels: createNoiseChannels(),
+    gateChannels: {},
+    readout: { flip0to1: 0, flip1to0: 0 },
+  };
+}
+
+function hasActiveChannels(channels: NoiseChannels): boolean {
+  return NOISE_CHANNEL_KEYS.some(key => channels[key] > 0);
+}
+
+/**
+ * Whether the noise model is enabled and has any non-zero channel.
+ */
+export function isNoiseActive(model: NoiseModel | undefined): model is NoiseModel {
+  if (!model || !model.enabled) return false;
+  return (
+    hasActiveChannels(model.defaultChannels) ||
+    Object.values(model.gateChannels ?? {}).some(hasActiveChannels) ||
+    model.readout.flip0to1 > 0 ||
+    model.readout.flip1to0 > 0
+  );
+}
+
+// Kraus operators of the damping channels
+function amplitudeDampingKraus(gamma: number): Complex[][][] {
+  return [
+    [[{ re: 1, im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: Math.sqrt(1 - gamma), im: 0 }]],
+    [[{ re: 0, im: 0 }, { re: Math.sqrt(gamma), im: 0 }], [{ re: 0, im: 0 }, { re: 0, im: 0 }]],
+  ];
+}
+
+function phaseDampingKraus(lambda: number): Complex[][][] {
+  return [
+    [[{ re: 1, im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: Math.sqrt(1 - lambda), im: 0 }]],
+    [[{ re: 0, im: 0 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: Math.sqrt(lambda), im: 0 }]],
+  ];
+}
+
+const PAULI_ERRORS = [GATE_MATRICES.X, GATE_MATRICES.Y, GATE_MATRICES.Z];
+
+function scaleMatrix(matrix: Complex[][], factor: number): Complex[][] {
+  return matrix.map(row => row.map(({ re, im }) => ({ re: re * factor, im: im * factor })));
+}
+
+// Kraus operators of a Pauli channel applying each error with the given probability
+function pauliChannelKraus(errors: Complex[][][], probability: number): Complex[][][] {
+  return [
+    scaleMatrix(GATE_MATRICES.I, Math.sqrt(1 - probability * errors.length)),
+    ...errors.map(error => scaleMatrix(error, Math.sqrt(probability))),
+  ];
+}
+
+/**
+ * Kraus operator sets of every non-zero channel, in the order they are applied.
+ * Used by the density-matrix engine to apply the channels exactly.
+ */
+export function getNoiseKrausOperators(channels: NoiseChannels): Complex[][][][] {
+  const sets: Complex[][][][] = [];
+  if (channels.depolarizing > 0) {
+    sets.push(pauliChannelKraus(PAULI_ERRORS, channels.depolarizing / 3));
+  }
+  if (channels.amplitudeDamping > 0) {
+    sets.push(amplitudeDampingKraus(channels.amplitudeDamping));
+  }
+  if (channels.phaseDamping > 0) {
+    sets.push(phaseDampingKraus(channels.phaseDamping));
+  }
+  if (channels.bitFlip > 0) {
+    sets.push(pauliChannelKraus([GATE_MATRICES.X], channels.bitFlip));
+  }
+  if (channels.phaseFlip > 0) {
+    sets.push(pauliChannelKraus([GATE_MATRICES.Z], channels.phaseFlip));
+  }
+  return sets;
+}
+
+/**
+ * Channels applied after a gate, or null when the gate is noiseless.
+ */
+export function getGateNoiseChannels(gate: GateInstance, model: NoiseModel): NoiseChannels | null {
+  const channels = model.gateChannels?.[gate.gateId] ?? model.defaultChannels;
+  return hasActiveChannels(channels) ? channels : null;
+}
+
+/**
+ * Apply one trajectory of each noise channel to a single qubit.
+ */
+export function applyNoiseChannels(
+  simulator: StatevectorSimulator,
+  qubit: number,
+  channels: NoiseChannels
+): void {
+  const { random } = simulator;
+
+  if (channels.depolarizing > 0 && random() < channels.depolarizing) {
+    const pauli = PAULI_ERRORS[Math.floor(random() * 3)];
+    simulator.applyMatrix(pauli, qubit);
+  }
+  if (channels.amplitudeDamping > 0) {
+    simulator.applyKrausChannel(amplitudeDampingKraus(channels.amplitudeDamping), qubit);
+  }
+  if (channels.phaseDamping > 0) {
+    simulator.applyKrausChannel(phaseDampingKraus(channels.phaseDamping), qubit);
+  }
+  if (channels.bitFlip > 0 && random() < channels.bitFlip) {
+    simulator.applyMatrix(GATE_MATRICES.X, qubit);
+  }
+  if (channels.phaseFlip > 0 && random() < channels.phaseFlip) {
+    simulator.applyMatrix(GATE_MATRICES.Z, qubit);
+  }
+}
+
+/**
+ * Apply the gate's noise channels to every qubit it acts on.
+ */
+export function applyGateNoise(
+  simulator: StatevectorSimulator,
+  gate: GateInstance,
+  model: NoiseModel
+): void {
+  const channels = getGateNoiseChannels(gate, model);
+  if (!channels) return;
+
+  const { controls, targets } = getGateOperands(gate);
+  for (const qubit of [...controls, ...targets]) {
+    applyNoiseChannels(simulator, qubit, channels);
+  }
+}
+
+/**
+ * Flip a measured bit according to the model's readout error.
+ */
+export function applyReadoutError(bit: number, model: NoiseModel, random: () => number): number {
+  const flipProbability = bit === 0 ? model.readout.flip0to1 : model.readout.flip1to0;
+  return flipProbability > 0 && random() < flipProbability ? 1 - bit : bit;
+}
+
+/**
+ * Apply readout error exactly to a probability distribution over bitstrings
+ * by mixing, bit by bit, the probabilities of outcomes differing in that bit.
+ * Only the listed bit positions are affected.
+ */
+export function applyReadoutErrorToProbabilities(
+  probabilities: number[],
+  bits: number[],
+  model: NoiseModel
+): number[] {
+  const { flip0to1, flip1to0 } = model.readout;
+  if (flip0to1 === 0 && flip1to0 === 0) return probabilities;
+
+  const result = [...probabilities];
+  for (const bit of bits) {
+    const mask = 1 << bit;
+    for (let i = 0; i < result.length; i++) {
+      if ((i & mask) !== 0) continue;
+      const p0 = result[i];
+      const p1 = result[i | mask];
+      result[i] = p0 * (1 - flip0to1) + p1 * flip1to0;
+      result[i | mask] = p1 * (1 - flip1to0) + p0 * flip0to1;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitState, GateInstance, PauliOperator } from '../types/circuit';
+import { CIRCUIT_LIMITS } from '../config';
+import { createBasisRotationCircuit, getBasisClbits } from './observables';
+import { estimateObservable } from './execution';
+
+function circuit(numQubits: number, gates: GateInstance[]): CircuitState {
+  return { name: 'test', numQubits, gates };
+}
+
+describe('createBasisRotationCircuit', () => {
+  it('sizes the register to the basis on a wide circuit', () => {
+    const basis = new Map<number, PauliOperator>([[3, 'X'], [17, 'Z']]);
+    const rotated = createBasisRotationCircuit(circuit(30, [{ id: 'a', gateId: 'H', target: 0, column: 0 }]), basis);
+    expect(rotated.numClbits).toBe(2);
+    const measured = rotated.gates.filter(g => g.gateId === 'M').map(g => [g.target, g.clbit]);
+    expect(measured).toEqual([[3, 0], [17, 1]]);
+    expect(getBasisClbits(basis)).toEqual(new Map([[3, 0], [17, 1]]));
+  });
+
+  it('keeps the register of a circuit that measures mid-way', () => {
+    const basis = new Map<number, PauliOperator>([[1, 'Z']]);
+    const rotated = createBasisRotationCircuit(circuit(3, [
+      { id: 'a', gateId: 'M', target: 0, column: 0, clbit: 2 },
+      { id: 'b', gateId: 'X', target: 1, column: 1, condition: { clbits: [2], value: 1 } },
+    ]), basis);
+    expect(rotated.numClbits).toBe(3);
+  });
+});
+
+describe('estimateObservable', () => {
+  it('estimates correlators on a circuit wider than half the readout limit', () => {
+    // A full-width readout register would exceed MAX_DISTRIBUTION_CLBITS
+    const n = CIRCUIT_LIMITS.MAX_DISTRIBUTION_CLBITS / 2 + 2;
+    const gates: GateInstance[] = [
+      { id: 'h', gateId: 'H', target: 0, column: 0 },
+      { id: 't', gateId: 'T', target: 0, column: 1 },
+    ];
+    for (let q = 1; q < n; q++) {
+      gates.push({ id: `cx${q}`, gateId: 'CNOT', target: q, control: q - 1, column: q + 1 });
+    }
+    const result = estimateObservable(circuit(n, gates), `Z0Z${n - 1} + X0`, 200);
+    // ⟨Z0 Zn-1⟩ = 1 and ⟨X0⟩ = 0 on the phased GHZ state
+    expect(result.settings).toBe(2);
+    expect(Math.abs(result.estimate - 1)).toBeLessThan(5 * result.standardError + 1e-9);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Pauli-sum observables such as `0.5*Z0Z1 - 0.3*X2`: parsing, exact
+ * expectation values on a statevector, and the basis-rotation circuits used
+ * to estimate them from measurement shots.
+ */
+
+import { CircuitState, GateInstance, PauliOperator, PauliTerm } from '../types/circuit';
+import { getGateClbits, getNumClbits } from '../utils/classicalBits';
+import type { Statevector } from './StatevectorSimulator';
+
+// Terms measured together: every qubit is read in one Pauli basis
+export interface MeasurementSetting {
+  basis: Map<number, PauliOperator>;
+  terms: PauliTerm[];
+}
+
+/**
+ * Error raised for malformed observables.
+ * `offset` is the character position in the source string.
+ */
+export class ObservableError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'ObservableError';
+    this.offset = offset;
+  }
+}
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const PAULI_PATTERN = /^([IXYZ])(\d+)?/;
+
+/**
+ * Parse a sum of weighted Pauli strings. Each term is an optional
+ * coefficient followed by factors like `X0`, `Z1` (optionally joined by `*`
+ * or spaces); a bare number is a multiple of the identity. Qubits must be
+ * below `numQubits` when it is given.
+ */
+export function parsePauliSum(source: string, numQubits?: number): PauliTerm[] {
+  const terms: PauliTerm[] = [];
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  skipSpaces();
+  if (pos === source.length) {
+    throw new ObservableError('Observable is empty', 0);
+  }
+
+  while (pos < source.length) {
+    // Sign (required between terms, optional before the first)
+    let sign = 1;
+    if (source[pos] === '+' || source[pos] === '-') {
+      sign = source[pos] === '-' ? -1 : 1;
+      pos++;
+      skipSpaces();
+    } else if (terms.length > 0) {
+      throw new ObservableError(`Expected "+" or "-" but found "${source[pos]}"`, pos);
+    }
+
+    const termStart = pos;
+    let coefficient = 1;
+    const numberMatch = NUMBER_PATTERN.exec(source.slice(pos));
+    if (numberMatch) {
+      coefficient = parseFloat(numberMatch[0]);
+      pos += numberMatch[0].length;
+      skipSpaces();
+      if (source[pos] === '*') {
+        pos++;
+        skipSpaces();
+      }
+    }
+
+    const paulis: PauliTerm['paulis'] = [];
+    const seen = new Set<number>();
+    while (pos < source.length) {
+      const pauliMatch = PAULI_PATTERN.exec(source.slice(pos));
+      if (!pauliMatch) break;
+
+      const [text, letter, digits] = pauliMatch;
+      if (letter !== 'I') {
+        if (digits === undefined) {
+          throw new ObservableError(`Missing qubit index after "${letter}"`, pos);
+        }
+        const qubit = parseInt(digits, 10);
+        if (numQubits !== undefined && qubit >= numQubits) {
+          throw new ObservableError(`Qubit ${qubit} is out of range (0-${numQubits - 1})`, pos);
+        }
+        if (seen.has(qubit)) {
+          throw new ObservableError(`Qubit ${qubit} appears twice in one term`, pos);
+        }
+        seen.add(qubit);
+        paulis.push({ qubit, pauli: letter as PauliOperator });
+      }
+      pos += text.length;
+      skipSpaces();
+      if (source[pos] === '*') {
+        pos++;
+        skipSpaces();
+      }
+    }
+
+    if (pos === termStart) {
+      throw new ObservableError(`Unexpected "${source[pos]}"`, pos);
+    }
+
+    terms.push({ coefficient: sign * coefficient, paulis });
+    skipSpaces();
+  }
+
+  return terms;
+}
+
+/**
+ * Format a Pauli term, e.g. "0.5·Z0Z1" or "-0.3·X2".
+ */
+export function formatPauliTerm(term: PauliTerm): string {
+  const operator = term.paulis.map(p => `${p.pauli}${p.qubit}`).join('') || 'I';
+  return `${term.coefficient}·${operator}`;
+}
+
+/**
+ * Exact ⟨ψ|P|ψ⟩ for a single Pauli string (without its coefficient).
+ * P|i⟩ = i^{nY} (-1)^{|i ∧ (z|y)|} |i ⊕ (x|y)⟩, so the sum runs over basis
+ * states once.
+ */
+export function pauliStringExpectation(state: Statevector, paulis: PauliTerm['paulis']): number {
+  let flipMask = 0;
+  let phaseMask = 0;
+  let numY = 0;
+  for (const { qubit, pauli } of paulis) {
+    if (pauli !== 'Z') flipMask |= 1 << qubit;
+    if (pauli !== 'X') phaseMask |= 1 << qubit;
+    if (pauli === 'Y') numY++;
+  }
+
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < state.real.length; i++) {
+    const j = i ^ flipMask;
+    // conj(ψ_j) · ψ_i
+    let pr = state.real[j] * state.real[i] + state.imag[j] * state.imag[i];
+    let pi = state.real[j] * state.imag[i] - state.imag[j] * state.real[i];
+    if (popcount(i & phaseMask) & 1) {
+      pr = -pr;
+      pi = -pi;
+    }
+    re += pr;
+    im += pi;
+  }
+
+  // Multiply by i^{nY}; the result is real for a Hermitian P
+  switch (numY % 4) {
+    case 0: return re;
+    case 1: return -im;
+    case 2: return -re;
+    default: return im;
+  }
+}
+
+/**
+ * Exact expectation value of a Pauli sum.
+ */
+export function pauliSumExpectation(state: Statevector, terms: PauliTerm[]): number {
+  return terms.reduce((sum, term) => sum + term.coefficient * pauliStringExpectation(state, term.paulis), 0);
+}
+
+/**
+ * Group the non-identity terms into qubit-wise commuting sets (greedy, first
+ * fit): terms in one set agree on the Pauli of every qubit they share, so a
+ * single basis-rotation circuit measures all of them.
+ */
+export function groupCommutingTerms(terms: PauliTerm[]): MeasurementSetting[] {
+  const settings: MeasurementSetting[] = [];
+
+  for (const term of terms) {
+    if (term.paulis.length === 0) continue;
+    const setting = settings.find(s =>
+      term.paulis.every(({ qubit, pauli }) => (s.basis.get(qubit) ?? pauli) === pauli)
+    );
+    if (setting) {
+      for (const { qubit, pauli } of term.paulis) setting.basis.set(qubit, pauli);
+      setting.terms.push(term);
+    } else {
+      settings.push({
+        basis: new Map(term.paulis.map(({ qubit, pauli }) => [qubit, pauli])),
+        terms: [term],
+      });
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Classical bit each qubit of a basis is read into: the qubits in ascending
+ * order take bits 0, 1, 2, ...
+ */
+export function getBasisClbits(basis: Map<number, PauliOperator>): Map<number, number> {
+  return new Map([...basis.keys()].sort((a, b) => a - b).map((qubit, i) => [qubit, i]));
+}
+
+/**
+ * Append a basis change and a measurement of the basis qubits to a circuit
+ * (which must have its repeaters unrolled). X is rotated by H and Y by S†
+ * then H, so each qubit's Z outcome gives its Pauli in `basis`. The qubits
+ * are read into the bits given by getBasisClbits, reusing the register: the
+ * new measurements come after every gate, so conditions still see the
+ * circuit's own bits, and the register only grows past the circuit's when
+ * the basis is wider. A circuit that never touches its register gets one
+ * sized to the basis.
+ */
+export function createBasisRotationCircuit(
+  circuit: CircuitState,
+  basis: Map<number, PauliOperator>
+): CircuitState {
+  const clbits = getBasisClbits(basis);
+  const usesRegister = circuit.gates.some(gate => getGateClbits(gate).length > 0);
+  const numClbits = usesRegister ? Math.max(getNumClbits(circuit), clbits.size) : clbits.size;
+  const start = circuit.gates.reduce((max, gate) => Math.max(max, gate.column + 1), 0);
+  const gates: GateInstance[] = [...circuit.gates];
+
+  for (const [q, clbit] of clbits) {
+    const pauli = basis.get(q);
+    if (pauli === 'Y') {
+      gates.push({ id: `basis_sdg_${q}`, gateId: 'Sdg', target: q, column: start });
+    }
+    if (pauli === 'X' || pauli === 'Y') {
+      gates.push({ id: `basis_h_${q}`, gateId: 'H', target: q, column: start + 1 });
+    }
+    gates.push({ id: `basis_m_${q}`, gateId: 'M', target: q, clbit, column: start + 2 });
+  }
+
+  return { ...circuit, gates, numClbits };
+}
+
+/**
+ * Value of a term for one shot, from the basis-measurement bits: the
+ * coefficient times (-1) to the parity of the bits the term acts on.
+ * `bitstring` is little-endian and `clbits` maps each qubit to its bit.
+ */
+export function termShotValue(term: PauliTerm, bitstring: string, clbits: Map<number, number>): number {
+  let parity = 0;
+  for (const { qubit } of term.paulis) {
+    if (bitstring[clbits.get(qubit) ?? -1] === '1') parity ^= 1;
+  }
+  return parity ? -term.coefficient : term.coefficient;
+}
+
+function popcount(n: number): number {
+  let count = 0;
+  while (n) {
+    n &= n - 1;
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,158 @@
+/**
+ * Classical optimizers for variational circuits. Each optimizer is a
+ * generator that yields once per iteration, so the caller can update the UI,
+ * throttle, or stop between iterations.
+ */
+
+import type { RandomSource } from './StatevectorSimulator';
+
+export type OptimizerMethod = 'nelderMead' | 'spsa' | 'gradientDescent';
+
+export interface OptimizerStep {
+  iteration: number;
+  x: number[];
+  cost: number;
+  evaluations: number;  // Cost evaluations so far
+}
+
+export interface OptimizerOptions {
+  maxIterations: number;
+  stepSize: number;      // Initial simplex size, SPSA gain a, or learning rate
+  tolerance?: number;    // Stop once the improvement falls below this
+  random?: RandomSource;
+}
+
+export const OPTIMIZER_LABELS: Record<OptimizerMethod, string> = {
+  nelderMead: 'Nelder–Mead',
+  spsa: 'SPSA',
+  gradientDescent: 'Gradient descent (parameter shift)',
+};
+
+/**
+ * Nelder–Mead simplex search with the standard coefficients
+ * (reflection 1, expansion 2, contraction ½, shrink ½).
+ */
+export function* nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  options: OptimizerOptions
+): Generator<OptimizerStep> {
+  const n = x0.length;
+  const tolerance = options.tolerance ?? 1e-8;
+  let evaluations = 0;
+  const evaluate = (x: number[]) => {
+    evaluations++;
+    return f(x);
+  };
+
+  // Initial simplex: x0 plus one step along each axis
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + options.stepSize : v)))]
+    .map(x => ({ x, cost: evaluate(x) }));
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    simplex.sort((a, b) => a.cost - b.cost);
+    const best = simplex[0];
+    const worst = simplex[n];
+
+    // Centroid of all points but the worst
+    const centroid = new Array(n).fill(0);
+    for (let k = 0; k < n; k++) {
+      for (let j = 0; j < n; j++) centroid[j] += simplex[k].x[j] / n;
+    }
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const reflectedCost = evaluate(reflected);
+
+    if (reflectedCost < best.cost) {
+      const expanded = along(-2);
+      const expandedCost = evaluate(expanded);
+      simplex[n] = expandedCost < reflectedCost
+        ? { x: expanded, cost: expandedCost }
+        : { x: reflected, cost: reflectedCost };
+    } else if (reflectedCost < simplex[n - 1].cost) {
+      simplex[n] = { x: reflected, cost: reflectedCost };
+    } else {
+      const contracted = reflectedCost < worst.cost ? along(-0.5) : along(0.5);
+      const contractedCost = evaluate(contracted);
+      if (contractedCost < Math.min(reflectedCost, worst.cost)) {
+        simplex[n] = { x: contracted, cost: contractedCost };
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map((p, k) => {
+          if (k === 0) return p;
+          const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, cost: evaluate(x) };
+        });
+      }
+    }
+
+    simplex.sort((a, b) => a.cost - b.cost);
+    yield { iteration, x: simplex[0].x, cost: simplex[0].cost, evaluations };
+
+    if (simplex[n].cost - simplex[0].cost < tolerance) return;
+  }
+}
+
+/**
+ * Simultaneous perturbation stochastic approximation, with Spall's gain
+ * sequences a_k = a / (k + A)^0.602 and c_k = c / k^0.101.
+ */
+export function* spsa(
+  f: (x: number[]) => number,
+  x0: number[],
+  options: OptimizerOptions
+): Generator<OptimizerStep> {
+  const random = options.random ?? Math.random;
+  const a = options.stepSize;
+  const c = 0.1;
+  const A = 0.1 * options.maxIterations;
+  let x = [...x0];
+  let evaluations = 0;
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const ak = a / Math.pow(iteration + A, 0.602);
+    const ck = c / Math.pow(iteration, 0.101);
+    const delta = x.map(() => (random() < 0.5 ? -1 : 1));
+
+    const plus = f(x.map((v, j) => v + ck * delta[j]));
+    const minus = f(x.map((v, j) => v - ck * delta[j]));
+    evaluations += 2;
+
+    const scale = (plus - minus) / (2 * ck);
+    x = x.map((v, j) => v - ak * scale / delta[j]);
+
+    const cost = f(x);
+    evaluations++;
+    yield { iteration, x, cost, evaluations };
+  }
+}
+
+/**
+ * Plain gradient descent with a caller-supplied gradient (the variational
+ * module computes it with the parameter-shift rule).
+ */
+export function* gradientDescent(
+  f: (x: number[]) => number,
+  gradient: (x: number[]) => { gradient: number[]; evaluations: number },
+  x0: number[],
+  options: OptimizerOptions
+): Generator<OptimizerStep> {
+  const tolerance = options.tolerance ?? 1e-10;
+  let x = [...x0];
+  let cost = f(x);
+  let evaluations = 1;
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const step = gradient(x);
+    evaluations += step.evaluations;
+    x = x.map((v, j) => v - options.stepSize * step.gradient[j]);
+
+    const previous = cost;
+    cost = f(x);
+    evaluations++;
+    yield { iteration, x, cost, evaluations };
+
+    if (Math.abs(previous - cost) < tolerance) return;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Density-matrix quantities: partial trace, purity, von Neumann entropy and
+ * single-qubit Bloch vectors.
+ */
+
+import { DensityMatrixData } from '../types/circuit';
+import type { Statevector } from './StatevectorSimulator';
+
+// Bloch vector (⟨X⟩, ⟨Y⟩, ⟨Z⟩) of a single-qubit state
+export interface BlochVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Trace out every qubit not in `qubits`. In the reduced matrix, qubits[0]
+ * becomes bit 0, qubits[1] bit 1, and so on.
+ */
+export function partialTrace(rho: DensityMatrixData, qubits: number[]): DensityMatrixData {
+  const dim = 1 << rho.numQubits;
+  const k = qubits.length;
+  const reducedDim = 1 << k;
+  const real = new Float64Array(reducedDim * reducedDim);
+  const imag = new Float64Array(reducedDim * reducedDim);
+
+  // Map a full basis index to its reduced index
+  const reduceIndex = (index: number): number => {
+    let reduced = 0;
+    for (let j = 0; j < k; j++) {
+      reduced |= ((index >> qubits[j]) & 1) << j;
+    }
+    return reduced;
+  };
+
+  const keptMask = qubits.reduce((m, q) => m | (1 << q), 0);
+
+  for (let r = 0; r < dim; r++) {
+    const rEnv = r & ~keptMask;
+    const rReduced = reduceIndex(r);
+    for (let c = 0; c < dim; c++) {
+      // Only diagonal blocks of the traced-out qubits contribute
+      if ((c & ~keptMask) !== rEnv) continue;
+      const idx = rReduced * reducedDim + reduceIndex(c);
+      real[idx] += rho.real[r * dim + c];
+      imag[idx] += rho.imag[r * dim + c];
+    }
+  }
+
+  return { numQubits: k, real, imag };
+}
+
+/**
+ * Purity Tr(ρ²), equal to 1 for pure states and 1/d for the maximally mixed state.
+ */
+export function purity(rho: DensityMatrixData): number {
+  // For Hermitian ρ, Tr(ρ²) = Σ |ρ_ij|²
+  let sum = 0;
+  for (let i = 0; i < rho.real.length; i++) {
+    sum += rho.real[i] * rho.real[i] + rho.imag[i] * rho.imag[i];
+  }
+  return sum;
+}
+
+/**
+ * Eigenvalues of a Hermitian matrix, in ascending order.
+ * The n×n complex matrix A + iB is embedded as the real symmetric matrix
+ * [[A, -B], [B, A]], whose spectrum is that of A + iB with each value doubled,
+ * and diagonalized with cyclic Jacobi rotations.
+ */
+export function hermitianEigenvalues(rho: DensityMatrixData): number[] {
+  const n = 1 << rho.numQubits;
+  const m = 2 * n;
+  const a = new Float64Array(m * m);
+
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      const re = rho.real[r * n + c];
+      const im = rho.imag[r * n + c];
+      a[r * m + c] = re;
+      a[(r + n) * m + (c + n)] = re;
+      a[r * m + (c + n)] = -im;
+      a[(r + n) * m + c] = im;
+    }
+  }
+
+  const MAX_SWEEPS = 50;
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < m; p++) {
+      for (let q = p + 1; q < m; q++) {
+        offDiagonal += a[p * m + q] * a[p * m + q];
+      }
+    }
+    if (offDiagonal < 1e-22) break;
+
+    for (let p = 0; p < m; p++) {
+      for (let q = p + 1; q < m; q++) {
+        const apq = a[p * m + q];
+        if (Math.abs(apq) < 1e-15) continue;
+
+        const theta = (a[q * m + q] - a[p * m + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const cos = 1 / Math.sqrt(t * t + 1);
+        const sin = t * cos;
+
+        // Rotate rows and columns p and q
+        for (let k = 0; k < m; k++) {
+          const akp = a[k * m + p];
+          const akq = a[k * m + q];
+          a[k * m + p] = cos * akp - sin * akq;
+          a[k * m + q] = sin * akp + cos * akq;
+        }
+        for (let k = 0; k < m; k++) {
+          const apk = a[p * m + k];
+          const aqk = a[q * m + k];
+          a[p * m + k] = cos * apk - sin * aqk;
+          a[q * m + k] = sin * apk + cos * aqk;
+        }
+      }
+    }
+  }
+
+  const doubled: number[] = [];
+  for (let i = 0; i < m; i++) doubled.push(a[i * m + i]);
+  doubled.sort((x, y) => x - y);
+
+  // Each eigenvalue appears twice; keep one of each pair
+  return doubled.filter((_, i) => i % 2 === 0);
+}
+
+/**
+ * Von Neumann entropy S(ρ) = -Tr(ρ log₂ ρ), in bits.
+ */
+export function vonNeumannEntropy(rho: DensityMatrixData): number {
+  return hermitianEigenvalues(rho).reduce(
+    (entropy, lambda) => (lambda > 1e-12 ? entropy - lambda * Math.log2(lambda) : entropy),
+    0
+  );
+}
+
+/**
+ * Reduced density matrix of one qubit of a pure state, tracing out every
+ * other qubit directly from the amplitudes (no 4^n matrix is formed).
+ */
+export function reducedQubitState(state: Statevector, qubit: number): DensityMatrixData {
+  const bit = 1 << qubit;
+  let p0 = 0;
+  let p1 = 0;
+  let re01 = 0;
+  let im01 = 0;
+
+  for (let i = 0; i < state.real.length; i++) {
+    if (i & bit) continue;
+    const j = i | bit;
+    const ar = state.real[i];
+    const ai = state.imag[i];
+    const br = state.real[j];
+    const bi = state.imag[j];
+    p0 += ar * ar + ai * ai;
+    p1 += br * br + bi * bi;
+    // ψ_i · conj(ψ_j)
+    re01 += ar * br + ai * bi;
+    im01 += ai * br - ar * bi;
+  }
+
+  return {
+    numQubits: 1,
+    real: new Float64Array([p0, re01, re01, p1]),
+    imag: new Float64Array([0, im01, -im01, 0]),
+  };
+}
+
+/**
+ * Bloch vector of a single-qubit density matrix, from
+ * ρ = (I + xX + yY + zZ) / 2. Its length is 1 for pure states and shrinks
+ * towards 0 as the qubit becomes mixed (purity = (1 + |r|²) / 2).
+ */
+export function blochVector(rho: DensityMatrixData): BlochVector {
+  return {
+    x: 2 * rho.real[1],
+    y: -2 * rho.imag[1],
+    z: rho.real[0] - rho.real[3],
+  };
+}
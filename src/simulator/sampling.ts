@@ -0,0 +1,64 @@
+/**
+ * Shot sampling from a basis-state probability distribution.
+ */
+
+import type { RandomSource } from './StatevectorSimulator';
+
+/**
+ * Format measurement results as a little-endian bitstring (qubit 0 first).
+ */
+export function formatBitstring(bits: ArrayLike<number>): string {
+  let result = '';
+  for (let i = 0; i < bits.length; i++) {
+    result += bits[i] ? '1' : '0';
+  }
+  return result;
+}
+
+/**
+ * Draw measurement outcomes from a probability distribution indexed by basis
+ * state (qubit 0 is bit 0), using a cumulative table and binary search.
+ * Returns counts keyed by little-endian bitstring.
+ */
+export function sampleCounts(
+  probabilities: ArrayLike<number>,
+  numQubits: number,
+  shots: number,
+  random: RandomSource = Math.random
+): Record<string, number> {
+  const dim = probabilities.length;
+
+  // Cumulative distribution for binary search
+  const cumulative = new Float64Array(dim);
+  let total = 0;
+  for (let i = 0; i < dim; i++) {
+    total += probabilities[i];
+    cumulative[i] = total;
+  }
+
+  const hits = new Map<number, number>();
+  for (let s = 0; s < shots; s++) {
+    const r = random() * total;
+    let lo = 0;
+    let hi = dim - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (cumulative[mid] > r) {
+        hi = mid;
+      } else {
+        lo = mid + 1;
+      }
+    }
+    hits.set(lo, (hits.get(lo) || 0) + 1);
+  }
+
+  const counts: Record<string, number> = {};
+  const bits = new Array<number>(numQubits);
+  for (const [index, count] of hits) {
+    for (let q = 0; q < numQubits; q++) {
+      bits[q] = (index >> q) & 1;
+    }
+    counts[formatBitstring(bits)] = count;
+  }
+  return counts;
+}
@@ -0,0 +1,40 @@
+/**
+ * Web Worker that runs multi-shot executions off the main thread.
+ * Cancellation is done by terminating the worker from the app side.
+ */
+
+import { EXECUTION_CONSTANTS } from '../config';
+import { executeShots } from './execution';
+import { WorkerRequest, WorkerResponse } from './workerMessages';
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, circuit, shots, engine, observables } = event.data;
+  let lastProgress = 0;
+
+  try {
+    const results = executeShots(circuit, shots, {
+      engine,
+      observables,
+      onProgress: ({ completed, total }) => {
+        // Throttle progress messages to avoid flooding the main thread
+        const now = performance.now();
+        if (now - lastProgress >= EXECUTION_CONSTANTS.PROGRESS_INTERVAL_MS || completed === total) {
+          lastProgress = now;
+          post({ type: 'progress', id, completed, total });
+        }
+      },
+    });
+    // Move the density matrix's buffers rather than cloning them
+    const { densityMatrix } = results;
+    post(
+      { type: 'result', id, results },
+      densityMatrix ? [densityMatrix.real.buffer, densityMatrix.imag.buffer] : []
+    );
+  } catch (err) {
+    post({ type: 'error', id, message: String(err) });
+  }
+};
@@ -0,0 +1,465 @@
+/**
+ * Transpiler: rewrites a circuit for hardware with a native gate set and a
+ * coupling map. Multi-qubit gates are decomposed into CNOTs, SWAPs are
+ * inserted along shortest paths of the coupling graph, and single-qubit
+ * gates are resynthesised from their ZYZ Euler angles.
+ */
+
+import { CircuitState, Complex, GateInstance } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import { getImplicitMeasurements, getMeasurementClbit } from '../utils/classicalBits';
+import { expandRepeaters } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindParameters } from '../utils/parameters';
+import { optimizeCircuit, DEFAULT_OPTIMIZATION_PASSES } from '../utils/circuitOptimizer';
+import { getCircuitSize, CircuitSize } from '../utils/circuitMetrics';
+import { getGateMatrix } from './gateMatrices';
+import { sortGatesByColumn } from './StatevectorSimulator';
+
+export type NativeGateSet = 'sxRzCnot' | 'uCnot' | 'rxRzCz';
+
+export interface NativeGateSetInfo {
+  name: string;
+  gates: string[];
+  entangler: 'CNOT' | 'CZ';
+}
+
+export const NATIVE_GATE_SETS: Record<NativeGateSet, NativeGateSetInfo> = {
+  sxRzCnot: { name: 'SX, Rz, CNOT', gates: ['SX', 'Rz', 'CNOT'], entangler: 'CNOT' },
+  uCnot: { name: 'U, CNOT', gates: ['U', 'CNOT'], entangler: 'CNOT' },
+  rxRzCz: { name: 'Rx, Rz, CZ', gates: ['Rx', 'Rz', 'CZ'], entangler: 'CZ' },
+};
+
+// Undirected edge between two physical qubits
+export type CouplingEdge = [number, number];
+
+export interface TranspileOptions {
+  gateSet: NativeGateSet;
+  couplingMap: CouplingEdge[] | null;  // null connects every pair of qubits
+}
+
+export interface TranspileReport {
+  circuit: CircuitState;
+  before: CircuitSize;
+  after: CircuitSize;
+  gateCountsBefore: Record<string, number>;
+  gateCountsAfter: Record<string, number>;
+  swapsInserted: number;
+  finalLayout: number[];  // Physical qubit holding each logical qubit at the end
+}
+
+// Angles within this of zero are dropped from the Euler decomposition
+const EULER_TOLERANCE = 1e-9;
+
+/**
+ * Coupling map connecting qubit i to i+1.
+ */
+export function linearCouplingMap(numQubits: number): CouplingEdge[] {
+  return Array.from({ length: Math.max(numQubits - 1, 0) }, (_, i): CouplingEdge => [i, i + 1]);
+}
+
+/**
+ * Linear coupling map closed into a ring.
+ */
+export function ringCouplingMap(numQubits: number): CouplingEdge[] {
+  const edges = linearCouplingMap(numQubits);
+  if (numQubits > 2) edges.push([numQubits - 1, 0]);
+  return edges;
+}
+
+/**
+ * Parse a coupling map written as edges such as "0-1, 1-2, 2-3". Throws on
+ * malformed edges and qubits outside the register.
+ */
+export function parseCouplingMap(text: string, numQubits: number): CouplingEdge[] {
+  const edges: CouplingEdge[] = [];
+  for (const part of text.split(/[,;\n]/).map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)\s*[-:]\s*(\d+)$/);
+    if (!match) throw new Error(`Invalid edge "${part}"; write edges as 0-1`);
+    const a = parseInt(match[1]);
+    const b = parseInt(match[2]);
+    if (a >= numQubits || b >= numQubits) {
+      throw new Error(`Edge ${a}-${b} refers to a qubit outside the ${numQubits}-qubit register`);
+    }
+    if (a === b) throw new Error(`Edge ${a}-${b} connects a qubit to itself`);
+    edges.push([a, b]);
+  }
+  return edges;
+}
+
+/**
+ * Shortest path between every pair of physical qubits, by breadth-first
+ * search. Throws when the graph does not connect every qubit.
+ */
+function allShortestPaths(numQubits: number, edges: CouplingEdge[] | null): number[][][] {
+  const neighbours: number[][] = Array.from({ length: numQubits }, (_, q) =>
+    edges === null ? Array.from({ length: numQubits }, (_, p) => p).filter(p => p !== q) : []
+  );
+  for (const [a, b] of edges ?? []) {
+    neighbours[a].push(b);
+    neighbours[b].push(a);
+  }
+
+  return neighbours.map((_, source) => {
+    const previous = new Array<number>(numQubits).fill(-1);
+    const seen = new Set([source]);
+    const queue = [source];
+    while (queue.length > 0) {
+      const q = queue.shift()!;
+      for (const p of neighbours[q]) {
+        if (!seen.has(p)) {
+          seen.add(p);
+          previous[p] = q;
+          queue.push(p);
+        }
+      }
+    }
+    if (seen.size < numQubits) {
+      throw new Error('The coupling map does not connect every qubit');
+    }
+    return neighbours.map((__, target) => {
+      const path = [target];
+      while (path[0] !== source) path.unshift(previous[path[0]]);
+      return path;
+    });
+  });
+}
+
+const mul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const arg = (z: Complex) => Math.atan2(z.im, z.re);
+const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+const div = (a: Complex, b: Complex): Complex => {
+  const norm = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / norm, im: (a.im * b.re - a.re * b.im) / norm };
+};
+const sqrt = (z: Complex): Complex => {
+  const r = Math.sqrt(Math.hypot(z.re, z.im));
+  const t = arg(z) / 2;
+  return { re: r * Math.cos(t), im: r * Math.sin(t) };
+};
+
+/**
+ * A square root V of a 2×2 unitary M, as (M + sI) / t with s² = det M and
+ * t² = tr M + 2s; the sign of s is flipped when that makes t vanish.
+ */
+function matrixSqrt(m: Complex[][]): Complex[][] {
+  const ad = mul(m[0][0], m[1][1]);
+  const bc = mul(m[0][1], m[1][0]);
+  const det = { re: ad.re - bc.re, im: ad.im - bc.im };
+  const trace = add(m[0][0], m[1][1]);
+  let s = sqrt(det);
+  let t2 = add(trace, { re: 2 * s.re, im: 2 * s.im });
+  if (Math.hypot(t2.re, t2.im) < EULER_TOLERANCE) {
+    s = { re: -s.re, im: -s.im };
+    t2 = add(trace, { re: 2 * s.re, im: 2 * s.im });
+  }
+  const t = sqrt(t2);
+  return [
+    [div(add(m[0][0], s), t), div(m[0][1], t)],
+    [div(m[1][0], t), div(add(m[1][1], s), t)],
+  ];
+}
+
+const adjoint = (m: Complex[][]): Complex[][] => [
+  [{ re: m[0][0].re, im: -m[0][0].im }, { re: m[1][0].re, im: -m[1][0].im }],
+  [{ re: m[0][1].re, im: -m[0][1].im }, { re: m[1][1].re, im: -m[1][1].im }],
+];
+
+/**
+ * Rewrite multi-qubit gates as CNOT, CZ and single-qubit gates, with every
+ * operand explicit. Open controls are flipped to |1⟩ with X gates around
+ * their gate. Conditions carry over to each piece.
+ */
+function decomposeMultiQubitGates(gates: GateInstance[]): GateInstance[] {
+  const result: GateInstance[] = [];
+
+  for (const gate of gates) {
+    const { controls, targets } = getGateOperands(gate);
+    const piece = (gateId: string, target: number, control?: number, angle?: number): GateInstance => ({
+      id: gate.id,
+      gateId,
+      target,
+      column: 0,
+      ...(control !== undefined && { control }),
+      ...(angle !== undefined && { angle }),
+      ...(gate.condition !== undefined && { condition: gate.condition }),
+    });
+
+    // Toffoli-style phase network shared by CCX and CCZ (CCX adds H on the target)
+    const doublyControlledZ = (c1: number, c2: number, t: number): GateInstance[] => [
+      piece('CNOT', t, c2), piece('Tdg', t), piece('CNOT', t, c1), piece('T', t),
+      piece('CNOT', t, c2), piece('Tdg', t), piece('CNOT', t, c1), piece('T', c2), piece('T', t),
+      piece('CNOT', c2, c1), piece('T', c1), piece('Tdg', c2), piece('CNOT', c2, c1),
+    ];
+    const toffoli = (c1: number, c2: number, t: number): GateInstance[] => [
+      piece('H', t), ...doublyControlledZ(c1, c2, t), piece('H', t),
+    ];
+
+    /**
+     * Single-qubit matrix m with any number of controls. One control uses
+     * m = e^{iα}·A·X·B·X·C with ABC = I and a phase gate on the control;
+     * more follow C^k(m) = C(V)·C^{k-1}(X)·C(V†)·C^{k-1}(X)·C^{k-1}(V), V² = m.
+     */
+    const controlledGate = (gateId: string | null, m: Complex[][], cs: number[], t: number): GateInstance[] => {
+      if (cs.length === 1) {
+        const c = cs[0];
+        if (gateId === 'X') return [piece('CNOT', t, c)];
+        if (gateId === 'Z') return [piece('CZ', t, c)];
+        if (gateId === 'Y') return [piece('Sdg', t), piece('CNOT', t, c), piece('S', t)];
+        const [theta, phi, lambda, alpha] = eulerAngles(m);
+        return [
+          piece('Rz', t, undefined, (lambda - phi) / 2),
+          piece('CNOT', t, c),
+          piece('Rz', t, undefined, -(phi + lambda) / 2),
+          piece('Ry', t, undefined, -theta / 2),
+          piece('CNOT', t, c),
+          piece('Ry', t, undefined, theta / 2),
+          piece('Rz', t, undefined, phi),
+          piece('P', c, undefined, alpha),
+        ];
+      }
+      if (cs.length === 2 && gateId === 'X') return toffoli(cs[0], cs[1], t);
+      if (cs.length === 2 && gateId === 'Z') return doublyControlledZ(cs[0], cs[1], t);
+
+      const rest = cs.slice(0, -1);
+      const last = cs[cs.length - 1];
+      const v = matrixSqrt(m);
+      const flip = controlledGate('X', getGateMatrix('X'), rest, last);
+      return [
+        ...controlledGate(null, v, [last], t),
+        ...flip,
+        ...controlledGate(null, adjoint(v), [last], t),
+        ...flip,
+        ...controlledGate(null, v, rest, t),
+      ];
+    };
+
+    // Open controls: flip to |1⟩ before the gate and back after it
+    const flips = (gate.openControls ?? []).map(q => piece('X', q));
+    result.push(...flips);
+
+    switch (gate.gateId) {
+      case 'I':
+        break;
+      case 'CNOT':
+      case 'CZ':
+        result.push(piece(gate.gateId, targets[0], controls[0]));
+        break;
+      case 'SWAP': {
+        const [a, b] = targets;
+        result.push(piece('CNOT', b, a), piece('CNOT', a, b), piece('CNOT', b, a));
+        break;
+      }
+      case 'CCX':
+        result.push(...toffoli(controls[0], controls[1], targets[0]));
+        break;
+      case 'CCZ':
+        result.push(...doublyControlledZ(controls[0], controls[1], targets[0]));
+        break;
+      case 'CSWAP': {
+        const [a, b] = targets;
+        result.push(piece('CNOT', a, b), ...toffoli(controls[0], a, b), piece('CNOT', a, b));
+        break;
+      }
+      case 'M':
+        result.push({ ...gate, clbit: getMeasurementClbit(gate), column: 0 });
+        break;
+      default:
+        if (targets.length > 1) {
+          throw new Error(`Custom gate "${gate.gateId}" acts on ${targets.length} qubits; only single-qubit custom gates can be transpiled`);
+        }
+        if (controls.length > 0) {
+          const matrix = gate.matrix ?? getGateMatrix(gate.gateId, gate.angle, gate.angles);
+          result.push(...controlledGate(gate.matrix ? null : gate.gateId, matrix, controls, targets[0]));
+        } else {
+          result.push({ ...gate, column: 0 });
+        }
+    }
+    result.push(...flips);
+  }
+
+  return result;
+}
+
+/**
+ * Map logical qubits to physical ones, starting from the trivial layout.
+ * Before each two-qubit gate on non-adjacent qubits, the control is swapped
+ * along a shortest path until it neighbours the target.
+ */
+function routeGates(
+  gates: GateInstance[],
+  numQubits: number,
+  edges: CouplingEdge[] | null
+): { gates: GateInstance[]; swaps: number; layout: number[] } {
+  const paths = allShortestPaths(numQubits, edges);
+  const layout = Array.from({ length: numQubits }, (_, q) => q);   // logical → physical
+  const occupant = [...layout];                                    // physical → logical
+  const result: GateInstance[] = [];
+  let swaps = 0;
+
+  for (const gate of gates) {
+    if (gate.control !== undefined) {
+      const path = paths[layout[gate.control]][layout[gate.target]];
+      for (let k = 0; k + 2 < path.length; k++) {
+        const [a, b] = [path[k], path[k + 1]];
+        result.push({ id: `${gate.id}_swap${k}`, gateId: 'SWAP', target: a, control: b, column: 0 });
+        [occupant[a], occupant[b]] = [occupant[b], occupant[a]];
+        layout[occupant[a]] = a;
+        layout[occupant[b]] = b;
+        swaps++;
+      }
+      result.push({ ...gate, target: layout[gate.target], control: layout[gate.control] });
+    } else {
+      result.push({ ...gate, target: layout[gate.target] });
+    }
+  }
+
+  return { gates: result, swaps, layout };
+}
+
+/**
+ * ZYZ Euler angles (θ, φ, λ) and phase α with M = e^{iα}·Rz(φ)·Ry(θ)·Rz(λ).
+ */
+function eulerAngles(m: Complex[][]): [number, number, number, number] {
+  // Divide out the global phase so that det = 1
+  const det = { re: mul(m[0][0], m[1][1]).re - mul(m[0][1], m[1][0]).re, im: mul(m[0][0], m[1][1]).im - mul(m[0][1], m[1][0]).im };
+  const phase = { re: Math.cos(-arg(det) / 2), im: Math.sin(-arg(det) / 2) };
+  const v00 = mul(m[0][0], phase);
+  const v10 = mul(m[1][0], phase);
+  const v11 = mul(m[1][1], phase);
+
+  const theta = 2 * Math.atan2(Math.hypot(v10.re, v10.im), Math.hypot(v00.re, v00.im));
+  const sum = Math.hypot(v11.re, v11.im) > EULER_TOLERANCE ? 2 * arg(v11) : 0;   // φ + λ
+  const diff = Math.hypot(v10.re, v10.im) > EULER_TOLERANCE ? 2 * arg(v10) : 0;  // φ - λ
+  return [theta, (sum + diff) / 2, (sum - diff) / 2, arg(det) / 2];
+}
+
+/**
+ * Single-qubit gate in the native gate set, in circuit order.
+ */
+function synthesizeSingleQubit(gate: GateInstance, gateSet: NativeGateSet): GateInstance[] {
+  const [theta, phi, lambda] = eulerAngles(gate.matrix ?? getGateMatrix(gate.gateId, gate.angle, gate.angles));
+  const { angleExpression: _e, angleExpressions: _es, angles: _a, matrix: _m, ...base } = gate;
+  const rotation = (gateId: string, angle: number, k: number): GateInstance => (
+    { ...base, id: `${gate.id}_${k}`, gateId, angle }
+  );
+
+  if (gateSet === 'uCnot') {
+    return [{ ...base, gateId: 'U', angle: undefined, angles: [theta, phi, lambda] }];
+  }
+  if (Math.abs(theta) < EULER_TOLERANCE) {
+    return [rotation('Rz', phi + lambda, 0)];
+  }
+  if (gateSet === 'sxRzCnot') {
+    // U(θ, φ, λ) = Rz(φ + π)·SX·Rz(θ + π)·SX·Rz(λ) up to a global phase
+    return [
+      rotation('Rz', lambda, 0),
+      { ...base, id: `${gate.id}_1`, gateId: 'SX', angle: undefined },
+      rotation('Rz', theta + Math.PI, 2),
+      { ...base, id: `${gate.id}_3`, gateId: 'SX', angle: undefined },
+      rotation('Rz', phi + Math.PI, 4),
+    ];
+  }
+  // Ry(θ) = Rz(π/2)·Rx(θ)·Rz(-π/2)
+  return [
+    rotation('Rz', lambda - Math.PI / 2, 0),
+    rotation('Rx', theta, 1),
+    rotation('Rz', phi + Math.PI / 2, 2),
+  ];
+}
+
+/**
+ * Rewrite routed gates in the native gate set: SWAPs become three CNOTs,
+ * CNOT and CZ are exchanged with Hadamards where the set needs the other
+ * one, and every single-qubit gate is resynthesised.
+ */
+function translateToNativeGates(gates: GateInstance[], gateSet: NativeGateSet): GateInstance[] {
+  const entangler = NATIVE_GATE_SETS[gateSet].entangler;
+  const twoQubit: GateInstance[] = [];
+
+  for (const gate of gates) {
+    const hadamard = (target: number, k: number): GateInstance => ({
+      id: `${gate.id}_h${k}`, gateId: 'H', target, column: 0,
+      ...(gate.condition !== undefined && { condition: gate.condition }),
+    });
+    const pieces = gate.gateId === 'SWAP'
+      ? [0, 1, 2].map((k): GateInstance => ({
+          ...gate,
+          id: `${gate.id}_${k}`,
+          gateId: 'CNOT',
+          target: k === 1 ? gate.control! : gate.target,
+          control: k === 1 ? gate.target : gate.control,
+        }))
+      : [gate];
+
+    for (const piece of pieces) {
+      if ((piece.gateId === 'CNOT' || piece.gateId === 'CZ') && piece.gateId !== entangler) {
+        twoQubit.push(hadamard(piece.target, 0), { ...piece, gateId: entangler }, hadamard(piece.target, 1));
+      } else {
+        twoQubit.push(piece);
+      }
+    }
+  }
+
+  return twoQubit.flatMap(gate =>
+    gate.gateId === 'M' || gate.control !== undefined ? [gate] : synthesizeSingleQubit(gate, gateSet)
+  );
+}
+
+function countGates(gates: GateInstance[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const gate of gates) counts[gate.gateId] = (counts[gate.gateId] ?? 0) + 1;
+  return counts;
+}
+
+/**
+ * Transpile a circuit to a native gate set and coupling map. Parameters are
+ * bound and repeaters unrolled. When routing leaves the qubits permuted,
+ * the implicitly measured ones get explicit measurements so that the
+ * classical results are unchanged. Throws when the map is disconnected or
+ * the circuit has a multi-qubit custom gate.
+ */
+export function transpileCircuit(circuit: CircuitState, options: TranspileOptions): TranspileReport {
+  const source = expandRepeaters(bindParameters(expandComposites(circuit)));
+  const gates = sortGatesByColumn(source.gates).map((gate, i) => ({ ...gate, id: `g${i}` }));
+
+  const decomposed = decomposeMultiQubitGates(gates);
+  const routed = routeGates(decomposed, circuit.numQubits, options.couplingMap);
+
+  // Read out each implicitly measured qubit from where it ended up
+  if (routed.layout.some((physical, logical) => physical !== logical)) {
+    for (const logical of getImplicitMeasurements(source)) {
+      routed.gates.push({
+        id: `m${logical}`,
+        gateId: 'M',
+        target: routed.layout[logical],
+        clbit: logical,
+        column: 0,
+      });
+    }
+  }
+
+  // One gate per column; the cleanup passes compact them
+  const native = translateToNativeGates(routed.gates, options.gateSet)
+    .map((gate, column) => ({ ...gate, column }));
+  const cleaned = optimizeCircuit(
+    {
+      ...circuit,
+      name: `${circuit.name} (${NATIVE_GATE_SETS[options.gateSet].name})`,
+      gates: native,
+      repeaters: undefined,
+      parameters: undefined,
+    },
+    DEFAULT_OPTIMIZATION_PASSES
+  );
+
+  return {
+    circuit: cleaned.circuit,
+    before: getCircuitSize(source),
+    after: cleaned.after,
+    gateCountsBefore: countGates(source.gates),
+    gateCountsAfter: countGates(cleaned.circuit.gates),
+    swapsInserted: routed.swaps,
+    finalLayout: routed.layout,
+  };
+}
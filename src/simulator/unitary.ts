@@ -0,0 +1,150 @@
+/**
+ * Unitary computation mode: the full 2^n × 2^n matrix of a measurement-free
+ * circuit (or of a subset of its gates), and comparisons between unitaries.
+ */
+
+import { CircuitState, GateInstance, UnitaryMatrix } from '../types/circuit';
+import { getGateOperands } from '../utils/gateDefinitions';
+import { expandRepeaters } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindParameters } from '../utils/parameters';
+import { StatevectorSimulator, sortGatesByColumn } from './StatevectorSimulator';
+
+// Tolerance of the identity and equivalence checks on 1 - |Tr(U†V)| / 2^n
+export const UNITARY_TOLERANCE = 1e-6;
+
+// Above this many qubits the 4^n unitary gets too slow and large to compute
+export const UNITARY_QUBIT_LIMIT = 10;
+
+/**
+ * Why a circuit has no unitary, or null when it has one. Measurements and
+ * classically conditioned gates, also inside composite gates, make the
+ * evolution non-unitary.
+ */
+export function getUnitaryBlocker(circuit: CircuitState): string | null {
+  const { gates } = expandComposites(circuit);
+  if (gates.some(gate => gate.gateId === 'M')) {
+    return 'The circuit contains measurements';
+  }
+  if (gates.some(gate => gate.condition !== undefined)) {
+    return 'The circuit contains classically conditioned gates';
+  }
+  return null;
+}
+
+/**
+ * Compute the unitary of a circuit, column j being U|j⟩ with qubit 0 as the
+ * least significant bit. Parameters are bound and repeaters unrolled; the
+ * noise model is ignored. Throws when the circuit is not unitary or has
+ * more than UNITARY_QUBIT_LIMIT qubits.
+ */
+export function computeUnitary(circuit: CircuitState): UnitaryMatrix {
+  const blocker = getUnitaryBlocker(circuit);
+  if (blocker) throw new Error(blocker);
+  if (circuit.numQubits > UNITARY_QUBIT_LIMIT) {
+    throw new Error(`The unitary of ${circuit.numQubits} qubits is too large; at most ${UNITARY_QUBIT_LIMIT} qubits are supported`);
+  }
+
+  const gates = sortGatesByColumn(expandRepeaters(bindParameters(expandComposites(circuit))).gates);
+  const simulator = new StatevectorSimulator(circuit.numQubits);
+  const dim = simulator.dim;
+  const real = new Float64Array(dim * dim);
+  const imag = new Float64Array(dim * dim);
+
+  for (let column = 0; column < dim; column++) {
+    simulator.setBasisState(column);
+    for (const gate of gates) simulator.applyGate(gate);
+    const state = simulator.getStatevector();
+    for (let row = 0; row < dim; row++) {
+      real[row * dim + column] = state.real[row];
+      imag[row * dim + column] = state.imag[row];
+    }
+  }
+
+  return { numQubits: circuit.numQubits, real, imag };
+}
+
+/**
+ * Restrict a circuit to some of its gates, renumbering the qubits they touch
+ * to 0..k-1 in ascending order. Returns the sub-circuit and the original
+ * qubit behind each new index. Repeaters are not carried over.
+ */
+export function extractGateSubset(
+  circuit: CircuitState,
+  gateIds: Set<string>
+): { circuit: CircuitState; qubits: number[] } {
+  const gates = circuit.gates.filter(gate => gateIds.has(gate.id));
+  const qubits = [...new Set(gates.flatMap(gate => {
+    const { controls, targets } = getGateOperands(gate);
+    return [...controls, ...targets];
+  }))].sort((a, b) => a - b);
+  const index = new Map(qubits.map((q, i) => [q, i]));
+
+  // Write every operand explicitly, as the defaults depend on absolute positions
+  const remapped = gates.map((gate): GateInstance => {
+    const { controls, targets } = getGateOperands(gate);
+    const openControls = gate.openControls?.map(q => index.get(q)!);
+    const base = {
+      ...gate,
+      target: index.get(gate.target)!,
+      ...(openControls && { openControls }),
+      ...(gate.targets && { targets: gate.targets.map(q => index.get(q)!) }),
+    };
+    switch (gate.gateId) {
+      case 'CNOT':
+      case 'CZ':
+      case 'CSWAP':
+        return { ...base, control: index.get(controls[0])! };
+      case 'SWAP':
+        return { ...base, control: index.get(targets[1])! };
+      case 'CCX':
+      case 'CCZ':
+        return { ...base, controls: controls.map(q => index.get(q)!) };
+      default:
+        // Single-qubit gates, with any added controls, and custom gates
+        return controls.length > 0 ? { ...base, controls: controls.map(q => index.get(q)!) } : base;
+    }
+  });
+
+  return {
+    circuit: {
+      ...circuit,
+      numQubits: Math.max(qubits.length, 1),
+      numClbits: undefined,
+      gates: remapped,
+      repeaters: undefined,
+    },
+    qubits,
+  };
+}
+
+/**
+ * Normalised overlap |Tr(U†V)| / 2^n, which is 1 exactly when U and V are
+ * equal up to a global phase, together with that phase arg(Tr(U†V)).
+ */
+export function unitaryOverlap(u: UnitaryMatrix, v: UnitaryMatrix): { overlap: number; phase: number } {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < u.real.length; i++) {
+    // conj(u_i) · v_i
+    re += u.real[i] * v.real[i] + u.imag[i] * v.imag[i];
+    im += u.real[i] * v.imag[i] - u.imag[i] * v.real[i];
+  }
+  const dim = 1 << u.numQubits;
+  return { overlap: Math.hypot(re, im) / dim, phase: Math.atan2(im, re) };
+}
+
+/**
+ * Whether U equals e^{iφ}·I for some φ, with φ = arg(Tr U).
+ */
+export function checkIdentityUpToPhase(u: UnitaryMatrix): { isIdentity: boolean; overlap: number; phase: number } {
+  const dim = 1 << u.numQubits;
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < dim; i++) {
+    re += u.real[i * dim + i];
+    im += u.imag[i * dim + i];
+  }
+  const overlap = Math.hypot(re, im) / dim;
+  return { isIdentity: 1 - overlap < UNITARY_TOLERANCE, overlap, phase: Math.atan2(im, re) };
+}
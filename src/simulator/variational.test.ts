@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitState, GateInstance } from '../types/circuit';
+import { createCostEvaluator } from './variational';
+
+function circuit(gates: GateInstance[], theta: number): CircuitState {
+  return { name: 'test', numQubits: 2, gates, parameters: { theta } };
+}
+
+// Central difference of the cost in theta
+function numericDerivative(cost: (x: number[]) => number, theta: number): number {
+  const h = 1e-5;
+  return (cost([theta + h]) - cost([theta - h])) / (2 * h);
+}
+
+describe('createCostEvaluator', () => {
+  it('differentiates an uncontrolled rotation with the parameter-shift rule', () => {
+    const gates: GateInstance[] = [
+      { id: 'a', gateId: 'Ry', target: 0, column: 0, angle: 0.7, angleExpression: 'theta' },
+    ];
+    const { cost, gradient } = createCostEvaluator(circuit(gates, 0.7), { type: 'pauliSum', observable: 'Z0' });
+    // ⟨Z⟩ = cos θ
+    expect(gradient([0.7]).gradient[0]).toBeCloseTo(-Math.sin(0.7), 8);
+    expect(gradient([0.7]).gradient[0]).toBeCloseTo(numericDerivative(cost, 0.7), 6);
+  });
+
+  it('differentiates a controlled rotation', () => {
+    const gates: GateInstance[] = [
+      { id: 'a', gateId: 'H', target: 0, column: 0 },
+      { id: 'b', gateId: 'Ry', target: 1, column: 1, controls: [0], angle: 1.1, angleExpression: 'theta' },
+    ];
+    const { cost, gradient } = createCostEvaluator(circuit(gates, 1.1), { type: 'pauliSum', observable: 'X0' });
+    // ⟨X0⟩ = cos(θ/2)
+    expect(gradient([1.1]).gradient[0]).toBeCloseTo(-Math.sin(0.55) / 2, 6);
+    expect(gradient([1.1]).gradient[0]).toBeCloseTo(numericDerivative(cost, 1.1), 6);
+  });
+});
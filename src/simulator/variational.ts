@@ -0,0 +1,166 @@
+/**
+ * Cost functions for variational circuits: the circuit's symbolic parameters
+ * are the variables, and each evaluation runs the ideal statevector engine.
+ */
+
+import { CircuitState, GateInstance } from '../types/circuit';
+import { expandRepeaters } from '../utils/repeaters';
+import { expandComposites } from '../utils/composites';
+import { bindGate, getGateParameters, getUsedParameters } from '../utils/parameters';
+import { findCustomGate } from '../utils/customGates';
+import { evaluateExpression, parseExpression, getExpressionVariables, ExpressionNode } from '../utils/expression';
+import { computeStatevector } from './StatevectorSimulator';
+import { parsePauliSum, pauliSumExpectation } from './observables';
+
+// Quantity to minimise
+export type VariationalCost =
+  | { type: 'pauliSum'; observable: string }     // ⟨H⟩ for a Pauli sum H
+  | { type: 'bitstring'; expression: string };   // E[f(b0, b1, ...)] over measured bits
+
+export interface CostEvaluator {
+  names: string[];  // Parameter names, in the order of the variable vector
+  cost: (x: number[]) => number;
+  gradient: (x: number[]) => { gradient: number[]; evaluations: number };
+}
+
+// Angle slot of a gate in the unrolled circuit that depends on parameters
+interface SymbolicAngle {
+  gateIndex: number;
+  slot: number;      // Index into `angles` for U, 0 for single-angle gates
+  expression: ExpressionNode;
+  shift: number;     // Parameter shift, or a small step for custom and controlled gates
+}
+
+const SHIFT = Math.PI / 2;
+const FINITE_DIFFERENCE_STEP = 1e-6;
+// Custom gate matrices are arbitrary functions of their parameters, and a
+// controlled rotation's generator has eigenvalues {0, ±½}, for which the
+// two-term shift rule does not hold, so their slots are differentiated
+// numerically; the O(s²) error of this step stays near 1e-9 while the
+// rounding of the double-precision statevector stays far below it
+const NUMERIC_STEP = 1e-4;
+
+/**
+ * Check a bitstring cost expression: it may use b0..b{n-1} only.
+ */
+function parseBitstringCost(expression: string, numQubits: number): ExpressionNode {
+  const node = parseExpression(expression);
+  for (const name of getExpressionVariables(node)) {
+    const match = /^b(\d+)$/.exec(name);
+    if (!match || parseInt(match[1], 10) >= numQubits) {
+      throw new Error(`Unknown variable "${name}" (use b0 to b${numQubits - 1})`);
+    }
+  }
+  return node;
+}
+
+/**
+ * Build the cost function and its parameter-shift gradient for a circuit.
+ * Throws when the cost definition is invalid or the circuit has no parameters.
+ */
+export function createCostEvaluator(circuit: CircuitState, cost: VariationalCost): CostEvaluator {
+  const names = [...getUsedParameters(circuit.gates)];
+  if (names.length === 0) {
+    throw new Error('The circuit has no symbolic parameters to optimize');
+  }
+
+  const { numQubits } = circuit;
+  const unrolled = expandRepeaters(expandComposites(circuit));
+  const baseParameters = circuit.parameters ?? {};
+
+  // Cost of a prepared statevector
+  let measure: (state: { real: number[]; imag: number[] }) => number;
+  if (cost.type === 'pauliSum') {
+    const terms = parsePauliSum(cost.observable, numQubits);
+    measure = state => pauliSumExpectation(state, terms);
+  } else {
+    const node = parseBitstringCost(cost.expression, numQubits);
+    // f is evaluated once per basis state up front
+    const values = new Float64Array(1 << numQubits);
+    const bits: Record<string, number> = {};
+    for (let index = 0; index < values.length; index++) {
+      for (let q = 0; q < numQubits; q++) bits[`b${q}`] = (index >> q) & 1;
+      values[index] = evaluateExpression(node, bits);
+    }
+    measure = state => {
+      let total = 0;
+      for (let i = 0; i < values.length; i++) {
+        total += values[i] * (state.real[i] * state.real[i] + state.imag[i] * state.imag[i]);
+      }
+      return total;
+    };
+  }
+
+  const toValues = (x: number[]): Record<string, number> => ({
+    ...baseParameters,
+    ...Object.fromEntries(names.map((name, i) => [name, x[i]])),
+  });
+
+  // Bind every angle to numbers, dropping the expressions
+  const bindGates = (values: Record<string, number>): GateInstance[] =>
+    unrolled.gates.map(gate => {
+      const { angleExpression: _expression, angleExpressions: _expressions, ...bound } = bindGate(gate, values);
+      return bound;
+    });
+
+  const run = (gates: GateInstance[]) =>
+    measure(computeStatevector({ ...unrolled, gates, parameters: undefined }));
+
+  // Every angle slot that depends on a parameter
+  const symbolicAngles: SymbolicAngle[] = [];
+  unrolled.gates.forEach((gate, gateIndex) => {
+    if (getGateParameters(gate).length === 0) return;
+    const expressions = gate.angleExpressions ?? [gate.angleExpression!];
+    const isNumeric = findCustomGate(circuit.customGates, gate.gateId) || (gate.controls?.length ?? 0) > 0;
+    const shift = isNumeric ? NUMERIC_STEP : SHIFT;
+    expressions.forEach((expression, slot) => {
+      symbolicAngles.push({ gateIndex, slot, expression: parseExpression(expression), shift });
+    });
+  });
+
+  // Angles of uncontrolled Rx/Ry/Rz, P and U enter as exp(-iθP/2) up to a
+  // global phase, so ∂E/∂θ = [E(θ + s) - E(θ - s)] / (2 sin s) holds for each
+  // slot; s = π/2 for these, while a small s turns it into a central
+  // difference for custom and controlled gates
+  const shiftAngle = (gates: GateInstance[], angle: SymbolicAngle, delta: number): GateInstance[] =>
+    gates.map((gate, i) => {
+      if (i !== angle.gateIndex) return gate;
+      if (gate.angles) {
+        return { ...gate, angles: gate.angles.map((a, slot) => (slot === angle.slot ? a + delta : a)) };
+      }
+      return { ...gate, angle: gate.angle! + delta };
+    });
+
+  const gradient = (x: number[]) => {
+    const values = toValues(x);
+    const gates = bindGates(values);
+    const result = new Array<number>(names.length).fill(0);
+    let evaluations = 0;
+
+    for (const angle of symbolicAngles) {
+      // Chain rule: dθ/dp for each parameter, by central differences on the expression
+      const slopes = names.map(name => {
+        if (!getExpressionVariables(angle.expression).includes(name)) return 0;
+        const up = evaluateExpression(angle.expression, { ...values, [name]: values[name] + FINITE_DIFFERENCE_STEP });
+        const down = evaluateExpression(angle.expression, { ...values, [name]: values[name] - FINITE_DIFFERENCE_STEP });
+        return (up - down) / (2 * FINITE_DIFFERENCE_STEP);
+      });
+      if (slopes.every(s => s === 0)) continue;
+
+      const derivative = (run(shiftAngle(gates, angle, angle.shift)) - run(shiftAngle(gates, angle, -angle.shift))) /
+        (2 * Math.sin(angle.shift));
+      evaluations += 2;
+      slopes.forEach((slope, i) => {
+        result[i] += slope * derivative;
+      });
+    }
+
+    return { gradient: result, evaluations };
+  };
+
+  return {
+    names,
+    cost: x => run(bindGates(toValues(x))),
+    gradient,
+  };
+}
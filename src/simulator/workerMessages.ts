@@ -0,0 +1,21 @@
+/**
+ * Message types exchanged between the app and the simulation worker.
+ */
+
+import { CircuitState, ExecutionResults, SimulationEngine } from '../types/circuit';
+
+// Requests sent to the worker
+export type WorkerRequest = {
+  type: 'execute';
+  id: number;
+  circuit: CircuitState;
+  shots: number;
+  engine: SimulationEngine;
+  observables?: string[];
+};
+
+// Responses posted back by the worker
+export type WorkerResponse =
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'result'; id: number; results: ExecutionResults }
+  | { type: 'error'; id: number; message: string };
@@ -3,7 +3,7 @@
  */
 
 // Gate categories
-export type GateCategory = 'single' | 'rotation' | 'controlled' | 'multi' | 'measurement';
+export type GateCategory = 'single' | 'rotation' | 'controlled' | 'multi' | 'measurement' | 'custom' | 'composite';
 
 // Gate definition
 export interface GateDefinition {
@@ -11,13 +11,20 @@ export interface GateDefinition {
   name: string;
   symbol: string;
   category: GateCategory;
-  numQubits: 1 | 2 | 3;
+  numQubits: number;  // Qubits of the basic gate; single-qubit gates may take extra controls
   hasAngle?: boolean;
   hasMultipleAngles?: boolean;
   description: string;
   color: string;
 }
 
+// Classical condition: the gate runs only when the listed classical bits,
+// read as an integer with clbits[0] as the least significant bit, equal value
+export interface ClassicalCondition {
+  clbits: number[];
+  value: number;
+}
+
 // Gate instance in circuit
 export interface GateInstance {
   id: string;
@@ -25,20 +32,42 @@ export interface GateInstance {
   target: number;
   control?: number;
   controls?: number[];
+  openControls?: number[];         // Controls that fire on |0⟩ instead of |1⟩
+  targets?: number[];              // Qubits of a multi-qubit custom or composite gate; targets[j] is its qubit j
   angle?: number;
   angles?: number[];
+  angleExpression?: string;        // Symbolic angle, e.g. "2*theta"; `angle` holds its bound value
+  angleExpressions?: string[];     // Symbolic U angles; `angles` holds their bound values
+  clbit?: number;                  // Classical bit written by a measurement (defaults to target)
+  condition?: ClassicalCondition;
+  matrix?: Complex[][];            // Bound matrix of a custom gate, set by bindParameters
+  inverse?: boolean;               // Dagger of a custom or composite gate
   column: number;
 }
 
+// User-defined gate: a 2^k × 2^k matrix whose entries are complex expressions
+// in the gate's parameters, e.g. "cos(theta/2)" or "-i*sin(theta/2)"
+export interface CustomGateDefinition {
+  name: string;          // Gate id of its instances
+  symbol?: string;       // Label drawn on the canvas (defaults to the name)
+  numQubits: number;     // 1 to 3
+  parameters: string[];  // Bound from the instance's angle (one) or angles (several)
+  matrix: string[][];    // Row-major entries
+  description?: string;
+}
+
 // Pattern gate - gate within a pattern, with relative positions
 export interface PatternGate {
   gateId: string;
   relativeTarget: number;  // Relative qubit position (0 = first qubit in pattern)
   relativeControl?: number;
   relativeControls?: number[];
+  relativeOpenControls?: number[];
+  relativeTargets?: number[];
   relativeColumn: number;  // Relative column position (0 = first column)
   angle?: number;
   angles?: number[];
+  inverse?: boolean;
 }
 
 // Circuit pattern - a reusable template of gates
@@ -50,14 +79,102 @@ export interface CircuitPattern {
   columnSpan: number;   // Number of columns the pattern spans
   color: string;
   createdAt: string;
+  composites?: CompositeGateDefinition[];  // Definitions of the composite gates among its gates, at any depth
+}
+
+// Pattern placed as a single block; its instances use the id as gate id and
+// relative qubit j of the pattern maps to the instance's targets[j]
+export interface CompositeGateDefinition {
+  id: string;
+  name: string;
+  gates: PatternGate[];
+  qubitSpan: number;
+  columnSpan: number;
+  color: string;
+}
+
+// Region of the circuit whose gates run `repetitions` times in a row
+export interface RepeaterBlock {
+  id: string;
+  qubitStart: number;
+  qubitEnd: number;     // Inclusive
+  columnStart: number;
+  columnEnd: number;    // Inclusive
+  repetitions: number;
+}
+
+// Noise channel strengths applied to each qubit a gate acts on
+export interface NoiseChannels {
+  depolarizing: number;      // Probability of a random Pauli error
+  amplitudeDamping: number;  // Decay probability γ (|1⟩ → |0⟩)
+  phaseDamping: number;      // Dephasing probability λ
+  bitFlip: number;           // Probability of an X error
+  phaseFlip: number;         // Probability of a Z error
+}
+
+// Noise model used for stochastic-trajectory simulation
+export interface NoiseModel {
+  enabled: boolean;
+  defaultChannels: NoiseChannels;
+  gateChannels?: Record<string, NoiseChannels>;  // Per-gate overrides, keyed by gate id
+  readout: {
+    flip0to1: number;  // Probability of reading 1 when the qubit collapsed to 0
+    flip1to0: number;  // Probability of reading 0 when the qubit collapsed to 1
+  };
 }
 
 // Circuit state
 export interface CircuitState {
   numQubits: number;
+  numClbits?: number;  // Classical register size (defaults to numQubits)
   gates: GateInstance[];
+  repeaters?: RepeaterBlock[];
+  parameters?: Record<string, number>;  // Values of the symbolic parameters used in angles
   name: string;
   description?: string;
+  noiseModel?: NoiseModel;
+  customGates?: CustomGateDefinition[];  // Definitions of the custom gates the circuit uses
+  composites?: CompositeGateDefinition[];  // Definitions of the composite gates the circuit uses
+}
+
+// Single-qubit Pauli operator
+export type PauliOperator = 'X' | 'Y' | 'Z';
+
+// Weighted Pauli string such as 0.5*Z0Z1 (identity on unlisted qubits)
+export interface PauliTerm {
+  coefficient: number;
+  paulis: Array<{ qubit: number; pauli: PauliOperator }>;
+}
+
+// Shot-based estimate of a Pauli-sum observable
+export interface ObservableResult {
+  observable: string;     // Source text, e.g. "0.5*Z0Z1 - 0.3*X2"
+  estimate: number;
+  standardError: number;
+  settings: number;       // Measurement bases (basis-rotation circuits) used
+  shotsPerSetting: number;
+}
+
+// Simulation engine used to execute a circuit
+export type SimulationEngine = 'statevector' | 'densityMatrix';
+
+// Simulator a run ends up on: the selected engine, or the stabilizer
+// simulator for noiseless Clifford circuits on the statevector engine
+export type SimulationBackend = SimulationEngine | 'stabilizer';
+
+// Density matrix in row-major order, dimension 2^numQubits
+export interface DensityMatrixData {
+  numQubits: number;
+  real: Float64Array;
+  imag: Float64Array;
+}
+
+// Unitary of a circuit in row-major order, dimension 2^numQubits;
+// column j is the output for input |j⟩
+export interface UnitaryMatrix {
+  numQubits: number;
+  real: Float64Array;
+  imag: Float64Array;
 }
 
 // Execution results
@@ -68,6 +185,10 @@ export interface ExecutionResults {
     real: number[];
     imag: number[];
   };
+  densityMatrix?: DensityMatrixData;
+  engine?: SimulationEngine;
+  backend?: SimulationBackend;
+  observables?: ObservableResult[];
   shots: number;
   executionTime: number;
 }
@@ -84,14 +205,28 @@ export interface SavedCircuit {
   name: string;
   description?: string;
   numQubits: number;
+  numClbits?: number;
   gates: Array<{
     gate: string;
     target: number;
     control?: number;
     controls?: number[];
+    openControls?: number[];
+    targets?: number[];
     angle?: number;
     angles?: number[];
+    angleExpression?: string;
+    angleExpressions?: string[];
+    clbit?: number;
+    condition?: ClassicalCondition;
+    inverse?: boolean;
+    column?: number;  // Kept when saved from the editor; laid out automatically otherwise
   }>;
+  repeaters?: Array<Omit<RepeaterBlock, 'id'>>;
+  parameters?: Record<string, number>;
+  noiseModel?: NoiseModel;
+  customGates?: CustomGateDefinition[];
+  composites?: CompositeGateDefinition[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -105,5 +240,6 @@ export interface SavedPatterns {
     qubitSpan: number;
     columnSpan: number;
     color: string;
+    composites?: CompositeGateDefinition[];
   }>;
 }
@@ -6,10 +6,22 @@ export type {
   GateCategory,
   GateDefinition,
   GateInstance,
+  CustomGateDefinition,
+  ClassicalCondition,
   CircuitState,
+  RepeaterBlock,
+  NoiseChannels,
+  NoiseModel,
+  PauliOperator,
+  PauliTerm,
+  ObservableResult,
+  UnitaryMatrix,
   ExecutionResults,
+  SimulationEngine,
+  DensityMatrixData,
   Complex,
   SavedCircuit,
   PatternGate,
   CircuitPattern,
+  CompositeGateDefinition,
 } from './circuit';
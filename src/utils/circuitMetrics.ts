@@ -0,0 +1,215 @@
+/**
+ * Size and cost measures of a circuit: depth, gate counts, CNOT-equivalent
+ * count and T-count. Repeat blocks are unrolled before measuring.
+ */
+
+import { CircuitState, GateCategory, GateInstance } from '../types/circuit';
+import { getGateDefinition, getGateOperands, isControllableGate } from './gateDefinitions';
+import { getGateClbits, getNumClbits } from './classicalBits';
+import { expandRepeaters } from './repeaters';
+import { expandComposites } from './composites';
+import { bindParameters } from './parameters';
+
+export interface CircuitSize {
+  gates: number;
+  depth: number;
+  columns: number;
+}
+
+export interface CircuitMetrics {
+  width: number;               // Qubits in the register
+  activeQubits: number;        // Qubits at least one gate acts on
+  clbits: number;
+  gates: number;
+  depth: number;
+  categoryCounts: Record<GateCategory, number>;
+  multiQubitGates: number;     // Gates on two or more qubits
+  cnotEquivalent: number;      // CNOTs in a standard decomposition
+  tCount: number;
+  tDepth: number;
+  arbitraryRotations: number;  // Rotations by angles that are not multiples of π/4, controlled non-Pauli gates and custom gates
+}
+
+// CNOTs needed for each multi-qubit gate
+const CNOT_COST: Record<string, number> = {
+  CNOT: 1,
+  CZ: 1,
+  SWAP: 3,
+  CCX: 6,
+  CCZ: 6,
+  CSWAP: 8,
+};
+
+// T gates and T layers in the standard Clifford+T decompositions
+const T_COST: Record<string, { count: number; depth: number }> = {
+  T: { count: 1, depth: 1 },
+  Tdg: { count: 1, depth: 1 },
+  CCX: { count: 7, depth: 3 },
+  CCZ: { count: 7, depth: 3 },
+  CSWAP: { count: 7, depth: 3 },
+};
+
+// CNOTs that suffice for an arbitrary unitary on 1, 2 or 3 qubits (custom gates)
+const ARBITRARY_CNOT_COST = [0, 0, 3, 20];
+
+// Single-qubit gates that a CNOT becomes under single-qubit basis changes
+const PAULI_GATES = new Set(['X', 'Y', 'Z']);
+
+const ANGLE_TOLERANCE = 1e-9;
+
+// Controls added to a single-qubit gate
+function addedControls(gate: GateInstance): number {
+  return isControllableGate(gate.gateId) ? gate.controls?.length ?? 0 : 0;
+}
+
+/**
+ * CNOTs of a single-qubit gate with k controls. One control costs one CNOT
+ * for a Pauli and two otherwise; more controls follow the decomposition
+ * C^k(U) = C(V)·C^{k-1}(X)·C(V†)·C^{k-1}(X)·C^{k-1}(V) with V² = U.
+ */
+function controlledCnotCost(k: number, pauli: boolean): number {
+  if (k === 0) return 0;
+  if (k === 1) return pauli ? 1 : 2;
+  if (k === 2 && pauli) return CNOT_COST.CCX;
+  return 2 * controlledCnotCost(1, false) + 2 * controlledCnotCost(k - 1, true) + controlledCnotCost(k - 1, false);
+}
+
+function getCnotCost(gate: GateInstance): number {
+  if (gate.matrix) return ARBITRARY_CNOT_COST[getGateOperands(gate).targets.length];
+  const k = addedControls(gate);
+  return k > 0 ? controlledCnotCost(k, PAULI_GATES.has(gate.gateId)) : CNOT_COST[gate.gateId] ?? 0;
+}
+
+// Angle in units of π/4, or null when it is not a multiple of π/4
+function eighthTurns(angle: number): number | null {
+  const turns = angle / (Math.PI / 4);
+  return Math.abs(turns - Math.round(turns)) < ANGLE_TOLERANCE ? Math.round(turns) : null;
+}
+
+/**
+ * T cost of a gate. A rotation by an odd multiple of π/4 counts as one T;
+ * other multiples of π/4 are Clifford, and any other angle is arbitrary.
+ * Controlled Paulis cost like CNOT and Toffoli; other gates with added
+ * controls, and custom gates, count as arbitrary.
+ */
+function getTCost(gate: GateInstance): { count: number; depth: number; arbitrary: boolean } {
+  const fixed = T_COST[gate.gateId];
+  if (fixed) return { ...fixed, arbitrary: false };
+  if (gate.matrix) return { count: 0, depth: 0, arbitrary: true };
+
+  const k = addedControls(gate);
+  if (k > 0) {
+    if (PAULI_GATES.has(gate.gateId) && k === 1) return { count: 0, depth: 0, arbitrary: false };
+    if (PAULI_GATES.has(gate.gateId) && k === 2) return { ...T_COST.CCX, arbitrary: false };
+    return { count: 0, depth: 0, arbitrary: true };
+  }
+
+  const angles = gate.gateId === 'U'
+    ? gate.angles ?? [gate.angle ?? Math.PI, 0, 0]
+    : ['Rx', 'Ry', 'Rz', 'P'].includes(gate.gateId) ? [gate.angle ?? Math.PI] : [];
+  const turns = angles.map(eighthTurns);
+  if (turns.some(t => t === null)) return { count: 0, depth: 0, arbitrary: true };
+  const odd = turns.filter(t => Math.abs(t!) % 2 === 1).length;
+  return { count: odd, depth: odd > 0 ? 1 : 0, arbitrary: false };
+}
+
+/**
+ * Longest weighted chain of gates in which each one shares a qubit or
+ * classical bit with the next. Gates must be sorted by column.
+ */
+function criticalPath(gates: GateInstance[], weight: (gate: GateInstance) => number): number {
+  const qubitDepth = new Map<number, number>();
+  const clbitDepth = new Map<number, number>();
+  let depth = 0;
+
+  for (const gate of gates) {
+    const { controls, targets } = getGateOperands(gate);
+    const qubits = [...controls, ...targets];
+    const clbits = getGateClbits(gate);
+    const layer = weight(gate) + Math.max(
+      0,
+      ...qubits.map(q => qubitDepth.get(q) ?? 0),
+      ...clbits.map(b => clbitDepth.get(b) ?? 0)
+    );
+    qubits.forEach(q => qubitDepth.set(q, layer));
+    clbits.forEach(b => clbitDepth.set(b, layer));
+    depth = Math.max(depth, layer);
+  }
+
+  return depth;
+}
+
+function unrolledGates(circuit: CircuitState): GateInstance[] {
+  return [...expandRepeaters(circuit).gates].sort((a, b) => a.column - b.column);
+}
+
+/**
+ * Length of the longest chain of gates in which each one shares a qubit or
+ * classical bit with the next. Composite gates are expanded and repeaters
+ * unrolled first.
+ */
+export function getCircuitDepth(circuit: CircuitState): number {
+  return criticalPath(unrolledGates(expandComposites(circuit)), () => 1);
+}
+
+/**
+ * Gate count, depth and number of columns of a circuit as drawn.
+ */
+export function getCircuitSize(circuit: CircuitState): CircuitSize {
+  return {
+    gates: circuit.gates.length,
+    depth: getCircuitDepth(circuit),
+    columns: circuit.gates.reduce((max, gate) => Math.max(max, gate.column + 1), 0),
+  };
+}
+
+/**
+ * Cost summary of a circuit with its composite gates expanded, parameters
+ * bound and repeaters unrolled.
+ */
+export function getCircuitMetrics(circuit: CircuitState): CircuitMetrics {
+  const gates = unrolledGates(bindParameters(expandComposites(circuit)));
+  const categoryCounts: Record<GateCategory, number> = {
+    single: 0,
+    rotation: 0,
+    controlled: 0,
+    multi: 0,
+    measurement: 0,
+    custom: 0,
+    composite: 0,
+  };
+  const activeQubits = new Set<number>();
+  let multiQubitGates = 0;
+  let cnotEquivalent = 0;
+  let tCount = 0;
+  let arbitraryRotations = 0;
+
+  for (const gate of gates) {
+    const category = gate.matrix ? 'custom' : getGateDefinition(gate.gateId)?.category;
+    if (category) categoryCounts[category]++;
+
+    const { controls, targets } = getGateOperands(gate);
+    const qubits = [...controls, ...targets];
+    qubits.forEach(q => activeQubits.add(q));
+    if (qubits.length > 1) multiQubitGates++;
+    cnotEquivalent += getCnotCost(gate);
+
+    const tCost = getTCost(gate);
+    tCount += tCost.count;
+    if (tCost.arbitrary) arbitraryRotations++;
+  }
+
+  return {
+    width: circuit.numQubits,
+    activeQubits: activeQubits.size,
+    clbits: getNumClbits(circuit),
+    gates: gates.length,
+    depth: criticalPath(gates, () => 1),
+    categoryCounts,
+    multiQubitGates,
+    cnotEquivalent,
+    tCount,
+    tDepth: criticalPath(gates, gate => getTCost(gate).depth),
+    arbitraryRotations,
+  };
+}
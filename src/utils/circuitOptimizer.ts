@@ -0,0 +1,276 @@
+/**
+ * Circuit optimizer: peephole passes that remove identities, cancel adjacent
+ * inverse gates and fuse rotations, and a compaction pass that moves gates
+ * to earlier columns past the gates they commute with.
+ */
+
+import { CircuitState, GateInstance } from '../types/circuit';
+import { getGateOperands } from './gateDefinitions';
+import { getGateClbits } from './classicalBits';
+import { isGateInRepeater } from './repeaters';
+import { getCircuitSize, CircuitSize } from './circuitMetrics';
+import { formatQasmAngle } from './qasmExporter';
+
+export interface OptimizationPasses {
+  removeIdentities: boolean;  // I gates and rotations by a multiple of 2π
+  cancelInverses: boolean;    // Adjacent pairs such as H·H, S·S†, CNOT·CNOT
+  fuseRotations: boolean;     // Adjacent rotations about the same axis, e.g. Rz(a)·Rz(b)
+  compactColumns: boolean;    // Move gates left past the gates they commute with
+}
+
+export interface OptimizationReport {
+  circuit: CircuitState;
+  before: CircuitSize;
+  after: CircuitSize;
+  identitiesRemoved: number;
+  inversesCancelled: number;   // Gates removed in cancelling pairs
+  rotationsFused: number;      // Rotations merged into the one before them
+  compactionSkipped?: string;  // Why compaction did not run
+}
+
+export const DEFAULT_OPTIMIZATION_PASSES: OptimizationPasses = {
+  removeIdentities: true,
+  cancelInverses: true,
+  fuseRotations: true,
+  compactColumns: true,
+};
+
+// Angles within this of a multiple of 2π count as zero
+const ANGLE_TOLERANCE = 1e-10;
+
+const SELF_INVERSE_GATES = new Set(['H', 'X', 'Y', 'Z', 'CNOT', 'CZ', 'SWAP', 'CCX', 'CCZ', 'CSWAP']);
+const INVERSE_PAIRS: Record<string, string> = { S: 'Sdg', Sdg: 'S', T: 'Tdg', Tdg: 'T' };
+const FUSABLE_ROTATIONS = new Set(['Rx', 'Ry', 'Rz', 'P']);
+
+// Gates whose qubits can be listed in any order
+const SYMMETRIC_GATES = new Set(['CZ', 'CCZ']);
+
+// Gates diagonal in the computational basis on their target, or in the X basis
+const Z_DIAGONAL_GATES = new Set(['Z', 'S', 'Sdg', 'T', 'Tdg', 'Rz', 'P', 'CZ', 'CCZ']);
+const X_DIAGONAL_GATES = new Set(['X', 'SX', 'Rx', 'CNOT', 'CCX']);
+
+type WireAction = 'identity' | 'zDiagonal' | 'xDiagonal' | 'other';
+
+function gateQubits(gate: GateInstance): number[] {
+  const { controls, targets } = getGateOperands(gate);
+  return [...controls, ...targets];
+}
+
+function isMultipleOf2Pi(angle: number): boolean {
+  const turns = angle / (2 * Math.PI);
+  return Math.abs(turns - Math.round(turns)) * 2 * Math.PI < ANGLE_TOLERANCE;
+}
+
+/**
+ * Whether a gate acts as the identity, up to a global phase. Symbolic angles
+ * are never treated as zero, as the parameters may change.
+ */
+function isIdentityGate(gate: GateInstance): boolean {
+  if (gate.gateId === 'I') return true;
+  if (getGateOperands(gate).controls.length > 0) return false;
+
+  if (FUSABLE_ROTATIONS.has(gate.gateId)) {
+    return gate.angleExpression === undefined && isMultipleOf2Pi(gate.angle ?? Math.PI);
+  }
+  if (gate.gateId === 'U' && !gate.angleExpressions) {
+    const [theta, phi, lambda] = gate.angles ?? [gate.angle ?? Math.PI, 0, 0];
+    return isMultipleOf2Pi(theta) && isMultipleOf2Pi(phi + lambda);
+  }
+  return false;
+}
+
+// Operands in a canonical form, so that e.g. CZ(0,1) and CZ(1,0) compare equal
+function operandKey(gate: GateInstance): string {
+  const { controls, targets } = getGateOperands(gate);
+  const sorted = (qubits: number[]) => [...qubits].sort((a, b) => a - b).join(',');
+  const open = gate.openControls?.length ? `|open ${sorted(gate.openControls)}` : '';
+  return SYMMETRIC_GATES.has(gate.gateId) && !open
+    ? sorted([...controls, ...targets])
+    : `${sorted(controls)}|${sorted(targets)}${open}`;
+}
+
+function isInversePair(a: GateInstance, b: GateInstance): boolean {
+  if (a.condition || b.condition) return false;
+  const inverse = SELF_INVERSE_GATES.has(a.gateId) ? a.gateId : INVERSE_PAIRS[a.gateId];
+  return inverse === b.gateId && operandKey(a) === operandKey(b);
+}
+
+function canFuse(a: GateInstance, b: GateInstance): boolean {
+  return !a.condition && !b.condition && a.gateId === b.gateId && FUSABLE_ROTATIONS.has(a.gateId) &&
+    operandKey(a) === operandKey(b);
+}
+
+// Angle of a rotation as expression text
+function angleTerm(gate: GateInstance): string {
+  return gate.angleExpression ?? formatQasmAngle(gate.angle ?? Math.PI);
+}
+
+/**
+ * Merge two rotations about the same axis into the first. Symbolic angles
+ * stay symbolic: Rz(theta)·Rz(pi/2) becomes Rz(theta + pi/2).
+ */
+function fuseRotations(a: GateInstance, b: GateInstance): GateInstance {
+  const angle = (a.angle ?? Math.PI) + (b.angle ?? Math.PI);
+  if (a.angleExpression === undefined && b.angleExpression === undefined) {
+    return { ...a, angle };
+  }
+  const right = angleTerm(b);
+  const angleExpression = right.startsWith('-')
+    ? `${angleTerm(a)} - ${right.slice(1)}`
+    : `${angleTerm(a)} + ${right}`;
+  return { ...a, angle, angleExpression };
+}
+
+// How a gate acts on one of its qubits, for the commutation check
+function wireAction(gate: GateInstance, qubit: number): WireAction {
+  if (gate.gateId === 'I') return 'identity';
+  if (getGateOperands(gate).controls.includes(qubit)) return 'zDiagonal';
+  if (Z_DIAGONAL_GATES.has(gate.gateId)) return 'zDiagonal';
+  if (X_DIAGONAL_GATES.has(gate.gateId)) return 'xDiagonal';
+  return 'other';
+}
+
+/**
+ * Whether two gates commute: on every shared qubit both must be diagonal in
+ * the same basis, and neither may write a classical bit the other uses.
+ */
+function gatesCommute(a: GateInstance, b: GateInstance): boolean {
+  const bQubits = new Set(gateQubits(b));
+  for (const qubit of gateQubits(a)) {
+    if (!bQubits.has(qubit)) continue;
+    const actionA = wireAction(a, qubit);
+    const actionB = wireAction(b, qubit);
+    if (actionA === 'identity' || actionB === 'identity') continue;
+    if (actionA !== actionB || actionA === 'other') return false;
+  }
+
+  const bClbits = new Set(getGateClbits(b));
+  const sharesClbit = getGateClbits(a).some(clbit => bClbits.has(clbit));
+  return !(sharesClbit && (a.gateId === 'M' || b.gateId === 'M'));
+}
+
+/**
+ * One sweep of cancellation and fusion over gates sorted by column. A pair
+ * qualifies when the second gate acts on exactly the same qubits and comes
+ * next on all of them, and both are in the same repeater (or neither is).
+ */
+function peepholePass(
+  gates: GateInstance[],
+  passes: OptimizationPasses,
+  repeaterOf: (gate: GateInstance) => number
+): { gates: GateInstance[]; cancelled: number; fused: number } {
+  // Next gate on each qubit of each gate
+  const next: Array<Map<number, number>> = gates.map(() => new Map());
+  const last = new Map<number, number>();
+  gates.forEach((gate, i) => {
+    for (const qubit of gateQubits(gate)) {
+      const previous = last.get(qubit);
+      if (previous !== undefined) next[previous].set(qubit, i);
+      last.set(qubit, i);
+    }
+  });
+
+  const result: Array<GateInstance | null> = [...gates];
+  let cancelled = 0;
+  let fused = 0;
+
+  for (let i = 0; i < gates.length; i++) {
+    const a = result[i];
+    if (!a) continue;
+    const partners = new Set(next[i].values());
+    if (partners.size !== 1 || next[i].size !== gateQubits(a).length) continue;
+    const j = [...partners][0];
+    const b = result[j];
+    if (!b || new Set(gateQubits(b)).size !== next[i].size || repeaterOf(a) !== repeaterOf(b)) continue;
+
+    if (passes.cancelInverses && isInversePair(a, b)) {
+      result[i] = null;
+      result[j] = null;
+      cancelled += 2;
+    } else if (passes.fuseRotations && canFuse(a, b)) {
+      result[i] = fuseRotations(a, b);
+      result[j] = null;
+      fused++;
+    }
+  }
+
+  return { gates: result.filter((gate): gate is GateInstance => gate !== null), cancelled, fused };
+}
+
+/**
+ * Reassign columns as early as possible, keeping the order of every pair of
+ * gates that do not commute. A gate never ends up right of where it was.
+ */
+function compactGates(gates: GateInstance[]): GateInstance[] {
+  const placed: GateInstance[] = [];
+  const occupied = new Map<number, Set<number>>();
+
+  for (const gate of gates) {
+    const qubits = gateQubits(gate);
+    let column = 0;
+    for (const other of placed) {
+      if (other.column >= column && !gatesCommute(other, gate)) column = other.column + 1;
+    }
+    while (qubits.some(q => occupied.get(column)?.has(q))) column++;
+
+    if (!occupied.has(column)) occupied.set(column, new Set());
+    qubits.forEach(q => occupied.get(column)!.add(q));
+    placed.push(column === gate.column ? gate : { ...gate, column });
+  }
+
+  return placed;
+}
+
+/**
+ * Run the selected passes until none of them changes the circuit. The result
+ * implements the same unitary up to a global phase.
+ */
+export function optimizeCircuit(circuit: CircuitState, passes: OptimizationPasses): OptimizationReport {
+  const repeaters = circuit.repeaters ?? [];
+  const repeaterOf = (gate: GateInstance) => repeaters.findIndex(r => isGateInRepeater(gate, r));
+
+  let gates = [...circuit.gates].sort((a, b) => a.column - b.column);
+  let identitiesRemoved = 0;
+  let inversesCancelled = 0;
+  let rotationsFused = 0;
+
+  for (let changed = true; changed;) {
+    changed = false;
+
+    if (passes.removeIdentities) {
+      const kept = gates.filter(gate => !isIdentityGate(gate));
+      identitiesRemoved += gates.length - kept.length;
+      changed = kept.length < gates.length;
+      gates = kept;
+    }
+
+    if (passes.cancelInverses || passes.fuseRotations) {
+      const sweep = peepholePass(gates, passes, repeaterOf);
+      inversesCancelled += sweep.cancelled;
+      rotationsFused += sweep.fused;
+      changed = changed || sweep.cancelled + sweep.fused > 0;
+      gates = sweep.gates;
+    }
+  }
+
+  // Moving gates would change which of them the repeat blocks cover
+  let compactionSkipped: string | undefined;
+  if (passes.compactColumns) {
+    if (repeaters.length > 0) {
+      compactionSkipped = 'The circuit has repeat blocks';
+    } else {
+      gates = compactGates(gates);
+    }
+  }
+
+  const optimized = { ...circuit, gates };
+  return {
+    circuit: optimized,
+    before: getCircuitSize(circuit),
+    after: getCircuitSize(optimized),
+    identitiesRemoved,
+    inversesCancelled,
+    rotationsFused,
+    ...(compactionSkipped && { compactionSkipped }),
+  };
+}
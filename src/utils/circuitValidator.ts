@@ -2,7 +2,13 @@
  * Circuit validation utilities for safe loading of circuit files.
  */
 
+import { CompositeGateDefinition, CustomGateDefinition } from '../types/circuit';
 import { GATE_DEFINITIONS } from './gateDefinitions';
+import { getExpressionVariables } from './expression';
+import { validateParameterName } from './parameters';
+import { validateCustomGate } from './customGates';
+import { compositeHasMeasurement } from './composites';
+import { CIRCUIT_LIMITS } from '../config';
 
 export interface ValidationResult {
   valid: boolean;
@@ -10,8 +16,7 @@ export interface ValidationResult {
   warnings: string[];
 }
 
-const MAX_QUBITS = 10;
-const MAX_COLUMNS = 50;
+const { MAX_QUBITS, MAX_COLUMNS, MAX_CLBITS } = CIRCUIT_LIMITS;
 
 /**
  * Validate a saved circuit file before loading.
@@ -46,12 +51,81 @@ export function validateSavedCircuit(data: unknown): ValidationResult {
 
   const numQubits = typeof circuit.numQubits === 'number' ? circuit.numQubits : MAX_QUBITS;
 
+  // Validate numClbits (optional, defaults to numQubits)
+  if (circuit.numClbits !== undefined) {
+    if (typeof circuit.numClbits !== 'number' || !Number.isInteger(circuit.numClbits) ||
+        circuit.numClbits < 1 || circuit.numClbits > MAX_CLBITS) {
+      errors.push(`numClbits must be an integer between 1 and ${MAX_CLBITS}`);
+    }
+  }
+
+  const numClbits = typeof circuit.numClbits === 'number' ? circuit.numClbits : numQubits;
+
+  // Validate parameters (optional): a map from name to value
+  const parameterNames = new Set<string>();
+  if (circuit.parameters !== undefined) {
+    if (typeof circuit.parameters !== 'object' || circuit.parameters === null || Array.isArray(circuit.parameters)) {
+      errors.push('parameters must be an object mapping names to values');
+    } else {
+      for (const [name, value] of Object.entries(circuit.parameters)) {
+        const nameError = validateParameterName(name);
+        if (nameError) {
+          errors.push(`Parameter ${nameError}`);
+        } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+          errors.push(`Parameter "${name}" must be a finite number`);
+        } else {
+          parameterNames.add(name);
+        }
+      }
+    }
+  }
+
+  // Validate custom gate definitions (optional)
+  const customGates = new Map<string, CustomGateDefinition>();
+  if (circuit.customGates !== undefined) {
+    if (!Array.isArray(circuit.customGates)) {
+      errors.push('customGates must be an array');
+    } else {
+      circuit.customGates.forEach((definition, i) => {
+        const definitionErrors = validateCustomGateDefinition(definition, i);
+        const name = (definition as CustomGateDefinition).name;
+        if (definitionErrors.length > 0) {
+          errors.push(...definitionErrors);
+        } else if (customGates.has(name)) {
+          errors.push(`Custom gate ${i}: "${name}" is defined more than once`);
+        } else {
+          customGates.set(name, definition as CustomGateDefinition);
+        }
+      });
+    }
+  }
+
+  // Validate composite gate definitions (optional); each may only use the ones before it
+  const composites = new Map<string, CompositeGateDefinition>();
+  if (circuit.composites !== undefined) {
+    if (!Array.isArray(circuit.composites)) {
+      errors.push('composites must be an array');
+    } else {
+      circuit.composites.forEach((definition, i) => {
+        const definitionErrors = validateCompositeDefinition(definition, i, customGates, composites);
+        const id = (definition as CompositeGateDefinition).id;
+        if (definitionErrors.length > 0) {
+          errors.push(...definitionErrors);
+        } else if (composites.has(id) || customGates.has(id) || GATE_DEFINITIONS[id]) {
+          errors.push(`Composite gate ${i}: id "${id}" is already used by another gate`);
+        } else {
+          composites.set(id, definition as CompositeGateDefinition);
+        }
+      });
+    }
+  }
+
   // Validate gates (required)
   if (!Array.isArray(circuit.gates)) {
     errors.push('gates must be an array');
   } else {
     circuit.gates.forEach((gate, i) => {
-      const gateErrors = validateGate(gate, numQubits, i);
+      const gateErrors = validateGate(gate, numQubits, numClbits, parameterNames, customGates, composites, i);
       errors.push(...gateErrors);
     });
 
@@ -82,6 +156,11 @@ export function validateSavedCircuit(data: unknown): ValidationResult {
     }
   }
 
+  // Validate noise model (optional)
+  if (circuit.noiseModel !== undefined) {
+    errors.push(...validateNoiseModel(circuit.noiseModel));
+  }
+
   // Validate description (optional)
   if (circuit.description !== undefined && typeof circuit.description !== 'string') {
     warnings.push('description should be a string');
@@ -97,7 +176,15 @@ export function validateSavedCircuit(data: unknown): ValidationResult {
 /**
  * Validate a single gate in a saved circuit.
  */
-function validateGate(gate: unknown, numQubits: number, index: number): string[] {
+function validateGate(
+  gate: unknown,
+  numQubits: number,
+  numClbits: number,
+  parameterNames: Set<string>,
+  customGates: Map<string, CustomGateDefinition>,
+  composites: Map<string, CompositeGateDefinition>,
+  index: number
+): string[] {
   const errors: string[] = [];
   const prefix = `Gate ${index}`;
 
@@ -111,9 +198,11 @@ function validateGate(gate: unknown, numQubits: number, index: number): string[]
   // Check gate type exists
   if (typeof g.gate !== 'string') {
     errors.push(`${prefix}: 'gate' field is required and must be a string`);
-  } else if (!GATE_DEFINITIONS[g.gate]) {
+  } else if (!GATE_DEFINITIONS[g.gate] && !customGates.has(g.gate) && !composites.has(g.gate)) {
     errors.push(`${prefix}: unknown gate type "${g.gate}"`);
   }
+  const custom = typeof g.gate === 'string' ? customGates.get(g.gate) : undefined;
+  const composite = typeof g.gate === 'string' ? composites.get(g.gate) : undefined;
 
   // Check target qubit
   if (typeof g.target !== 'number') {
@@ -122,6 +211,13 @@ function validateGate(gate: unknown, numQubits: number, index: number): string[]
     errors.push(`${prefix}: target qubit ${g.target} out of bounds (0-${numQubits - 1})`);
   }
 
+  // Check column if present
+  if (g.column !== undefined) {
+    if (typeof g.column !== 'number' || !Number.isInteger(g.column) || g.column < 0 || g.column >= MAX_COLUMNS) {
+      errors.push(`${prefix}: column ${g.column} out of bounds (0-${MAX_COLUMNS - 1})`);
+    }
+  }
+
   // Check control qubit if present
   if (g.control !== undefined) {
     if (typeof g.control !== 'number') {
@@ -149,6 +245,65 @@ function validateGate(gate: unknown, numQubits: number, index: number): string[]
     }
   }
 
+  // Open controls must be among the gate's controls
+  if (g.openControls !== undefined) {
+    if (!Array.isArray(g.openControls)) {
+      errors.push(`${prefix}: openControls must be an array`);
+    } else {
+      const controls = [...(g.control !== undefined ? [g.control] : []), ...(Array.isArray(g.controls) ? g.controls : [])];
+      g.openControls.forEach((ctrl, ci) => {
+        if (!controls.includes(ctrl)) {
+          errors.push(`${prefix}: openControls[${ci}] is not a control of the gate`);
+        }
+      });
+    }
+  }
+
+  // Multi-qubit custom and composite gates list their qubits, starting with the target
+  const block = custom
+    ? { name: custom.name, numQubits: custom.numQubits }
+    : composite && { name: composite.name, numQubits: composite.qubitSpan };
+  if (g.targets !== undefined) {
+    if (!block) {
+      errors.push(`${prefix}: only custom and composite gates can have targets`);
+    } else if (!Array.isArray(g.targets) || g.targets.length !== block.numQubits) {
+      errors.push(`${prefix}: targets must list the ${block.numQubits} qubits of "${block.name}"`);
+    } else {
+      g.targets.forEach((qubit, ti) => {
+        if (typeof qubit !== 'number' || !Number.isInteger(qubit) || qubit < 0 || qubit >= numQubits) {
+          errors.push(`${prefix}: targets[${ti}] out of bounds`);
+        }
+      });
+      if (new Set(g.targets).size !== g.targets.length) {
+        errors.push(`${prefix}: targets must not repeat a qubit`);
+      }
+      if (g.targets[0] !== g.target) {
+        errors.push(`${prefix}: targets[0] must equal target`);
+      }
+    }
+  } else if (block && block.numQubits > 1) {
+    errors.push(`${prefix}: targets must list the ${block.numQubits} qubits of "${block.name}"`);
+  }
+
+  // Controls of a block must lie outside it
+  const targets = g.targets;
+  if (Array.isArray(targets) && Array.isArray(g.controls) && g.controls.some(ctrl => targets.includes(ctrl))) {
+    errors.push(`${prefix}: controls must not be among the targets`);
+  }
+
+  // Only custom and composite gates have a dagger form; blocks that measure have none
+  if (g.inverse !== undefined) {
+    if (typeof g.inverse !== 'boolean') {
+      errors.push(`${prefix}: inverse must be a boolean`);
+    } else if (!block) {
+      errors.push(`${prefix}: only custom and composite gates can be inverted`);
+    }
+  }
+  if (composite && (g.inverse === true || Array.isArray(g.controls)) &&
+      compositeHasMeasurement(composite, [...composites.values()])) {
+    errors.push(`${prefix}: "${composite.name}" contains measurements, so it cannot be inverted or controlled`);
+  }
+
   // Check angle if present
   if (g.angle !== undefined) {
     if (typeof g.angle !== 'number' || !Number.isFinite(g.angle)) {
@@ -169,6 +324,36 @@ function validateGate(gate: unknown, numQubits: number, index: number): string[]
     }
   }
 
+  // Check angle expressions if present
+  if (g.angleExpression !== undefined) {
+    errors.push(...validateAngleExpression(g.angleExpression, parameterNames, `${prefix}: angleExpression`));
+  }
+  if (g.angleExpressions !== undefined) {
+    // Three U angles, or one per parameter of a custom gate
+    const expected = custom ? custom.parameters.length : 3;
+    if (!Array.isArray(g.angleExpressions) || g.angleExpressions.length !== expected) {
+      errors.push(`${prefix}: angleExpressions must be an array of ${expected} expressions`);
+    } else {
+      g.angleExpressions.forEach((expression, ei) => {
+        errors.push(...validateAngleExpression(expression, parameterNames, `${prefix}: angleExpressions[${ei}]`));
+      });
+    }
+  }
+
+  // Check classical bit if present (measurements only)
+  if (g.clbit !== undefined) {
+    if (g.gate !== 'M') {
+      errors.push(`${prefix}: only measurements can write a classical bit`);
+    } else if (typeof g.clbit !== 'number' || !Number.isInteger(g.clbit) || g.clbit < 0 || g.clbit >= numClbits) {
+      errors.push(`${prefix}: classical bit ${g.clbit} out of bounds (0-${numClbits - 1})`);
+    }
+  }
+
+  // Check classical condition if present
+  if (g.condition !== undefined) {
+    errors.push(...validateCondition(g.condition, numClbits, prefix));
+  }
+
   // Validate gate-specific requirements
   if (typeof g.gate === 'string') {
     const def = GATE_DEFINITIONS[g.gate];
@@ -193,6 +378,186 @@ function validateGate(gate: unknown, numQubits: number, index: number): string[]
   return errors;
 }
 
+/**
+ * Validate a custom gate definition: its field types, then its matrix.
+ */
+function validateCustomGateDefinition(definition: unknown, index: number): string[] {
+  const prefix = `Custom gate ${index}`;
+
+  if (typeof definition !== 'object' || definition === null) {
+    return [`${prefix}: must be an object`];
+  }
+
+  const d = definition as Record<string, unknown>;
+  const errors: string[] = [];
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (typeof d.name !== 'string') {
+    errors.push(`${prefix}: name must be a string`);
+  }
+  if (d.symbol !== undefined && typeof d.symbol !== 'string') {
+    errors.push(`${prefix}: symbol must be a string`);
+  }
+  if (d.description !== undefined && typeof d.description !== 'string') {
+    errors.push(`${prefix}: description must be a string`);
+  }
+  if (typeof d.numQubits !== 'number') {
+    errors.push(`${prefix}: numQubits must be a number`);
+  }
+  if (!isStringArray(d.parameters)) {
+    errors.push(`${prefix}: parameters must be an array of names`);
+  }
+  if (!Array.isArray(d.matrix) || !d.matrix.every(isStringArray)) {
+    errors.push(`${prefix}: matrix must be an array of rows of expressions`);
+  }
+  if (errors.length > 0) return errors;
+
+  const error = validateCustomGate(definition as CustomGateDefinition);
+  return error ? [`${prefix} "${d.name}": ${error}`] : [];
+}
+
+/**
+ * Validate a composite gate definition. Its gates are checked against the
+ * block's qubits and may use built-in and custom gates and the composite
+ * gates defined before it, which rules out cycles.
+ */
+function validateCompositeDefinition(
+  definition: unknown,
+  index: number,
+  customGates: Map<string, CustomGateDefinition>,
+  earlier: Map<string, CompositeGateDefinition>
+): string[] {
+  const prefix = `Composite gate ${index}`;
+
+  if (typeof definition !== 'object' || definition === null) {
+    return [`${prefix}: must be an object`];
+  }
+
+  const d = definition as Record<string, unknown>;
+  const errors: string[] = [];
+  const isIndex = (value: unknown, size: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < size;
+
+  if (typeof d.id !== 'string' || d.id.length === 0) {
+    errors.push(`${prefix}: id must be a non-empty string`);
+  }
+  if (typeof d.name !== 'string') {
+    errors.push(`${prefix}: name must be a string`);
+  }
+  if (typeof d.color !== 'string') {
+    errors.push(`${prefix}: color must be a string`);
+  }
+  if (typeof d.qubitSpan !== 'number' || !Number.isInteger(d.qubitSpan) || d.qubitSpan < 1 || d.qubitSpan > MAX_QUBITS) {
+    errors.push(`${prefix}: qubitSpan must be an integer between 1 and ${MAX_QUBITS}`);
+  }
+  if (typeof d.columnSpan !== 'number' || !Number.isInteger(d.columnSpan) || d.columnSpan < 1) {
+    errors.push(`${prefix}: columnSpan must be a positive integer`);
+  }
+  if (!Array.isArray(d.gates) || d.gates.length === 0) {
+    errors.push(`${prefix}: gates must be a non-empty array`);
+  }
+  if (errors.length > 0) return errors;
+
+  const span = d.qubitSpan as number;
+  (d.gates as unknown[]).forEach((gate, i) => {
+    const gatePrefix = `${prefix} "${d.name}", gate ${i}`;
+    if (typeof gate !== 'object' || gate === null) {
+      errors.push(`${gatePrefix}: must be an object`);
+      return;
+    }
+    const pg = gate as Record<string, unknown>;
+    const gateId = pg.gateId;
+    if (typeof gateId !== 'string' || (!GATE_DEFINITIONS[gateId] && !customGates.has(gateId) && !earlier.has(gateId))) {
+      errors.push(`${gatePrefix}: unknown gate "${String(gateId)}" (composite gates must come after the ones they contain)`);
+      return;
+    }
+    if (!isIndex(pg.relativeTarget, span)) {
+      errors.push(`${gatePrefix}: relativeTarget must be a qubit of the block`);
+    }
+    if (pg.relativeControl !== undefined && !isIndex(pg.relativeControl, span)) {
+      errors.push(`${gatePrefix}: relativeControl must be a qubit of the block`);
+    }
+    for (const field of ['relativeControls', 'relativeOpenControls', 'relativeTargets']) {
+      const qubits = pg[field];
+      if (qubits !== undefined && (!Array.isArray(qubits) || !qubits.every(q => isIndex(q, span)))) {
+        errors.push(`${gatePrefix}: ${field} must list qubits of the block`);
+      }
+    }
+    if (typeof pg.relativeColumn !== 'number' || !Number.isInteger(pg.relativeColumn) || pg.relativeColumn < 0) {
+      errors.push(`${gatePrefix}: relativeColumn must be a non-negative integer`);
+    }
+    if (pg.angle !== undefined && (typeof pg.angle !== 'number' || !Number.isFinite(pg.angle))) {
+      errors.push(`${gatePrefix}: angle must be a finite number`);
+    }
+    if (pg.angles !== undefined &&
+        (!Array.isArray(pg.angles) || !pg.angles.every(a => typeof a === 'number' && Number.isFinite(a)))) {
+      errors.push(`${gatePrefix}: angles must be finite numbers`);
+    }
+    if (pg.inverse !== undefined) {
+      const nested = earlier.get(gateId);
+      if (typeof pg.inverse !== 'boolean' || (!customGates.has(gateId) && !nested)) {
+        errors.push(`${gatePrefix}: only custom and composite gates can be inverted`);
+      } else if (pg.inverse && nested && compositeHasMeasurement(nested, [...earlier.values()])) {
+        errors.push(`${gatePrefix}: "${nested.name}" contains measurements, so it cannot be inverted`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate an angle expression: it must parse and use only known parameters.
+ */
+function validateAngleExpression(expression: unknown, parameterNames: Set<string>, prefix: string): string[] {
+  if (typeof expression !== 'string') {
+    return [`${prefix} must be a string`];
+  }
+  try {
+    const unknown = getExpressionVariables(expression).filter(name => !parameterNames.has(name));
+    if (unknown.length > 0) {
+      return [`${prefix} uses undefined parameter${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}`];
+    }
+  } catch (e) {
+    return [`${prefix} "${expression}" is invalid: ${(e as Error).message}`];
+  }
+  return [];
+}
+
+/**
+ * Validate a gate's classical condition.
+ */
+function validateCondition(condition: unknown, numClbits: number, prefix: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof condition !== 'object' || condition === null) {
+    return [`${prefix}: condition must be an object`];
+  }
+
+  const c = condition as Record<string, unknown>;
+
+  if (!Array.isArray(c.clbits) || c.clbits.length === 0) {
+    errors.push(`${prefix}: condition.clbits must be a non-empty array`);
+  } else {
+    c.clbits.forEach((clbit, ci) => {
+      if (typeof clbit !== 'number' || !Number.isInteger(clbit) || clbit < 0 || clbit >= numClbits) {
+        errors.push(`${prefix}: condition.clbits[${ci}] out of bounds (0-${numClbits - 1})`);
+      }
+    });
+    if (new Set(c.clbits).size !== c.clbits.length) {
+      errors.push(`${prefix}: condition.clbits must not repeat a bit`);
+    }
+  }
+
+  if (typeof c.value !== 'number' || !Number.isInteger(c.value) || c.value < 0) {
+    errors.push(`${prefix}: condition.value must be a non-negative integer`);
+  } else if (Array.isArray(c.clbits) && c.value >= 2 ** c.clbits.length) {
+    errors.push(`${prefix}: condition.value ${c.value} does not fit in ${c.clbits.length} bit(s)`);
+  }
+
+  return errors;
+}
+
 /**
  * Validate a repeater block.
  */
@@ -256,6 +621,75 @@ function validateRepeater(repeater: unknown, numQubits: number, index: number):
   return errors;
 }
 
+// Channel fields of a noise model, each a probability in [0, 1]
+const NOISE_CHANNEL_FIELDS = ['depolarizing', 'amplitudeDamping', 'phaseDamping', 'bitFlip', 'phaseFlip'];
+
+function isProbability(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+/**
+ * Validate a set of noise channel strengths.
+ */
+function validateNoiseChannels(channels: unknown, prefix: string): string[] {
+  if (typeof channels !== 'object' || channels === null) {
+    return [`${prefix}: must be an object`];
+  }
+
+  const c = channels as Record<string, unknown>;
+  return NOISE_CHANNEL_FIELDS
+    .filter(field => !isProbability(c[field]))
+    .map(field => `${prefix}: ${field} must be a probability between 0 and 1`);
+}
+
+/**
+ * Validate a noise model.
+ */
+function validateNoiseModel(noiseModel: unknown): string[] {
+  const errors: string[] = [];
+  const prefix = 'Noise model';
+
+  if (typeof noiseModel !== 'object' || noiseModel === null) {
+    errors.push(`${prefix}: must be an object`);
+    return errors;
+  }
+
+  const n = noiseModel as Record<string, unknown>;
+
+  if (typeof n.enabled !== 'boolean') {
+    errors.push(`${prefix}: enabled must be a boolean`);
+  }
+
+  errors.push(...validateNoiseChannels(n.defaultChannels, `${prefix} defaultChannels`));
+
+  if (n.gateChannels !== undefined) {
+    if (typeof n.gateChannels !== 'object' || n.gateChannels === null) {
+      errors.push(`${prefix}: gateChannels must be an object`);
+    } else {
+      for (const [gateId, channels] of Object.entries(n.gateChannels)) {
+        if (!GATE_DEFINITIONS[gateId]) {
+          errors.push(`${prefix}: unknown gate type "${gateId}" in gateChannels`);
+        }
+        errors.push(...validateNoiseChannels(channels, `${prefix} gateChannels.${gateId}`));
+      }
+    }
+  }
+
+  if (typeof n.readout !== 'object' || n.readout === null) {
+    errors.push(`${prefix}: readout must be an object`);
+  } else {
+    const r = n.readout as Record<string, unknown>;
+    if (!isProbability(r.flip0to1)) {
+      errors.push(`${prefix}: readout.flip0to1 must be a probability between 0 and 1`);
+    }
+    if (!isProbability(r.flip1to0)) {
+      errors.push(`${prefix}: readout.flip1to0 must be a probability between 0 and 1`);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate a circuit state (for runtime validation).
  */
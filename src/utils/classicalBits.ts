@@ -0,0 +1,87 @@
+/**
+ * Classical register helpers shared by the simulators, the canvas and QASM export.
+ */
+
+import { CircuitState, ClassicalCondition, GateInstance } from '../types/circuit';
+
+/**
+ * Size of the classical register. Circuits without an explicit size get
+ * one bit per qubit.
+ */
+export function getNumClbits(circuit: Pick<CircuitState, 'numQubits' | 'numClbits'>): number {
+  return circuit.numClbits ?? circuit.numQubits;
+}
+
+/**
+ * Classical bit written by a measurement gate.
+ */
+export function getMeasurementClbit(gate: GateInstance): number {
+  return gate.clbit ?? gate.target;
+}
+
+/**
+ * Classical bits a gate reads or writes: the bit a measurement writes and
+ * the bits its condition reads.
+ */
+export function getGateClbits(gate: GateInstance): number[] {
+  const clbits = gate.condition ? [...gate.condition.clbits] : [];
+  if (gate.gateId === 'M') clbits.push(getMeasurementClbit(gate));
+  return clbits;
+}
+
+/**
+ * Read the listed classical bits as an integer, clbits[0] being the least
+ * significant bit.
+ */
+export function readClassicalValue(bits: ArrayLike<number>, clbits: number[]): number {
+  return clbits.reduce((value, clbit, i) => value | ((bits[clbit] ?? 0) << i), 0);
+}
+
+/**
+ * Whether a classical condition holds for the current register contents.
+ */
+export function isConditionMet(condition: ClassicalCondition, bits: ArrayLike<number>): boolean {
+  return readClassicalValue(bits, condition.clbits) === condition.value;
+}
+
+/**
+ * Whether a condition reads the whole register in order, as OpenQASM 2 `if` does.
+ */
+export function isWholeRegisterCondition(condition: ClassicalCondition, numClbits: number): boolean {
+  return condition.clbits.length === numClbits && condition.clbits.every((clbit, i) => clbit === i);
+}
+
+/**
+ * Short label for a condition, e.g. "c==3" or "c[1]==1".
+ */
+export function formatCondition(condition: ClassicalCondition, numClbits: number): string {
+  if (isWholeRegisterCondition(condition, numClbits)) {
+    return `c==${condition.value}`;
+  }
+  return `c[${condition.clbits.join(',')}]==${condition.value}`;
+}
+
+/**
+ * Qubits measured implicitly at the end of a shot: qubit q is read into
+ * classical bit q when no gate measures it and no measurement writes bit q.
+ */
+export function getImplicitMeasurements(circuit: CircuitState): number[] {
+  const numClbits = getNumClbits(circuit);
+  const measuredQubits = new Set<number>();
+  const writtenClbits = new Set<number>();
+
+  for (const gate of circuit.gates) {
+    if (gate.gateId === 'M') {
+      measuredQubits.add(gate.target);
+      writtenClbits.add(getMeasurementClbit(gate));
+    }
+  }
+
+  const qubits: number[] = [];
+  for (let q = 0; q < Math.min(circuit.numQubits, numClbits); q++) {
+    if (!measuredQubits.has(q) && !writtenClbits.has(q)) {
+      qubits.push(q);
+    }
+  }
+  return qubits;
+}
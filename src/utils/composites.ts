@@ -0,0 +1,302 @@
+/**
+ * Composite gates: saved patterns placed as a single block. The simulators
+ * and exporters expand them into their gates, inverted (dagger) and with the
+ * block's controls added to every gate when the instance asks for it.
+ */
+
+import {
+  CircuitPattern,
+  CircuitState,
+  CompositeGateDefinition,
+  GateDefinition,
+  GateInstance,
+  PatternGate,
+} from '../types/circuit';
+import { GATE_DEFINITIONS, getGateOperands, isControllableGate } from './gateDefinitions';
+import { getGatesBoundingBox } from './repeaters';
+import { getGateExpressions } from './parameters';
+
+// Built-in gates whose dagger is another built-in gate
+const INVERSE_GATES: Record<string, string> = { S: 'Sdg', Sdg: 'S', T: 'Tdg', Tdg: 'T' };
+
+/**
+ * Definition of a gate id among a circuit's composite gates.
+ */
+export function findComposite(
+  composites: CompositeGateDefinition[] | undefined,
+  gateId: string
+): CompositeGateDefinition | undefined {
+  return composites?.find(definition => definition.id === gateId);
+}
+
+/**
+ * Gate definition for drawing a composite gate like the built-in ones.
+ */
+export function compositeGateDefinition(definition: CompositeGateDefinition): GateDefinition {
+  const count = definition.gates.length;
+  return {
+    id: definition.id,
+    name: definition.name,
+    symbol: definition.name.length > 4 ? definition.name.slice(0, 3) + '…' : definition.name,
+    category: 'composite',
+    numQubits: definition.qubitSpan,
+    description: `Block of ${count} gate${count !== 1 ? 's' : ''} on ${definition.qubitSpan} qubit${definition.qubitSpan !== 1 ? 's' : ''}`,
+    color: definition.color,
+  };
+}
+
+/**
+ * Composite definition of a pattern.
+ */
+export function compositeFromPattern(pattern: CircuitPattern): CompositeGateDefinition {
+  const { createdAt: _createdAt, composites: _composites, ...definition } = pattern;
+  return definition;
+}
+
+/**
+ * Definitions a circuit needs to hold a pattern as a block: the ones nested
+ * in it, then the pattern's own.
+ */
+export function getPatternComposites(pattern: CircuitPattern): CompositeGateDefinition[] {
+  return [...(pattern.composites ?? []), compositeFromPattern(pattern)];
+}
+
+/**
+ * Composite definitions used by some gates, directly or nested, in the order
+ * of the definition list.
+ */
+export function getUsedComposites(
+  gates: Array<{ gateId: string }>,
+  composites: CompositeGateDefinition[] | undefined
+): CompositeGateDefinition[] {
+  const used = new Set<string>();
+  const visit = (gateId: string) => {
+    const definition = findComposite(composites, gateId);
+    if (!definition || used.has(definition.id)) return;
+    used.add(definition.id);
+    definition.gates.forEach(g => visit(g.gateId));
+  };
+  gates.forEach(g => visit(g.gateId));
+  return (composites ?? []).filter(definition => used.has(definition.id));
+}
+
+/**
+ * Add definitions to a list, replacing older copies in place. Definitions
+ * only refer to ones listed before them, which keeps nesting acyclic.
+ */
+export function mergeComposites(
+  existing: CompositeGateDefinition[] | undefined,
+  added: CompositeGateDefinition[]
+): CompositeGateDefinition[] {
+  const current = existing ?? [];
+  return [
+    ...current.map(definition => added.find(d => d.id === definition.id) ?? definition),
+    ...added.filter(definition => !current.some(d => d.id === definition.id)),
+  ];
+}
+
+/**
+ * Whether a composite gate measures, directly or in a nested block. Such
+ * blocks have no inverse and cannot be controlled.
+ */
+export function compositeHasMeasurement(
+  definition: CompositeGateDefinition,
+  composites: CompositeGateDefinition[] | undefined
+): boolean {
+  return definition.gates.some(g => {
+    if (g.gateId === 'M') return true;
+    const nested = findComposite(composites, g.gateId);
+    return nested !== undefined && compositeHasMeasurement(nested, composites);
+  });
+}
+
+// Gate of a definition placed with its relative qubit j on qubits[j]
+function patternGateInstance(pg: PatternGate, qubits: number[], column: number): GateInstance {
+  return {
+    id: '',
+    gateId: pg.gateId,
+    target: qubits[pg.relativeTarget],
+    column,
+    ...(pg.relativeControl !== undefined && { control: qubits[pg.relativeControl] }),
+    ...(pg.relativeControls && { controls: pg.relativeControls.map(q => qubits[q]) }),
+    ...(pg.relativeOpenControls && { openControls: pg.relativeOpenControls.map(q => qubits[q]) }),
+    ...(pg.relativeTargets && { targets: pg.relativeTargets.map(q => qubits[q]) }),
+    ...(pg.angle !== undefined && { angle: pg.angle }),
+    ...(pg.angles !== undefined && { angles: pg.angles }),
+    ...(pg.inverse && { inverse: true }),
+  };
+}
+
+// Gates applying the dagger of a gate
+function invertGate(gate: GateInstance): GateInstance[] {
+  const { gateId } = gate;
+  if (gateId === 'M') throw new Error('A block with measurements has no inverse');
+  if (INVERSE_GATES[gateId]) return [{ ...gate, gateId: INVERSE_GATES[gateId] }];
+
+  switch (gateId) {
+    case 'Rx':
+    case 'Ry':
+    case 'Rz':
+    case 'P':
+      return [{ ...gate, angle: -(gate.angle ?? Math.PI) }];
+    case 'U': {
+      // U(θ, φ, λ)† = U(-θ, -λ, -φ)
+      const [theta, phi, lambda] = gate.angles ?? [gate.angle ?? Math.PI, 0, 0];
+      return [{ ...gate, angles: [-theta, -lambda, -phi] }];
+    }
+    case 'SX':
+      // SX† = H·S†·H
+      return ['H', 'Sdg', 'H'].map(id => ({ ...gate, gateId: id }));
+  }
+
+  // The remaining built-in gates are their own inverse
+  if (GATE_DEFINITIONS[gateId]) return [gate];
+
+  // Custom and composite gates carry the dagger themselves
+  const { inverse: _inverse, ...rest } = gate;
+  return [gate.inverse ? rest : { ...rest, inverse: true }];
+}
+
+// Gate with its controls replaced
+function withControls(
+  gate: GateInstance,
+  gateId: string,
+  target: number,
+  controls: number[],
+  openControls: number[]
+): GateInstance {
+  const { control: _control, controls: _controls, openControls: _openControls, ...rest } = gate;
+  return { ...rest, gateId, target, controls, ...(openControls.length > 0 && { openControls }) };
+}
+
+// Gates applying a gate only when the extra controls fire
+function controlGate(gate: GateInstance, extraControls: number[], extraOpenControls: number[]): GateInstance[] {
+  if (gate.gateId === 'M') throw new Error('A block with measurements cannot be controlled');
+  if (gate.gateId === 'I') return [gate];
+
+  const operands = getGateOperands(gate);
+  const controls = [...operands.controls, ...extraControls];
+  const openControls = [...(gate.openControls ?? []), ...extraOpenControls];
+
+  switch (gate.gateId) {
+    case 'CNOT':
+    case 'CCX':
+      return [withControls(gate, 'X', operands.targets[0], controls, openControls)];
+    case 'CZ':
+    case 'CCZ':
+      return [withControls(gate, 'Z', operands.targets[0], controls, openControls)];
+    case 'SWAP':
+    case 'CSWAP': {
+      // Three controlled NOTs, each also conditioned on the swap's other qubit
+      const [a, b] = operands.targets;
+      return [[b, a], [a, b], [b, a]].map(([target, control]) =>
+        withControls(gate, 'X', target, [...controls, control], openControls)
+      );
+    }
+  }
+
+  // Single-qubit, custom and composite gates take any number of controls
+  if (isControllableGate(gate.gateId) || !GATE_DEFINITIONS[gate.gateId]) {
+    return [withControls(gate, gate.gateId, gate.target, controls, openControls)];
+  }
+  throw new Error(`${gate.gateId} gates cannot be controlled`);
+}
+
+/**
+ * Gates of one composite instance, in the order they run, all in the
+ * instance's column. Nested composite gates are left for the next level.
+ * Throws when an inverted or controlled block contains a measurement.
+ */
+export function instantiateComposite(instance: GateInstance, definition: CompositeGateDefinition): GateInstance[] {
+  const qubits = instance.targets ?? [instance.target];
+  const body = [...definition.gates]
+    .sort((a, b) => a.relativeColumn - b.relativeColumn)
+    .map(pg => patternGateInstance(pg, qubits, instance.column));
+
+  let gates = instance.inverse ? body.reverse().flatMap(invertGate) : body;
+  const { controls } = getGateOperands(instance);
+  if (controls.length > 0) {
+    gates = gates.flatMap(gate => controlGate(gate, controls, instance.openControls ?? []));
+  }
+
+  return gates.map((gate, k) => ({
+    ...gate,
+    id: `${instance.id}_${k}`,
+    ...(instance.condition && { condition: instance.condition }),
+  }));
+}
+
+/**
+ * Replace every composite gate, at any depth, by its gates. The gates of a
+ * block share its column, in the order they run; later stages sort gates
+ * stably by column, so the editor's column numbering (which repeaters and the
+ * debugger refer to) is unchanged.
+ */
+export function expandComposites(circuit: CircuitState): CircuitState {
+  const { composites } = circuit;
+  if (!composites?.length) return circuit;
+
+  // Each pass removes one level of nesting, and there are at most as many
+  // levels as definitions
+  let gates = circuit.gates;
+  for (let pass = 0; pass <= composites.length && gates.some(g => findComposite(composites, g.gateId)); pass++) {
+    gates = gates.flatMap(gate => {
+      const definition = findComposite(composites, gate.gateId);
+      return definition ? instantiateComposite(gate, definition) : [gate];
+    });
+  }
+  return { ...circuit, gates };
+}
+
+/**
+ * Lay out the gates of an expanded block from a column on: each gate goes
+ * in the first column after the earlier gates that share its wires.
+ */
+export function layoutExpandedGates(gates: GateInstance[], column: number): GateInstance[] {
+  const nextColumn = new Map<number, number>();
+  return gates.map(gate => {
+    const { controls, targets } = getGateOperands(gate);
+    const qubits = [...controls, ...targets];
+    const wires = Array.from(
+      { length: Math.max(...qubits) - Math.min(...qubits) + 1 },
+      (_, k) => Math.min(...qubits) + k
+    );
+    const placed = Math.max(...wires.map(q => nextColumn.get(q) ?? column));
+    wires.forEach(q => nextColumn.set(q, placed + 1));
+    return { ...gate, column: placed };
+  });
+}
+
+/**
+ * Why some gates cannot be replaced by a single block, or null when they
+ * can. The block covers their bounding box, so no other gate may cross it.
+ */
+export function getCollapseBlocker(circuit: CircuitState, gateIds: Set<string>): string | null {
+  const selected = circuit.gates.filter(gate => gateIds.has(gate.id));
+  const box = getGatesBoundingBox(selected);
+  if (!box) return 'Select the gates to group first';
+
+  if (selected.some(gate => gate.condition || (gate.clbit !== undefined && gate.clbit !== gate.target))) {
+    return 'Classically conditioned gates and measurements into other bits cannot be grouped';
+  }
+  if (selected.some(gate => getGateExpressions(gate).length > 0)) {
+    return 'Gates with symbolic angles cannot be grouped';
+  }
+
+  const crossed = circuit.gates.some(gate => {
+    if (gateIds.has(gate.id) || gate.column < box.columnStart || gate.column > box.columnEnd) return false;
+    const { controls, targets } = getGateOperands(gate);
+    const qubits = [...controls, ...targets];
+    return Math.min(...qubits) <= box.qubitEnd && Math.max(...qubits) >= box.qubitStart;
+  });
+  if (crossed) return 'Other gates cross the area of the selection';
+
+  const cut = circuit.repeaters?.some(r =>
+    r.columnStart <= box.columnEnd && box.columnStart <= r.columnEnd &&
+    !(r.columnStart <= box.columnStart && r.columnEnd >= box.columnEnd &&
+      r.qubitStart <= box.qubitStart && r.qubitEnd >= box.qubitEnd)
+  );
+  if (cut) return 'A repeat block cuts through the selection';
+
+  return null;
+}
@@ -0,0 +1,192 @@
+/**
+ * User-defined gates: a matrix of complex expressions in named parameters,
+ * checked for unitarity and bound to numbers for simulation.
+ */
+
+import { Complex, CustomGateDefinition, GateDefinition, GateInstance } from '../types/circuit';
+import { GATE_DEFINITIONS } from './gateDefinitions';
+import {
+  evaluateComplexExpression,
+  getExpressionVariables,
+  isReservedName,
+  IMAGINARY_UNIT,
+} from './expression';
+
+export const MAX_CUSTOM_GATE_QUBITS = 3;
+
+// Largest entry of U†U - I accepted as unitary
+const UNITARITY_TOLERANCE = 1e-6;
+
+// Parameter values at which a parametrised matrix is checked
+const SAMPLE_VALUES = [0, 0.7, -1.3, 2.9];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const CUSTOM_GATE_COLOR = '#16A085';
+
+/**
+ * Check a custom gate name, returning an error message or null if it is usable.
+ */
+export function validateCustomGateName(name: string): string | null {
+  if (!NAME_PATTERN.test(name)) {
+    return `"${name}" is not a valid gate name (letters, digits and _, not starting with a digit)`;
+  }
+  if (GATE_DEFINITIONS[name]) {
+    return `"${name}" is a built-in gate`;
+  }
+  return null;
+}
+
+/**
+ * Parse matrix text with one row per line and entries separated by commas.
+ */
+export function parseMatrixText(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => line.split(',').map(entry => entry.trim()));
+}
+
+/**
+ * Matrix text of a definition, the inverse of parseMatrixText.
+ */
+export function formatMatrixText(matrix: string[][]): string {
+  return matrix.map(row => row.join(', ')).join('\n');
+}
+
+/**
+ * Evaluate a definition's matrix for the given parameter values, in the
+ * order of its parameter list. Throws ExpressionError for bad entries.
+ */
+export function evaluateCustomGateMatrix(definition: CustomGateDefinition, values: number[]): Complex[][] {
+  const variables = Object.fromEntries(definition.parameters.map((name, k) => [name, values[k] ?? 0]));
+  return definition.matrix.map(row => row.map(entry => evaluateComplexExpression(entry, variables)));
+}
+
+/**
+ * Largest deviation of U†U from the identity.
+ */
+function unitarityError(m: Complex[][]): number {
+  let worst = 0;
+  for (let r = 0; r < m.length; r++) {
+    for (let c = 0; c < m.length; c++) {
+      let re = r === c ? -1 : 0;
+      let im = 0;
+      for (let k = 0; k < m.length; k++) {
+        // conj(m[k][r]) · m[k][c]
+        re += m[k][r].re * m[k][c].re + m[k][r].im * m[k][c].im;
+        im += m[k][r].re * m[k][c].im - m[k][r].im * m[k][c].re;
+      }
+      worst = Math.max(worst, Math.hypot(re, im));
+    }
+  }
+  return worst;
+}
+
+/**
+ * Check a custom gate definition: its name, parameters, matrix shape and
+ * entries, and that the matrix is unitary. Parametrised matrices are checked
+ * at several parameter values. Returns an error message or null.
+ */
+export function validateCustomGate(definition: CustomGateDefinition): string | null {
+  const nameError = validateCustomGateName(definition.name);
+  if (nameError) return nameError;
+
+  const { numQubits, parameters, matrix } = definition;
+  if (!Number.isInteger(numQubits) || numQubits < 1 || numQubits > MAX_CUSTOM_GATE_QUBITS) {
+    return `A custom gate acts on 1 to ${MAX_CUSTOM_GATE_QUBITS} qubits`;
+  }
+
+  for (const name of parameters) {
+    if (!NAME_PATTERN.test(name)) return `"${name}" is not a valid parameter name`;
+    if (name === IMAGINARY_UNIT) return `"${IMAGINARY_UNIT}" is the imaginary unit and cannot be a parameter`;
+    if (isReservedName(name)) return `"${name}" is a built-in constant or function`;
+  }
+  if (new Set(parameters).size !== parameters.length) {
+    return 'Parameter names must be distinct';
+  }
+
+  const dim = 1 << numQubits;
+  if (matrix.length !== dim || matrix.some(row => row.length !== dim)) {
+    return `A ${numQubits}-qubit gate needs a ${dim} × ${dim} matrix`;
+  }
+
+  for (const entry of matrix.flat()) {
+    try {
+      const unknown = getExpressionVariables(entry)
+        .filter(name => name !== IMAGINARY_UNIT && !parameters.includes(name));
+      if (unknown.length > 0) return `"${entry}" uses undefined name${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}`;
+    } catch (e) {
+      return `"${entry}" is invalid: ${(e as Error).message}`;
+    }
+  }
+
+  const samples = parameters.length === 0 ? 1 : SAMPLE_VALUES.length;
+  for (let s = 0; s < samples; s++) {
+    // Offset by the parameter index so that parameters take different values
+    const values = parameters.map((_, k) => SAMPLE_VALUES[(s + k) % SAMPLE_VALUES.length]);
+    const m = evaluateCustomGateMatrix(definition, values);
+    if (m.flat().some(z => !Number.isFinite(z.re) || !Number.isFinite(z.im))) {
+      return 'The matrix has entries that are not finite numbers';
+    }
+    const error = unitarityError(m);
+    if (error > UNITARITY_TOLERANCE) {
+      const at = parameters.length > 0
+        ? ` at ${parameters.map((name, k) => `${name} = ${values[k].toFixed(2)}`).join(', ')}`
+        : '';
+      return `The matrix is not unitary${at}: U†U differs from I by ${error.toExponential(1)}. ` +
+        'Write irrational entries exactly, e.g. 1/sqrt(2)';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Definition of a gate id among a circuit's custom gates.
+ */
+export function findCustomGate(
+  customGates: CustomGateDefinition[] | undefined,
+  gateId: string
+): CustomGateDefinition | undefined {
+  return customGates?.find(definition => definition.name === gateId);
+}
+
+/**
+ * Parameter values of a custom gate instance: its angle for a single
+ * parameter, its angles for several, each defaulting to π.
+ */
+export function getCustomGateArguments(gate: GateInstance, definition: CustomGateDefinition): number[] {
+  const count = definition.parameters.length;
+  if (count === 1) return [gate.angle ?? Math.PI];
+  return Array.from({ length: count }, (_, k) => gate.angles?.[k] ?? Math.PI);
+}
+
+/**
+ * Gate definition for drawing a custom gate like the built-in ones.
+ */
+export function customGateDefinition(definition: CustomGateDefinition): GateDefinition {
+  return {
+    id: definition.name,
+    name: definition.name,
+    symbol: definition.symbol || definition.name,
+    category: 'custom',
+    numQubits: definition.numQubits,
+    ...(definition.parameters.length === 1 && { hasAngle: true }),
+    ...(definition.parameters.length > 1 && { hasMultipleAngles: true }),
+    description: definition.description || `Custom ${definition.numQubits}-qubit gate`,
+    color: CUSTOM_GATE_COLOR,
+  };
+}
+
+/**
+ * Built-in or custom definition of a gate id.
+ */
+export function resolveGateDefinition(
+  gateId: string,
+  customGates: CustomGateDefinition[] | undefined
+): GateDefinition | undefined {
+  const custom = findCustomGate(customGates, gateId);
+  return GATE_DEFINITIONS[gateId] ?? (custom && customGateDefinition(custom));
+}
@@ -0,0 +1,411 @@
+/**
+ * Arithmetic expression parser and evaluator for gate angles.
+ * Supports numbers, named constants (pi, tau, euler), variables,
+ * + - * / ^ operators, parentheses and common math functions.
+ */
+
+import { Complex } from '../types/circuit';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'identifier'; name: string; offset: number }
+  | { type: 'unary'; op: '+' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; offset: number };
+
+/**
+ * Error raised for malformed or unevaluable expressions.
+ * `offset` is the character position in the source string.
+ */
+export class ExpressionError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.offset = offset;
+  }
+}
+
+// Built-in constants
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  tau: 2 * Math.PI,
+  'τ': 2 * Math.PI,
+  euler: Math.E,
+};
+
+// Built-in single-argument functions
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+};
+
+type Token =
+  | { kind: 'number'; value: number; offset: number }
+  | { kind: 'identifier'; name: string; offset: number }
+  | { kind: 'symbol'; symbol: string; offset: number }
+  | { kind: 'end'; offset: number };
+
+const IDENTIFIER_START = /[A-Za-z_πτθφλαβγ]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_πτθφλαβγ]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError(`Invalid number`, i);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), offset: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(ch)) {
+      let j = i + 1;
+      while (j < source.length && IDENTIFIER_PART.test(source[j])) j++;
+      tokens.push({ kind: 'identifier', name: source.slice(i, j), offset: i });
+      i = j;
+      continue;
+    }
+
+    if (ch === '*' && source[i + 1] === '*') {
+      tokens.push({ kind: 'symbol', symbol: '^', offset: i });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ kind: 'symbol', symbol: ch, offset: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ kind: 'end', offset: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list.
+ * Grammar (lowest to highest precedence):
+ *   sum     := product (('+' | '-') product)*
+ *   product := unary (('*' | '/') unary)*
+ *   unary   := ('+' | '-') unary | power
+ *   power   := primary ('^' unary)?
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseSum();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ExpressionError('Unexpected input after expression', token.offset);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token.kind === 'symbol' && token.symbol === symbol;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.isSymbol(symbol)) {
+      throw new ExpressionError(`Expected "${symbol}"`, this.peek().offset);
+    }
+    this.pos++;
+  }
+
+  private parseSum(): ExpressionNode {
+    let left = this.parseProduct();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const op = (this.tokens[this.pos++] as { symbol: '+' | '-' }).symbol;
+      left = { type: 'binary', op, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const op = (this.tokens[this.pos++] as { symbol: '*' | '/' }).symbol;
+      left = { type: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isSymbol('+') || this.isSymbol('-')) {
+      const op = (this.tokens[this.pos++] as { symbol: '+' | '-' }).symbol;
+      return { type: 'unary', op, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isSymbol('^')) {
+      this.pos++;
+      return { type: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.kind === 'number') {
+      this.pos++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'identifier') {
+      this.pos++;
+      if (this.isSymbol('(')) {
+        this.pos++;
+        const args: ExpressionNode[] = [this.parseSum()];
+        while (this.isSymbol(',')) {
+          this.pos++;
+          args.push(this.parseSum());
+        }
+        this.expectSymbol(')');
+        return { type: 'call', name: token.name, args, offset: token.offset };
+      }
+      return { type: 'identifier', name: token.name, offset: token.offset };
+    }
+
+    if (this.isSymbol('(')) {
+      this.pos++;
+      const inner = this.parseSum();
+      this.expectSymbol(')');
+      return inner;
+    }
+
+    throw new ExpressionError(
+      token.kind === 'end' ? 'Unexpected end of expression' : 'Expected a number, name or "("',
+      token.offset
+    );
+  }
+}
+
+/**
+ * Parse an expression string into an AST.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Evaluate an expression (string or parsed AST) with the given variable values.
+ */
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  variables: Record<string, number> = {}
+): number {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'identifier':
+      if (Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        return variables[node.name];
+      }
+      if (CONSTANTS[node.name] !== undefined) {
+        return CONSTANTS[node.name];
+      }
+      throw new ExpressionError(`Unknown name "${node.name}"`, node.offset);
+    case 'unary': {
+      const value = evaluateExpression(node.operand, variables);
+      return node.op === '-' ? -value : value;
+    }
+    case 'binary': {
+      const left = evaluateExpression(node.left, variables);
+      const right = evaluateExpression(node.right, variables);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+      break;
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) {
+        throw new ExpressionError(`Unknown function "${node.name}"`, node.offset);
+      }
+      if (node.args.length !== 1) {
+        throw new ExpressionError(`${node.name}() takes exactly one argument`, node.offset);
+      }
+      return fn(evaluateExpression(node.args[0], variables));
+    }
+  }
+
+  throw new ExpressionError('Invalid expression', 0);
+}
+
+// Name of the imaginary unit in complex expressions
+export const IMAGINARY_UNIT = 'i';
+
+const complexExp = ({ re, im }: Complex): Complex => ({
+  re: Math.exp(re) * Math.cos(im),
+  im: Math.exp(re) * Math.sin(im),
+});
+
+const complexMul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+const complexDiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+
+// Principal power z^w = exp(w·log z)
+function complexPow(z: Complex, w: Complex): Complex {
+  if (z.im === 0 && w.im === 0 && (z.re >= 0 || Number.isInteger(w.re))) {
+    return { re: Math.pow(z.re, w.re), im: 0 };
+  }
+  if (z.re === 0 && z.im === 0) return { re: 0, im: 0 };
+  const log = { re: Math.log(Math.hypot(z.re, z.im)), im: Math.atan2(z.im, z.re) };
+  return complexExp(complexMul(w, log));
+}
+
+// Functions that also take complex arguments
+const COMPLEX_FUNCTIONS: Record<string, (z: Complex) => Complex> = {
+  exp: complexExp,
+  sqrt: z => complexPow(z, { re: 0.5, im: 0 }),
+  sin: ({ re, im }) => ({ re: Math.sin(re) * Math.cosh(im), im: Math.cos(re) * Math.sinh(im) }),
+  cos: ({ re, im }) => ({ re: Math.cos(re) * Math.cosh(im), im: -Math.sin(re) * Math.sinh(im) }),
+  abs: ({ re, im }) => ({ re: Math.hypot(re, im), im: 0 }),
+  conj: ({ re, im }) => ({ re, im: -im }),
+};
+
+/**
+ * Evaluate an expression over the complex numbers, with `i` as the imaginary
+ * unit. Variables are real. Real arguments of the math functions behave as in
+ * evaluateExpression, except that sqrt of a negative number is imaginary.
+ */
+export function evaluateComplexExpression(
+  expression: string | ExpressionNode,
+  variables: Record<string, number> = {}
+): Complex {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+
+  switch (node.type) {
+    case 'number':
+      return { re: node.value, im: 0 };
+    case 'identifier':
+      if (node.name === IMAGINARY_UNIT) return { re: 0, im: 1 };
+      return { re: evaluateExpression(node, variables), im: 0 };
+    case 'unary': {
+      const value = evaluateComplexExpression(node.operand, variables);
+      return node.op === '-' ? { re: -value.re, im: -value.im } : value;
+    }
+    case 'binary': {
+      const left = evaluateComplexExpression(node.left, variables);
+      const right = evaluateComplexExpression(node.right, variables);
+      switch (node.op) {
+        case '+': return { re: left.re + right.re, im: left.im + right.im };
+        case '-': return { re: left.re - right.re, im: left.im - right.im };
+        case '*': return complexMul(left, right);
+        case '/': return complexDiv(left, right);
+        case '^': return complexPow(left, right);
+      }
+      break;
+    }
+    case 'call': {
+      if (node.args.length !== 1) {
+        throw new ExpressionError(`${node.name}() takes exactly one argument`, node.offset);
+      }
+      const arg = evaluateComplexExpression(node.args[0], variables);
+      const complexFn = COMPLEX_FUNCTIONS[node.name];
+      if (complexFn && (arg.im !== 0 || node.name === 'sqrt' || node.name === 'conj')) {
+        return complexFn(arg);
+      }
+      const fn = FUNCTIONS[node.name];
+      if (!fn) {
+        throw new ExpressionError(`Unknown function "${node.name}"`, node.offset);
+      }
+      if (arg.im !== 0) {
+        throw new ExpressionError(`${node.name}() takes a real argument`, node.offset);
+      }
+      return { re: fn(arg.re), im: 0 };
+    }
+  }
+
+  throw new ExpressionError('Invalid expression', 0);
+}
+
+/**
+ * Collect the free variable names used in an expression (constants excluded).
+ */
+export function getExpressionVariables(expression: string | ExpressionNode): string[] {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+  const names = new Set<string>();
+
+  const visit = (n: ExpressionNode) => {
+    switch (n.type) {
+      case 'identifier':
+        if (CONSTANTS[n.name] === undefined) names.add(n.name);
+        break;
+      case 'unary':
+        visit(n.operand);
+        break;
+      case 'binary':
+        visit(n.left);
+        visit(n.right);
+        break;
+      case 'call':
+        n.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return [...names];
+}
+
+/**
+ * Whether a name is taken by a built-in constant or function.
+ */
+export function isReservedName(name: string): boolean {
+  return CONSTANTS[name] !== undefined || FUNCTIONS[name] !== undefined;
+}
@@ -2,7 +2,7 @@
  * Gate definitions for the quantum circuit builder.
  */
 
-import { GateDefinition } from '../types/circuit';
+import { GateDefinition, GateInstance } from '../types/circuit';
 
 export const GATE_DEFINITIONS: Record<string, GateDefinition> = {
   // Single-qubit Clifford gates
@@ -246,6 +246,12 @@ export const GATE_CATEGORIES = [
     name: 'Measurement',
     gates: ['M'],
   },
+  {
+    // Filled from the user's custom gate library
+    id: 'custom',
+    name: 'Custom',
+    gates: [],
+  },
 ];
 
 // Common angle presets
@@ -283,3 +289,44 @@ export function formatAngle(angle: number): string {
 
   return angle.toFixed(2);
 }
+
+/**
+ * Control and target qubits of a gate instance.
+ */
+export interface GateOperands {
+  controls: number[];
+  targets: number[];
+}
+
+/**
+ * Resolve the qubits a gate acts on, applying the same defaults the simulator
+ * uses when the optional control fields are missing.
+ */
+export function getGateOperands(gate: GateInstance): GateOperands {
+  const { gateId, target, control, controls } = gate;
+
+  switch (gateId) {
+    case 'CNOT':
+    case 'CZ':
+      return { controls: [control ?? target - 1], targets: [target] };
+    case 'SWAP':
+      return { controls: [], targets: [target, control ?? target + 1] };
+    case 'CCX':
+    case 'CCZ':
+      return { controls: controls ?? [target - 2, target - 1], targets: [target] };
+    case 'CSWAP':
+      // Fredkin gate: one control, swap targets are the two qubits ending at target
+      return { controls: [control ?? target - 2], targets: [target - 1, target] };
+    default:
+      // Single-qubit gates with added controls, and custom gates
+      return { controls: controls ?? [], targets: gate.targets ?? [target] };
+  }
+}
+
+/**
+ * Whether controls can be added to a gate: any single-qubit unitary gate.
+ */
+export function isControllableGate(gateId: string): boolean {
+  const definition = GATE_DEFINITIONS[gateId];
+  return definition !== undefined && definition.numQubits === 1 && gateId !== 'M' && gateId !== 'I';
+}
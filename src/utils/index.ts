@@ -8,10 +8,111 @@ export {
   ANGLE_PRESETS,
   getGateDefinition,
   formatAngle,
+  getGateOperands,
+  isControllableGate,
+  type GateOperands,
 } from './gateDefinitions';
 
+export {
+  getNumClbits,
+  getMeasurementClbit,
+  getGateClbits,
+  readClassicalValue,
+  isConditionMet,
+  isWholeRegisterCondition,
+  formatCondition,
+  getImplicitMeasurements,
+} from './classicalBits';
+
+export {
+  getRepeaterWidth,
+  isGateInRepeater,
+  getRepeaterGates,
+  repeatersOverlap,
+  getGatesBoundingBox,
+  expandRepeaters,
+  getExpandedColumn,
+} from './repeaters';
+
+export {
+  validateParameterName,
+  getGateExpressions,
+  getGateParameters,
+  getUsedParameters,
+  bindGate,
+  bindParameters,
+} from './parameters';
+
 export {
   validateSavedCircuit,
   validateCircuitState,
   type ValidationResult,
 } from './circuitValidator';
+
+export {
+  exportToQasm,
+  formatQasmAngle,
+  type QasmVersion,
+  type QasmExportOptions,
+} from './qasmExporter';
+
+export {
+  parseQasm,
+  type QasmImportResult,
+} from './qasmParser';
+
+export {
+  parseExpression,
+  evaluateExpression,
+  evaluateComplexExpression,
+  getExpressionVariables,
+  isReservedName,
+  ExpressionError,
+  type ExpressionNode,
+} from './expression';
+
+export {
+  MAX_CUSTOM_GATE_QUBITS,
+  validateCustomGateName,
+  validateCustomGate,
+  parseMatrixText,
+  formatMatrixText,
+  evaluateCustomGateMatrix,
+  findCustomGate,
+  getCustomGateArguments,
+  customGateDefinition,
+  resolveGateDefinition,
+} from './customGates';
+
+export {
+  findComposite,
+  compositeGateDefinition,
+  compositeFromPattern,
+  getPatternComposites,
+  getUsedComposites,
+  mergeComposites,
+  compositeHasMeasurement,
+  instantiateComposite,
+  expandComposites,
+  layoutExpandedGates,
+  getCollapseBlocker,
+} from './composites';
+
+export { unitaryToCsv, unitaryToNpy } from './matrixExport';
+
+export { circuitFromSaved, circuitToSaved } from './savedCircuit';
+
+export {
+  getCircuitDepth,
+  getCircuitSize,
+  getCircuitMetrics,
+  type CircuitSize,
+  type CircuitMetrics,
+} from './circuitMetrics';
+
+export {
+  optimizeCircuit,
+  DEFAULT_OPTIMIZATION_PASSES,
+  type OptimizationPasses,
+  type OptimizationReport,
+} from './circuitOptimizer';
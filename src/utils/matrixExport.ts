@@ -0,0 +1,62 @@
+/**
+ * Export of unitary matrices as CSV or NumPy `.npy` files.
+ */
+
+import { UnitaryMatrix } from '../types/circuit';
+
+/**
+ * Format a complex number as NumPy parses it, e.g. "0.7071067811865476-0.5j".
+ */
+function formatComplex(re: number, im: number): string {
+  return `${re}${im < 0 || Object.is(im, -0) ? '-' : '+'}${Math.abs(im)}j`;
+}
+
+/**
+ * One CSV row per matrix row, entries like "0.5+0.5j"; readable with
+ * `numpy.loadtxt(path, delimiter=',', dtype=complex)`.
+ */
+export function unitaryToCsv(matrix: UnitaryMatrix): string {
+  const dim = 1 << matrix.numQubits;
+  const rows: string[] = [];
+  for (let r = 0; r < dim; r++) {
+    const entries: string[] = [];
+    for (let c = 0; c < dim; c++) {
+      entries.push(formatComplex(matrix.real[r * dim + c], matrix.imag[r * dim + c]));
+    }
+    rows.push(entries.join(','));
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Version 1.0 `.npy` file holding a C-ordered complex128 array of shape
+ * (2^n, 2^n); load with `numpy.load(path)`.
+ */
+export function unitaryToNpy(matrix: UnitaryMatrix): ArrayBuffer {
+  const dim = 1 << matrix.numQubits;
+  const magic = '\x93NUMPY';
+  let header = `{'descr': '<c16', 'fortran_order': False, 'shape': (${dim}, ${dim}), }`;
+
+  // Magic (6) + version (2) + header length (2) + header must be a multiple of 64 bytes
+  const preamble = magic.length + 4;
+  const padding = 64 - ((preamble + header.length + 1) % 64);
+  header += ' '.repeat(padding % 64) + '\n';
+
+  const buffer = new ArrayBuffer(preamble + header.length + dim * dim * 16);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < magic.length; i++) bytes[i] = magic.charCodeAt(i);
+  bytes[6] = 1;  // Major version
+  bytes[7] = 0;  // Minor version
+  view.setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) bytes[preamble + i] = header.charCodeAt(i);
+
+  let offset = preamble + header.length;
+  for (let i = 0; i < dim * dim; i++) {
+    view.setFloat64(offset, matrix.real[i], true);
+    view.setFloat64(offset + 8, matrix.imag[i], true);
+    offset += 16;
+  }
+  return buffer;
+}
@@ -0,0 +1,95 @@
+/**
+ * Symbolic circuit parameters. Gate angles may be expressions over named
+ * parameters; the simulators and exporters work on the bound circuit.
+ */
+
+import { CircuitState, Complex, GateInstance } from '../types/circuit';
+import { evaluateExpression, getExpressionVariables, isReservedName } from './expression';
+import { evaluateCustomGateMatrix, findCustomGate, getCustomGateArguments } from './customGates';
+
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check a parameter name, returning an error message or null if it is usable.
+ */
+export function validateParameterName(name: string): string | null {
+  if (!PARAMETER_NAME_PATTERN.test(name)) {
+    return `"${name}" is not a valid name (letters, digits and _, not starting with a digit)`;
+  }
+  if (isReservedName(name)) {
+    return `"${name}" is a built-in constant or function`;
+  }
+  return null;
+}
+
+/**
+ * Angle expressions of a gate (empty when its angles are plain numbers).
+ */
+export function getGateExpressions(gate: Pick<GateInstance, 'angleExpression' | 'angleExpressions'>): string[] {
+  if (gate.angleExpressions) return gate.angleExpressions;
+  if (gate.angleExpression !== undefined) return [gate.angleExpression];
+  return [];
+}
+
+/**
+ * Parameter names a gate's angles depend on.
+ */
+export function getGateParameters(gate: Pick<GateInstance, 'angleExpression' | 'angleExpressions'>): string[] {
+  const names = new Set<string>();
+  for (const expression of getGateExpressions(gate)) {
+    getExpressionVariables(expression).forEach(name => names.add(name));
+  }
+  return [...names];
+}
+
+/**
+ * Parameter names used by any gate of the circuit.
+ */
+export function getUsedParameters(gates: GateInstance[]): Set<string> {
+  const names = new Set<string>();
+  for (const gate of gates) {
+    getGateParameters(gate).forEach(name => names.add(name));
+  }
+  return names;
+}
+
+/**
+ * Evaluate a gate's angle expressions. Throws ExpressionError for
+ * malformed expressions or unknown names.
+ */
+export function bindGate(gate: GateInstance, values: Record<string, number>): GateInstance {
+  if (gate.angleExpressions) {
+    return { ...gate, angles: gate.angleExpressions.map(e => evaluateExpression(e, values)) };
+  }
+  if (gate.angleExpression !== undefined) {
+    return { ...gate, angle: evaluateExpression(gate.angleExpression, values) };
+  }
+  return gate;
+}
+
+// Conjugate transpose of a matrix
+function dagger(matrix: Complex[][]): Complex[][] {
+  return matrix.map((row, r) => row.map((_, c) => ({ re: matrix[c][r].re, im: -matrix[c][r].im })));
+}
+
+/**
+ * Bind every symbolic angle to the circuit's current parameter values, and
+ * attach the evaluated matrix to each custom gate (its dagger when inverted).
+ */
+export function bindParameters(circuit: CircuitState): CircuitState {
+  const values = circuit.parameters ?? {};
+  const { customGates } = circuit;
+  if (!customGates?.length && !circuit.gates.some(g => g.angleExpression !== undefined || g.angleExpressions)) {
+    return circuit;
+  }
+  return {
+    ...circuit,
+    gates: circuit.gates.map(gate => {
+      const bound = bindGate(gate, values);
+      const custom = findCustomGate(customGates, gate.gateId);
+      if (!custom) return bound;
+      const matrix = evaluateCustomGateMatrix(custom, getCustomGateArguments(bound, custom));
+      return { ...bound, matrix: gate.inverse ? dagger(matrix) : matrix };
+    }),
+  };
+}
@@ -199,13 +199,13 @@ export const PRESET_CIRCUITS: PresetCircuit[] = [
   {
     version: '1.0',
     name: 'Quantum Teleportation',
-    description: 'Teleports quantum state from q0 to q2 using entanglement and classical communication.',
+    description: 'Teleports quantum state from q0 to q2 using entanglement and classical communication. The state Ry(π/3)|0⟩ arrives on q2, which reads 1 about 25% of the time.',
     category: 'teleportation',
     difficulty: 'intermediate',
     numQubits: 3,
     gates: [
-      // Prepare state to teleport (|+⟩ state as example)
-      { gate: 'H', target: 0 },
+      // Prepare state to teleport (Ry(π/3)|0⟩ as example)
+      { gate: 'Ry', target: 0, angle: Math.PI / 3 },
       // Create Bell pair between q1 and q2
       { gate: 'H', target: 1 },
       { gate: 'CNOT', target: 2, control: 1 },
@@ -214,9 +214,9 @@ export const PRESET_CIRCUITS: PresetCircuit[] = [
       { gate: 'H', target: 0 },
       { gate: 'M', target: 0 },
       { gate: 'M', target: 1 },
-      // Corrections on q2 (classically controlled, shown unconditionally)
-      { gate: 'X', target: 2 }, // If q1 measured 1
-      { gate: 'Z', target: 2 }, // If q0 measured 1
+      // Corrections on q2, fed forward from the measurement results
+      { gate: 'X', target: 2, condition: { clbits: [1], value: 1 } },
+      { gate: 'Z', target: 2, condition: { clbits: [0], value: 1 } },
     ],
     createdAt: '2024-01-01T00:00:00.000Z',
     updatedAt: '2024-01-01T00:00:00.000Z',
@@ -282,10 +282,13 @@ export const PRESET_CIRCUITS: PresetCircuit[] = [
       { gate: 'CNOT', target: 2, control: 0 },
       // Error occurs here (example: X error on q1)
       { gate: 'X', target: 1 },
-      // Decode and correct
+      // Decode: q1 and q2 now hold the error syndrome
       { gate: 'CNOT', target: 1, control: 0 },
       { gate: 'CNOT', target: 2, control: 0 },
-      // Toffoli would correct q0 based on q1,q2 (simplified here)
+      { gate: 'M', target: 1 },
+      { gate: 'M', target: 2 },
+      // Correct q0 when both syndrome bits are set
+      { gate: 'X', target: 0, condition: { clbits: [1, 2], value: 3 } },
     ],
     createdAt: '2024-01-01T00:00:00.000Z',
     updatedAt: '2024-01-01T00:00:00.000Z',
@@ -306,12 +309,16 @@ export const PRESET_CIRCUITS: PresetCircuit[] = [
       { gate: 'H', target: 2 },
       // Error occurs here (example: Z error on q1)
       { gate: 'Z', target: 1 },
-      // Decode
+      // Decode: q1 and q2 now hold the error syndrome
       { gate: 'H', target: 0 },
       { gate: 'H', target: 1 },
       { gate: 'H', target: 2 },
       { gate: 'CNOT', target: 1, control: 0 },
       { gate: 'CNOT', target: 2, control: 0 },
+      { gate: 'M', target: 1 },
+      { gate: 'M', target: 2 },
+      // Correct q0 when both syndrome bits are set
+      { gate: 'X', target: 0, condition: { clbits: [1, 2], value: 3 } },
     ],
     createdAt: '2024-01-01T00:00:00.000Z',
     updatedAt: '2024-01-01T00:00:00.000Z',
@@ -0,0 +1,335 @@
+/**
+ * OpenQASM 2.0 / 3.0 export for circuits built in the editor.
+ */
+
+import { CircuitState, ClassicalCondition, GateInstance } from '../types/circuit';
+import { GATE_DEFINITIONS, getGateOperands, isControllableGate } from './gateDefinitions';
+import {
+  getImplicitMeasurements,
+  getMeasurementClbit,
+  getNumClbits,
+  isWholeRegisterCondition,
+} from './classicalBits';
+import { expandRepeaters } from './repeaters';
+import { expandComposites } from './composites';
+import { bindParameters } from './parameters';
+
+export type QasmVersion = '2.0' | '3.0';
+
+export interface QasmExportOptions {
+  version?: QasmVersion;
+  // Append measurements for qubits that are never measured,
+  // matching the implicit final measurement done by the simulator
+  includeFinalMeasurements?: boolean;
+}
+
+// Denominators tried when rendering angles as rational multiples of pi
+const PI_DENOMINATORS = [1, 2, 3, 4, 6, 8, 12, 16, 32, 64];
+
+/**
+ * Format an angle as a QASM expression, using multiples of pi where exact.
+ */
+export function formatQasmAngle(angle: number): string {
+  if (Math.abs(angle) < 1e-12) return '0';
+
+  const multiple = angle / Math.PI;
+  for (const den of PI_DENOMINATORS) {
+    const num = Math.round(multiple * den);
+    if (num !== 0 && Math.abs(multiple * den - num) < 1e-9) {
+      const sign = num < 0 ? '-' : '';
+      const absNum = Math.abs(num);
+      const numerator = absNum === 1 ? 'pi' : `${absNum}*pi`;
+      return den === 1 ? `${sign}${numerator}` : `${sign}${numerator}/${den}`;
+    }
+  }
+
+  return angle.toString();
+}
+
+function qubitRef(q: number): string {
+  return `q[${q}]`;
+}
+
+// Classical register declared in the exported source
+interface ClassicalRegister {
+  name: string;
+  offset: number;
+  size: number;
+}
+
+/**
+ * Split the classical bits into registers for export. OpenQASM 2.0 `if` only
+ * compares a whole register, so each set of bits read by a condition becomes
+ * its own register; this needs the sets to be disjoint runs of consecutive bits.
+ */
+function layoutClassicalRegisters(circuit: CircuitState, version: QasmVersion): ClassicalRegister[] {
+  const numClbits = getNumClbits(circuit);
+  const conditions = circuit.gates.flatMap(g => (g.condition ? [g.condition] : []));
+  if (version === '3.0' || conditions.every(c => isWholeRegisterCondition(c, numClbits))) {
+    return [{ name: 'c', offset: 0, size: numClbits }];
+  }
+
+  const owner = new Array<ClassicalRegister | null>(numClbits).fill(null);
+  for (const { clbits } of conditions) {
+    const offset = clbits[0];
+    const isRun = clbits.every((clbit, i) => clbit === offset + i);
+    const existing = owner[offset];
+    const matches = existing?.offset === offset && existing.size === clbits.length;
+    if (!isRun || (!matches && clbits.some(clbit => owner[clbit] !== null))) {
+      throw new Error(
+        'OpenQASM 2.0 can only condition on disjoint runs of consecutive classical bits; export as 3.0 instead'
+      );
+    }
+    if (!matches) {
+      const register = { name: `c${offset}`, offset, size: clbits.length };
+      clbits.forEach(clbit => { owner[clbit] = register; });
+    }
+  }
+
+  // Bits outside every condition get single-bit registers
+  const registers: ClassicalRegister[] = [];
+  for (let b = 0; b < numClbits; b++) {
+    const register = owner[b] ?? { name: `c${b}`, offset: b, size: 1 };
+    if (register.offset === b) registers.push(register);
+  }
+  return registers;
+}
+
+function clbitRef(clbit: number, registers: ClassicalRegister[]): string {
+  const register = registers.find(r => clbit >= r.offset && clbit < r.offset + r.size) ?? registers[0];
+  return `${register.name}[${clbit - register.offset}]`;
+}
+
+function measureStatement(qubit: number, clbit: number, version: QasmVersion, registers: ClassicalRegister[]): string {
+  return version === '2.0'
+    ? `measure q[${qubit}] -> ${clbitRef(clbit, registers)};`
+    : `c[${clbit}] = measure q[${qubit}];`;
+}
+
+/**
+ * Guard prefix for a classically conditioned statement.
+ */
+function conditionPrefix(
+  condition: ClassicalCondition,
+  numClbits: number,
+  version: QasmVersion,
+  registers: ClassicalRegister[]
+): string {
+  if (version === '2.0') {
+    const register = registers.find(r => r.offset === condition.clbits[0]) ?? registers[0];
+    return `if(${register.name}==${condition.value}) `;
+  }
+  if (isWholeRegisterCondition(condition, numClbits)) {
+    return `if (c == ${condition.value}) `;
+  }
+  const tests = condition.clbits.map((clbit, i) => `c[${clbit}] == ${(condition.value >> i) & 1}`);
+  return `if (${tests.join(' && ')}) `;
+}
+
+// Simple one-qubit gates that share a name in both versions
+const SIMPLE_GATES: Record<string, string> = {
+  H: 'h',
+  X: 'x',
+  Y: 'y',
+  Z: 'z',
+  S: 's',
+  Sdg: 'sdg',
+  T: 't',
+  Tdg: 'tdg',
+  SX: 'sx',
+  I: 'id',
+};
+
+// Gates with one angle parameter
+const ROTATION_GATES: Record<string, string> = {
+  Rx: 'rx',
+  Ry: 'ry',
+  Rz: 'rz',
+};
+
+// Phase gates written as u1 when controlled in OpenQASM 2.0
+const PHASE_ANGLES: Record<string, number> = {
+  S: Math.PI / 2,
+  Sdg: -Math.PI / 2,
+  T: Math.PI / 4,
+  Tdg: -Math.PI / 4,
+};
+
+/**
+ * Name and parameters of a single-qubit gate, e.g. `rx(pi/2)`.
+ */
+function singleQubitCall(gate: GateInstance, version: QasmVersion): string {
+  const { gateId } = gate;
+  if (SIMPLE_GATES[gateId]) {
+    return SIMPLE_GATES[gateId];
+  }
+  if (ROTATION_GATES[gateId]) {
+    return `${ROTATION_GATES[gateId]}(${formatQasmAngle(gate.angle ?? Math.PI)})`;
+  }
+  if (gateId === 'P') {
+    const lambda = formatQasmAngle(gate.angle ?? Math.PI);
+    return version === '2.0' ? `u1(${lambda})` : `p(${lambda})`;
+  }
+  if (gateId === 'U') {
+    const [theta, phi, lambda] = (gate.angles ?? [gate.angle ?? Math.PI, 0, 0]).map(formatQasmAngle);
+    return version === '2.0' ? `u3(${theta}, ${phi}, ${lambda})` : `U(${theta}, ${phi}, ${lambda})`;
+  }
+  throw new Error(`Gate "${gateId}" cannot be exported to OpenQASM`);
+}
+
+/**
+ * Statements of a single-qubit gate with added controls. OpenQASM 3.0 uses
+ * `ctrl @` / `negctrl @` modifiers; 2.0 is limited to the qelib1.inc
+ * controlled gates, with open controls flipped by X gates around them.
+ */
+function controlledGateToQasm(gate: GateInstance, controls: number[], version: QasmVersion): string[] {
+  const { gateId } = gate;
+  const open = gate.openControls ?? [];
+  const qubits = [...controls, gate.target].map(qubitRef).join(', ');
+
+  if (version === '3.0') {
+    const modifiers = controls.map(q => (open.includes(q) ? 'negctrl @ ' : 'ctrl @ ')).join('');
+    return [`${modifiers}${singleQubitCall(gate, version)} ${qubits};`];
+  }
+
+  const statements = (): string[] => {
+    if (controls.length === 2 && gateId === 'X') {
+      return [`ccx ${qubits};`];
+    }
+    if (controls.length === 2 && gateId === 'Z') {
+      const target = qubitRef(gate.target);
+      return [`h ${target};`, `ccx ${qubits};`, `h ${target};`];
+    }
+    if (controls.length === 1) {
+      if (PHASE_ANGLES[gateId] !== undefined) {
+        return [`cu1(${formatQasmAngle(PHASE_ANGLES[gateId])}) ${qubits};`];
+      }
+      if (gateId === 'SX') {
+        // SX = e^{iπ/4} Rx(π/2); the phase becomes a phase gate on the control
+        return [`cu3(pi/2, -pi/2, pi/2) ${qubits};`, `u1(pi/4) ${qubitRef(controls[0])};`];
+      }
+      if (['X', 'Y', 'Z', 'H', 'Rx', 'Ry', 'Rz', 'P', 'U'].includes(gateId)) {
+        return [`c${singleQubitCall(gate, version)} ${qubits};`];
+      }
+    }
+    throw new Error(
+      `Gate "${gateId}" with ${controls.length} controls cannot be exported to OpenQASM 2.0; export as 3.0 instead`
+    );
+  };
+
+  const flips = open.map(q => `x ${qubitRef(q)};`);
+  return [...flips, ...statements(), ...flips];
+}
+
+/**
+ * Convert a single gate instance into one or more QASM statements.
+ */
+function gateToQasm(gate: GateInstance, version: QasmVersion, registers: ClassicalRegister[]): string[] {
+  const { gateId } = gate;
+  const { controls, targets } = getGateOperands(gate);
+  const qubits = [...controls, ...targets].map(qubitRef).join(', ');
+
+  if (gate.matrix) {
+    throw new Error(`Custom gate "${gateId}" is defined by a matrix and cannot be exported to OpenQASM`);
+  }
+
+  if (isControllableGate(gateId) && controls.length > 0) {
+    return controlledGateToQasm(gate, controls, version);
+  }
+
+  if (gate.openControls?.length) {
+    // Open controls of the built-in controlled gates: flip them around the gate
+    const flips = gate.openControls.map(q => `x ${qubitRef(q)};`);
+    const { openControls: _openControls, ...closed } = gate;
+    return [...flips, ...gateToQasm(closed, version, registers), ...flips];
+  }
+
+  if (GATE_DEFINITIONS[gateId]?.numQubits === 1 && gateId !== 'M') {
+    return [`${singleQubitCall(gate, version)} ${qubits};`];
+  }
+
+  switch (gateId) {
+    case 'CNOT':
+      return [`cx ${qubits};`];
+    case 'CZ':
+      return [`cz ${qubits};`];
+    case 'SWAP':
+      return [`swap ${qubits};`];
+    case 'CCX':
+      return [`ccx ${qubits};`];
+    case 'CCZ': {
+      if (version === '3.0') {
+        return [`ctrl(2) @ z ${qubits};`];
+      }
+      // qelib1.inc has no ccz; conjugate the Toffoli target with Hadamards
+      const target = qubitRef(targets[0]);
+      return [`h ${target};`, `ccx ${qubits};`, `h ${target};`];
+    }
+    case 'CSWAP':
+      return [`cswap ${qubits};`];
+    case 'M':
+      return [measureStatement(gate.target, getMeasurementClbit(gate), version, registers)];
+    default:
+      throw new Error(`Gate "${gateId}" cannot be exported to OpenQASM`);
+  }
+}
+
+/**
+ * Export a circuit as OpenQASM 2.0 or 3.0 source text. Repeater blocks are
+ * written out unrolled and symbolic angles with their bound values.
+ */
+export function exportToQasm(sourceCircuit: CircuitState, options: QasmExportOptions = {}): string {
+  const circuit = expandRepeaters(bindParameters(expandComposites(sourceCircuit)));
+  const version = options.version ?? '2.0';
+  const includeFinalMeasurements = options.includeFinalMeasurements ?? true;
+  const { numQubits } = circuit;
+  const numClbits = getNumClbits(circuit);
+  const registers = layoutClassicalRegisters(circuit, version);
+
+  const lines: string[] = [];
+  lines.push(`OPENQASM ${version};`);
+  if (version === '2.0') {
+    lines.push('include "qelib1.inc";');
+  } else {
+    lines.push('include "stdgates.inc";');
+  }
+  lines.push('');
+  lines.push(`// ${circuit.name || 'Untitled Circuit'}`);
+  if (circuit.description) {
+    for (const line of circuit.description.split('\n')) {
+      lines.push(`// ${line}`);
+    }
+  }
+
+  if (version === '2.0') {
+    lines.push(`qreg q[${numQubits}];`);
+    for (const register of registers) {
+      lines.push(`creg ${register.name}[${register.size}];`);
+    }
+  } else {
+    lines.push(`qubit[${numQubits}] q;`);
+    lines.push(`bit[${numClbits}] c;`);
+  }
+  lines.push('');
+
+  // Stable sort keeps insertion order for gates sharing a column
+  const sortedGates = [...circuit.gates].sort((a, b) => a.column - b.column);
+
+  for (const gate of sortedGates) {
+    const statements = gateToQasm(gate, version, registers);
+    if (gate.condition) {
+      const prefix = conditionPrefix(gate.condition, numClbits, version, registers);
+      lines.push(...statements.map(statement => prefix + statement));
+    } else {
+      lines.push(...statements);
+    }
+  }
+
+  if (includeFinalMeasurements) {
+    for (const q of getImplicitMeasurements(circuit)) {
+      lines.push(measureStatement(q, q, version, registers));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
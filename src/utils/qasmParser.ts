@@ -0,0 +1,883 @@
+/**
+ * OpenQASM 2.0 / 3.0 import.
+ * Parses QASM source into a SavedCircuit, reporting unsupported constructs
+ * with line and column numbers in the same shape as ValidationResult.
+ */
+
+import { ClassicalCondition, SavedCircuit } from '../types/circuit';
+import { CIRCUIT_LIMITS } from '../config';
+import { ValidationResult } from './circuitValidator';
+import { evaluateExpression, ExpressionError } from './expression';
+
+export interface QasmImportResult extends ValidationResult {
+  circuit: SavedCircuit | null;
+}
+
+type SavedGate = SavedCircuit['gates'][number];
+
+interface QasmToken {
+  kind: 'identifier' | 'number' | 'string' | 'symbol' | 'end';
+  text: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+interface Register {
+  offset: number;
+  size: number;
+}
+
+interface GateSpec {
+  params: number;
+  qubits: number;
+  build: (qubits: number[], params: number[]) => SavedGate[];
+}
+
+/**
+ * Error carrying the source position of the offending token.
+ */
+class QasmSyntaxError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(message);
+    this.name = 'QasmSyntaxError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+function single(gateId: string) {
+  return (q: number[]): SavedGate[] => [{ gate: gateId, target: q[0] }];
+}
+
+function rotation(gateId: string) {
+  return (q: number[], p: number[]): SavedGate[] => [{ gate: gateId, target: q[0], angle: p[0] }];
+}
+
+// Single-qubit gate controlled by the first qubit
+function controlled(build: GateSpec['build']) {
+  return (q: number[], p: number[]): SavedGate[] =>
+    build(q.slice(1), p).map(g => ({ ...g, controls: [q[0]] }));
+}
+
+function buildControlledSwap(q: number[]): SavedGate[] {
+  const [control, a, b] = q;
+  const low = Math.min(a, b);
+  const high = Math.max(a, b);
+  // The editor's Fredkin gate swaps target-1 and target, so it only
+  // represents adjacent swap qubits; otherwise expand into CNOT + Toffoli
+  if (high - low === 1) {
+    return [{ gate: 'CSWAP', target: high, control, controls: [low, high] }];
+  }
+  return [
+    { gate: 'CNOT', target: a, control: b },
+    { gate: 'CCX', target: b, controls: [control, a] },
+    { gate: 'CNOT', target: a, control: b },
+  ];
+}
+
+// Gates understood by the importer, keyed by QASM name
+const GATE_SPECS: Record<string, GateSpec> = {
+  h: { params: 0, qubits: 1, build: single('H') },
+  x: { params: 0, qubits: 1, build: single('X') },
+  y: { params: 0, qubits: 1, build: single('Y') },
+  z: { params: 0, qubits: 1, build: single('Z') },
+  s: { params: 0, qubits: 1, build: single('S') },
+  sdg: { params: 0, qubits: 1, build: single('Sdg') },
+  t: { params: 0, qubits: 1, build: single('T') },
+  tdg: { params: 0, qubits: 1, build: single('Tdg') },
+  sx: { params: 0, qubits: 1, build: single('SX') },
+  id: { params: 0, qubits: 1, build: single('I') },
+  i: { params: 0, qubits: 1, build: single('I') },
+  rx: { params: 1, qubits: 1, build: rotation('Rx') },
+  ry: { params: 1, qubits: 1, build: rotation('Ry') },
+  rz: { params: 1, qubits: 1, build: rotation('Rz') },
+  p: { params: 1, qubits: 1, build: rotation('P') },
+  u1: { params: 1, qubits: 1, build: rotation('P') },
+  phase: { params: 1, qubits: 1, build: rotation('P') },
+  u2: {
+    params: 2,
+    qubits: 1,
+    build: (q, p) => [{ gate: 'U', target: q[0], angles: [Math.PI / 2, p[0], p[1]] }],
+  },
+  u3: { params: 3, qubits: 1, build: (q, p) => [{ gate: 'U', target: q[0], angles: p }] },
+  u: { params: 3, qubits: 1, build: (q, p) => [{ gate: 'U', target: q[0], angles: p }] },
+  U: { params: 3, qubits: 1, build: (q, p) => [{ gate: 'U', target: q[0], angles: p }] },
+  cx: { params: 0, qubits: 2, build: (q) => [{ gate: 'CNOT', target: q[1], control: q[0] }] },
+  CX: { params: 0, qubits: 2, build: (q) => [{ gate: 'CNOT', target: q[1], control: q[0] }] },
+  cnot: { params: 0, qubits: 2, build: (q) => [{ gate: 'CNOT', target: q[1], control: q[0] }] },
+  cz: { params: 0, qubits: 2, build: (q) => [{ gate: 'CZ', target: q[1], control: q[0] }] },
+  cy: { params: 0, qubits: 2, build: controlled(single('Y')) },
+  ch: { params: 0, qubits: 2, build: controlled(single('H')) },
+  csx: { params: 0, qubits: 2, build: controlled(single('SX')) },
+  crx: { params: 1, qubits: 2, build: controlled(rotation('Rx')) },
+  cry: { params: 1, qubits: 2, build: controlled(rotation('Ry')) },
+  crz: { params: 1, qubits: 2, build: controlled(rotation('Rz')) },
+  cp: { params: 1, qubits: 2, build: controlled(rotation('P')) },
+  cu1: { params: 1, qubits: 2, build: controlled(rotation('P')) },
+  cphase: { params: 1, qubits: 2, build: controlled(rotation('P')) },
+  cu3: { params: 3, qubits: 2, build: controlled((q, p) => [{ gate: 'U', target: q[0], angles: p }]) },
+  swap: {
+    params: 0,
+    qubits: 2,
+    build: (q) => [{ gate: 'SWAP', target: Math.min(q[0], q[1]), control: Math.max(q[0], q[1]) }],
+  },
+  ccx: { params: 0, qubits: 3, build: (q) => [{ gate: 'CCX', target: q[2], controls: [q[0], q[1]] }] },
+  toffoli: { params: 0, qubits: 3, build: (q) => [{ gate: 'CCX', target: q[2], controls: [q[0], q[1]] }] },
+  ccz: { params: 0, qubits: 3, build: (q) => [{ gate: 'CCZ', target: q[2], controls: [q[0], q[1]] }] },
+  cswap: { params: 0, qubits: 3, build: buildControlledSwap },
+  fredkin: { params: 0, qubits: 3, build: buildControlledSwap },
+};
+
+// Gate names produced by adding n `ctrl @` modifiers to a base gate
+const CONTROLLED_NAMES: Record<string, Record<number, string>> = {
+  x: { 1: 'cx', 2: 'ccx' },
+  cx: { 1: 'ccx' },
+  z: { 1: 'cz', 2: 'ccz' },
+  cz: { 1: 'ccz' },
+  swap: { 1: 'cswap' },
+};
+
+// Inverses of gates for the `inv @` modifier (rotations negate their angle)
+const INVERSE_NAMES: Record<string, string> = {
+  s: 'sdg',
+  sdg: 's',
+  t: 'tdg',
+  tdg: 't',
+};
+const SELF_INVERSE = new Set([
+  'h', 'x', 'y', 'z', 'id', 'i', 'cx', 'CX', 'cnot', 'cz', 'cy', 'ch', 'swap', 'ccx', 'toffoli', 'ccz', 'cswap', 'fredkin',
+]);
+const NEGATED_ANGLE = new Set(['rx', 'ry', 'rz', 'p', 'u1', 'phase', 'crx', 'cry', 'crz', 'cp', 'cu1', 'cphase']);
+
+// Statements recognised but not supported by the editor's circuit model
+const UNSUPPORTED_KEYWORDS = new Set([
+  'reset', 'else', 'gate', 'opaque', 'def', 'defcal', 'cal', 'for', 'while', 'const',
+  'input', 'output', 'let', 'box', 'delay', 'extern', 'return', 'break', 'continue',
+]);
+
+// Standard include files whose gates are built in
+const KNOWN_INCLUDES = new Set(['qelib1.inc', 'stdgates.inc']);
+
+function tokenize(source: string, errors: string[]): QasmToken[] {
+  const tokens: QasmToken[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (kind: QasmToken['kind'], text: string, start: number) => {
+    tokens.push({ kind, text, offset: start, line, column: start - lineStart + 1 });
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') {
+      i++;
+      line++;
+      lineStart = i;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    // Block comment
+    if (ch === '/' && source[i + 1] === '*') {
+      i += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+        i++;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (/[A-Za-z_π$]/.test(ch)) {
+      let j = i + 1;
+      while (j < source.length && /[A-Za-z0-9_π$]/.test(source[j])) j++;
+      push('identifier', source.slice(i, j), i);
+      i = j;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      const text = match ? match[0] : ch;
+      push('number', text, i);
+      i += text.length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      const stop = end === -1 ? source.length : end;
+      push('string', source.slice(i + 1, stop), i);
+      i = stop + 1;
+      continue;
+    }
+
+    if (ch === '-' && source[i + 1] === '>') {
+      push('symbol', '->', i);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '=' && source[i + 1] === '=') {
+      push('symbol', '==', i);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '&' && source[i + 1] === '&') {
+      push('symbol', '&&', i);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '*' && source[i + 1] === '*') {
+      push('symbol', '**', i);
+      i += 2;
+      continue;
+    }
+
+    if ('{}[]();,=+-*/^@:<>!'.includes(ch)) {
+      push('symbol', ch, i);
+      i++;
+      continue;
+    }
+
+    errors.push(`Line ${line}, column ${i - lineStart + 1}: unexpected character "${ch}"`);
+    i++;
+  }
+
+  tokens.push({ kind: 'end', text: '', offset: source.length, line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+class QasmParser {
+  private pos = 0;
+  private qregs = new Map<string, Register>();
+  private cregs = new Map<string, Register>();
+  private numQubits = 0;
+  private numClbits = 0;
+  private gates: SavedGate[] = [];
+  private version: string | null = null;
+
+  constructor(
+    private source: string,
+    private tokens: QasmToken[],
+    private errors: string[],
+    private warnings: string[]
+  ) {}
+
+  parse(): { numQubits: number; numClbits: number; gates: SavedGate[] } {
+    while (this.peek().kind !== 'end') {
+      const start = this.pos;
+      try {
+        this.parseStatement();
+      } catch (err) {
+        if (err instanceof QasmSyntaxError) {
+          this.errors.push(`Line ${err.line}, column ${err.column}: ${err.message}`);
+        } else {
+          throw err;
+        }
+        this.recover(start);
+      }
+    }
+
+    if (this.version === null) {
+      this.warnings.push('Missing OPENQASM version header; assuming 2.0');
+    }
+
+    return { numQubits: this.numQubits, numClbits: this.numClbits, gates: this.gates };
+  }
+
+  private peek(ahead: number = 0): QasmToken {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): QasmToken {
+    const token = this.peek();
+    if (token.kind !== 'end') this.pos++;
+    return token;
+  }
+
+  private fail(message: string, token: QasmToken = this.peek()): never {
+    throw new QasmSyntaxError(message, token.line, token.column);
+  }
+
+  private warn(message: string, token: QasmToken): void {
+    this.warnings.push(`Line ${token.line}, column ${token.column}: ${message}`);
+  }
+
+  private isSymbol(symbol: string, ahead: number = 0): boolean {
+    const token = this.peek(ahead);
+    return token.kind === 'symbol' && token.text === symbol;
+  }
+
+  private expectSymbol(symbol: string): QasmToken {
+    if (!this.isSymbol(symbol)) {
+      const token = this.peek();
+      this.fail(`expected "${symbol}" but found ${token.kind === 'end' ? 'end of file' : `"${token.text}"`}`);
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(what: string): QasmToken {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      this.fail(`expected ${what}`);
+    }
+    return this.next();
+  }
+
+  private expectInteger(what: string): number {
+    const token = this.peek();
+    if (token.kind !== 'number' || !/^\d+$/.test(token.text)) {
+      this.fail(`expected ${what}`);
+    }
+    this.next();
+    return parseInt(token.text, 10);
+  }
+
+  // Skip the rest of a failed statement, including any braced body
+  private recover(start: number): void {
+    // Errors raised after the terminating semicolon need no skipping
+    const last = this.tokens[this.pos - 1];
+    if (this.pos > start && last.kind === 'symbol' && last.text === ';') return;
+    if (this.pos === start) this.next();
+    let depth = 0;
+    while (this.peek().kind !== 'end') {
+      const token = this.next();
+      if (token.kind !== 'symbol') continue;
+      if (token.text === '{') depth++;
+      if (token.text === '}') {
+        depth--;
+        if (depth <= 0) return;
+      }
+      if (token.text === ';' && depth === 0) return;
+    }
+  }
+
+  private parseStatement(): void {
+    const token = this.peek();
+
+    if (token.kind === 'symbol' && token.text === ';') {
+      this.next();
+      return;
+    }
+
+    if (token.kind !== 'identifier') {
+      this.fail(`unexpected "${token.text}"`);
+    }
+
+    switch (token.text) {
+      case 'OPENQASM':
+        this.parseVersion();
+        return;
+      case 'include':
+        this.parseInclude();
+        return;
+      case 'qreg':
+      case 'creg':
+        this.parseLegacyRegister(token.text === 'qreg');
+        return;
+      case 'qubit':
+      case 'bit':
+        this.parseRegister(token.text === 'qubit');
+        return;
+      case 'measure':
+        this.parseMeasure();
+        return;
+      case 'barrier':
+        this.skipStatement();
+        return;
+      case 'if':
+        this.parseIf();
+        return;
+      case 'ctrl':
+      case 'negctrl':
+      case 'inv':
+      case 'pow':
+        this.parseGateCall();
+        return;
+    }
+
+    if (UNSUPPORTED_KEYWORDS.has(token.text)) {
+      this.fail(`unsupported statement "${token.text}"`);
+    }
+
+    // QASM 3 assignment form: c[0] = measure q[0];
+    if (this.isAssignment()) {
+      this.parseMeasureAssignment();
+      return;
+    }
+
+    this.parseGateCall();
+  }
+
+  private parseVersion(): void {
+    this.next();
+    const token = this.peek();
+    if (token.kind !== 'number') {
+      this.fail('expected version number');
+    }
+    this.next();
+    if (!/^[23](\.\d+)?$/.test(token.text)) {
+      this.fail(`unsupported OpenQASM version ${token.text}`, token);
+    }
+    this.version = token.text;
+    this.expectSymbol(';');
+  }
+
+  private parseInclude(): void {
+    this.next();
+    const token = this.peek();
+    if (token.kind !== 'string') {
+      this.fail('expected include file name');
+    }
+    this.next();
+    if (!KNOWN_INCLUDES.has(token.text)) {
+      this.warn(`include "${token.text}" ignored; only standard gates are available`, token);
+    }
+    this.expectSymbol(';');
+  }
+
+  // qreg q[3]; / creg c[3];
+  private parseLegacyRegister(quantum: boolean): void {
+    this.next();
+    const name = this.expectIdentifier('register name');
+    this.expectSymbol('[');
+    const size = this.expectInteger('register size');
+    this.expectSymbol(']');
+    this.expectSymbol(';');
+    this.declareRegister(name, size, quantum);
+  }
+
+  // qubit[3] q; / qubit q; / bit[3] c;
+  private parseRegister(quantum: boolean): void {
+    this.next();
+    let size = 1;
+    if (this.isSymbol('[')) {
+      this.next();
+      size = this.expectInteger('register size');
+      this.expectSymbol(']');
+    }
+    const name = this.expectIdentifier('register name');
+    if (this.isSymbol('=')) {
+      this.fail('initialised declarations are not supported');
+    }
+    this.expectSymbol(';');
+    this.declareRegister(name, size, quantum);
+  }
+
+  private declareRegister(nameToken: QasmToken, size: number, quantum: boolean): void {
+    const name = nameToken.text;
+    if (this.qregs.has(name) || this.cregs.has(name)) {
+      this.fail(`register "${name}" is already declared`, nameToken);
+    }
+    if (size < 1) {
+      this.fail(`register "${name}" must have at least one bit`, nameToken);
+    }
+
+    if (quantum) {
+      if (this.numQubits + size > CIRCUIT_LIMITS.MAX_QUBITS) {
+        this.fail(
+          `register "${name}" exceeds the ${CIRCUIT_LIMITS.MAX_QUBITS}-qubit limit (${this.numQubits + size} qubits declared)`,
+          nameToken
+        );
+      }
+      this.qregs.set(name, { offset: this.numQubits, size });
+      this.numQubits += size;
+    } else {
+      if (this.numClbits + size > CIRCUIT_LIMITS.MAX_CLBITS) {
+        this.fail(
+          `register "${name}" exceeds the ${CIRCUIT_LIMITS.MAX_CLBITS}-bit classical limit (${this.numClbits + size} bits declared)`,
+          nameToken
+        );
+      }
+      this.cregs.set(name, { offset: this.numClbits, size });
+      this.numClbits += size;
+    }
+  }
+
+  private isAssignment(): boolean {
+    let ahead = 1;
+    if (this.isSymbol('[', ahead)) {
+      ahead += 3;
+    }
+    return this.isSymbol('=', ahead);
+  }
+
+  private skipStatement(): void {
+    while (!this.isSymbol(';') && this.peek().kind !== 'end') {
+      this.next();
+    }
+    this.expectSymbol(';');
+  }
+
+  // Resolve `reg` or `reg[i]` into absolute bit indices
+  private parseOperand(quantum: boolean): number[] {
+    const nameToken = this.expectIdentifier(quantum ? 'qubit operand' : 'classical bit operand');
+    const registers = quantum ? this.qregs : this.cregs;
+    const register = registers.get(nameToken.text);
+
+    if (!register) {
+      const other = quantum ? this.cregs : this.qregs;
+      this.fail(
+        other.has(nameToken.text)
+          ? `"${nameToken.text}" is a ${quantum ? 'classical' : 'quantum'} register`
+          : `undeclared register "${nameToken.text}"`,
+        nameToken
+      );
+    }
+
+    if (this.isSymbol('[')) {
+      this.next();
+      const indexToken = this.peek();
+      const index = this.expectInteger('bit index');
+      this.expectSymbol(']');
+      if (index >= register.size) {
+        this.fail(`index ${index} out of range for register "${nameToken.text}" of size ${register.size}`, indexToken);
+      }
+      return [register.offset + index];
+    }
+
+    return Array.from({ length: register.size }, (_, i) => register.offset + i);
+  }
+
+  // measure q[0] -> c[0];
+  private parseMeasure(): void {
+    const keyword = this.next();
+    const qubits = this.parseOperand(true);
+    let clbits: number[] | null = null;
+    if (this.isSymbol('->')) {
+      this.next();
+      clbits = this.parseOperand(false);
+    }
+    this.expectSymbol(';');
+    this.addMeasurements(qubits, clbits, keyword);
+  }
+
+  // c[0] = measure q[0];
+  private parseMeasureAssignment(): void {
+    const start = this.peek();
+    const clbits = this.parseOperand(false);
+    this.expectSymbol('=');
+    const keyword = this.peek();
+    if (keyword.kind !== 'identifier' || keyword.text !== 'measure') {
+      this.fail('only measurement results can be assigned to classical bits', start);
+    }
+    this.next();
+    const qubits = this.parseOperand(true);
+    this.expectSymbol(';');
+    this.addMeasurements(qubits, clbits, start);
+  }
+
+  private addMeasurements(qubits: number[], clbits: number[] | null, token: QasmToken): void {
+    if (clbits && clbits.length !== qubits.length) {
+      this.fail(`measurement operands have different sizes (${qubits.length} qubits, ${clbits.length} bits)`, token);
+    }
+    qubits.forEach((qubit, i) => {
+      const clbit = clbits ? clbits[i] : qubit;
+      this.gates.push({ gate: 'M', target: qubit, ...(clbit !== qubit && { clbit }) });
+    });
+  }
+
+  // if (c == 3) x q[0];  /  if (c[0] == 1 && c[1]) { ... }
+  private parseIf(): void {
+    const keyword = this.next();
+    this.expectSymbol('(');
+    const condition: ClassicalCondition = { clbits: [], value: 0 };
+    do {
+      if (condition.clbits.length > 0) this.next();
+      this.parseConditionTerm(condition, keyword);
+    } while (this.isSymbol('&&'));
+    this.expectSymbol(')');
+
+    const firstGate = this.gates.length;
+    if (this.isSymbol('{')) {
+      this.next();
+      while (!this.isSymbol('}')) {
+        if (this.peek().kind === 'end') this.fail('unterminated if body', keyword);
+        this.parseStatement();
+      }
+      this.next();
+    } else {
+      this.parseStatement();
+    }
+
+    // Nested conditions combine with the enclosing one
+    for (const gate of this.gates.slice(firstGate)) {
+      const combined = { clbits: [...condition.clbits], value: condition.value };
+      if (gate.condition) {
+        gate.condition.clbits.forEach((clbit, i) => {
+          this.addConditionBit(combined, clbit, (gate.condition!.value >> i) & 1, keyword);
+        });
+      }
+      gate.condition = combined;
+    }
+  }
+
+  // One term of a condition: `reg == value`, `reg[i] == value`, `reg[i]` or `!reg[i]`
+  private parseConditionTerm(condition: ClassicalCondition, keyword: QasmToken): void {
+    const negated = this.isSymbol('!');
+    if (negated) this.next();
+
+    const operandToken = this.peek();
+    const clbits = this.parseOperand(false);
+
+    let value = 1;
+    if (this.isSymbol('==')) {
+      if (negated) this.fail('unsupported condition', operandToken);
+      this.next();
+      const valueToken = this.peek();
+      value = this.expectInteger('condition value');
+      if (value >= 2 ** clbits.length) {
+        this.fail(`value ${value} does not fit in ${clbits.length} classical bit${clbits.length === 1 ? '' : 's'}`, valueToken);
+      }
+    } else {
+      if (clbits.length !== 1) this.fail('a register condition needs a value, e.g. c == 1', operandToken);
+      if (negated) value = 0;
+    }
+
+    clbits.forEach((clbit, i) => this.addConditionBit(condition, clbit, (value >> i) & 1, keyword));
+  }
+
+  private addConditionBit(condition: ClassicalCondition, clbit: number, bit: number, token: QasmToken): void {
+    const existing = condition.clbits.indexOf(clbit);
+    if (existing >= 0) {
+      if (((condition.value >> existing) & 1) !== bit) {
+        this.fail('condition can never be satisfied', token);
+      }
+      return;
+    }
+    condition.value |= bit << condition.clbits.length;
+    condition.clbits.push(clbit);
+  }
+
+  // [modifiers @]* name[(params)] operands;
+  private parseGateCall(): void {
+    // One entry per control added by modifiers, true for `negctrl` (open) controls
+    const modifierControls: boolean[] = [];
+    let inverse = false;
+
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== 'identifier' || !['ctrl', 'negctrl', 'inv', 'pow'].includes(token.text)) break;
+      if (!this.isSymbol('@', 1) && !this.isSymbol('(', 1)) break;
+
+      this.next();
+      if (token.text === 'pow') {
+        this.fail(`unsupported gate modifier "${token.text}"`, token);
+      }
+
+      let count = 1;
+      if (this.isSymbol('(')) {
+        this.next();
+        count = this.expectInteger('modifier argument');
+        this.expectSymbol(')');
+      }
+      this.expectSymbol('@');
+
+      if (token.text === 'ctrl' || token.text === 'negctrl') {
+        modifierControls.push(...new Array<boolean>(count).fill(token.text === 'negctrl'));
+      } else {
+        inverse = !inverse;
+      }
+    }
+
+    const nameToken = this.expectIdentifier('gate name');
+    let name = nameToken.text;
+
+    // Controls from modifiers either select a built-in controlled gate
+    // or are added to a single-qubit gate
+    const controlCount = modifierControls.length;
+    let addedControls = 0;
+    if (controlCount > 0) {
+      const controlled = CONTROLLED_NAMES[name]?.[controlCount];
+      if (controlled) {
+        name = controlled;
+      } else if (GATE_SPECS[name]?.qubits === 1 && name !== 'id' && name !== 'i') {
+        addedControls = controlCount;
+      } else {
+        this.fail(`unsupported gate "${'ctrl @ '.repeat(controlCount)}${name}"`, nameToken);
+      }
+    }
+
+    const spec = GATE_SPECS[name];
+    if (!spec) {
+      this.fail(`unsupported gate "${name}"`, nameToken);
+    }
+    const numOperands = spec.qubits + addedControls;
+
+    const params = this.isSymbol('(') ? this.parseParameters() : [];
+    if (params.length !== spec.params) {
+      this.fail(`gate "${name}" expects ${spec.params} parameter${spec.params === 1 ? '' : 's'}, got ${params.length}`, nameToken);
+    }
+
+    const operands: number[][] = [];
+    do {
+      if (operands.length > 0) this.next();
+      operands.push(this.parseOperand(true));
+    } while (this.isSymbol(','));
+    this.expectSymbol(';');
+
+    if (operands.length !== numOperands) {
+      this.fail(`gate "${name}" expects ${numOperands} qubit${numOperands === 1 ? '' : 's'}, got ${operands.length}`, nameToken);
+    }
+
+    if (inverse) {
+      if (INVERSE_NAMES[name]) {
+        name = INVERSE_NAMES[name];
+      } else if (NEGATED_ANGLE.has(name)) {
+        params[0] = -params[0];
+      } else if (!SELF_INVERSE.has(name)) {
+        this.fail(`unsupported gate "inv @ ${name}"`, nameToken);
+      }
+    }
+
+    // Broadcast register operands (e.g. `h q;` applies to every qubit)
+    const width = Math.max(...operands.map(o => o.length));
+    if (operands.some(o => o.length !== 1 && o.length !== width)) {
+      this.fail(`register operands of gate "${name}" have different sizes`, nameToken);
+    }
+
+    const build = GATE_SPECS[name].build;
+    for (let i = 0; i < width; i++) {
+      const qubits = operands.map(o => (o.length === 1 ? o[0] : o[i]));
+      if (new Set(qubits).size !== qubits.length) {
+        this.fail(`gate "${name}" is applied to the same qubit more than once`, nameToken);
+      }
+      if (name === 'cswap' || name === 'fredkin') {
+        const [, a, b] = qubits;
+        if (Math.abs(a - b) !== 1) {
+          this.warn(`cswap on non-adjacent qubits expanded into CNOT and Toffoli gates`, nameToken);
+        }
+      }
+      const gates = build(qubits.slice(addedControls), params);
+      // Leading qubits belong to the modifiers, in the order written
+      const controls = qubits.slice(0, controlCount);
+      const openControls = controls.filter((_, c) => modifierControls[c]);
+      if (openControls.length > 0 && gates.length !== 1) {
+        this.fail(`gate "${name}" does not support negctrl`, nameToken);
+      }
+      this.gates.push(...gates.map(gate => ({
+        ...gate,
+        ...(addedControls > 0 && { controls }),
+        ...(openControls.length > 0 && { openControls }),
+      })));
+    }
+  }
+
+  // Evaluate a parenthesised, comma-separated list of angle expressions
+  private parseParameters(): number[] {
+    const open = this.expectSymbol('(');
+    const values: number[] = [];
+    let depth = 0;
+    let segmentStart = open.offset + 1;
+    let segmentToken: QasmToken | null = null;
+
+    while (true) {
+      const token = this.peek();
+      if (token.kind === 'end') {
+        this.fail('unterminated parameter list', open);
+      }
+      this.next();
+
+      if (token.kind === 'symbol' && token.text === '(') depth++;
+      if (token.kind === 'symbol' && token.text === ')' && depth > 0) {
+        depth--;
+        continue;
+      }
+
+      const closes = token.kind === 'symbol' && token.text === ')';
+      const separates = token.kind === 'symbol' && token.text === ',' && depth === 0;
+
+      if (closes || separates) {
+        if (!segmentToken) {
+          this.fail('empty parameter', token);
+        }
+        values.push(this.evaluateParameter(segmentStart, token.offset, segmentToken));
+        segmentStart = token.offset + 1;
+        segmentToken = null;
+        if (closes) return values;
+      } else if (!segmentToken) {
+        segmentToken = token;
+      }
+    }
+  }
+
+  private evaluateParameter(start: number, end: number, first: QasmToken): number {
+    const text = this.source.slice(start, end);
+    try {
+      const value = evaluateExpression(text);
+      if (!Number.isFinite(value)) {
+        this.fail('parameter does not evaluate to a finite number', first);
+      }
+      return value;
+    } catch (err) {
+      if (err instanceof ExpressionError) {
+        // Translate the expression offset back into a source position
+        const absolute = start + err.offset;
+        const before = this.source.slice(0, absolute);
+        const line = before.split('\n').length;
+        const column = absolute - before.lastIndexOf('\n');
+        throw new QasmSyntaxError(err.message, line, column);
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Parse OpenQASM source into a circuit that can be passed to loadCircuit.
+ * Columns are laid out automatically when the circuit is loaded.
+ */
+export function parseQasm(source: string, name: string = 'Imported Circuit'): QasmImportResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const tokens = tokenize(source, errors);
+  const parser = new QasmParser(source, tokens, errors, warnings);
+  const { numQubits, numClbits, gates } = parser.parse();
+
+  if (numQubits === 0 && errors.length === 0) {
+    errors.push('No quantum register declared');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings, circuit: null };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    valid: true,
+    errors,
+    warnings,
+    circuit: {
+      version: '1.0',
+      name,
+      numQubits,
+      ...(numClbits > 0 && numClbits !== numQubits && { numClbits }),
+      gates,
+      createdAt: now,
+      updatedAt: now,
+    },
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Repeater blocks: rectangular regions of the circuit whose gates run
+ * several times in a row. The simulators and exporters work on the
+ * expanded circuit.
+ */
+
+import { CircuitState, GateInstance, RepeaterBlock } from '../types/circuit';
+import { getGateOperands } from './gateDefinitions';
+
+/**
+ * Number of columns a repeater spans.
+ */
+export function getRepeaterWidth(repeater: RepeaterBlock): number {
+  return repeater.columnEnd - repeater.columnStart + 1;
+}
+
+/**
+ * Whether a gate is repeated by a block: it must sit in one of the block's
+ * columns with every qubit it acts on inside the block's qubit range.
+ */
+export function isGateInRepeater(gate: GateInstance, repeater: RepeaterBlock): boolean {
+  if (gate.column < repeater.columnStart || gate.column > repeater.columnEnd) return false;
+  const { controls, targets } = getGateOperands(gate);
+  return [...controls, ...targets].every(q => q >= repeater.qubitStart && q <= repeater.qubitEnd);
+}
+
+/**
+ * Gates repeated by a block.
+ */
+export function getRepeaterGates(gates: GateInstance[], repeater: RepeaterBlock): GateInstance[] {
+  return gates.filter(gate => isGateInRepeater(gate, repeater));
+}
+
+/**
+ * Whether two blocks share a column. Blocks are expanded column by column,
+ * so they must not overlap in time even on different qubits.
+ */
+export function repeatersOverlap(
+  a: Omit<RepeaterBlock, 'id'>,
+  b: Omit<RepeaterBlock, 'id'>
+): boolean {
+  return a.columnStart <= b.columnEnd && b.columnStart <= a.columnEnd;
+}
+
+/**
+ * Smallest block covering a set of gates.
+ */
+export function getGatesBoundingBox(
+  gates: GateInstance[]
+): Pick<RepeaterBlock, 'qubitStart' | 'qubitEnd' | 'columnStart' | 'columnEnd'> | null {
+  if (gates.length === 0) return null;
+  const qubits = gates.flatMap(gate => {
+    const { controls, targets } = getGateOperands(gate);
+    return [...controls, ...targets];
+  });
+  const columns = gates.map(gate => gate.column);
+  return {
+    qubitStart: Math.min(...qubits),
+    qubitEnd: Math.max(...qubits),
+    columnStart: Math.min(...columns),
+    columnEnd: Math.max(...columns),
+  };
+}
+
+/**
+ * Unroll every repeater into plain gates. Repeated gates are copied once per
+ * repetition into consecutive column ranges, and later gates are shifted
+ * right to make room. The result has no repeaters.
+ */
+export function expandRepeaters(circuit: CircuitState): CircuitState {
+  const repeaters = [...(circuit.repeaters ?? [])]
+    .filter(r => r.repetitions !== 1)
+    .sort((a, b) => a.columnStart - b.columnStart);
+  if (repeaters.length === 0) {
+    return circuit.repeaters ? { ...circuit, repeaters: undefined } : circuit;
+  }
+
+  // Columns added by the blocks that end before a column
+  const shiftBefore = (column: number): number =>
+    repeaters.reduce(
+      (shift, r) => (r.columnEnd < column ? shift + (r.repetitions - 1) * getRepeaterWidth(r) : shift),
+      0
+    );
+
+  const gates: GateInstance[] = [];
+  for (const gate of circuit.gates) {
+    const column = gate.column + shiftBefore(gate.column);
+    const repeater = repeaters.find(r => isGateInRepeater(gate, r));
+    if (!repeater) {
+      gates.push(column === gate.column ? gate : { ...gate, column });
+      continue;
+    }
+
+    const width = getRepeaterWidth(repeater);
+    for (let rep = 0; rep < repeater.repetitions; rep++) {
+      gates.push({ ...gate, id: `${gate.id}_rep${rep}`, column: column + rep * width });
+    }
+  }
+
+  return { ...circuit, gates, repeaters: undefined };
+}
+
+/**
+ * Last column of the expanded circuit that belongs to editor column
+ * `column`. Inside a block this is the column's copy in the final
+ * repetition, so running up to it means every earlier pass has completed.
+ */
+export function getExpandedColumn(circuit: CircuitState, column: number): number {
+  // Blocks that end before the column, or contain it, add their extra passes
+  return (circuit.repeaters ?? []).reduce(
+    (expanded, r) => (r.columnStart <= column ? expanded + (r.repetitions - 1) * getRepeaterWidth(r) : expanded),
+    column
+  );
+}
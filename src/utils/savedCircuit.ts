@@ -0,0 +1,122 @@
+/**
+ * Conversion between the saved circuit format and the editor's circuit state.
+ */
+
+import { CircuitState, SavedCircuit } from '../types/circuit';
+import { getMeasurementClbit, getNumClbits } from './classicalBits';
+
+/**
+ * Place gates in columns by their order in the file: each gate goes in the
+ * first column after the previous gates on its qubits and classical bits.
+ */
+function layoutGates(circuit: CircuitState): CircuitState {
+  const gates = [...circuit.gates];
+  const qubitColumns: number[] = new Array(circuit.numQubits).fill(0);
+  // Classical bits order measurements before the gates conditioned on them
+  const clbitColumns: number[] = new Array(getNumClbits(circuit)).fill(0);
+
+  for (let i = 0; i < gates.length; i++) {
+    const gate = gates[i];
+    const affectedQubits = [gate.target];
+    if (gate.control !== undefined) affectedQubits.push(gate.control);
+    if (gate.controls !== undefined) affectedQubits.push(...gate.controls);
+    if (gate.targets !== undefined) affectedQubits.push(...gate.targets);
+
+    const affectedClbits = gate.condition ? [...gate.condition.clbits] : [];
+    if (gate.gateId === 'M') affectedClbits.push(getMeasurementClbit(gate));
+
+    const column = Math.max(
+      ...affectedQubits.map(q => qubitColumns[q]),
+      ...affectedClbits.map(b => clbitColumns[b] ?? 0)
+    );
+    gates[i] = { ...gate, column };
+
+    for (const q of affectedQubits) {
+      qubitColumns[q] = column + 1;
+    }
+    for (const b of affectedClbits) {
+      clbitColumns[b] = column + 1;
+    }
+  }
+
+  return { ...circuit, gates };
+}
+
+/**
+ * Build a circuit state from a validated saved circuit. The saved layout is
+ * kept when every gate has a column (repeaters refer to it); otherwise the
+ * columns are recalculated from the gate order.
+ */
+export function circuitFromSaved(saved: SavedCircuit, createId: () => string): CircuitState {
+  const hasLayout = saved.gates.length > 0 && saved.gates.every(g => g.column !== undefined);
+  const circuit: CircuitState = {
+    numQubits: saved.numQubits,
+    name: saved.name,
+    description: saved.description,
+    gates: saved.gates.map(g => ({
+      id: createId(),
+      gateId: g.gate,
+      target: g.target,
+      column: hasLayout ? g.column! : 0, // Calculated below when missing
+      ...(g.control !== undefined && { control: g.control }),
+      ...(g.controls !== undefined && { controls: g.controls }),
+      ...(g.openControls !== undefined && { openControls: g.openControls }),
+      ...(g.targets !== undefined && { targets: g.targets }),
+      ...(g.angle !== undefined && { angle: g.angle }),
+      ...(g.angles !== undefined && { angles: g.angles }),
+      ...(g.angleExpression !== undefined && { angleExpression: g.angleExpression }),
+      ...(g.angleExpressions !== undefined && { angleExpressions: g.angleExpressions }),
+      ...(g.clbit !== undefined && { clbit: g.clbit }),
+      ...(g.condition !== undefined && { condition: g.condition }),
+      ...(g.inverse && { inverse: true }),
+    })),
+    ...(saved.numClbits !== undefined && { numClbits: saved.numClbits }),
+    ...(saved.repeaters !== undefined && {
+      repeaters: saved.repeaters.map(r => ({ ...r, id: createId() })),
+    }),
+    ...(saved.parameters !== undefined && { parameters: saved.parameters }),
+    ...(saved.noiseModel !== undefined && { noiseModel: saved.noiseModel }),
+    ...(saved.customGates !== undefined && { customGates: saved.customGates }),
+    ...(saved.composites !== undefined && { composites: saved.composites }),
+  };
+
+  return hasLayout ? circuit : layoutGates(circuit);
+}
+
+/**
+ * Saved form of a circuit state, with the gates in column order.
+ */
+export function circuitToSaved(circuit: CircuitState): SavedCircuit {
+  const sortedGates = [...circuit.gates].sort((a, b) => a.column - b.column);
+
+  return {
+    version: '1.0',
+    name: circuit.name,
+    description: circuit.description,
+    numQubits: circuit.numQubits,
+    gates: sortedGates.map(g => ({
+      gate: g.gateId,
+      target: g.target,
+      column: g.column,
+      ...(g.control !== undefined && { control: g.control }),
+      ...(g.controls !== undefined && { controls: g.controls }),
+      ...(g.openControls !== undefined && { openControls: g.openControls }),
+      ...(g.targets !== undefined && { targets: g.targets }),
+      ...(g.angle !== undefined && { angle: g.angle }),
+      ...(g.angles !== undefined && { angles: g.angles }),
+      ...(g.angleExpression !== undefined && { angleExpression: g.angleExpression }),
+      ...(g.angleExpressions !== undefined && { angleExpressions: g.angleExpressions }),
+      ...(g.clbit !== undefined && { clbit: g.clbit }),
+      ...(g.condition !== undefined && { condition: g.condition }),
+      ...(g.inverse && { inverse: true }),
+    })),
+    ...(circuit.numClbits !== undefined && { numClbits: circuit.numClbits }),
+    ...(circuit.repeaters?.length && { repeaters: circuit.repeaters.map(({ id: _id, ...block }) => block) }),
+    ...(circuit.parameters !== undefined && { parameters: circuit.parameters }),
+    ...(circuit.noiseModel !== undefined && { noiseModel: circuit.noiseModel }),
+    ...(circuit.customGates?.length && { customGates: circuit.customGates }),
+    ...(circuit.composites?.length && { composites: circuit.composites }),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}